@@ -5,12 +5,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Layout from "./components/Layout";
+import RequireAuth from "./components/RequireAuth";
 import Landing from "./pages/Landing";
 import Index from "./pages/Index";
 import Features from "./pages/Features";
 import HistoryPage from "./pages/HistoryPage";
 import Emergency from "./pages/Emergency";
 import Settings from "./pages/Settings";
+import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -38,10 +40,11 @@ const App = () => (
         <Layout>
           <Routes>
             <Route path="/" element={<Landing />} />
-            <Route path="/dashboard" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/dashboard" element={<RequireAuth><Index /></RequireAuth>} />
             <Route path="/features" element={<Features />} />
-            <Route path="/history" element={<HistoryPage />} />
-            <Route path="/emergency" element={<Emergency />} />
+            <Route path="/history" element={<RequireAuth><HistoryPage /></RequireAuth>} />
+            <Route path="/emergency" element={<RequireAuth><Emergency /></RequireAuth>} />
             <Route path="/settings" element={<Settings />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
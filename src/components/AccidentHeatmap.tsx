@@ -1,136 +1,200 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Flame, RefreshCw } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
-
-interface CollisionEvent {
-  id: string;
-  location_lat: number;
-  location_lng: number;
-  severity: string;
-  timestamp: string;
-}
+import { useDangerZones } from '@/hooks/useDangerZones';
+import { filterHeatEvents, HeatEvent, HeatSeverity, TimeWindow, timeWindowRange } from '@/lib/heatmap';
+import { createHeatLayer, HeatLayer } from '@/lib/heatLayer';
+import { createCachedTileLayer } from '@/lib/cachedTileLayer';
+import { tileCacheConfig } from '@/lib/tileCache';
+import { useSettings } from '@/hooks/useSettings';
 
 interface AccidentHeatmapProps {
   currentLocation: { lat: number; lng: number } | null;
 }
 
+const HOUR_PRESETS: Record<string, { label: string; range: [number, number] }> = {
+  all: { label: 'All day', range: [0, 24] },
+  morning: { label: 'Morning rush (6-10)', range: [6, 10] },
+  day: { label: 'Daytime (10-16)', range: [10, 16] },
+  evening: { label: 'Evening rush (16-20)', range: [16, 20] },
+  night: { label: 'Night (20-6)', range: [20, 6] },
+};
+
+const WINDOW_LABELS: Record<TimeWindow, string> = {
+  '24h': '24 hours',
+  '7d': '7 days',
+  '30d': '30 days',
+  custom: 'Custom',
+};
+
+const PAGE_SIZE = 1000;
+const MAX_EVENTS = 10000;
+const POPUP_EVENT_LIMIT = 8;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
 const AccidentHeatmap = ({ currentLocation }: AccidentHeatmapProps) => {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
-  const heatLayerRef = useRef<L.CircleMarker[]>([]);
-  const [events, setEvents] = useState<CollisionEvent[]>([]);
+  const heatLayerRef = useRef<HeatLayer | null>(null);
+  const zoneLayerRef = useRef<L.Circle[]>([]);
+  const [events, setEvents] = useState<HeatEvent[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>('30d');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [hourPreset, setHourPreset] = useState('all');
+  const [weather, setWeather] = useState('any');
+  const { zones, isLoading: isZonesLoading, refresh: refreshZones } = useDangerZones();
+  const { settings } = useSettings();
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const fetchAbortRef = useRef<AbortController | null>(null);
 
-  // Fetch collision events
-  const fetchEvents = async () => {
+  // Fetch collision events for the selected time window, paging past the API row limit.
+  // A newer fetch cancels the one in flight so its pages can't land over the new window.
+  const fetchEvents = useCallback(async () => {
+    fetchAbortRef.current?.abort();
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
     setIsLoading(true);
-    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
-    
-    const { data, error } = await supabase
-      .from('collision_events')
-      .select('*')
-      .gte('timestamp', thirtyDaysAgo)
-      .order('timestamp', { ascending: false });
-
-    if (!error && data) {
-      setEvents(data);
+    const { from, to } = timeWindowRange(timeWindow, {
+      from: customFrom ? new Date(`${customFrom}T00:00:00`) : null,
+      to: customTo ? new Date(`${customTo}T23:59:59`) : null,
+    });
+
+    const loaded: HeatEvent[] = [];
+    for (let offset = 0; offset < MAX_EVENTS; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('public_collision_events')
+        .select('id, location_lat, location_lng, severity, timestamp, weather_condition, relative_speed')
+        .gte('timestamp', from.toISOString())
+        .lte('timestamp', to.toISOString())
+        .order('timestamp', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1)
+        .abortSignal(controller.signal);
+
+      if (controller.signal.aborted) return;
+      if (error) {
+        console.error('Error fetching collision events:', error);
+        break;
+      }
+
+      loaded.push(...(data || []).map(e => ({
+        id: e.id,
+        lat: Number(e.location_lat),
+        lng: Number(e.location_lng),
+        severity: e.severity as HeatSeverity,
+        timestamp: e.timestamp,
+        weather: e.weather_condition,
+        relativeSpeed: e.relative_speed,
+      })));
+      if (!data || data.length < PAGE_SIZE) break;
     }
+
+    setEvents(loaded);
     setIsLoading(false);
-  };
+    fetchAbortRef.current = null;
+  }, [timeWindow, customFrom, customTo]);
+
+  useEffect(() => () => fetchAbortRef.current?.abort(), []);
+
+  const weatherOptions = useMemo(
+    () => Array.from(new Set(events.map(e => e.weather ?? 'unknown'))).sort(),
+    [events]
+  );
+
+  const visibleEvents = useMemo(() => filterHeatEvents(events, {
+    hourRange: HOUR_PRESETS[hourPreset].range,
+    weather: weather === 'any' ? null : weather,
+  }), [events, hourPreset, weather]);
 
   // Initialize map
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
 
     const center = currentLocation || { lat: 28.6139, lng: 77.2090 };
-    mapRef.current = L.map(mapContainerRef.current).setView([center.lat, center.lng], 12);
+    const map = L.map(mapContainerRef.current).setView([center.lat, center.lng], 12);
+    mapRef.current = map;
 
-    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '© OpenStreetMap',
-      maxZoom: 18,
-    }).addTo(mapRef.current);
+    createCachedTileLayer('default', () => tileCacheConfig(settingsRef.current), { maxZoom: 18 }).addTo(map);
 
-    fetchEvents();
+    heatLayerRef.current = createHeatLayer(map);
+
+    // Click-through: list the events that make up the heat under the cursor
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      const hits = heatLayerRef.current?.eventsAt(e.latlng) ?? [];
+      if (hits.length === 0) return;
+
+      const rows = hits.slice(0, POPUP_EVENT_LIMIT).map(ev => `
+        <div style="border-bottom:1px solid rgba(127,127,127,0.2);padding:2px 0">
+          <strong class="capitalize">${ev.severity}</strong>
+          · ${new Date(ev.timestamp).toLocaleString()}<br/>
+          ${escapeHtml(ev.weather ?? 'unknown weather')}${ev.relativeSpeed !== null ? ` · ${Number(ev.relativeSpeed).toFixed(0)} km/h` : ''}
+        </div>
+      `).join('');
+      const more = hits.length > POPUP_EVENT_LIMIT ? `<div>+${hits.length - POPUP_EVENT_LIMIT} more</div>` : '';
+
+      L.popup()
+        .setLatLng(e.latlng)
+        .setContent(`<div class="text-xs font-mono p-1"><strong>${hits.length} incident${hits.length > 1 ? 's' : ''}</strong>${rows}${more}</div>`)
+        .openOn(map);
+    });
 
     return () => {
-      if (mapRef.current) {
-        mapRef.current.remove();
-        mapRef.current = null;
-      }
+      heatLayerRef.current?.remove();
+      heatLayerRef.current = null;
+      map.remove();
+      mapRef.current = null;
     };
   }, []);
 
-  // Update heatmap when events change
   useEffect(() => {
-    if (!mapRef.current) return;
-
-    // Clear existing markers
-    heatLayerRef.current.forEach(marker => marker.remove());
-    heatLayerRef.current = [];
-
-    // Add heat circles for each event
-    events.forEach(event => {
-      const color = event.severity === 'critical' ? '#ef4444' : 
-                    event.severity === 'high' ? '#f97316' : 
-                    event.severity === 'medium' ? '#f59e0b' : '#22c55e';
-      
-      const radius = event.severity === 'critical' ? 40 : 
-                     event.severity === 'high' ? 30 : 
-                     event.severity === 'medium' ? 20 : 15;
-
-      const circle = L.circleMarker([event.location_lat, event.location_lng], {
-        radius,
-        fillColor: color,
-        fillOpacity: 0.4,
-        color: color,
-        weight: 1,
-        opacity: 0.6,
-      }).addTo(mapRef.current!);
-
-      circle.bindPopup(`
-        <div class="text-xs font-mono p-1">
-          <strong class="capitalize">${event.severity}</strong><br/>
-          ${new Date(event.timestamp).toLocaleDateString()}
-        </div>
-      `);
+    if (timeWindow === 'custom' && (!customFrom || !customTo)) return;
+    fetchEvents();
+  }, [fetchEvents, timeWindow, customFrom, customTo]);
 
-      heatLayerRef.current.push(circle);
-    });
+  useEffect(() => {
+    heatLayerRef.current?.setEvents(visibleEvents);
+  }, [visibleEvents]);
 
-    // Update map center
+  useEffect(() => {
     if (currentLocation && mapRef.current) {
       mapRef.current.setView([currentLocation.lat, currentLocation.lng], 13);
     }
-  }, [events, currentLocation]);
-
-  // Calculate danger zones
-  const getDangerZones = () => {
-    const zones: { lat: number; lng: number; count: number }[] = [];
-    const gridSize = 0.01; // ~1km grid
-
-    events.forEach(event => {
-      const gridLat = Math.round(event.location_lat / gridSize) * gridSize;
-      const gridLng = Math.round(event.location_lng / gridSize) * gridSize;
-      
-      const existing = zones.find(z => 
-        Math.abs(z.lat - gridLat) < 0.001 && Math.abs(z.lng - gridLng) < 0.001
-      );
-      
-      if (existing) {
-        existing.count++;
-      } else {
-        zones.push({ lat: gridLat, lng: gridLng, count: 1 });
-      }
+  }, [currentLocation]);
+
+  // Danger zones from the server-side clustering, drawn at their real radius
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    zoneLayerRef.current.forEach(circle => circle.remove());
+    zoneLayerRef.current = zones.map(zone => {
+      const circle = L.circle([zone.lat, zone.lng], {
+        radius: zone.radius,
+        color: '#ef4444',
+        weight: 2,
+        dashArray: '4 4',
+        fill: false,
+        interactive: false,
+      }).addTo(mapRef.current!);
+      return circle;
     });
+  }, [zones]);
 
-    return zones.filter(z => z.count >= 2).sort((a, b) => b.count - a.count).slice(0, 5);
-  };
+  const dangerZones = zones.slice(0, 5);
 
-  const dangerZones = getDangerZones();
+  const handleRefresh = () => {
+    fetchEvents();
+    refreshZones();
+  };
 
   return (
     <Card className="bg-card border-border">
@@ -143,58 +207,106 @@ const AccidentHeatmap = ({ currentLocation }: AccidentHeatmapProps) => {
           <Button
             variant="ghost"
             size="sm"
-            onClick={fetchEvents}
-            disabled={isLoading}
+            onClick={handleRefresh}
+            disabled={isLoading || isZonesLoading}
             className="h-7 w-7 p-0"
           >
-            <RefreshCw className={`h-3 w-3 ${isLoading ? 'animate-spin' : ''}`} />
+            <RefreshCw className={`h-3 w-3 ${isLoading || isZonesLoading ? 'animate-spin' : ''}`} />
           </Button>
         </div>
       </CardHeader>
       <CardContent className="space-y-3">
+        {/* Filters */}
+        <div className="grid grid-cols-3 gap-2">
+          <Select value={timeWindow} onValueChange={(value) => setTimeWindow(value as TimeWindow)}>
+            <SelectTrigger className="h-7 text-[10px] font-mono bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(WINDOW_LABELS) as TimeWindow[]).map(w => (
+                <SelectItem key={w} value={w} className="text-xs font-mono">{WINDOW_LABELS[w]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={hourPreset} onValueChange={setHourPreset}>
+            <SelectTrigger className="h-7 text-[10px] font-mono bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(HOUR_PRESETS).map(([key, preset]) => (
+                <SelectItem key={key} value={key} className="text-xs font-mono">{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={weather} onValueChange={setWeather}>
+            <SelectTrigger className="h-7 text-[10px] font-mono bg-secondary border-border capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any" className="text-xs font-mono">Any weather</SelectItem>
+              {weatherOptions.map(w => (
+                <SelectItem key={w} value={w} className="text-xs font-mono capitalize">{w}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {timeWindow === 'custom' && (
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="date"
+              value={customFrom}
+              max={customTo || undefined}
+              onChange={(e) => setCustomFrom(e.target.value)}
+              className="h-7 text-[10px] font-mono"
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={customTo}
+              min={customFrom || undefined}
+              onChange={(e) => setCustomTo(e.target.value)}
+              className="h-7 text-[10px] font-mono"
+              aria-label="To date"
+            />
+          </div>
+        )}
+
         {/* Map */}
-        <div 
-          ref={mapContainerRef} 
+        <div
+          ref={mapContainerRef}
           className="h-40 rounded-lg overflow-hidden border border-border"
         />
 
         {/* Legend */}
-        <div className="flex flex-wrap gap-2 text-[10px] font-mono">
-          <div className="flex items-center gap-1">
-            <span className="w-2 h-2 rounded-full bg-danger" />
-            <span>Critical</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <span className="w-2 h-2 rounded-full bg-orange-500" />
-            <span>High</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <span className="w-2 h-2 rounded-full bg-warning" />
-            <span>Medium</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <span className="w-2 h-2 rounded-full bg-safe" />
-            <span>Low</span>
-          </div>
+        <div className="flex items-center gap-2 text-[10px] font-mono">
+          <span>Low</span>
+          <span className="flex-1 h-2 rounded-full bg-gradient-to-r from-safe via-warning to-danger" />
+          <span>High density</span>
+          <span className="flex items-center gap-1 ml-2">
+            <span className="w-3 h-3 rounded-full border-2 border-dashed border-danger" />
+            Danger zone
+          </span>
         </div>
 
         {/* Danger Zones */}
         {dangerZones.length > 0 && (
           <div className="space-y-1">
             <p className="text-[10px] text-muted-foreground font-mono uppercase tracking-wider">
-              High-Risk Areas (30 days)
+              High-Risk Areas
             </p>
             <div className="space-y-1 max-h-20 overflow-y-auto">
-              {dangerZones.map((zone, index) => (
-                <div 
-                  key={index}
-                  className="flex items-center justify-between bg-danger/10 p-1.5 rounded text-[10px] font-mono"
+              {dangerZones.map((zone) => (
+                <button
+                  key={zone.id}
+                  onClick={() => mapRef.current?.setView([zone.lat, zone.lng], 15)}
+                  className="w-full flex items-center justify-between bg-danger/10 p-1.5 rounded text-[10px] font-mono"
                 >
                   <span className="text-muted-foreground">
                     {zone.lat.toFixed(3)}, {zone.lng.toFixed(3)}
                   </span>
-                  <span className="text-danger font-bold">{zone.count} incidents</span>
-                </div>
+                  <span className="text-danger font-bold">{zone.incidentCount} incidents</span>
+                </button>
               ))}
             </div>
           </div>
@@ -202,8 +314,10 @@ const AccidentHeatmap = ({ currentLocation }: AccidentHeatmapProps) => {
 
         {/* Stats */}
         <div className="flex justify-between text-xs text-muted-foreground font-mono">
-          <span>{events.length} events (30 days)</span>
-          <span>{dangerZones.length} danger zones</span>
+          <span>
+            {visibleEvents.length} of {events.length} events ({WINDOW_LABELS[timeWindow]})
+          </span>
+          <span>{zones.length} danger zones</span>
         </div>
       </CardContent>
     </Card>
@@ -18,11 +18,17 @@ import {
   Settings2,
   Maximize2,
   Volume2,
-  VolumeX
+  VolumeX,
+  ArrowLeftRight
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useNativeCamera } from '@/hooks/useNativeCamera';
 import { cn } from '@/lib/utils';
+import { BBox, createObjectTracker, Track } from '@/lib/objectTracker';
+import { createLaneTracker, detectLanes, isInLane, LaneDeparture, LaneState, scaleLane } from '@/lib/laneDetection';
+import { useHaptics } from '@/hooks/useHaptics';
+import { useDriveMode } from '@/hooks/useDriveSession';
+import { CameraFrame, driveSession } from '@/lib/driveSession';
 
 interface Detection {
   id: string;
@@ -33,6 +39,7 @@ interface Detection {
   distance: number;
   riskLevel: 'safe' | 'warning' | 'danger';
   trackingId: string;
+  inLane: boolean | null; // null when lane lines aren't visible
 }
 
 interface AdvancedCameraDetectionProps {
@@ -40,27 +47,24 @@ interface AdvancedCameraDetectionProps {
   onCollisionRisk?: (risk: number, nearestVehicle: Detection | null) => void;
   isRideActive: boolean;
   onSpeak?: (message: string) => void;
-}
-
-// Vehicle tracking with Kalman-like smoothing
-interface TrackedVehicle {
-  id: string;
-  class: string;
-  positions: { x: number; y: number; width: number; height: number; timestamp: number }[];
-  smoothedSpeed: number;
-  estimatedDistance: number;
-  lastSeen: number;
+  isTurnSignalOn?: boolean; // driver announced a lane change; there is no indicator to read
+  onLaneChange?: () => void;
 }
 
 const VEHICLE_CLASSES = ['car', 'truck', 'bus', 'motorcycle', 'bicycle'];
 const FOCAL_LENGTH = 800; // Approximate focal length for distance calculation
 const AVERAGE_CAR_WIDTH = 1.8; // meters
+const LANE_FRAME_WIDTH = 160; // lane detection runs on a downscaled copy of the frame
+const LANE_DETECTION_INTERVAL = 2; // run lane detection every Nth frame
+const LANE_ALERT_COOLDOWN = 4000;
 
 const AdvancedCameraDetection = ({ 
   onSpeedDetected, 
   onCollisionRisk,
   isRideActive,
-  onSpeak 
+  onSpeak,
+  isTurnSignalOn = false,
+  onLaneChange,
 }: AdvancedCameraDetectionProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -79,10 +83,35 @@ const AdvancedCameraDetection = ({
   const [audioAlerts, setAudioAlerts] = useState(true);
   const [isFullscreen, setIsFullscreen] = useState(false);
   
-  const trackedVehiclesRef = useRef<Map<string, TrackedVehicle>>(new Map());
+  const trackerRef = useRef(createObjectTracker());
   const animationFrameRef = useRef<number>();
   const fpsCounterRef = useRef({ frames: 0, lastTime: Date.now() });
   const lastAlertTimeRef = useRef(0);
+  const [laneDetectionEnabled, setLaneDetectionEnabled] = useState(true);
+  const [laneDeparture, setLaneDeparture] = useState<LaneDeparture>(null);
+  const laneCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const laneTrackerRef = useRef(createLaneTracker());
+  const laneStateRef = useRef<LaneState>({ left: null, right: null, offset: null, departure: null });
+  const laneFrameRef = useRef(0);
+  const lastLaneAlertRef = useRef(0);
+  // The detection loop outlives renders, so it reads these through refs
+  const laneEnabledRef = useRef(laneDetectionEnabled);
+  const turnSignalRef = useRef(isTurnSignalOn);
+  const { notificationWarning } = useHaptics();
+  const isReplaying = useDriveMode() === 'replay';
+
+  useEffect(() => {
+    laneEnabledRef.current = laneDetectionEnabled;
+    if (!laneDetectionEnabled) {
+      laneTrackerRef.current.reset();
+      laneStateRef.current = { left: null, right: null, offset: null, departure: null };
+      setLaneDeparture(null);
+    }
+  }, [laneDetectionEnabled]);
+
+  useEffect(() => {
+    turnSignalRef.current = isTurnSignalOn;
+  }, [isTurnSignalOn]);
   
   const { 
     startStream, 
@@ -177,7 +206,10 @@ const AdvancedCameraDetection = ({
     setIsActive(false);
     setDetections([]);
     setCollisionRisk(0);
-    trackedVehiclesRef.current.clear();
+    trackerRef.current.reset();
+    laneTrackerRef.current.reset();
+    laneStateRef.current = { left: null, right: null, offset: null, departure: null };
+    setLaneDeparture(null);
   };
 
   // Calculate distance using apparent size
@@ -192,37 +224,21 @@ const AdvancedCameraDetection = ({
     return Math.max(1, Math.min(100, distance)); // Clamp between 1-100 meters
   }, []);
 
-  // Calculate speed using position tracking
-  const calculateSpeed = useCallback((
-    vehicle: TrackedVehicle,
-    currentPos: { x: number; y: number; width: number; height: number },
-    timestamp: number
-  ): number => {
-    if (vehicle.positions.length < 2) return 0;
-    
-    const lastPos = vehicle.positions[vehicle.positions.length - 1];
-    const timeDelta = (timestamp - lastPos.timestamp) / 1000; // seconds
-    
-    if (timeDelta <= 0) return vehicle.smoothedSpeed;
-    
-    // Calculate pixel movement
-    const dx = currentPos.x - lastPos.x;
-    const dy = currentPos.y - lastPos.y;
-    const pixelDistance = Math.sqrt(dx * dx + dy * dy);
-    
-    // Convert to real-world speed (rough estimation)
-    // Using perspective: closer objects move more pixels
-    const distance = calculateDistance(currentPos.width, vehicle.class);
-    const scaleFactor = distance / 10; // Normalize by distance
-    
-    const rawSpeed = (pixelDistance * scaleFactor) / timeDelta * 0.36; // Convert to km/h
-    
-    // Smooth the speed with exponential moving average
-    const alpha = 0.3;
-    const smoothedSpeed = alpha * rawSpeed + (1 - alpha) * vehicle.smoothedSpeed;
-    
-    return Math.min(smoothedSpeed, 200); // Cap at 200 km/h
-  }, [calculateDistance]);
+  // Speed from the track's filtered pixel velocity, scaled by distance
+  const calculateSpeed = useCallback((track: Track, distance: number): number => {
+    const pixelSpeed = Math.hypot(track.velocity.x, track.velocity.y); // px/s
+    const scaleFactor = distance / 10; // Closer objects move more pixels
+    const speed = pixelSpeed * scaleFactor * 0.36; // Convert to km/h
+    return Math.min(speed, 200); // Cap at 200 km/h
+  }, []);
+
+  // Closing speed from how fast the box grows: d = k / w  =>  dd/dt = -d * (dw/dt) / w
+  const calculateClosingSpeed = useCallback((track: Track, distance: number): number => {
+    const width = track.bbox[2];
+    if (width <= 0) return 0;
+    const rangeRate = -distance * track.velocity.width / width; // m/s, negative when approaching
+    return Math.max(0, -rangeRate * 3.6);
+  }, []);
 
   // Determine risk level
   const calculateRiskLevel = useCallback((distance: number, speed: number): 'safe' | 'warning' | 'danger' => {
@@ -234,13 +250,205 @@ const AdvancedCameraDetection = ({
     return 'safe';
   }, []);
 
-  // Generate tracking ID from detection
-  const generateTrackingId = useCallback((bbox: number[], className: string): string => {
-    const centerX = Math.round(bbox[0] / 50);
-    const centerY = Math.round(bbox[1] / 50);
-    return `${className}-${centerX}-${centerY}`;
+  // Run lane detection on a downscaled copy of the current frame
+  const updateLanes = useCallback((video: HTMLVideoElement, frameWidth: number, frameHeight: number): LaneState => {
+    if (!laneCanvasRef.current) {
+      laneCanvasRef.current = document.createElement('canvas');
+    }
+    const small = laneCanvasRef.current;
+    small.width = LANE_FRAME_WIDTH;
+    small.height = Math.max(1, Math.round(LANE_FRAME_WIDTH * frameHeight / frameWidth));
+    const smallCtx = small.getContext('2d', { willReadFrequently: true });
+    if (!smallCtx) return laneStateRef.current;
+
+    smallCtx.drawImage(video, 0, 0, small.width, small.height);
+    const image = smallCtx.getImageData(0, 0, small.width, small.height);
+    const state = laneTrackerRef.current.update(detectLanes(image), small.width);
+
+    // Scale back to overlay coordinates
+    const sx = frameWidth / small.width;
+    const sy = frameHeight / small.height;
+    return { ...state, left: scaleLane(state.left, sx, sy), right: scaleLane(state.right, sx, sy) };
+  }, []);
+
+  const drawLanes = useCallback((ctx: CanvasRenderingContext2D, lanes: LaneState) => {
+    const { left, right, departure } = lanes;
+    const color = departure ? '#f59e0b' : '#22d3ee';
+
+    if (left && right) {
+      ctx.fillStyle = departure ? 'rgba(245, 158, 11, 0.15)' : 'rgba(34, 211, 238, 0.12)';
+      ctx.beginPath();
+      ctx.moveTo(left.x1, left.y1);
+      ctx.lineTo(left.x2, left.y2);
+      ctx.lineTo(right.x2, right.y2);
+      ctx.lineTo(right.x1, right.y1);
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 4;
+    [left, right].forEach(line => {
+      if (!line) return;
+      ctx.beginPath();
+      ctx.moveTo(line.x1, line.y1);
+      ctx.lineTo(line.x2, line.y2);
+      ctx.stroke();
+    });
   }, []);
 
+  // Tracking, risk and alerts for one frame's detections; live frames draw on `ctx`
+  const analyzeFrame = (
+    predictions: CameraFrame['predictions'],
+    lanes: LaneState,
+    now: number,
+    ctx: CanvasRenderingContext2D | null
+  ) => {
+    const newDetections: Detection[] = [];
+    let maxRisk = 0;
+    let nearestVehicle: Detection | null = null;
+    let minDistance = Infinity;
+
+    // Associate vehicle detections with existing tracks
+    const tracks = trackerRef.current.update(predictions, now);
+
+    for (const track of tracks) {
+      const [x, y, width, height] = track.bbox;
+      const trackingId = track.id;
+      const distance = calculateDistance(width, track.class);
+      const speed = calculateSpeed(track, distance);
+      const closingSpeed = calculateClosingSpeed(track, distance);
+      const inLane = isInLane(track.bbox, lanes);
+      let riskLevel = isRideActive ? calculateRiskLevel(distance, closingSpeed) : 'safe';
+      // A vehicle in a neighbouring lane isn't on a collision course
+      if (inLane === false && riskLevel === 'danger') riskLevel = 'warning';
+      const isCoasting = track.misses > 0;
+
+      const detection: Detection = {
+        id: `${trackingId}-${now}`,
+        class: track.class,
+        score: track.score,
+        bbox: track.bbox,
+        speed,
+        distance,
+        riskLevel,
+        trackingId,
+        inLane,
+      };
+
+      newDetections.push(detection);
+
+      // Track nearest and highest risk
+      if (distance < minDistance) {
+        minDistance = distance;
+        nearestVehicle = detection;
+      }
+      
+      const riskScore = riskLevel === 'danger' ? 1 : riskLevel === 'warning' ? 0.6 : 0.2;
+      maxRisk = Math.max(maxRisk, riskScore);
+
+      // Draw bounding box
+      if (ctx) {
+        const color = riskLevel === 'danger' ? '#ef4444' : 
+                     riskLevel === 'warning' ? '#f59e0b' : '#10b981';
+        
+        // Tracks predicted through an occlusion are drawn faded
+        ctx.globalAlpha = isCoasting ? 0.5 : 1;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 3;
+        ctx.strokeRect(x, y, width, height);
+
+        // Draw background for label
+        const labelHeight = 28;
+        ctx.fillStyle = color;
+        ctx.fillRect(x, y - labelHeight, width, labelHeight);
+        
+        // Draw label text
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 14px monospace';
+        ctx.fillText(
+          `${track.class.toUpperCase()} #${trackingId.slice(1)} ${distance.toFixed(0)}m${inLane ? ' • LANE' : ''}`,
+          x + 5,
+          y - 10
+        );
+
+        // Speed indicator if moving
+        if (speed > 5) {
+          ctx.fillStyle = 'rgba(0,0,0,0.7)';
+          ctx.fillRect(x, y + height, width, 24);
+          ctx.fillStyle = '#ffffff';
+          ctx.font = '12px monospace';
+          ctx.fillText(`${speed.toFixed(0)} km/h`, x + 5, y + height + 16);
+        }
+
+        // Risk indicator for danger
+        if (riskLevel === 'danger') {
+          ctx.strokeStyle = '#ef4444';
+          ctx.lineWidth = 4;
+          ctx.setLineDash([10, 5]);
+          ctx.strokeRect(x - 5, y - 5, width + 10, height + 10);
+          ctx.setLineDash([]);
+        }
+        ctx.globalAlpha = 1;
+      }
+    }
+
+    // Update state
+    setDetections(newDetections);
+    
+    if (isRideActive) {
+      const riskPercent = maxRisk * 100;
+      setCollisionRisk(riskPercent);
+      onCollisionRisk?.(riskPercent, nearestVehicle);
+
+      // Send max detected speed
+      const maxSpeed = newDetections.reduce((max, d) => Math.max(max, d.speed), 0);
+      if (maxSpeed > 0) {
+        onSpeedDetected(maxSpeed);
+      }
+
+      // Audio alert for danger
+      if (maxRisk >= 0.8 && now - lastAlertTimeRef.current > 3000) {
+        lastAlertTimeRef.current = now;
+        driveSession.alert({ source: 'camera', level: 'danger', message: `Vehicle ${minDistance.toFixed(0)}m ahead` });
+        if (audioAlerts) onSpeak?.(`Warning! Vehicle detected ${minDistance.toFixed(0)} meters ahead`);
+      }
+
+      // Lane departure warning, suppressed while signaling a lane change
+      const departure = turnSignalRef.current ? null : lanes.departure;
+      setLaneDeparture(departure);
+      if (departure && now - lastLaneAlertRef.current > LANE_ALERT_COOLDOWN) {
+        lastLaneAlertRef.current = now;
+        driveSession.alert({ source: 'lane', level: 'warning', message: `Drifting ${departure}` });
+        notificationWarning();
+        if (audioAlerts) onSpeak?.(`Lane departure! Drifting ${departure}.`);
+      }
+    }
+  };
+  const analyzeFrameRef = useRef(analyzeFrame);
+  analyzeFrameRef.current = analyzeFrame;
+
+  // A replay feeds the recorded detections through the same analysis, without video
+  useEffect(() => {
+    if (!isReplaying) return;
+    const tracker = trackerRef.current;
+    tracker.reset();
+    lastAlertTimeRef.current = 0;
+    lastLaneAlertRef.current = 0;
+    const unsubscribe = driveSession.on('camera', ({ frame }) => {
+      laneStateRef.current = frame.lanes;
+      analyzeFrameRef.current(frame.predictions, frame.lanes, driveSession.now(), null);
+    });
+    return () => {
+      unsubscribe();
+      tracker.reset();
+      laneStateRef.current = { left: null, right: null, offset: null, departure: null };
+      setDetections([]);
+      setCollisionRisk(0);
+      setLaneDeparture(null);
+    };
+  }, [isReplaying]);
+
   const detectObjects = async () => {
     if (!model || !videoRef.current || !canvasRef.current) {
       if (isActive) {
@@ -276,138 +484,24 @@ const AdvancedCameraDetection = ({
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
 
-      const newDetections: Detection[] = [];
-      let maxRisk = 0;
-      let nearestVehicle: Detection | null = null;
-      let minDistance = Infinity;
-
-      // Process predictions
-      for (const prediction of predictions) {
-        if (!VEHICLE_CLASSES.includes(prediction.class)) continue;
-        
-        const [x, y, width, height] = prediction.bbox;
-        const trackingId = generateTrackingId(prediction.bbox, prediction.class);
-        
-        // Get or create tracked vehicle
-        let tracked = trackedVehiclesRef.current.get(trackingId);
-        if (!tracked) {
-          tracked = {
-            id: trackingId,
-            class: prediction.class,
-            positions: [],
-            smoothedSpeed: 0,
-            estimatedDistance: 50,
-            lastSeen: now,
-          };
-          trackedVehiclesRef.current.set(trackingId, tracked);
-        }
-
-        // Update tracking
-        const currentPos = { x, y, width, height, timestamp: now };
-        const speed = calculateSpeed(tracked, currentPos, now);
-        const distance = calculateDistance(width, prediction.class);
-        const riskLevel = isRideActive ? calculateRiskLevel(distance, speed) : 'safe';
-        
-        // Update tracked vehicle
-        tracked.positions.push(currentPos);
-        if (tracked.positions.length > 10) tracked.positions.shift();
-        tracked.smoothedSpeed = speed;
-        tracked.estimatedDistance = distance;
-        tracked.lastSeen = now;
-
-        const detection: Detection = {
-          id: `${trackingId}-${now}`,
-          class: prediction.class,
-          score: prediction.score,
-          bbox: prediction.bbox as [number, number, number, number],
-          speed,
-          distance,
-          riskLevel,
-          trackingId,
-        };
-
-        newDetections.push(detection);
-
-        // Track nearest and highest risk
-        if (distance < minDistance) {
-          minDistance = distance;
-          nearestVehicle = detection;
-        }
-        
-        const riskScore = riskLevel === 'danger' ? 1 : riskLevel === 'warning' ? 0.6 : 0.2;
-        maxRisk = Math.max(maxRisk, riskScore);
-
-        // Draw bounding box
-        if (showOverlay) {
-          const color = riskLevel === 'danger' ? '#ef4444' : 
-                       riskLevel === 'warning' ? '#f59e0b' : '#10b981';
-          
-          ctx.strokeStyle = color;
-          ctx.lineWidth = 3;
-          ctx.strokeRect(x, y, width, height);
-
-          // Draw background for label
-          const labelHeight = 28;
-          ctx.fillStyle = color;
-          ctx.fillRect(x, y - labelHeight, width, labelHeight);
-          
-          // Draw label text
-          ctx.fillStyle = '#ffffff';
-          ctx.font = 'bold 14px monospace';
-          ctx.fillText(
-            `${prediction.class.toUpperCase()} ${distance.toFixed(0)}m`,
-            x + 5,
-            y - 10
-          );
-
-          // Speed indicator if moving
-          if (speed > 5) {
-            ctx.fillStyle = 'rgba(0,0,0,0.7)';
-            ctx.fillRect(x, y + height, width, 24);
-            ctx.fillStyle = '#ffffff';
-            ctx.font = '12px monospace';
-            ctx.fillText(`${speed.toFixed(0)} km/h`, x + 5, y + height + 16);
-          }
-
-          // Risk indicator for danger
-          if (riskLevel === 'danger') {
-            ctx.strokeStyle = '#ef4444';
-            ctx.lineWidth = 4;
-            ctx.setLineDash([10, 5]);
-            ctx.strokeRect(x - 5, y - 5, width + 10, height + 10);
-            ctx.setLineDash([]);
-          }
+      // Lane detection
+      if (laneEnabledRef.current) {
+        laneFrameRef.current = (laneFrameRef.current + 1) % LANE_DETECTION_INTERVAL;
+        if (laneFrameRef.current === 0) {
+          laneStateRef.current = updateLanes(video, canvas.width, canvas.height);
         }
+        if (showOverlay) drawLanes(ctx, laneStateRef.current);
       }
-
-      // Clean up old tracked vehicles
-      trackedVehiclesRef.current.forEach((vehicle, id) => {
-        if (now - vehicle.lastSeen > 2000) {
-          trackedVehiclesRef.current.delete(id);
-        }
-      });
-
-      // Update state
-      setDetections(newDetections);
-      
-      if (isRideActive) {
-        const riskPercent = maxRisk * 100;
-        setCollisionRisk(riskPercent);
-        onCollisionRisk?.(riskPercent, nearestVehicle);
-
-        // Send max detected speed
-        const maxSpeed = newDetections.reduce((max, d) => Math.max(max, d.speed), 0);
-        if (maxSpeed > 0) {
-          onSpeedDetected(maxSpeed);
-        }
-
-        // Audio alert for danger
-        if (audioAlerts && maxRisk >= 0.8 && now - lastAlertTimeRef.current > 3000) {
-          lastAlertTimeRef.current = now;
-          onSpeak?.(`Warning! Vehicle detected ${minDistance.toFixed(0)} meters ahead`);
-        }
+      const lanes = laneStateRef.current;
+
+      const vehiclePredictions = predictions
+        .filter(p => VEHICLE_CLASSES.includes(p.class))
+        .map(p => ({ bbox: p.bbox as BBox, class: p.class, score: p.score }));
+      // During a replay the recorded frames drive the analysis instead
+      if (driveSession.getMode() !== 'replay') {
+        driveSession.record({ type: 'camera', frame: { predictions: vehiclePredictions, lanes } });
+        analyzeFrame(vehiclePredictions, lanes, now, showOverlay ? ctx : null);
       }
-
     } catch (error) {
       console.error('Detection error:', error);
     }
@@ -527,6 +621,14 @@ const AdvancedCameraDetection = ({
                 className="w-full mt-1"
               />
             </div>
+            <label className="flex items-center gap-2 text-xs font-mono text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={laneDetectionEnabled}
+                onChange={(e) => setLaneDetectionEnabled(e.target.checked)}
+              />
+              Lane detection & departure warnings
+            </label>
           </div>
         )}
       </CardHeader>
@@ -588,6 +690,28 @@ const AdvancedCameraDetection = ({
             </div>
           )}
 
+          {/* Lane departure */}
+          {isActive && isRideActive && laneDeparture && (
+            <div className="absolute top-14 left-2 sm:top-20 sm:left-4 p-2 rounded-lg bg-warning/90 backdrop-blur-sm animate-pulse">
+              <span className="font-mono text-xs sm:text-sm font-bold text-white">
+                LANE DEPARTURE {laneDeparture.toUpperCase()}
+              </span>
+            </div>
+          )}
+
+          {/* Lane change signal */}
+          {isActive && isRideActive && laneDetectionEnabled && onLaneChange && (
+            <Button
+              size="sm"
+              variant={isTurnSignalOn ? 'default' : 'secondary'}
+              onClick={onLaneChange}
+              className="absolute bottom-2 right-2 sm:bottom-4 sm:right-4 h-8 text-xs opacity-90"
+            >
+              <ArrowLeftRight className="h-3 w-3 mr-1" />
+              {isTurnSignalOn ? 'Changing lanes' : 'Change lane'}
+            </Button>
+          )}
+
           {/* Speed display */}
           {isActive && isRideActive && detections.length > 0 && (
             <div className="absolute top-2 right-2 sm:top-4 sm:right-4 bg-black/70 backdrop-blur-sm p-2 sm:p-3 rounded-lg">
@@ -1,28 +1,69 @@
-import { Bluetooth, BluetoothSearching, Signal, Gauge, Thermometer, Battery, Fuel, Unplug } from 'lucide-react';
+import { useEffect } from 'react';
+import { Bluetooth, BluetoothSearching, Signal, Gauge, Thermometer, Battery, Fuel, Unplug, Cpu, Footprints, Wrench, Eraser } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { useBluetooth } from '@/hooks/useBluetooth';
+import type { ObdReading } from '@/lib/obd2';
 import { cn } from '@/lib/utils';
 
 interface BluetoothPanelProps {
-  onSpeedUpdate?: (speed: number) => void;
+  onSpeedUpdate?: (speed: number | null) => void; // km/h, null when no sensor is connected
 }
 
+// Unsupported PIDs stay null and show as "--"
+const OBD_TILES: { key: Exclude<keyof ObdReading, 'timestamp'>; label: string; icon: typeof Gauge; format: (value: number) => string }[] = [
+  { key: 'speed', label: 'Speed', icon: Gauge, format: v => `${v} km/h` },
+  { key: 'rpm', label: 'RPM', icon: Signal, format: v => v.toFixed(0) },
+  { key: 'engineTemp', label: 'Engine', icon: Thermometer, format: v => `${v}°C` },
+  { key: 'throttle', label: 'Throttle', icon: Footprints, format: v => `${v.toFixed(0)}%` },
+  { key: 'fuelLevel', label: 'Fuel', icon: Fuel, format: v => `${v.toFixed(0)}%` },
+  { key: 'batteryVoltage', label: 'Battery', icon: Battery, format: v => `${v.toFixed(1)}V` },
+];
+
 const BluetoothPanel = ({ onSpeedUpdate }: BluetoothPanelProps) => {
   const {
     isSupported,
     isScanning,
     connectedDevices,
     obd2Data,
+    obdAdapter,
     btSpeed,
+    dtcReport,
+    isReadingDtcs,
+    isClearingDtcs,
     scanDevices,
+    connectSimulator,
+    readDtcs,
+    clearDtcs,
     disconnectAll,
   } = useBluetooth();
 
+  const troubleCodes = dtcReport
+    ? [
+        ...dtcReport.stored.map(info => ({ ...info, kind: 'stored' as const })),
+        ...dtcReport.pending.map(info => ({ ...info, kind: 'pending' as const })),
+      ]
+    : [];
+  const freezeFrame = dtcReport?.freezeFrame;
+
+  const hasSpeedSource = connectedDevices.some(d => d.connected && (d.type === 'obd2' || d.type === 'speed_sensor'));
+
   // Forward BT speed to parent
-  if (onSpeedUpdate && btSpeed > 0) {
-    onSpeedUpdate(btSpeed);
-  }
+  useEffect(() => {
+    onSpeedUpdate?.(hasSpeedSource ? btSpeed : null);
+  }, [btSpeed, hasSpeedSource, onSpeedUpdate]);
 
   if (!isSupported) {
     return (
@@ -75,6 +116,13 @@ const BluetoothPanel = ({ onSpeedUpdate }: BluetoothPanelProps) => {
           )}
         </Button>
 
+        {import.meta.env.DEV && (
+          <Button onClick={connectSimulator} variant="ghost" size="sm" className="w-full font-mono text-xs">
+            <Cpu className="mr-2 h-3 w-3" />
+            Use Simulated OBD2 Adapter
+          </Button>
+        )}
+
         {/* Connected Devices */}
         {connectedDevices.length > 0 && (
           <div className="space-y-2">
@@ -105,36 +153,105 @@ const BluetoothPanel = ({ onSpeedUpdate }: BluetoothPanelProps) => {
         )}
 
         {/* OBD2 Data */}
+        {obdAdapter && (
+          <p className="text-xs font-mono text-muted-foreground">
+            {obdAdapter.version} · {obdAdapter.protocol}{obdAdapter.vin && ` · VIN ${obdAdapter.vin}`}
+          </p>
+        )}
         {obd2Data && (
           <div className="grid grid-cols-2 gap-2">
-            <div className="bg-muted/50 p-2 rounded-lg">
-              <div className="flex items-center gap-1 text-muted-foreground mb-1">
-                <Gauge className="h-3 w-3" />
-                <span className="text-xs font-mono">Speed</span>
-              </div>
-              <p className="text-lg font-bold font-mono text-foreground">{obd2Data.speed} km/h</p>
-            </div>
-            <div className="bg-muted/50 p-2 rounded-lg">
-              <div className="flex items-center gap-1 text-muted-foreground mb-1">
-                <Signal className="h-3 w-3" />
-                <span className="text-xs font-mono">RPM</span>
+            {OBD_TILES.map(({ key, label, icon: Icon, format }) => (
+              <div key={key} className="bg-muted/50 p-2 rounded-lg">
+                <div className="flex items-center gap-1 text-muted-foreground mb-1">
+                  <Icon className="h-3 w-3" />
+                  <span className="text-xs font-mono">{label}</span>
+                </div>
+                <p className="text-lg font-bold font-mono text-foreground">
+                  {obd2Data[key] === null ? '--' : format(obd2Data[key])}
+                </p>
               </div>
-              <p className="text-lg font-bold font-mono text-foreground">{obd2Data.rpm}</p>
+            ))}
+          </div>
+        )}
+
+        {/* Trouble Codes */}
+        {obdAdapter && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-xs font-bold font-mono flex items-center gap-1 text-foreground">
+                <Wrench className="h-3 w-3" />
+                Trouble Codes
+              </h4>
+              <Button onClick={readDtcs} disabled={isReadingDtcs} variant="outline" size="sm" className="h-7 font-mono text-xs">
+                {isReadingDtcs ? 'Reading...' : 'Read Codes'}
+              </Button>
             </div>
-            <div className="bg-muted/50 p-2 rounded-lg">
-              <div className="flex items-center gap-1 text-muted-foreground mb-1">
-                <Thermometer className="h-3 w-3" />
-                <span className="text-xs font-mono">Engine</span>
+
+            {dtcReport && troubleCodes.length === 0 && (
+              <p className="text-xs font-mono text-safe">No trouble codes stored</p>
+            )}
+
+            {troubleCodes.map(info => (
+              <div key={`${info.kind}-${info.code}`} className="flex items-start justify-between gap-2 p-2 rounded-lg border border-border bg-muted/30">
+                <div>
+                  <p className="font-mono text-xs font-bold text-foreground">{info.code}</p>
+                  <p className="text-xs text-muted-foreground">{info.description}</p>
+                </div>
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    "text-[10px] font-mono shrink-0",
+                    info.kind === 'stored' ? "border-danger/50 text-danger" : "border-warning/50 text-warning"
+                  )}
+                >
+                  {info.kind}
+                </Badge>
               </div>
-              <p className="text-lg font-bold font-mono text-foreground">{obd2Data.engineTemp}°C</p>
-            </div>
-            <div className="bg-muted/50 p-2 rounded-lg">
-              <div className="flex items-center gap-1 text-muted-foreground mb-1">
-                <Battery className="h-3 w-3" />
-                <span className="text-xs font-mono">Battery</span>
+            ))}
+
+            {freezeFrame && (
+              <div className="p-2 rounded-lg bg-muted/50">
+                <p className="text-xs font-mono text-muted-foreground mb-1">Freeze frame{freezeFrame.dtc && ` · ${freezeFrame.dtc}`}</p>
+                <div className="grid grid-cols-3 gap-1">
+                  {OBD_TILES.map(({ key, label, format }) => {
+                    const value = key === 'batteryVoltage' ? undefined : freezeFrame.values[key];
+                    return value === undefined ? null : (
+                      <div key={key}>
+                        <p className="text-[10px] font-mono text-muted-foreground">{label}</p>
+                        <p className="text-xs font-bold font-mono text-foreground">{format(value)}</p>
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
-              <p className="text-lg font-bold font-mono text-foreground">{obd2Data.batteryVoltage}V</p>
-            </div>
+            )}
+
+            {troubleCodes.length > 0 && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button disabled={isClearingDtcs} variant="ghost" size="sm" className="w-full font-mono text-xs text-danger hover:text-danger">
+                    <Eraser className="mr-2 h-3 w-3" />
+                    {isClearingDtcs ? 'Clearing...' : 'Clear Codes'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle className="font-mono">Clear trouble codes?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This turns off the check engine light and erases the freeze frame. The emission readiness
+                      monitors reset too, so the car may fail an inspection until it has been driven for a while.
+                      Codes come back if the fault is still there.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={clearDtcs} className="bg-danger hover:bg-danger/90">
+                      Clear Codes
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
           </div>
         )}
 
@@ -3,6 +3,7 @@ import { Card } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { supabase } from '@/integrations/supabase/client';
 import { AlertTriangle, MapPin, Clock, Gauge } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
 
 interface CollisionEvent {
   id: string;
@@ -16,18 +17,24 @@ interface CollisionEvent {
 
 const CollisionHistory = () => {
   const [events, setEvents] = useState<CollisionEvent[]>([]);
+  const { user } = useAuth();
+  const userId = user?.id;
 
   useEffect(() => {
+    setEvents([]);
+    if (!userId) return;
+
     fetchEvents();
 
     const channel = supabase
-      .channel('collision-events-changes')
+      .channel(`collision-events-changes-${userId}`)
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'collision_events'
+          table: 'collision_events',
+          filter: `user_id=eq.${userId}`
         },
         () => {
           fetchEvents();
@@ -38,7 +45,7 @@ const CollisionHistory = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [userId]);
 
   const fetchEvents = async () => {
     const { data, error } = await supabase
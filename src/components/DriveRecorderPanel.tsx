@@ -0,0 +1,168 @@
+import { useRef } from 'react';
+import { Circle, FileUp, Pause, Play, Square, Film } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useDriveSession } from '@/hooks/useDriveSession';
+import { cn } from '@/lib/utils';
+
+interface DriveRecorderPanelProps {
+  isRideActive: boolean;
+}
+
+const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+const formatTime = (ms: number) => {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const DriveRecorderPanel = ({ isRideActive }: DriveRecorderPanelProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    mode,
+    recording,
+    status,
+    speed,
+    lastResult,
+    startRecording,
+    stopRecording,
+    loadRecording,
+    startReplay,
+    stopReplay,
+    changeSpeed,
+    togglePause,
+  } = useDriveSession();
+
+  const alertCount = recording?.events.filter(e => e.type === 'alert').length ?? 0;
+
+  return (
+    <Card className="p-4 border-border bg-card">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-bold font-mono flex items-center gap-2 text-foreground">
+            <Film className="h-4 w-4 text-primary" />
+            Drive Recorder
+          </h3>
+          <div className={cn(
+            "px-2 py-0.5 rounded-full text-xs font-mono uppercase",
+            mode === 'recording' && "bg-danger/20 text-danger",
+            mode === 'replay' && "bg-primary/20 text-primary",
+            mode === 'live' && "bg-muted text-muted-foreground"
+          )}>
+            {mode}
+          </div>
+        </div>
+
+        {/* Record */}
+        <div className="grid grid-cols-2 gap-2">
+          {mode === 'recording' ? (
+            <Button onClick={stopRecording} variant="outline" size="sm" className="font-mono text-danger hover:text-danger">
+              <Square className="mr-2 h-4 w-4" />
+              Stop & Save
+            </Button>
+          ) : (
+            <Button onClick={startRecording} disabled={mode !== 'live'} variant="outline" size="sm" className="font-mono">
+              <Circle className="mr-2 h-4 w-4 text-danger" />
+              Record
+            </Button>
+          )}
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={mode !== 'live'}
+            variant="outline"
+            size="sm"
+            className="font-mono"
+          >
+            <FileUp className="mr-2 h-4 w-4" />
+            Load File
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadRecording(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {/* Replay */}
+        {recording && (
+          <div className="space-y-2 p-3 rounded-lg border border-border bg-muted/30">
+            <p className="text-xs font-mono text-muted-foreground">
+              {new Date(recording.startedAt).toLocaleString()} · {formatTime(recording.duration)} · {recording.events.length} events · {alertCount} alerts
+            </p>
+
+            {status && (
+              <div className="space-y-1">
+                <Progress value={status.duration ? (status.position / status.duration) * 100 : 0} className="h-1.5" />
+                <p className="text-xs font-mono text-muted-foreground text-right">
+                  {formatTime(status.position)} / {formatTime(status.duration)}
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center gap-1">
+              {REPLAY_SPEEDS.map(s => (
+                <Button
+                  key={s}
+                  onClick={() => changeSpeed(s)}
+                  variant={speed === s ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-7 px-2 font-mono text-xs"
+                >
+                  {s}x
+                </Button>
+              ))}
+              <div className="flex-1" />
+              {mode === 'replay' ? (
+                <>
+                  <Button onClick={togglePause} variant="ghost" size="icon" className="h-7 w-7">
+                    {status?.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                  </Button>
+                  <Button onClick={stopReplay} variant="ghost" size="icon" className="h-7 w-7 text-danger hover:text-danger">
+                    <Square className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Button onClick={startReplay} disabled={mode !== 'live' || isRideActive} size="sm" className="h-7 font-mono text-xs">
+                  <Play className="mr-1 h-3 w-3" />
+                  Replay
+                </Button>
+              )}
+            </div>
+            {isRideActive && mode === 'live' && (
+              <p className="text-xs text-muted-foreground">Stop the ride to replay a recording.</p>
+            )}
+          </div>
+        )}
+
+        {/* Replay vs. recorded alerts */}
+        {lastResult && mode === 'live' && (
+          <div className={cn(
+            "p-3 rounded-lg border text-xs font-mono space-y-1",
+            lastResult.comparison.missing.length || lastResult.comparison.unexpected.length
+              ? "border-warning/30 bg-warning/5"
+              : "border-safe/30 bg-safe/5"
+          )}>
+            <p className="text-foreground">
+              {lastResult.completed ? 'Replay finished' : 'Replay stopped'}: {lastResult.comparison.matched}/{lastResult.recorded.length} alerts reproduced
+            </p>
+            {lastResult.comparison.missing.map((a, i) => (
+              <p key={`missing-${i}`} className="text-muted-foreground">− {formatTime(a.t)} {a.source} {a.level}: {a.message}</p>
+            ))}
+            {lastResult.comparison.unexpected.map((a, i) => (
+              <p key={`unexpected-${i}`} className="text-warning">+ {formatTime(a.t)} {a.source} {a.level}: {a.message}</p>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default DriveRecorderPanel;
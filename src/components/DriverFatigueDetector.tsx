@@ -5,22 +5,28 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import { useEyeTracking } from '@/hooks/useEyeTracking';
 
 interface DriverFatigueDetectorProps {
   isRideActive: boolean;
   onSpeak?: (message: string) => void;
+  onFatigueChange?: (level: number) => void;
 }
 
-const DriverFatigueDetector = ({ isRideActive, onSpeak }: DriverFatigueDetectorProps) => {
+const DriverFatigueDetector = ({ isRideActive, onSpeak, onFatigueChange }: DriverFatigueDetectorProps) => {
   const [isMonitoring, setIsMonitoring] = useState(false);
-  const [fatigueLevel, setFatigueLevel] = useState(0); // 0-100
-  const [eyesClosed, setEyesClosed] = useState(false);
-  const [eyeClosedDuration, setEyeClosedDuration] = useState(0);
-  const [blinkRate, setBlinkRate] = useState(15); // blinks per minute
   const [lastAlert, setLastAlert] = useState<number>(0);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const lastMicrosleepAlertRef = useRef(0);
+
+  const isTracking = isMonitoring && isRideActive;
+  const { isModelLoading, faceDetected, isCalibrating, metrics, fatigueLevel } = useEyeTracking({
+    videoRef,
+    isActive: isTracking,
+  });
+  const { eyesClosed, blinkRate, perclos, yawnCount } = metrics;
 
   // Play alert sound
   const playAlertSound = useCallback(() => {
@@ -52,9 +58,6 @@ const DriverFatigueDetector = ({ isRideActive, onSpeak }: DriverFatigueDetectorP
         video: { facingMode: 'user', width: 320, height: 240 }
       });
       streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-      }
       setIsMonitoring(true);
       toast.success('Fatigue monitoring started');
     } catch (error) {
@@ -69,61 +72,47 @@ const DriverFatigueDetector = ({ isRideActive, onSpeak }: DriverFatigueDetectorP
       streamRef.current = null;
     }
     setIsMonitoring(false);
-    setFatigueLevel(0);
-    setEyesClosed(false);
-    setEyeClosedDuration(0);
   };
 
-  // Simulate fatigue detection (in production, use ML model)
+  // The video element only mounts once monitoring starts, so attach the stream afterwards
   useEffect(() => {
-    if (!isMonitoring || !isRideActive) return;
+    if (isMonitoring && videoRef.current && streamRef.current) {
+      videoRef.current.srcObject = streamRef.current;
+    }
+  }, [isMonitoring]);
 
-    const interval = setInterval(() => {
-      // Simulate eye state detection
-      const isEyesClosed = Math.random() < 0.1; // 10% chance eyes closed
-      setEyesClosed(isEyesClosed);
+  useEffect(() => {
+    onFatigueChange?.(isTracking ? fatigueLevel : 0);
+  }, [fatigueLevel, isTracking, onFatigueChange]);
 
-      if (isEyesClosed) {
-        setEyeClosedDuration(prev => prev + 1);
-      } else {
-        setEyeClosedDuration(0);
+  // Alert on sustained fatigue
+  useEffect(() => {
+    if (!isTracking) return;
+
+    if (fatigueLevel > 60 && Date.now() - lastAlert > 30000) {
+      setLastAlert(Date.now());
+      playAlertSound();
+      toast.warning('⚠️ Fatigue Detected!', {
+        description: 'Consider taking a break',
+        duration: 10000,
+      });
+      if (onSpeak) {
+        onSpeak('Warning! Fatigue detected. Please consider taking a break.');
       }
+    }
+  }, [isTracking, fatigueLevel, lastAlert, playAlertSound, onSpeak]);
 
-      // Simulate blink rate (normal: 15-20, fatigued: <10)
-      const newBlinkRate = 15 - Math.random() * 5 + (fatigueLevel > 50 ? -5 : 0);
-      setBlinkRate(Math.max(5, Math.min(25, newBlinkRate)));
-
-      // Calculate fatigue level
-      let newFatigue = fatigueLevel;
-      
-      if (isEyesClosed) {
-        newFatigue += 2;
-      } else {
-        newFatigue = Math.max(0, newFatigue - 0.5);
-      }
-      
-      if (blinkRate < 10) {
-        newFatigue += 1;
-      }
-      
-      setFatigueLevel(Math.min(100, Math.max(0, newFatigue)));
-
-      // Trigger alert if fatigue level is high
-      if (newFatigue > 60 && Date.now() - lastAlert > 30000) {
-        setLastAlert(Date.now());
-        playAlertSound();
-        toast.warning('⚠️ Fatigue Detected!', {
-          description: 'Consider taking a break',
-          duration: 10000,
-        });
-        if (onSpeak) {
-          onSpeak('Warning! Fatigue detected. Please consider taking a break.');
-        }
-      }
-    }, 1000);
+  // Eyes closed for over a second while driving needs an immediate wake-up
+  useEffect(() => {
+    if (!isTracking || metrics.eyeClosedDuration < 1000) return;
+    if (Date.now() - lastMicrosleepAlertRef.current < 5000) return;
 
-    return () => clearInterval(interval);
-  }, [isMonitoring, isRideActive, fatigueLevel, blinkRate, lastAlert, playAlertSound, onSpeak]);
+    lastMicrosleepAlertRef.current = Date.now();
+    playAlertSound();
+    if (onSpeak) {
+      onSpeak('Wake up! Keep your eyes on the road.');
+    }
+  }, [isTracking, metrics.eyeClosedDuration, playAlertSound, onSpeak]);
 
   // Auto-stop when ride ends
   useEffect(() => {
@@ -170,6 +159,11 @@ const DriverFatigueDetector = ({ isRideActive, onSpeak }: DriverFatigueDetectorP
                 <span className="w-2 h-2 rounded-full bg-danger animate-pulse" />
                 <span className="text-[10px] text-danger font-mono">LIVE</span>
               </div>
+              {(isModelLoading || isCalibrating || !faceDetected) && (
+                <div className="absolute bottom-2 left-2 px-2 py-0.5 rounded bg-background/80 text-[10px] font-mono text-muted-foreground">
+                  {isModelLoading ? 'Loading face model...' : !faceDetected ? 'No face detected' : 'Calibrating...'}
+                </div>
+              )}
               {eyesClosed && (
                 <div className="absolute inset-0 bg-danger/30 flex items-center justify-center animate-pulse">
                   <EyeOff className="h-8 w-8 text-danger" />
@@ -208,9 +202,19 @@ const DriverFatigueDetector = ({ isRideActive, onSpeak }: DriverFatigueDetectorP
             <div className="bg-muted/50 p-2 rounded">
               <span className="text-muted-foreground">Eye Status</span>
               <p className={cn("font-mono font-bold", eyesClosed ? "text-danger" : "text-safe")}>
-                {eyesClosed ? 'Closed' : 'Open'}
+                {faceDetected ? (eyesClosed ? 'Closed' : 'Open') : '--'}
               </p>
             </div>
+            <div className="bg-muted/50 p-2 rounded">
+              <span className="text-muted-foreground">PERCLOS</span>
+              <p className={cn("font-mono font-bold", perclos > 0.15 ? "text-danger" : "text-safe")}>
+                {(perclos * 100).toFixed(0)}%
+              </p>
+            </div>
+            <div className="bg-muted/50 p-2 rounded">
+              <span className="text-muted-foreground">Yawns (5 min)</span>
+              <p className={cn("font-mono font-bold", yawnCount >= 3 ? "text-warning" : "")}>{yawnCount}</p>
+            </div>
           </div>
         )}
 
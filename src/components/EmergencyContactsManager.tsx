@@ -4,9 +4,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
 
 interface EmergencyContact {
   id: string;
@@ -14,18 +17,82 @@ interface EmergencyContact {
   phone: string;
   email: string | null;
   is_primary: boolean;
+  channels: string[];
+  alert_types: string[];
+  locale: string;
+  telegram_chat_id: string | null;
+  webhook_url: string | null;
 }
 
+interface ContactForm {
+  name: string;
+  phone: string;
+  email: string;
+  channels: string[];
+  alert_types: string[];
+  locale: string;
+  telegram_chat_id: string;
+  webhook_url: string;
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+  sms: 'SMS',
+  email: 'Email',
+  telegram: 'Telegram',
+  webhook: 'Webhook',
+};
+
+const ALERT_TYPE_LABELS: Record<string, string> = {
+  sos: 'SOS',
+  collision: 'Collision',
+  speed_alert: 'Speeding',
+  ride_start: 'Ride start',
+  ride_stop: 'Ride end',
+  live_location: 'Live location',
+};
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+};
+
+const EMPTY_FORM: ContactForm = {
+  name: '',
+  phone: '',
+  email: '',
+  channels: ['sms'],
+  alert_types: ['sos', 'collision'],
+  locale: 'en',
+  telegram_chat_id: '',
+  webhook_url: '',
+};
+
+// Every channel a contact picks needs somewhere to send to
+const channelProblem = (form: ContactForm): string | null => {
+  const webhookUrl = form.webhook_url.trim();
+  if (form.channels.length === 0) return 'Pick at least one channel';
+  if (form.channels.includes('email') && !form.email.trim()) return 'Email alerts need an email address';
+  if (form.channels.includes('telegram') && !form.telegram_chat_id.trim()) return 'Telegram alerts need a chat ID';
+  if (form.channels.includes('webhook') && !webhookUrl) return 'Webhook alerts need a URL';
+  if (webhookUrl && !/^https:\/\/\S+$/.test(webhookUrl)) return 'Webhook URL must start with https://';
+  return null;
+};
+
 const EmergencyContactsManager = () => {
   const [contacts, setContacts] = useState<EmergencyContact[]>([]);
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [newContact, setNewContact] = useState({ name: '', phone: '', email: '' });
-  const [editContact, setEditContact] = useState({ name: '', phone: '', email: '' });
+  const [editContact, setEditContact] = useState<ContactForm>(EMPTY_FORM);
+  const { user } = useAuth();
+  const userId = user?.id;
 
+  // Contacts belong to the signed-in driver; reload when the account changes
   useEffect(() => {
-    fetchContacts();
-  }, []);
+    setContacts([]);
+    if (userId) fetchContacts();
+  }, [userId]);
 
   const fetchContacts = async () => {
     const { data, error } = await supabase
@@ -44,8 +111,13 @@ const EmergencyContactsManager = () => {
       toast.error('Name and phone are required');
       return;
     }
+    if (!userId) {
+      toast.error('Sign in to manage emergency contacts');
+      return;
+    }
 
     const { error } = await supabase.from('emergency_contacts').insert({
+      user_id: userId,
       name: newContact.name.trim(),
       phone: newContact.phone.trim(),
       email: newContact.email.trim() || null,
@@ -68,6 +140,11 @@ const EmergencyContactsManager = () => {
       toast.error('Name and phone are required');
       return;
     }
+    const problem = channelProblem(editContact);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
 
     const { error } = await supabase
       .from('emergency_contacts')
@@ -75,6 +152,11 @@ const EmergencyContactsManager = () => {
         name: editContact.name.trim(),
         phone: editContact.phone.trim(),
         email: editContact.email.trim() || null,
+        channels: editContact.channels,
+        alert_types: editContact.alert_types,
+        locale: editContact.locale,
+        telegram_chat_id: editContact.telegram_chat_id.trim() || null,
+        webhook_url: editContact.webhook_url.trim() || null,
       })
       .eq('id', id);
 
@@ -123,6 +205,11 @@ const EmergencyContactsManager = () => {
       name: contact.name,
       phone: contact.phone,
       email: contact.email || '',
+      channels: contact.channels,
+      alert_types: contact.alert_types,
+      locale: contact.locale,
+      telegram_chat_id: contact.telegram_chat_id || '',
+      webhook_url: contact.webhook_url || '',
     });
   };
 
@@ -229,6 +316,66 @@ const EmergencyContactsManager = () => {
                         className="h-7 text-xs bg-background"
                         placeholder="Email (optional)"
                       />
+                      <Input
+                        value={editContact.telegram_chat_id}
+                        onChange={(e) => setEditContact({ ...editContact, telegram_chat_id: e.target.value })}
+                        className="h-7 text-xs bg-background"
+                        placeholder="Telegram chat ID (optional)"
+                      />
+                      <Input
+                        type="url"
+                        value={editContact.webhook_url}
+                        onChange={(e) => setEditContact({ ...editContact, webhook_url: e.target.value })}
+                        className="h-7 text-xs bg-background"
+                        placeholder="Webhook URL (optional)"
+                      />
+                      <div className="space-y-1">
+                        <p className="text-[10px] text-muted-foreground font-mono">Send via</p>
+                        <ToggleGroup
+                          type="multiple"
+                          size="sm"
+                          variant="outline"
+                          value={editContact.channels}
+                          onValueChange={(channels) => setEditContact({ ...editContact, channels })}
+                          className="flex-wrap justify-start"
+                        >
+                          {Object.entries(CHANNEL_LABELS).map(([channel, label]) => (
+                            <ToggleGroupItem key={channel} value={channel} className="h-6 px-2 text-[10px]">
+                              {label}
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                      </div>
+                      <div className="space-y-1">
+                        <p className="text-[10px] text-muted-foreground font-mono">Alerts</p>
+                        <ToggleGroup
+                          type="multiple"
+                          size="sm"
+                          variant="outline"
+                          value={editContact.alert_types}
+                          onValueChange={(alert_types) => setEditContact({ ...editContact, alert_types })}
+                          className="flex-wrap justify-start"
+                        >
+                          {Object.entries(ALERT_TYPE_LABELS).map(([type, label]) => (
+                            <ToggleGroupItem key={type} value={type} className="h-6 px-2 text-[10px]">
+                              {label}
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                      </div>
+                      <Select
+                        value={editContact.locale}
+                        onValueChange={(locale) => setEditContact({ ...editContact, locale })}
+                      >
+                        <SelectTrigger className="h-7 text-xs bg-background">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(LANGUAGE_LABELS).map(([locale, label]) => (
+                            <SelectItem key={locale} value={locale} className="text-xs">{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <div className="flex gap-1">
                         <Button 
                           size="sm" 
@@ -266,6 +413,9 @@ const EmergencyContactsManager = () => {
                             <span className="truncate">{contact.email}</span>
                           </div>
                         )}
+                        <p className="text-[10px] text-muted-foreground font-mono truncate">
+                          {contact.channels.map(c => CHANNEL_LABELS[c] ?? c).join(' · ')} • {contact.alert_types.length} alert type{contact.alert_types.length !== 1 ? 's' : ''}
+                        </p>
                       </div>
                       <div className="flex items-center gap-0.5 flex-shrink-0">
                         <Button
@@ -1,11 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { AlertCircle, Phone, Plus, X, User, Loader2 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useHaptics } from '@/hooks/useHaptics';
-import { useTelegramAlert } from '@/hooks/useTelegramAlert';
+import { useAlertDispatch } from '@/hooks/useAlertDispatch';
+import { submitToOutbox, SubmitResult } from '@/hooks/useSyncOutbox';
+import { useAuth } from '@/hooks/useAuth';
+import { useCrashDetection } from '@/hooks/useCrashDetection';
+import { CrashAssessment } from '@/lib/crashDetection';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
 
 interface EmergencyContact {
   id: string;
@@ -14,23 +25,40 @@ interface EmergencyContact {
   is_primary: boolean;
 }
 
+// What the active SOS banner says about the contacts
+const DELIVERY_STATUS: Record<SubmitResult, string> = {
+  sent: 'Emergency contacts notified',
+  queued: 'Contacts will be notified when back online',
+  failed: 'Emergency contacts could not be reached',
+  no_recipients: 'No emergency contact receives SOS alerts',
+};
+
 interface EmergencySOSProps {
   currentLocation: { lat: number; lng: number } | null;
   isRideActive: boolean;
+  currentSpeed?: number;
+  onSpeak?: (message: string) => void;
 }
 
-const EmergencySOS = ({ currentLocation, isRideActive }: EmergencySOSProps) => {
+const EmergencySOS = ({ currentLocation, isRideActive, currentSpeed = 0, onSpeak }: EmergencySOSProps) => {
   const [contacts, setContacts] = useState<EmergencyContact[]>([]);
   const [isSending, setIsSending] = useState(false);
   const [showAddContact, setShowAddContact] = useState(false);
   const [newContact, setNewContact] = useState({ name: '', phone: '' });
   const [sosActive, setSosActive] = useState(false);
+  const [sosDelivery, setSosDelivery] = useState<SubmitResult | null>(null);
   const { sosHaptic, notificationSuccess } = useHaptics();
-  const { sendAlert } = useTelegramAlert();
+  const { sendAlert } = useAlertDispatch();
+  const { user } = useAuth();
+  const userId = user?.id;
+  // A crash can cost the GPS fix (tunnel, damaged antenna); the last fix beats none
+  const lastLocationRef = useRef(currentLocation);
+  if (currentLocation) lastLocationRef.current = currentLocation;
 
   useEffect(() => {
-    fetchContacts();
-  }, []);
+    setContacts([]);
+    if (userId) fetchContacts();
+  }, [userId]);
 
   const fetchContacts = async () => {
     const { data, error } = await supabase
@@ -48,8 +76,13 @@ const EmergencySOS = ({ currentLocation, isRideActive }: EmergencySOSProps) => {
       toast.error('Please fill all fields');
       return;
     }
+    if (!userId) {
+      toast.error('Sign in to manage emergency contacts');
+      return;
+    }
 
     const { error } = await supabase.from('emergency_contacts').insert({
+      user_id: userId,
       name: newContact.name,
       phone: newContact.phone,
       is_primary: contacts.length === 0
@@ -78,53 +111,105 @@ const EmergencySOS = ({ currentLocation, isRideActive }: EmergencySOSProps) => {
     }
   };
 
-  const triggerSOS = async () => {
-    if (!currentLocation) {
-      toast.error('Location not available');
-      return;
-    }
+  const triggerSOS = useCallback(async (reason?: string) => {
+    const location = currentLocation ?? lastLocationRef.current;
+    const coordinates = location && `${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}`;
+    const where = location ? `${currentLocation ? 'Location' : 'Last known location'}: ${coordinates}` : 'Location unknown';
 
     setIsSending(true);
     setSosActive(true);
+    setSosDelivery(null);
     
     // Trigger SOS haptic pattern
     sosHaptic();
 
     try {
-      // Create SOS alert in database
-      const { error } = await supabase.from('sos_alerts').insert({
-        location_lat: currentLocation.lat,
-        location_lng: currentLocation.lng,
-        status: 'active',
-        message: `Emergency SOS triggered at coordinates: ${currentLocation.lat.toFixed(6)}, ${currentLocation.lng.toFixed(6)}`
+      // Create SOS alert in database; queued and replayed if we are offline.
+      // The row needs coordinates, so without any fix only the contacts are alerted.
+      const result = location
+        ? await submitToOutbox('sos_alert', {
+          location_lat: location.lat,
+          location_lng: location.lng,
+          status: 'active',
+          message: `${reason ?? 'Emergency SOS triggered'} at ${currentLocation ? 'coordinates' : 'last known coordinates'}: ${coordinates}`,
+          triggered_at: new Date().toISOString()
+        })
+        : null;
+
+      // Reaches each contact on the channels they chose
+      const alertResult = await sendAlert('sos', {
+        ...(location && { lat: location.lat, lng: location.lng }),
+        message: currentLocation ? reason ?? 'Emergency SOS!' : `${reason ?? 'Emergency SOS!'} (${where})`,
       });
+      setSosDelivery(alertResult);
 
-      if (error) throw error;
+      if (alertResult === 'no_recipients') {
+        toast.error(
+          <div className="space-y-2">
+            <p className="font-bold">🚨 SOS REACHED NO ONE</p>
+            <p className="text-sm">{where}</p>
+            <p className="text-xs">No emergency contact receives SOS alerts. Call emergency services directly, then add a contact with SOS turned on.</p>
+          </div>,
+          { duration: 15000 }
+        );
+        onSpeak?.('Warning. No emergency contact received the SOS. Call emergency services.');
+        return;
+      }
 
-      // Send Telegram SOS alert
-      await sendAlert('sos', {
-        lat: currentLocation.lat,
-        lng: currentLocation.lng,
-        message: `Emergency SOS! Contacts: ${contacts.map(c => `${c.name} (${c.phone})`).join(', ')}`,
-      });
+      if (alertResult === 'failed') {
+        toast.error(
+          <div className="space-y-2">
+            <p className="font-bold">🚨 SOS NOT DELIVERED</p>
+            <p className="text-sm">{where}</p>
+            <p className="text-xs">Some emergency contacts could not be reached. Call emergency services directly.</p>
+          </div>,
+          { duration: 15000 }
+        );
+        return;
+      }
+
+      if (result === 'queued' || alertResult === 'queued') {
+        toast.error(
+          <div className="space-y-2">
+            <p className="font-bold">🚨 SOS QUEUED - NO CONNECTION</p>
+            <p className="text-sm">{where}</p>
+            <p className="text-xs">It will be sent automatically as soon as the network is back. Call emergency services directly if you can.</p>
+          </div>,
+          { duration: 15000 }
+        );
+        return;
+      }
 
       // Show notification with location
       toast.error(
         <div className="space-y-2">
           <p className="font-bold">🚨 SOS ALERT SENT!</p>
-          <p className="text-sm">Location: {currentLocation.lat.toFixed(6)}, {currentLocation.lng.toFixed(6)}</p>
-          <p className="text-xs">Emergency contacts & Telegram notified</p>
+          <p className="text-sm">{where}</p>
+          <p className="text-xs">Emergency contacts notified</p>
         </div>,
         { duration: 10000 }
       );
 
     } catch (error) {
       console.error('Error triggering SOS:', error);
+      setSosDelivery('failed');
       toast.error('Failed to send SOS');
     } finally {
       setIsSending(false);
     }
-  };
+  }, [currentLocation, sosHaptic, sendAlert, onSpeak]);
+
+  // Driver didn't respond to the crash countdown
+  const handleCrashUnanswered = useCallback((crash: CrashAssessment) => {
+    triggerSOS(`Automatic crash SOS (${crash.reason}, no driver response)`);
+  }, [triggerSOS]);
+
+  const { crash, countdown, isCountingDown, cancel: cancelCrashCountdown } = useCrashDetection({
+    isActive: isRideActive,
+    currentSpeed,
+    onCountdownExpired: handleCrashUnanswered,
+    onSpeak,
+  });
 
   const cancelSOS = async () => {
     // Update the latest SOS alert to cancelled
@@ -134,12 +219,40 @@ const EmergencySOS = ({ currentLocation, isRideActive }: EmergencySOSProps) => {
       .eq('status', 'active');
 
     setSosActive(false);
+    setSosDelivery(null);
     notificationSuccess();
     toast.success('SOS cancelled');
   };
 
   return (
     <Card className="p-4">
+      <AlertDialog open={isCountingDown}>
+        <AlertDialogContent className="border-danger">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="font-mono text-danger flex items-center gap-2">
+              <AlertCircle className="h-5 w-5" />
+              Crash Detected
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {crash?.reason}. Emergency SOS will be sent automatically.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <p className="text-6xl font-bold font-mono text-center text-danger animate-pulse">
+            {countdown}
+          </p>
+          <Button onClick={cancelCrashCountdown} size="lg" className="w-full h-14 text-lg font-bold font-mono">
+            I'm OK - Cancel
+          </Button>
+          <Button
+            onClick={() => { cancelCrashCountdown(); triggerSOS('Crash SOS confirmed by driver'); }}
+            variant="destructive"
+            className="w-full font-mono"
+          >
+            Send SOS Now
+          </Button>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <div className="space-y-4">
         <div className="flex items-center gap-2">
           <AlertCircle className="h-5 w-5 text-danger" />
@@ -148,7 +261,7 @@ const EmergencySOS = ({ currentLocation, isRideActive }: EmergencySOSProps) => {
 
         {/* SOS Button */}
         <Button
-          onClick={sosActive ? cancelSOS : triggerSOS}
+          onClick={sosActive ? cancelSOS : () => triggerSOS()}
           disabled={isSending}
           variant={sosActive ? "outline" : "destructive"}
           className={`w-full h-16 text-lg font-bold font-mono ${
@@ -176,7 +289,7 @@ const EmergencySOS = ({ currentLocation, isRideActive }: EmergencySOSProps) => {
         {sosActive && (
           <div className="bg-danger/10 border border-danger/20 p-3 rounded-lg animate-pulse">
             <p className="text-xs text-center text-danger font-mono">
-              SOS ACTIVE - Emergency contacts notified
+              SOS ACTIVE - {sosDelivery ? DELIVERY_STATUS[sosDelivery] : 'Notifying emergency contacts'}
             </p>
           </div>
         )}
@@ -15,6 +15,9 @@ import {
   Car
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useSettings } from '@/hooks/useSettings';
+import { createCachedTileLayer } from '@/lib/cachedTileLayer';
+import { tileCacheConfig, TileSourceId } from '@/lib/tileCache';
 
 interface Vehicle {
   id: string;
@@ -29,32 +32,21 @@ interface EnhancedCollisionMapProps {
   routeCoordinates?: { lat: number; lng: number }[];
   dangerZones?: { lat: number; lng: number; reason: string }[];
   currentLocation?: { lat: number; lng: number } | null;
+  locationAccuracy?: number | null; // meters
+  isDeadReckoning?: boolean;
   isRideActive?: boolean;
   collisionRisk?: number;
   nearbyVehicleCount?: number;
 }
 
-type MapStyle = 'default' | 'satellite' | 'dark';
-
-const MAP_TILES: Record<MapStyle, { url: string; attribution: string }> = {
-  default: {
-    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
-    attribution: '© OpenStreetMap contributors',
-  },
-  satellite: {
-    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
-    attribution: '© Esri',
-  },
-  dark: {
-    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
-    attribution: '© CARTO',
-  },
-};
+type MapStyle = TileSourceId;
 
 const EnhancedCollisionMap = ({ 
   routeCoordinates = [], 
   dangerZones = [], 
   currentLocation,
+  locationAccuracy = null,
+  isDeadReckoning = false,
   isRideActive = false,
   collisionRisk = 0,
   nearbyVehicleCount = 0,
@@ -73,6 +65,9 @@ const EnhancedCollisionMap = ({
   const [showLegend, setShowLegend] = useState(true);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isFollowing, setIsFollowing] = useState(true);
+  const { settings } = useSettings();
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
 
   // Initialize map
   useEffect(() => {
@@ -84,10 +79,7 @@ const EnhancedCollisionMap = ({
     }).setView([28.6139, 77.2090], 13);
 
     // Add tile layer
-    tileLayerRef.current = L.tileLayer(MAP_TILES[mapStyle].url, {
-      attribution: MAP_TILES[mapStyle].attribution,
-      maxZoom: 19,
-    }).addTo(map);
+    tileLayerRef.current = createCachedTileLayer(mapStyle, () => tileCacheConfig(settingsRef.current), { maxZoom: 19 }).addTo(map);
 
     // Add attribution in corner
     L.control.attribution({ position: 'bottomright' }).addTo(map);
@@ -122,10 +114,7 @@ const EnhancedCollisionMap = ({
     if (!mapRef.current || !tileLayerRef.current) return;
     
     tileLayerRef.current.remove();
-    tileLayerRef.current = L.tileLayer(MAP_TILES[mapStyle].url, {
-      attribution: MAP_TILES[mapStyle].attribution,
-      maxZoom: 19,
-    }).addTo(mapRef.current);
+    tileLayerRef.current = createCachedTileLayer(mapStyle, () => tileCacheConfig(settingsRef.current), { maxZoom: 19 }).addTo(mapRef.current);
   }, [mapStyle]);
 
   const fetchVehicles = async () => {
@@ -180,14 +169,18 @@ const EnhancedCollisionMap = ({
       `);
     }
 
-    // Add/update accuracy circle
+    // Add/update accuracy circle; amber while the position is dead-reckoned without GPS
+    const accuracyColor = isDeadReckoning ? '#f59e0b' : '#3b82f6';
+    const radius = Math.min(1000, locationAccuracy ?? 50);
     if (accuracyCircleRef.current) {
       accuracyCircleRef.current.setLatLng(position);
+      accuracyCircleRef.current.setRadius(radius);
+      accuracyCircleRef.current.setStyle({ color: accuracyColor, fillColor: accuracyColor });
     } else {
       accuracyCircleRef.current = L.circle(position, {
-        radius: 50,
-        color: '#3b82f6',
-        fillColor: '#3b82f6',
+        radius,
+        color: accuracyColor,
+        fillColor: accuracyColor,
         fillOpacity: 0.1,
         weight: 1,
       }).addTo(mapRef.current);
@@ -200,7 +193,7 @@ const EnhancedCollisionMap = ({
         duration: 0.5,
       });
     }
-  }, [currentLocation, isFollowing, isRideActive]);
+  }, [currentLocation, locationAccuracy, isDeadReckoning, isFollowing, isRideActive]);
 
   // Update route line with gradient effect
   useEffect(() => {
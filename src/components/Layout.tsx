@@ -3,6 +3,7 @@ import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import { useNetworkStatus } from '@/hooks/useNetworkStatus';
 import { useNativeSpeech } from '@/hooks/useNativeSpeech';
+import { useOutboxAutoSync } from '@/hooks/useSyncOutbox';
 
 interface LayoutProps {
   children: ReactNode;
@@ -19,6 +20,9 @@ const Layout = ({ children }: LayoutProps) => {
 
   const { enableSpeech } = useNativeSpeech();
 
+  // Replay queued writes whenever connectivity returns
+  useOutboxAutoSync(networkConnected);
+
   return (
     <div className="min-h-screen flex flex-col bg-background text-foreground" onClick={enableSpeech}>
       <Navbar
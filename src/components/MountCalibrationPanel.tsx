@@ -0,0 +1,54 @@
+import { Compass, RotateCcw } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useMountCalibration } from '@/hooks/useMountCalibration';
+import type { CalibrationState } from '@/lib/mountCalibration';
+import { cn } from '@/lib/utils';
+
+interface MountCalibrationPanelProps {
+  isActive: boolean;
+  speed: number | null; // km/h
+}
+
+const STATE_LABELS: Record<CalibrationState, { label: string; hint: string }> = {
+  uncalibrated: { label: 'Not calibrated', hint: 'Hold the car still for a few seconds with the phone in its holder' },
+  gravity: { label: 'Learning forward', hint: 'Accelerate and brake on a straight road' },
+  calibrated: { label: 'Calibrated', hint: 'Impacts and driving events use the car\'s axes' },
+};
+
+const MountCalibrationPanel = ({ isActive, speed }: MountCalibrationPanelProps) => {
+  const { state, progress, recalibrate } = useMountCalibration({ isActive, speed });
+  const { label, hint } = STATE_LABELS[state];
+
+  return (
+    <Card className="p-4 border-border bg-card">
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-bold font-mono flex items-center gap-2 text-foreground">
+            <Compass className="h-4 w-4 text-primary" />
+            Phone Mount
+          </h3>
+          <div className={cn(
+            "px-2 py-0.5 rounded-full text-xs font-mono",
+            state === 'calibrated' ? "bg-safe/20 text-safe" : "bg-warning/20 text-warning"
+          )}>
+            {label}
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">{hint}</p>
+        {state === 'gravity' && <Progress value={progress * 100} className="h-1.5" />}
+
+        {state !== 'uncalibrated' && (
+          <Button onClick={recalibrate} variant="ghost" size="sm" className="w-full font-mono text-xs">
+            <RotateCcw className="mr-2 h-3 w-3" />
+            Recalibrate
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default MountCalibrationPanel;
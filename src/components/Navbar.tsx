@@ -1,8 +1,10 @@
 import { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Menu, X, Shield, Map, History, Settings, Activity, Phone, Home } from 'lucide-react';
+import { Menu, X, Shield, Map, History, Settings, Activity, Phone, Home, LogIn, LogOut } from 'lucide-react';
 import ThemeToggle from '@/components/ThemeToggle';
 import NetworkStatusIndicator from '@/components/NetworkStatusIndicator';
+import SyncStatusIndicator from '@/components/SyncStatusIndicator';
+import { useAuth } from '@/hooks/useAuth';
 import { cn } from '@/lib/utils';
 
 interface NavbarProps {
@@ -25,6 +27,7 @@ const navLinks = [
 const Navbar = ({ networkConnected, connectionType, connectionQuality, isWifi, isCellular }: NavbarProps) => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const location = useLocation();
+  const { user, signOut } = useAuth();
 
   return (
     <nav className="sticky top-0 z-50 bg-card/80 backdrop-blur-xl border-b border-border safe-area-top">
@@ -60,6 +63,7 @@ const Navbar = ({ networkConnected, connectionType, connectionQuality, isWifi, i
 
           {/* Right side */}
           <div className="flex items-center gap-2">
+            <SyncStatusIndicator connected={networkConnected} />
             <NetworkStatusIndicator
               connected={networkConnected}
               connectionType={connectionType}
@@ -69,6 +73,24 @@ const Navbar = ({ networkConnected, connectionType, connectionQuality, isWifi, i
               compact
             />
             <ThemeToggle />
+            {user ? (
+              <button
+                onClick={signOut}
+                title={`Sign out ${user.email ?? ''}`}
+                className="p-2 rounded-lg bg-muted text-muted-foreground hover:text-foreground touch-target"
+                aria-label="Sign out"
+              >
+                <LogOut className="h-5 w-5" />
+              </button>
+            ) : (
+              <Link
+                to="/auth"
+                className="p-2 rounded-lg bg-muted text-muted-foreground hover:text-foreground touch-target"
+                aria-label="Sign in"
+              >
+                <LogIn className="h-5 w-5" />
+              </Link>
+            )}
             <button
               onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
               className="md:hidden p-2 rounded-lg bg-muted text-muted-foreground touch-target"
@@ -1,9 +1,11 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Navigation, MapPin, AlertTriangle, ArrowRight, ArrowLeft, ArrowUp, RotateCw, Flag, Loader2, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { createGuidanceEngine, GuidanceEngine } from '@/lib/routeGuidance';
+import { useOfflineRouting } from '@/hooks/useOfflineRouting';
 
 interface Direction {
   instruction: string;
@@ -14,20 +16,68 @@ interface Direction {
   name: string;
 }
 
+interface RouteDangerZone {
+  lat: number;
+  lng: number;
+  radius: number;
+  riskScore: number;
+  reason: string;
+}
+
+interface RouteOption {
+  coordinates: { lat: number; lng: number }[];
+  distance: number;
+  duration: number;
+  summary: string;
+  directions: Direction[];
+  safetyScore: number;
+  dangerZones: RouteDangerZone[];
+}
+
+interface RouteConditions {
+  weather: string | null;
+  hour: number;
+  riskMultiplier: number;
+}
+
 interface NavigationRouteProps {
   currentLocation: { lat: number; lng: number } | null;
   onRouteCalculated: (coordinates: { lat: number; lng: number }[], dangerZones: any[]) => void;
   destination: string;
   setDestination: (dest: string) => void;
   speak?: (text: string) => void;
+  speakNavigation?: (text: string) => void;
+  isOffline?: boolean;
 }
 
-const NavigationRoute = ({ currentLocation, onRouteCalculated, destination, setDestination, speak }: NavigationRouteProps) => {
+type RoutePreference = 'safest' | 'fastest';
+
+interface RouteResponse {
+  routes: RouteOption[];
+  fastestIndex: number;
+  conditions: RouteConditions | null;
+}
+
+// Minimum gap between automatic reroutes so a bad GPS stretch doesn't hammer the router
+const REROUTE_COOLDOWN_MS = 15000;
+
+const NavigationRoute = ({ currentLocation, onRouteCalculated, destination, setDestination, speak, speakNavigation, isOffline = false }: NavigationRouteProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [directions, setDirections] = useState<Direction[]>([]);
   const [currentStep, setCurrentStep] = useState(0);
   const [routeInfo, setRouteInfo] = useState<{ distance: number; duration: number; safetyScore: number } | null>(null);
   const [isNavigating, setIsNavigating] = useState(false);
+  const [routeOptions, setRouteOptions] = useState<RouteOption[]>([]);
+  const [fastestIndex, setFastestIndex] = useState(0);
+  const [conditions, setConditions] = useState<RouteConditions | null>(null);
+  const [guidance, setGuidance] = useState<{ distanceToManeuver: number; distanceRemaining: number } | null>(null);
+  const [isRerouting, setIsRerouting] = useState(false);
+  const engineRef = useRef<GuidanceEngine | null>(null);
+  const endRef = useRef<{ lat: number; lng: number } | null>(null);
+  const preferenceRef = useRef<RoutePreference>('safest');
+  const lastRerouteRef = useRef(0);
+  const reroutingRef = useRef(false);
+  const offlineRouting = useOfflineRouting();
 
   const getDirectionIcon = (type: string, modifier?: string) => {
     if (type === 'turn' && modifier === 'left') return <ArrowLeft className="h-5 w-5" />;
@@ -37,6 +87,40 @@ const NavigationRoute = ({ currentLocation, onRouteCalculated, destination, setD
     return <ArrowUp className="h-5 w-5" />;
   };
 
+  // Ranked route alternatives, scored against the clustered danger zones server-side,
+  // or against the downloaded road graph and zone snapshot when offline
+  const requestRoutes = async (start: { lat: number; lng: number }, end: { lat: number; lng: number }): Promise<RouteResponse> => {
+    if (isOffline) return offlineRouting.route(start, end);
+
+    const { data, error } = await supabase.functions.invoke('get-navigation-route', {
+      body: {
+        startLat: start.lat,
+        startLng: start.lng,
+        endLat: end.lat,
+        endLng: end.lng,
+        localHour: new Date().getHours()
+      }
+    });
+
+    if (error) throw error;
+
+    return {
+      routes: data.routes || [],
+      fastestIndex: data.fastestIndex ?? 0,
+      conditions: data.conditions || null
+    };
+  };
+
+  // Geocode destination using Nominatim (free)
+  const geocode = async (query: string): Promise<{ lat: number; lng: number } | null> => {
+    const geocodeResponse = await fetch(
+      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=1`
+    );
+    const geocodeData = await geocodeResponse.json();
+    if (!geocodeData || geocodeData.length === 0) return null;
+    return { lat: parseFloat(geocodeData[0].lat), lng: parseFloat(geocodeData[0].lon) };
+  };
+
   const calculateRoute = async () => {
     if (!currentLocation || !destination) {
       toast.error('Please enter a destination');
@@ -46,70 +130,110 @@ const NavigationRoute = ({ currentLocation, onRouteCalculated, destination, setD
     setIsLoading(true);
 
     try {
-      // Geocode destination using Nominatim (free)
-      const geocodeResponse = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(destination)}&limit=1`
-      );
-      const geocodeData = await geocodeResponse.json();
-
-      if (!geocodeData || geocodeData.length === 0) {
-        toast.error('Destination not found');
+      const end = isOffline ? await offlineRouting.geocode(destination, currentLocation) : await geocode(destination);
+
+      if (!end) {
+        toast.error('Destination not found', isOffline ? { description: 'Offline, enter a street in a downloaded area or coordinates (lat, lng)' } : undefined);
         return;
       }
 
-      const endLat = parseFloat(geocodeData[0].lat);
-      const endLng = parseFloat(geocodeData[0].lon);
-
-      // Get collision points for safety analysis
-      const { data: collisions } = await supabase
-        .from('collision_events')
-        .select('location_lat, location_lng, severity')
-        .order('timestamp', { ascending: false })
-        .limit(50);
-
-      const collisionPoints = collisions?.map(c => ({
-        lat: c.location_lat,
-        lng: c.location_lng,
-        severity: c.severity
-      })) || [];
-
-      // Get navigation route
-      const { data, error } = await supabase.functions.invoke('get-navigation-route', {
-        body: {
-          startLat: currentLocation.lat,
-          startLng: currentLocation.lng,
-          endLat,
-          endLng,
-          collisionPoints
-        }
-      });
-
-      if (error) throw error;
-
-      setDirections(data.directions || []);
-      setRouteInfo({
-        distance: data.distance,
-        duration: data.duration,
-        safetyScore: data.safetyScore
-      });
-      setCurrentStep(0);
-      setIsNavigating(true);
-
-      onRouteCalculated(data.coordinates, data.dangerZones || []);
-      
+      endRef.current = end;
+      const { routes, fastestIndex, conditions } = await requestRoutes(currentLocation, endRef.current);
+
+      if (routes.length === 0) {
+        toast.error('No route found');
+        return;
+      }
+
+      setConditions(conditions);
+      setFastestIndex(fastestIndex);
+
+      if (routes.length === 1) {
+        startRoute(routes[0], 'safest');
+        return;
+      }
+
+      setRouteOptions(routes);
       if (speak) {
-        speak(`Route calculated. ${formatDistance(data.distance)} to destination. Safety score: ${data.safetyScore} percent.`);
+        speak(`${routes.length} routes found. Safest route scores ${routes[0].safetyScore} percent, fastest takes ${formatDuration(routes[fastestIndex].duration)}.`);
       }
-      
-      toast.success('Route calculated!');
     } catch (error) {
       console.error('Error calculating route:', error);
-      toast.error('Failed to calculate route');
+      toast.error('Failed to calculate route', isOffline && error instanceof Error ? { description: error.message } : undefined);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const startRoute = (route: RouteOption, preference: RoutePreference, rerouted = false) => {
+    preferenceRef.current = preference;
+    engineRef.current = createGuidanceEngine(route.coordinates, route.directions || []);
+    setRouteOptions([]);
+    setDirections(route.directions || []);
+    setRouteInfo({
+      distance: route.distance,
+      duration: route.duration,
+      safetyScore: route.safetyScore
+    });
+    setGuidance(null);
+    setCurrentStep(0);
+    setIsNavigating(true);
+
+    onRouteCalculated(route.coordinates, route.dangerZones || []);
+
+    if (rerouted) {
+      speakNavigation?.(`Route updated. ${formatDistance(route.distance)} to destination.`);
+      toast.info('Route updated');
+      return;
+    }
+
+    if (speak) {
+      speak(`Route calculated. ${formatDistance(route.distance)} to destination. Safety score: ${route.safetyScore} percent.`);
+    }
+
+    toast.success('Route calculated!');
+  };
+
+  // Recalculate from the current position, keeping the driver's fastest/safest choice
+  const reroute = async (from: { lat: number; lng: number }) => {
+    if (!endRef.current || reroutingRef.current) return;
+    reroutingRef.current = true;
+    lastRerouteRef.current = Date.now();
+    setIsRerouting(true);
+    speakNavigation?.('Off route. Recalculating.');
+
+    try {
+      const { routes, fastestIndex, conditions } = await requestRoutes(from, endRef.current);
+      if (routes.length === 0) throw new Error('No route found');
+      setConditions(conditions);
+      setFastestIndex(fastestIndex);
+      startRoute(preferenceRef.current === 'fastest' ? routes[fastestIndex] : routes[0], preferenceRef.current, true);
+    } catch (error) {
+      console.error('Error rerouting:', error);
+      toast.error('Failed to recalculate route');
+    } finally {
+      reroutingRef.current = false;
+      setIsRerouting(false);
+    }
+  };
+  const rerouteRef = useRef(reroute);
+  rerouteRef.current = reroute;
+
+  // Follow the live position along the route
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!isNavigating || !engine || !currentLocation) return;
+
+    const update = engine.update(currentLocation);
+    setCurrentStep(update.stepIndex);
+    setGuidance({ distanceToManeuver: update.distanceToManeuver, distanceRemaining: update.distanceRemaining });
+
+    if (update.announcement) speakNavigation?.(update.announcement);
+    if (update.offRoute && Date.now() - lastRerouteRef.current > REROUTE_COOLDOWN_MS) {
+      rerouteRef.current(currentLocation);
+    }
+  }, [currentLocation, isNavigating, speakNavigation]);
+
   const formatDistance = (meters: number) => {
     if (meters >= 1000) {
       return `${(meters / 1000).toFixed(1)} km`;
@@ -126,25 +250,14 @@ const NavigationRoute = ({ currentLocation, onRouteCalculated, destination, setD
     return `${minutes} min`;
   };
 
-  const nextStep = () => {
-    if (currentStep < directions.length - 1) {
-      setCurrentStep(prev => prev + 1);
-      if (speak && directions[currentStep + 1]) {
-        speak(directions[currentStep + 1].instruction);
-      }
-    }
-  };
-
-  const prevStep = () => {
-    if (currentStep > 0) {
-      setCurrentStep(prev => prev - 1);
-    }
-  };
-
   const cancelNavigation = () => {
+    engineRef.current = null;
+    endRef.current = null;
+    setGuidance(null);
     setIsNavigating(false);
     setDirections([]);
     setRouteInfo(null);
+    setRouteOptions([]);
     setDestination('');
     onRouteCalculated([], []);
     if (speak) {
@@ -194,6 +307,60 @@ const NavigationRoute = ({ currentLocation, onRouteCalculated, destination, setD
                 Start a ride to enable navigation
               </p>
             )}
+
+            {currentLocation && isOffline && (
+              <p className="text-xs text-warning text-center">
+                Offline, routing with downloaded road data
+              </p>
+            )}
+
+            {/* Route Alternatives */}
+            {routeOptions.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-mono text-muted-foreground">
+                    Choose a route{isOffline && ' (offline)'}:
+                  </p>
+                  {conditions && conditions.riskMultiplier > 1 && (
+                    <span className="flex items-center gap-1 text-[10px] font-mono text-warning">
+                      <AlertTriangle className="h-3 w-3" />
+                      {[conditions.weather, conditions.hour >= 20 || conditions.hour < 6 ? 'night' : null].filter(Boolean).join(', ') || 'rush hour'}
+                      {' '}×{conditions.riskMultiplier.toFixed(2)} risk
+                    </span>
+                  )}
+                </div>
+                {routeOptions.map((route, idx) => (
+                  <button
+                    key={idx}
+                    onClick={() => startRoute(route, idx === fastestIndex && idx !== 0 ? 'fastest' : 'safest')}
+                    className="w-full text-left bg-muted/50 hover:bg-muted p-2 rounded-lg border border-border transition-colors"
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium truncate">{route.summary || `Route ${idx + 1}`}</span>
+                      <div className="flex gap-1">
+                        {idx === 0 && (
+                          <span className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-safe/20 text-safe">SAFEST</span>
+                        )}
+                        {idx === fastestIndex && (
+                          <span className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-primary/20 text-primary">FASTEST</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 text-xs font-mono text-muted-foreground mt-1">
+                      <span>{formatDistance(route.distance)}</span>
+                      <span>{formatDuration(route.duration)}</span>
+                      <span className={getSafetyColor(route.safetyScore)}>{route.safetyScore}% safe</span>
+                      {route.dangerZones.length > 0 && (
+                        <span className="flex items-center gap-1 text-danger">
+                          <MapPin className="h-3 w-3" />
+                          {route.dangerZones.length}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         ) : (
           <div className="space-y-3">
@@ -227,24 +394,25 @@ const NavigationRoute = ({ currentLocation, onRouteCalculated, destination, setD
                   <div className="flex-1">
                     <p className="font-medium">{directions[currentStep].instruction}</p>
                     <p className="text-xs text-muted-foreground font-mono">
-                      {formatDistance(directions[currentStep].distance)} • {directions[currentStep].name}
+                      {formatDistance(guidance ? guidance.distanceToManeuver : directions[currentStep].distance)} • {directions[currentStep].name}
                     </p>
                   </div>
                 </div>
               </div>
             )}
 
-            {/* Navigation Controls */}
-            <div className="flex items-center justify-between">
-              <Button variant="outline" size="sm" onClick={prevStep} disabled={currentStep === 0}>
-                <ArrowLeft className="h-4 w-4 mr-1" /> Prev
-              </Button>
-              <span className="text-xs font-mono text-muted-foreground">
-                Step {currentStep + 1} of {directions.length}
-              </span>
-              <Button variant="outline" size="sm" onClick={nextStep} disabled={currentStep >= directions.length - 1}>
-                Next <ArrowRight className="h-4 w-4 ml-1" />
-              </Button>
+            {/* Progress */}
+            <div className="flex items-center justify-between text-xs font-mono text-muted-foreground">
+              <span>Step {currentStep + 1} of {directions.length}</span>
+              {isRerouting ? (
+                <span className="flex items-center gap-1 text-warning">
+                  <Loader2 className="h-3 w-3 animate-spin" /> Rerouting...
+                </span>
+              ) : guidance && routeInfo && (
+                <span>
+                  {formatDistance(guidance.distanceRemaining)} • {formatDuration(routeInfo.duration * guidance.distanceRemaining / Math.max(1, routeInfo.distance))} left
+                </span>
+              )}
             </div>
 
             {/* Upcoming Directions */}
@@ -4,23 +4,54 @@ import { Card } from './ui/card';
 import { MapPin, Play, Square, Navigation } from 'lucide-react';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
-import { useTelegramAlert } from '@/hooks/useTelegramAlert';
+import { useAlertDispatch } from '@/hooks/useAlertDispatch';
+import { useTripRecorder } from '@/hooks/useTripRecorder';
+import { submitToOutbox } from '@/hooks/useSyncOutbox';
+import { useMotionSensor } from '@/hooks/useMotionSensor';
+import { useDrivingBehavior } from '@/hooks/useDrivingBehavior';
+import type { HarshEvent, HarshEventType } from '@/lib/drivingBehavior';
+import { createHeadingFusion, compassFromAlpha, HeadingSource } from '@/lib/headingFusion';
+
+type VehicleStatus = 'active' | 'warning' | 'danger' | 'stopped';
+
+const RISK_STATUS_HOLD_MS = 10000;
+// Queued positions older than this are useless to other drivers
+const TRACKING_TTL_MS = 5 * 60 * 1000;
+
+const HARSH_EVENT_LABELS: Record<HarshEventType, string> = {
+  harsh_braking: 'Harsh braking',
+  rapid_acceleration: 'Rapid acceleration',
+  aggressive_cornering: 'Aggressive cornering',
+  swerve: 'Swerve',
+};
 
 interface RideControllerProps {
   onRideStateChange: (isActive: boolean) => void;
   detectedSpeed: number;
+  obdSpeed?: number | null; // km/h; speed deltas from the adapter are the most precise braking signal
+  onHeadingChange?: (heading: number | null) => void;
 }
 
-const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProps) => {
+const RideController = ({ onRideStateChange, detectedSpeed, obdSpeed = null, onHeadingChange }: RideControllerProps) => {
   const [isRideActive, setIsRideActive] = useState(false);
   const [currentLocation, setCurrentLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [currentSpeed, setCurrentSpeed] = useState(0);
   const [distance, setDistance] = useState(0);
+  const [heading, setHeading] = useState<{ value: number | null; source: HeadingSource }>({ value: null, source: 'none' });
   const watchIdRef = useRef<number | null>(null);
   const vehicleIdRef = useRef<string>(`V${Date.now()}`);
   const lastLocationRef = useRef<{ lat: number; lng: number } | null>(null);
-  const { sendAlert } = useTelegramAlert();
+  const { sendAlert } = useAlertDispatch();
+  const { startTrip, recordPosition, recordCollision, recordHarshEvent, stopTrip, getTripId } = useTripRecorder();
   const liveLocationIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const headingFusionRef = useRef(createHeadingFusion());
+  const lastRiskRef = useRef<{ severity: string; at: number } | null>(null);
+  const {
+    orientation,
+    isListening: isMotionListening,
+    startListening: startMotion,
+    stopListening: stopMotion,
+  } = useMotionSensor({ enableCollisionDetection: false });
 
   useEffect(() => {
     return () => {
@@ -28,6 +59,46 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
     };
   }, []);
 
+  // Queued like collision events, and counted against the trip's safety score
+  const handleHarshEvent = (event: HarshEvent) => {
+    const location = lastLocationRef.current;
+    submitToOutbox('driving_event', {
+      trip_id: getTripId(),
+      vehicle_id: vehicleIdRef.current,
+      event_type: event.type,
+      severity: event.severity,
+      peak_g: event.peakG,
+      duration_ms: event.durationMs,
+      speed: Math.round(event.speed),
+      location_lat: location?.lat ?? null,
+      location_lng: location?.lng ?? null,
+      occurred_at: new Date(event.startedAt).toISOString(),
+    }).catch(error => console.error('Error logging driving event:', error));
+    recordHarshEvent(event.severity);
+    toast.warning(HARSH_EVENT_LABELS[event.type], {
+      description: `${event.peakG.toFixed(2)}G at ${event.speed.toFixed(0)} km/h`,
+    });
+  };
+
+  const { eventCount: harshEventCount } = useDrivingBehavior({
+    isActive: isRideActive,
+    speed: obdSpeed ?? Math.max(currentSpeed, detectedSpeed),
+    onEvent: handleHarshEvent,
+  });
+
+  // Feed the compass into heading fusion; it covers standstill and GPS without a course
+  useEffect(() => {
+    if (!isRideActive || !isMotionListening) return;
+    const estimate = headingFusionRef.current.updateCompass(compassFromAlpha(orientation.alpha));
+    setHeading(prev => prev.value === estimate.heading && prev.source === estimate.source
+      ? prev
+      : { value: estimate.heading, source: estimate.source });
+  }, [orientation.alpha, isRideActive, isMotionListening]);
+
+  useEffect(() => {
+    onHeadingChange?.(heading.value);
+  }, [heading.value, onHeadingChange]);
+
   useEffect(() => {
     if (isRideActive && currentLocation) {
       updateVehicleTracking();
@@ -71,6 +142,14 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
             ? position.coords.speed * 3.6 // Convert m/s to km/h
             : detectedSpeed;
           setCurrentSpeed(speed);
+          recordPosition(newLocation, speed);
+
+          const estimate = headingFusionRef.current.updatePosition({
+            ...newLocation,
+            speed,
+            course: position.coords.heading,
+          });
+          setHeading({ value: estimate.heading, source: estimate.source });
         },
         (error) => {
           console.error('Geolocation error:', error);
@@ -83,11 +162,14 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
         }
       );
 
+      headingFusionRef.current.reset();
+      startMotion();
+      startTrip(vehicleIdRef.current);
       setIsRideActive(true);
       onRideStateChange(true);
       toast.success('Ride started - Monitoring active');
 
-      // Send Telegram ride start alert
+      // Ride start alert
       const loc = lastLocationRef.current;
       if (loc) sendAlert('ride_start', { lat: loc.lat, lng: loc.lng });
 
@@ -97,16 +179,7 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
         if (cur) sendAlert('live_location', { lat: cur.lat, lng: cur.lng, speed: detectedSpeed });
       }, 60000);
 
-      // Insert initial vehicle tracking
-      await supabase.from('vehicle_tracking').insert({
-        vehicle_id: vehicleIdRef.current,
-        current_lat: 0,
-        current_lng: 0,
-        speed: 0,
-        heading: 0,
-        status: 'active'
-      });
-
+      // The vehicle_tracking row is upserted on the first GPS fix
     } catch (error) {
       console.error('Error starting ride:', error);
       toast.error('Failed to start ride');
@@ -119,6 +192,8 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
       watchIdRef.current = null;
     }
 
+    stopMotion();
+
     // Stop live location sharing
     if (liveLocationIntervalRef.current) {
       clearInterval(liveLocationIntervalRef.current);
@@ -126,19 +201,21 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
     }
 
     // Update vehicle status to stopped
-    if (vehicleIdRef.current) {
-      await supabase
-        .from('vehicle_tracking')
-        .update({ status: 'stopped' })
-        .eq('vehicle_id', vehicleIdRef.current);
+    if (lastLocationRef.current) {
+      publishVehicleTracking(lastLocationRef.current, 0, 'stopped');
     }
 
-    // Send Telegram ride stop
-    sendAlert('ride_stop', { distance, maxSpeed: currentSpeed });
+    // Close the trip row and send the ride stop alert
+    const tripStats = await stopTrip();
+    if (tripStats) {
+      sendAlert('ride_stop', { distance: tripStats.distance, duration: tripStats.duration, maxSpeed: tripStats.maxSpeed });
+    }
 
     setIsRideActive(false);
     onRideStateChange(false);
     setDistance(0);
+    setHeading({ value: null, source: 'none' });
+    lastRiskRef.current = null;
     lastLocationRef.current = null;
     toast.info('Ride stopped');
   };
@@ -159,24 +236,38 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
     return value * Math.PI / 180;
   };
 
-  const updateVehicleTracking = async () => {
+  const getVehicleStatus = (speed: number): VehicleStatus => {
+    const risk = lastRiskRef.current;
+    if (risk && Date.now() - risk.at < RISK_STATUS_HOLD_MS) {
+      if (risk.severity === 'critical' || risk.severity === 'high') return 'danger';
+      return 'warning';
+    }
+    return speed > 80 ? 'warning' : 'active';
+  };
+
+  // Goes through the outbox; while offline only the latest position is kept
+  const publishVehicleTracking = (location: { lat: number; lng: number }, speed: number, status: VehicleStatus) => {
+    const estimate = headingFusionRef.current.getEstimate();
+    submitToOutbox('vehicle_tracking', {
+      vehicle_id: vehicleIdRef.current,
+      current_lat: location.lat,
+      current_lng: location.lng,
+      speed,
+      heading: estimate.heading !== null ? Math.round(estimate.heading * 10) / 10 : 0,
+      status,
+      last_update: new Date().toISOString()
+    }, {
+      coalesceKey: `vehicle_tracking:${vehicleIdRef.current}`,
+      // The final stopped status must still land after a long outage
+      ttlMs: status === 'stopped' ? undefined : TRACKING_TTL_MS,
+    }).catch(error => console.error('Error updating vehicle tracking:', error));
+  };
+
+  const updateVehicleTracking = () => {
     if (!currentLocation) return;
 
-    try {
-      await supabase
-        .from('vehicle_tracking')
-        .upsert({
-          vehicle_id: vehicleIdRef.current,
-          current_lat: currentLocation.lat,
-          current_lng: currentLocation.lng,
-          speed: Math.max(currentSpeed, detectedSpeed),
-          heading: 0, // Would need compass data
-          status: currentSpeed > 80 ? 'warning' : 'active',
-          last_update: new Date().toISOString()
-        }, { onConflict: 'vehicle_id' });
-    } catch (error) {
-      console.error('Error updating vehicle tracking:', error);
-    }
+    const speed = Math.max(currentSpeed, detectedSpeed);
+    publishVehicleTracking(currentLocation, speed, getVehicleStatus(speed));
   };
 
   const checkCollisionRisk = async () => {
@@ -203,19 +294,23 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
       // Check collision risk
       if (distance < 100 && relativeSpeed > 30) {
         const severity = distance < 30 ? 'critical' : distance < 50 ? 'high' : 'medium';
+        lastRiskRef.current = { severity, at: Date.now() };
         
-        // Log collision event
-        await supabase.from('collision_events').insert({
+        // Log collision event; queued and replayed if we are offline
+        await submitToOutbox('collision_event', {
           location_lat: currentLocation.lat,
           location_lng: currentLocation.lng,
           severity,
           relative_speed: relativeSpeed,
           distance,
           vehicle_count: 2,
-          alert_sent: true
+          alert_sent: true,
+          trip_id: getTripId(),
+          timestamp: new Date().toISOString()
         });
+        recordCollision(severity);
 
-        // Send Telegram collision alert
+        // Collision alert
         sendAlert('collision', {
           lat: currentLocation.lat,
           lng: currentLocation.lng,
@@ -255,6 +350,12 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
           </div>
         </div>
 
+        {isRideActive && harshEventCount > 0 && (
+          <p className="text-xs font-mono text-warning">
+            {harshEventCount} harsh driving event{harshEventCount > 1 ? 's' : ''} this ride
+          </p>
+        )}
+
         {currentLocation && (
           <div className="bg-muted/50 p-4 rounded-lg">
             <div className="flex items-start gap-2">
@@ -264,6 +365,11 @@ const RideController = ({ onRideStateChange, detectedSpeed }: RideControllerProp
                 <p className="text-sm font-mono">
                   {currentLocation.lat.toFixed(6)}, {currentLocation.lng.toFixed(6)}
                 </p>
+                {heading.value !== null && (
+                  <p className="text-xs text-muted-foreground font-mono mt-1">
+                    Heading {heading.value.toFixed(0)}° • {heading.source.toUpperCase()}
+                  </p>
+                )}
               </div>
             </div>
           </div>
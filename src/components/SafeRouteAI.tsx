@@ -30,19 +30,12 @@ const SafeRouteAI = ({ currentLocation }: SafeRouteAIProps) => {
     setIsLoading(true);
 
     try {
-      // Fetch recent collision history
-      const { data: collisions } = await supabase
-        .from('collision_events')
-        .select('*')
-        .order('timestamp', { ascending: false })
-        .limit(10);
-
+      // Danger zones near the driver are looked up server-side
       const { data, error } = await supabase.functions.invoke('suggest-safe-route', {
         body: {
           currentLat: currentLocation.lat,
           currentLng: currentLocation.lng,
-          destination,
-          collisionHistory: collisions || []
+          destination
         }
       });
 
@@ -0,0 +1,146 @@
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useSyncOutbox } from '@/hooks/useSyncOutbox';
+import { OutboxKind } from '@/lib/outbox';
+import { cn } from '@/lib/utils';
+
+interface SyncStatusIndicatorProps {
+  connected: boolean;
+}
+
+const KIND_LABELS: Record<OutboxKind, string> = {
+  trip: 'Trips',
+  sos_alert: 'SOS alerts',
+  collision_event: 'Collision events',
+  alert: 'Contact alerts',
+  driving_event: 'Driving events',
+  vehicle_dtc: 'Trouble codes',
+  vehicle_dtc_clear: 'Cleared trouble codes',
+  vehicle_tracking: 'Vehicle positions',
+};
+
+const SyncStatusIndicator = ({ connected }: SyncStatusIndicatorProps) => {
+  const {
+    pending,
+    failed,
+    pendingByKind,
+    isSyncing,
+    lastSyncedAt,
+    lastError,
+    nextAttemptAt,
+    failedEntries,
+    syncNow,
+    retryFailed,
+    discardFailed,
+  } = useSyncOutbox();
+
+  // Nothing queued and nothing wrong: stay out of the way
+  if (pending === 0 && failed === 0 && !isSyncing) return null;
+
+  const getStatusColor = () => {
+    if (failed > 0) return 'text-danger bg-danger/10 border-danger/30';
+    if (!connected) return 'text-warning bg-warning/10 border-warning/30';
+    return 'text-primary bg-primary/10 border-primary/30';
+  };
+
+  const getStatusText = () => {
+    if (isSyncing) return 'Syncing...';
+    if (!connected) return 'Waiting for network';
+    if (failed > 0 && pending === 0) return 'Sync failed';
+    if (nextAttemptAt && nextAttemptAt > Date.now()) {
+      return `Retrying ${formatDistanceToNow(nextAttemptAt, { addSuffix: true })}`;
+    }
+    return 'Pending sync';
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            "flex items-center gap-1 px-2 py-1 rounded-full border text-xs font-mono",
+            getStatusColor()
+          )}
+          aria-label="Sync status"
+        >
+          {isSyncing ? (
+            <RefreshCw className="h-4 w-4 animate-spin" />
+          ) : connected ? (
+            <Cloud className="h-4 w-4" />
+          ) : (
+            <CloudOff className="h-4 w-4" />
+          )}
+          <span>{pending + failed}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 font-mono">
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-bold">{getStatusText()}</p>
+            {lastSyncedAt && (
+              <p className="text-xs text-muted-foreground">
+                Last synced {formatDistanceToNow(lastSyncedAt, { addSuffix: true })}
+              </p>
+            )}
+          </div>
+
+          {pending > 0 && (
+            <div className="space-y-1">
+              {(Object.keys(KIND_LABELS) as OutboxKind[])
+                .filter(kind => pendingByKind[kind] > 0)
+                .map(kind => (
+                  <div key={kind} className="flex justify-between text-xs">
+                    <span className="text-muted-foreground">{KIND_LABELS[kind]}</span>
+                    <span className={kind === 'sos_alert' ? 'text-danger font-bold' : ''}>{pendingByKind[kind]}</span>
+                  </div>
+                ))}
+            </div>
+          )}
+
+          {failed > 0 && (
+            <div className="rounded border border-danger/30 bg-danger/10 p-2 space-y-1">
+              <p className="text-xs text-danger flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {failed} item{failed > 1 ? 's' : ''} could not be synced
+              </p>
+              {failedEntries[0]?.lastError && (
+                <p className="text-[10px] text-muted-foreground truncate">{failedEntries[0].lastError}</p>
+              )}
+            </div>
+          )}
+
+          {lastError && failed === 0 && (
+            <p className="text-[10px] text-muted-foreground truncate">Last error: {lastError}</p>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              disabled={!connected || isSyncing || pending === 0}
+              onClick={syncNow}
+            >
+              <RefreshCw className="h-3 w-3 mr-1" />
+              Sync now
+            </Button>
+            {failed > 0 && (
+              <>
+                <Button size="sm" variant="outline" disabled={!connected || isSyncing} onClick={retryFailed}>
+                  Retry
+                </Button>
+                <Button size="sm" variant="ghost" onClick={discardFailed} aria-label="Discard failed items">
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,279 @@
+import { useState, useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Download, Loader2, Map as MapIcon, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useOfflineMode } from '@/hooks/useOfflineMode';
+import { useSettings } from '@/hooks/useSettings';
+import { createCachedTileLayer } from '@/lib/cachedTileLayer';
+import { boundsAreaKm2, MAX_GRAPH_AREA_KM2 } from '@/lib/offlineRouting';
+import {
+  AVERAGE_TILE_BYTES,
+  countTiles,
+  MAX_PACK_TILES,
+  TILE_SOURCES,
+  tileCacheConfig,
+  TileBounds,
+  TileSourceId,
+} from '@/lib/tileCache';
+
+const ZOOM_PRESETS: Record<string, { label: string; minZoom: number; maxZoom: number }> = {
+  overview: { label: 'Overview (10-13)', minZoom: 10, maxZoom: 13 },
+  streets: { label: 'Streets (12-15)', minZoom: 12, maxZoom: 15 },
+  detailed: { label: 'Detailed (13-16)', minZoom: 13, maxZoom: 16 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
+};
+
+const TilePackManager = () => {
+  const { settings } = useSettings();
+  const {
+    isOffline,
+    cacheSize,
+    tileCount,
+    packs,
+    downloadProgress,
+    downloadPack,
+    cancelDownload,
+    deletePack,
+    clearCache,
+  } = useOfflineMode();
+  const mapRef = useRef<L.Map | null>(null);
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const tileLayerRef = useRef<L.TileLayer | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const [bounds, setBounds] = useState<TileBounds | null>(null);
+  const [source, setSource] = useState<TileSourceId>('default');
+  const [zoomPreset, setZoomPreset] = useState('streets');
+  const [name, setName] = useState('');
+
+  // Region picker: the pack covers whatever the map shows
+  useEffect(() => {
+    if (!mapContainerRef.current || mapRef.current) return;
+
+    const map = L.map(mapContainerRef.current, { attributionControl: false }).setView([28.6139, 77.2090], 12);
+    mapRef.current = map;
+
+    const updateBounds = () => {
+      const b = map.getBounds();
+      setBounds({ north: b.getNorth(), south: b.getSouth(), east: b.getEast(), west: b.getWest() });
+    };
+    map.on('moveend', updateBounds);
+    updateBounds();
+
+    navigator.geolocation?.getCurrentPosition(
+      (pos) => map.setView([pos.coords.latitude, pos.coords.longitude], 12),
+      () => { /* keep the default view */ }
+    );
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!mapRef.current) return;
+    tileLayerRef.current?.remove();
+    tileLayerRef.current = createCachedTileLayer(source, () => tileCacheConfig(settingsRef.current), { maxZoom: 18 })
+      .addTo(mapRef.current);
+  }, [source]);
+
+  const { minZoom, maxZoom } = ZOOM_PRESETS[zoomPreset];
+  const estimatedTiles = bounds ? countTiles(bounds, minZoom, maxZoom) : 0;
+  const maxBytes = settings.maxCacheSize * 1024 * 1024;
+  const isDownloading = downloadProgress !== null;
+  const routingTooLarge = bounds ? boundsAreaKm2(bounds) > MAX_GRAPH_AREA_KM2 : false;
+
+  const handleDownload = async () => {
+    if (!bounds) return;
+    try {
+      const pack = await downloadPack({
+        name: name.trim() || `Area ${new Date().toLocaleDateString()}`,
+        source,
+        bounds,
+        minZoom,
+        maxZoom,
+      });
+      setName('');
+      const routing = pack.roadGraph ? 'offline routing ready' : 'no offline routing';
+      if (pack.status === 'complete') {
+        toast.success('Offline map downloaded', { description: `${pack.storedTiles} tiles, ${formatBytes(pack.sizeBytes)}, ${routing}` });
+      } else {
+        toast.warning('Offline map partially downloaded', { description: `${pack.storedTiles} of ${pack.tileCount} tiles saved, ${routing}` });
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        toast.info('Download cancelled');
+        return;
+      }
+      console.error('Failed to download tile pack:', error);
+      toast.error('Download failed', { description: error instanceof Error ? error.message : undefined });
+    }
+  };
+
+  const handleClear = async () => {
+    await clearCache();
+    toast.info('Offline data cleared');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Storage usage */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <Label className="font-mono text-sm">Storage Used</Label>
+          <span className="text-sm text-muted-foreground font-mono">
+            {formatBytes(cacheSize)} / {settings.maxCacheSize} MB
+          </span>
+        </div>
+        <Progress value={Math.min(100, (cacheSize / maxBytes) * 100)} className="h-2" />
+        <p className="text-xs text-muted-foreground">
+          {tileCount} map tiles cached. Least recently used tiles are removed first when the limit is reached.
+        </p>
+      </div>
+
+      {/* Region picker */}
+      <div className="space-y-2">
+        <Label className="font-mono text-sm">Download Region</Label>
+        <div ref={mapContainerRef} className="h-48 rounded-lg overflow-hidden border border-border" />
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={source} onValueChange={(value) => setSource(value as TileSourceId)}>
+            <SelectTrigger className="h-8 text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TILE_SOURCES) as TileSourceId[]).map(id => (
+                <SelectItem key={id} value={id} className="text-xs font-mono">{TILE_SOURCES[id].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={zoomPreset} onValueChange={setZoomPreset}>
+            <SelectTrigger className="h-8 text-xs font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ZOOM_PRESETS).map(([key, preset]) => (
+                <SelectItem key={key} value={key} className="text-xs font-mono">{preset.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Pack name (optional)"
+          className="h-8 text-xs font-mono"
+        />
+        <p className={`text-xs font-mono ${estimatedTiles > MAX_PACK_TILES ? 'text-danger' : 'text-muted-foreground'}`}>
+          {estimatedTiles} tiles, about {formatBytes(estimatedTiles * AVERAGE_TILE_BYTES)}
+          {estimatedTiles > MAX_PACK_TILES && ` (limit ${MAX_PACK_TILES}, zoom in or pick fewer zoom levels)`}
+        </p>
+        {routingTooLarge && (
+          <p className="text-xs text-muted-foreground">
+            Area is over {MAX_GRAPH_AREA_KM2} km²; map tiles will be saved without offline routing.
+          </p>
+        )}
+
+        {isDownloading ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs font-mono text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                {downloadProgress.phase === 'roads'
+                  ? 'Downloading road data...'
+                  : `${downloadProgress.done} / ${downloadProgress.total || estimatedTiles} tiles`}
+              </span>
+              <Button variant="ghost" size="sm" onClick={cancelDownload} className="h-6 px-2 text-xs">
+                <X className="h-3 w-3 mr-1" /> Cancel
+              </Button>
+            </div>
+            <Progress value={downloadProgress.total ? (downloadProgress.done / downloadProgress.total) * 100 : 0} className="h-2" />
+          </div>
+        ) : (
+          <Button
+            onClick={handleDownload}
+            disabled={!bounds || isOffline || !settings.cacheMapTiles || estimatedTiles === 0 || estimatedTiles > MAX_PACK_TILES}
+            className="w-full"
+            size="sm"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download Visible Area
+          </Button>
+        )}
+        {!settings.cacheMapTiles && (
+          <p className="text-xs text-muted-foreground">Enable "Cache Map Tiles" to download offline maps.</p>
+        )}
+      </div>
+
+      {/* Downloaded packs */}
+      {packs.length > 0 && (
+        <div className="space-y-2">
+          <Label className="font-mono text-sm">Offline Maps</Label>
+          {packs.map(pack => {
+            const daysLeft = Math.max(0, Math.ceil((pack.createdAt + settings.cacheDuration * DAY_MS - Date.now()) / DAY_MS));
+            return (
+              <div key={pack.id} className="flex items-center gap-3 bg-muted/50 p-2 rounded-lg">
+                <MapIcon className="h-4 w-4 text-primary shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{pack.name}</span>
+                    {pack.status !== 'complete' && (
+                      <Badge variant="outline" className="text-[10px] font-mono capitalize">{pack.status}</Badge>
+                    )}
+                    {pack.roadGraph && (
+                      <Badge variant="outline" className="text-[10px] font-mono text-safe border-safe/40">Routing</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {TILE_SOURCES[pack.source].label} • z{pack.minZoom}-{pack.maxZoom} • {pack.storedTiles}/{pack.tileCount} tiles • {formatBytes(pack.sizeBytes + (pack.roadGraph?.sizeBytes ?? 0))} • expires in {daysLeft}d
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => mapRef.current?.fitBounds([[pack.bounds.south, pack.bounds.west], [pack.bounds.north, pack.bounds.east]])}
+                >
+                  <MapIcon className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-danger"
+                  onClick={() => deletePack(pack.id)}
+                  disabled={pack.status === 'downloading'}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={handleClear} disabled={isDownloading || cacheSize === 0} className="w-full">
+        <Trash2 className="h-4 w-4 mr-2" />
+        Clear All Offline Data
+      </Button>
+    </div>
+  );
+};
+
+export default TilePackManager;
@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react';
 import { Card } from './ui/card';
 import { Button } from './ui/button';
-import { History, MapPin, Gauge, Shield, ChevronDown, ChevronUp, Calendar } from 'lucide-react';
+import { History, MapPin, Gauge, Shield, ChevronDown, ChevronUp, Calendar, Wrench } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
 
 interface Trip {
   id: string;
@@ -19,22 +20,29 @@ interface Trip {
   avg_speed: number;
   safety_score: number;
   collision_count: number;
+  harsh_event_count: number;
+  vehicle_dtcs: { code: string; kind: string; description: string; cleared_at: string | null }[];
 }
 
 const TripHistory = () => {
   const [trips, setTrips] = useState<Trip[]>([]);
   const [expandedTrip, setExpandedTrip] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const userId = user?.id;
 
   useEffect(() => {
+    setTrips([]);
+    if (!userId) return;
+
     fetchTrips();
     
     // Subscribe to real-time updates
     const channel = supabase
-      .channel('trip-history-changes')
+      .channel(`trip-history-changes-${userId}`)
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'trip_history' },
+        { event: '*', schema: 'public', table: 'trip_history', filter: `user_id=eq.${userId}` },
         () => fetchTrips()
       )
       .subscribe();
@@ -42,12 +50,12 @@ const TripHistory = () => {
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [userId]);
 
   const fetchTrips = async () => {
     const { data, error } = await supabase
       .from('trip_history')
-      .select('*')
+      .select('*, vehicle_dtcs(code, kind, description, cleared_at)')
       .order('start_time', { ascending: false })
       .limit(20);
 
@@ -156,12 +164,33 @@ const TripHistory = () => {
                           {trip.start_lat.toFixed(4)}, {trip.start_lng.toFixed(4)}
                         </span>
                       </div>
-                      {trip.collision_count > 0 && (
-                        <span className="text-danger font-mono">
-                          {trip.collision_count} collision{trip.collision_count > 1 ? 's' : ''}
-                        </span>
-                      )}
+                      <div className="flex gap-2">
+                        {trip.harsh_event_count > 0 && (
+                          <span className="text-warning font-mono">
+                            {trip.harsh_event_count} harsh event{trip.harsh_event_count > 1 ? 's' : ''}
+                          </span>
+                        )}
+                        {trip.collision_count > 0 && (
+                          <span className="text-danger font-mono">
+                            {trip.collision_count} collision{trip.collision_count > 1 ? 's' : ''}
+                          </span>
+                        )}
+                      </div>
                     </div>
+
+                    {/* Engine faults read during the trip */}
+                    {trip.vehicle_dtcs.length > 0 && (
+                      <div className="space-y-1">
+                        {trip.vehicle_dtcs.map(dtc => (
+                          <div key={`${dtc.kind}-${dtc.code}`} className="flex items-center gap-2 text-xs">
+                            <Wrench className={`h-3 w-3 ${dtc.kind === 'stored' ? 'text-danger' : 'text-warning'}`} />
+                            <span className="font-mono font-bold">{dtc.code}</span>
+                            <span className="text-muted-foreground truncate">{dtc.description}</span>
+                            {dtc.cleared_at && <span className="ml-auto text-muted-foreground font-mono shrink-0">cleared</span>}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -1,8 +1,9 @@
 import { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Progress } from './ui/progress';
-import { Shield, AlertTriangle, Car, Eye, Gauge, Cloud, Brain, Radio } from 'lucide-react';
+import { Shield, AlertTriangle, Car, Eye, Gauge, Cloud, Brain, Radio, History, LucideIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { createRiskEngine, getRiskLevel, RiskEngine, RiskLevel } from '@shared/riskEngine';
 
 interface CollisionWarning {
   id: string;
@@ -20,68 +21,62 @@ interface UnifiedCollisionRiskProps {
   isRideActive: boolean;
   fatigueLevel?: number;
   isOverSpeedLimit?: boolean;
+  overLimitAmount?: number;
   weatherCondition?: string;
   visibility?: number;
+  historicalCollisions?: number;
+  engine?: RiskEngine;
 }
 
+const defaultEngine = createRiskEngine();
+
+const FACTOR_ICONS: Record<string, LucideIcon> = {
+  speed: Gauge,
+  proximity: Car,
+  fatigue: Eye,
+  speedLimit: AlertTriangle,
+  weather: Cloud,
+  roadHistory: History,
+};
+
+// Thresholds live in the risk engine; this only styles its levels
+const LEVEL_STYLES: Record<RiskLevel, { label: string; color: string; bg: string; glow: string }> = {
+  low: { label: 'LOW', color: 'text-safe', bg: 'bg-safe', glow: 'shadow-[0_0_15px_hsl(var(--safe)/0.4)]' },
+  moderate: { label: 'MODERATE', color: 'text-warning', bg: 'bg-warning', glow: 'shadow-[0_0_15px_hsl(var(--warning)/0.4)]' },
+  high: { label: 'HIGH', color: 'text-danger', bg: 'bg-danger', glow: 'shadow-[0_0_15px_hsl(var(--danger)/0.4)]' },
+  critical: { label: 'CRITICAL', color: 'text-danger', bg: 'bg-danger animate-pulse', glow: 'shadow-[0_0_25px_hsl(var(--danger)/0.6)]' },
+};
+
 const UnifiedCollisionRisk = ({
   currentSpeed,
   nearbyVehicles,
   collisionWarnings,
   isRideActive,
-  fatigueLevel = 0,
-  isOverSpeedLimit = false,
-  weatherCondition = 'clear',
-  visibility = 10,
+  fatigueLevel,
+  isOverSpeedLimit,
+  overLimitAmount,
+  weatherCondition,
+  visibility,
+  historicalCollisions,
+  engine = defaultEngine,
 }: UnifiedCollisionRiskProps) => {
 
   const riskAnalysis = useMemo(() => {
-    let totalRisk = 0;
-    const factors: { name: string; risk: number; icon: any; detail: string }[] = [];
-
-    // Speed risk
-    const speedRisk = currentSpeed > 120 ? 90 : currentSpeed > 80 ? 60 : currentSpeed > 50 ? 30 : 10;
-    factors.push({ name: 'Speed', risk: speedRisk, icon: Gauge, detail: `${currentSpeed.toFixed(0)} km/h` });
-    totalRisk += speedRisk * 0.2;
-
-    // Proximity risk
-    const criticalWarnings = collisionWarnings.filter(w => w.severity === 'critical' || w.severity === 'high').length;
-    const proximityRisk = criticalWarnings > 0 ? 95 : nearbyVehicles > 3 ? 70 : nearbyVehicles > 0 ? 40 : 5;
-    factors.push({ name: 'Proximity', risk: proximityRisk, icon: Car, detail: `${nearbyVehicles} nearby` });
-    totalRisk += proximityRisk * 0.3;
-
-    // Fatigue risk
-    const fatigueRisk = fatigueLevel > 60 ? 90 : fatigueLevel > 30 ? 50 : 10;
-    factors.push({ name: 'Fatigue', risk: fatigueRisk, icon: Eye, detail: `${fatigueLevel.toFixed(0)}%` });
-    totalRisk += fatigueRisk * 0.15;
-
-    // Speed limit risk
-    const limitRisk = isOverSpeedLimit ? 80 : 5;
-    factors.push({ name: 'Speed Limit', risk: limitRisk, icon: AlertTriangle, detail: isOverSpeedLimit ? 'Over' : 'OK' });
-    totalRisk += limitRisk * 0.15;
-
-    // Weather risk
-    const badWeather = ['rain', 'snow', 'fog', 'storm'].includes(weatherCondition.toLowerCase());
-    const weatherRisk = badWeather ? 70 : visibility < 5 ? 60 : 10;
-    factors.push({ name: 'Weather', risk: weatherRisk, icon: Cloud, detail: weatherCondition });
-    totalRisk += weatherRisk * 0.1;
-
-    // Awareness (connected systems)
-    const awarenessRisk = 10;
-    factors.push({ name: 'Systems', risk: 100 - awarenessRisk, icon: Radio, detail: 'Active' });
-    totalRisk += awarenessRisk * 0.1;
-
-    return { totalRisk: Math.min(100, totalRisk), factors };
-  }, [currentSpeed, nearbyVehicles, collisionWarnings, fatigueLevel, isOverSpeedLimit, weatherCondition, visibility]);
-
-  const getRiskLevel = (risk: number) => {
-    if (risk < 25) return { label: 'LOW', color: 'text-safe', bg: 'bg-safe', glow: 'shadow-[0_0_15px_hsl(var(--safe)/0.4)]' };
-    if (risk < 50) return { label: 'MODERATE', color: 'text-warning', bg: 'bg-warning', glow: 'shadow-[0_0_15px_hsl(var(--warning)/0.4)]' };
-    if (risk < 75) return { label: 'HIGH', color: 'text-danger', bg: 'bg-danger', glow: 'shadow-[0_0_15px_hsl(var(--danger)/0.4)]' };
-    return { label: 'CRITICAL', color: 'text-danger', bg: 'bg-danger animate-pulse', glow: 'shadow-[0_0_25px_hsl(var(--danger)/0.6)]' };
-  };
-
-  const riskLevel = getRiskLevel(riskAnalysis.totalRisk);
+    const assessment = engine.evaluate({
+      currentSpeed,
+      nearbyVehicles,
+      collisionWarnings,
+      fatigueLevel,
+      isOverSpeedLimit,
+      overLimitAmount,
+      weatherCondition,
+      visibility,
+      historicalCollisions,
+    });
+    return { totalRisk: assessment.score, level: assessment.level, factors: assessment.factors };
+  }, [engine, currentSpeed, nearbyVehicles, collisionWarnings, fatigueLevel, isOverSpeedLimit, overLimitAmount, weatherCondition, visibility, historicalCollisions]);
+
+  const riskLevel = LEVEL_STYLES[riskAnalysis.level];
 
   if (!isRideActive) {
     return (
@@ -130,10 +125,10 @@ const UnifiedCollisionRisk = ({
         {/* Risk Factors */}
         <div className="space-y-2">
           {riskAnalysis.factors.map((factor) => {
-            const Icon = factor.icon;
-            const fLevel = getRiskLevel(factor.risk);
+            const Icon = FACTOR_ICONS[factor.id] ?? Radio;
+            const fLevel = LEVEL_STYLES[getRiskLevel(factor.risk)];
             return (
-              <div key={factor.name} className="flex items-center gap-2">
+              <div key={factor.id} className="flex items-center gap-2" title={`${factor.reason} (weight ${(factor.weight * 100).toFixed(0)}%)`}>
                 <Icon className="h-3 w-3 text-muted-foreground flex-shrink-0" />
                 <span className="text-[10px] font-mono text-muted-foreground w-16">{factor.name}</span>
                 <div className="flex-1">
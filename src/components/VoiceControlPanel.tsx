@@ -81,6 +81,7 @@ const VoiceControlPanel = ({
             <div className="bg-muted/50 p-2 rounded">"What is my speed"</div>
             <div className="bg-muted/50 p-2 rounded">"Clear route"</div>
             <div className="bg-muted/50 p-2 rounded">"Safety check"</div>
+            <div className="bg-muted/50 p-2 rounded">"Changing lanes"</div>
           </div>
         </div>
 
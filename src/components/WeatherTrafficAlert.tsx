@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card } from './ui/card';
 import { Cloud, Sun, CloudRain, Wind, Thermometer, AlertTriangle, RefreshCw } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
@@ -15,10 +15,13 @@ interface WeatherData {
 
 interface WeatherTrafficAlertProps {
   currentLocation: { lat: number; lng: number } | null;
+  onWeatherChange?: (weather: { condition: string; visibility: number }) => void; // visibility in km
 }
 
-const WeatherTrafficAlert = ({ currentLocation }: WeatherTrafficAlertProps) => {
+const WeatherTrafficAlert = ({ currentLocation, onWeatherChange }: WeatherTrafficAlertProps) => {
   const [weather, setWeather] = useState<WeatherData | null>(null);
+  const onWeatherChangeRef = useRef(onWeatherChange);
+  onWeatherChangeRef.current = onWeatherChange;
   const [isLoading, setIsLoading] = useState(false);
   const [trafficAlerts, setTrafficAlerts] = useState<string[]>([]);
 
@@ -40,14 +43,16 @@ const WeatherTrafficAlert = ({ currentLocation }: WeatherTrafficAlertProps) => {
 
       if (error) throw error;
       
-      setWeather({
+      const next = {
         temperature: data.main?.temp || 0,
         condition: data.weather?.[0]?.main || 'Unknown',
         humidity: data.main?.humidity || 0,
         windSpeed: data.wind?.speed || 0,
         visibility: data.visibility ? data.visibility / 1000 : 10,
         alerts: generateWeatherAlerts(data)
-      });
+      };
+      setWeather(next);
+      onWeatherChangeRef.current?.({ condition: next.condition, visibility: next.visibility });
     } catch (error) {
       console.error('Error fetching weather:', error);
     } finally {
@@ -77,7 +82,7 @@ const WeatherTrafficAlert = ({ currentLocation }: WeatherTrafficAlertProps) => {
   const checkTrafficAlerts = async () => {
     // Fetch recent collision events to generate traffic alerts
     const { data: collisions } = await supabase
-      .from('collision_events')
+      .from('public_collision_events')
       .select('*')
       .gte('timestamp', new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString())
       .order('timestamp', { ascending: false });
@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { EnqueueOptions } from '@/lib/outbox';
+import { submitToOutbox, SubmitResult } from './useSyncOutbox';
+
+export type AlertType = 'sos' | 'collision' | 'ride_start' | 'ride_stop' | 'speed_alert' | 'live_location';
+
+// Time-sensitive alerts that are pointless once stale; live locations also replace each other
+const QUEUE_OPTIONS: Partial<Record<AlertType, EnqueueOptions>> = {
+  live_location: { coalesceKey: 'alert:live_location', ttlMs: 2 * 60 * 1000 },
+  speed_alert: { ttlMs: 10 * 60 * 1000 },
+};
+
+// Alerts go to every emergency contact on the channels they chose; the
+// dispatch-alert function renders, throttles and logs them
+export function useAlertDispatch() {
+  // 'sent' once every delivery went out, 'queued' while offline, 'failed' when a delivery did not go out,
+  // 'no_recipients' when no contact receives this type
+  const sendAlert = useCallback(async (type: AlertType, data: Record<string, unknown>): Promise<SubmitResult> => {
+    try {
+      return await submitToOutbox('alert', { type, data }, QUEUE_OPTIONS[type]);
+    } catch (e) {
+      console.error('Alert dispatch failed:', e);
+      return 'failed';
+    }
+  }, []);
+
+  return { sendAlert };
+}
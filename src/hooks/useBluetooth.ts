@@ -1,5 +1,11 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { toast } from 'sonner';
+import { driveSession } from '@/lib/driveSession';
+import { describeDtc, DtcInfo } from '@/lib/dtcCodes';
+import { AdapterInfo, createObdClient, DEFAULT_POLL_PIDS, DtcKind, FreezeFrame, ObdClient, ObdReading, ObdTransport } from '@/lib/obd2';
+import { useDriveMode } from './useDriveSession';
+import { amendOutbox, submitToOutbox } from './useSyncOutbox';
+import { getActiveTrip } from './useTripRecorder';
 
 interface BluetoothDevice {
   id: string;
@@ -10,24 +16,126 @@ interface BluetoothDevice {
   lastSeen: number;
 }
 
-interface OBD2Data {
-  speed: number;
-  rpm: number;
-  engineTemp: number;
-  fuelLevel: number;
-  batteryVoltage: number;
-  timestamp: number;
+interface ObdAdapter extends AdapterInfo {
+  vin: string | null;
 }
 
-export function useBluetooth() {
+export interface DtcReport {
+  stored: DtcInfo[];
+  pending: DtcInfo[];
+  freezeFrame: FreezeFrame | null;
+  readAt: number;
+}
+
+interface UseBluetoothOptions {
+  obdPids?: number[]; // mode 01 PIDs to poll
+}
+
+// The parts of a Web Bluetooth GATT server the ELM327 serial link uses
+interface SerialCharacteristic extends EventTarget {
+  properties: { notify: boolean; write: boolean; writeWithoutResponse: boolean };
+  value?: DataView;
+  startNotifications: () => Promise<unknown>;
+  writeValue: (value: BufferSource) => Promise<void>;
+  writeValueWithoutResponse: (value: BufferSource) => Promise<void>;
+}
+
+interface SerialServer {
+  getPrimaryService: (uuid: string) => Promise<{ getCharacteristics: () => Promise<SerialCharacteristic[]> }>;
+}
+
+// ELM327 BLE adapters expose their serial port under one of these services
+const OBD2_SERVICES = [
+  '0000fff0-0000-1000-8000-00805f9b34fb',
+  '0000ffe0-0000-1000-8000-00805f9b34fb',
+];
+
+// Stands in for the adapter while a recording is replayed
+const REPLAY_DEVICE: BluetoothDevice = {
+  id: 'replay-obd2',
+  name: 'Recorded OBD2',
+  type: 'obd2',
+  connected: true,
+  lastSeen: 0,
+};
+
+const SIMULATOR_DEVICE: BluetoothDevice = {
+  id: 'simulated-obd2',
+  name: 'Simulated ELM327',
+  type: 'obd2',
+  connected: true,
+  lastSeen: 0,
+};
+
+// Responses arrive on a notify characteristic, commands go to a write one
+const openSerialTransport = async (server: SerialServer): Promise<ObdTransport> => {
+  for (const uuid of OBD2_SERVICES) {
+    let service;
+    try {
+      service = await server.getPrimaryService(uuid);
+    } catch {
+      continue;
+    }
+    const characteristics = await service.getCharacteristics();
+    const notify = characteristics.find(c => c.properties.notify);
+    const write = characteristics.find(c => c.properties.writeWithoutResponse || c.properties.write);
+    if (!notify || !write) continue;
+
+    await notify.startNotifications();
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    return {
+      write: async (data) => {
+        const value = encoder.encode(data);
+        if (write.properties.writeWithoutResponse) await write.writeValueWithoutResponse(value);
+        else await write.writeValue(value);
+      },
+      subscribe: (listener) => {
+        const handler = (event: Event) => listener(decoder.decode((event.target as SerialCharacteristic).value));
+        notify.addEventListener('characteristicvaluechanged', handler);
+        return () => notify.removeEventListener('characteristicvaluechanged', handler);
+      },
+    };
+  }
+  throw new Error('No ELM327 serial service found');
+};
+
+export function useBluetooth({ obdPids = DEFAULT_POLL_PIDS }: UseBluetoothOptions = {}) {
   const [isSupported] = useState(() => 'bluetooth' in navigator);
   const [isScanning, setIsScanning] = useState(false);
   const [connectedDevices, setConnectedDevices] = useState<BluetoothDevice[]>([]);
   const [nearbyRiders, setNearbyRiders] = useState<BluetoothDevice[]>([]);
-  const [obd2Data, setObd2Data] = useState<OBD2Data | null>(null);
+  const [obd2Data, setObd2Data] = useState<ObdReading | null>(null);
+  const [obdAdapter, setObdAdapter] = useState<ObdAdapter | null>(null);
   const [btSpeed, setBtSpeed] = useState<number>(0);
+  const [dtcReport, setDtcReport] = useState<DtcReport | null>(null);
+  const [isReadingDtcs, setIsReadingDtcs] = useState(false);
+  const [isClearingDtcs, setIsClearingDtcs] = useState(false);
   const deviceRef = useRef<any>(null);
   const serverRef = useRef<any>(null);
+  const obdClientRef = useRef<ObdClient | null>(null);
+  const obdPidsRef = useRef(obdPids);
+  obdPidsRef.current = obdPids;
+  const obdAdapterRef = useRef(obdAdapter);
+  obdAdapterRef.current = obdAdapter;
+  const savedDtcsRef = useRef(new Set<string>()); // trip:kind:code already queued
+  const isReplaying = useDriveMode() === 'replay';
+
+  // Recorded OBD2 readings arrive as if from a connected adapter
+  useEffect(() => {
+    if (!isReplaying) return;
+    setConnectedDevices(prev => [...prev, REPLAY_DEVICE]);
+    const unsubscribe = driveSession.on('obd', event => {
+      setObd2Data(event.data);
+      if (event.data.speed !== null) setBtSpeed(event.data.speed);
+    });
+    return () => {
+      unsubscribe();
+      setConnectedDevices(prev => prev.filter(d => d.id !== REPLAY_DEVICE.id));
+      setObd2Data(null);
+      setBtSpeed(0);
+    };
+  }, [isReplaying]);
 
   // Scan for nearby Bluetooth devices
   const scanDevices = useCallback(async () => {
@@ -43,7 +151,7 @@ export function useBluetooth() {
       const device = await (navigator as any).bluetooth.requestDevice({
         acceptAllDevices: true,
         optionalServices: [
-          '0000fff0-0000-1000-8000-00805f9b34fb', // OBD2 common service
+          ...OBD2_SERVICES, // ELM327 serial
           '00001816-0000-1000-8000-00805f9b34fb', // Cycling Speed and Cadence
           '0000180d-0000-1000-8000-00805f9b34fb', // Heart Rate (for rider detection)
           '0000180f-0000-1000-8000-00805f9b34fb', // Battery Service
@@ -115,6 +223,7 @@ export function useBluetooth() {
 
       // Listen for disconnect
       device.addEventListener('gattserverdisconnected', () => {
+        if (btDevice.type === 'obd2') closeObdClient();
         setConnectedDevices(prev =>
           prev.map(d => d.id === btDevice.id ? { ...d, connected: false } : d)
         );
@@ -126,27 +235,148 @@ export function useBluetooth() {
     }
   }, []);
 
+  const closeObdClient = () => {
+    obdClientRef.current?.close();
+    obdClientRef.current = null;
+    setObdAdapter(null);
+    setDtcReport(null);
+  };
+
+  // ELM327 handshake, then poll the configured PIDs into obd2Data
+  const startObdClient = async (transport: ObdTransport) => {
+    obdClientRef.current?.close();
+    const client = createObdClient(transport, { pids: obdPidsRef.current });
+    obdClientRef.current = client;
+
+    const info = await client.initialize();
+    const vin = await client.readVin().catch(() => null);
+    setObdAdapter({ ...info, vin });
+    toast.success(`OBD2 ready: ${info.protocol}`);
+
+    client.subscribe(reading => {
+      driveSession.record({ type: 'obd', data: reading });
+      setObd2Data(reading);
+      if (reading.speed !== null) setBtSpeed(reading.speed);
+    });
+    client.onError(error => {
+      console.error('OBD2 polling error:', error);
+      toast.error(error.message);
+    });
+    client.startPolling();
+  };
+
   // Read OBD2 data
   const startOBD2Reading = useCallback(async (server: any) => {
     try {
-      const service = await server.getPrimaryService('0000fff0-0000-1000-8000-00805f9b34fb');
-      const characteristics = await service.getCharacteristics();
-      
-      for (const char of characteristics) {
-        if (char.properties.notify) {
-          await char.startNotifications();
-          char.addEventListener('characteristicvaluechanged', (event: any) => {
-            const value = event.target.value;
-            const data = parseOBD2Data(value);
-            if (data) {
-              setObd2Data(data);
-              setBtSpeed(data.speed);
-            }
-          });
-        }
-      }
+      await startObdClient(await openSerialTransport(server));
     } catch (error) {
       console.error('OBD2 reading error:', error);
+      toast.error('OBD2 adapter did not initialize');
+    }
+  }, []);
+
+  // Development stand-in for a real adapter
+  const connectSimulator = useCallback(async () => {
+    const { createSimulatedElm327, drivingProfile } = await import('@/lib/elm327Simulator');
+    setConnectedDevices(prev => [...prev.filter(d => d.id !== SIMULATOR_DEVICE.id), SIMULATOR_DEVICE]);
+    try {
+      await startObdClient(createSimulatedElm327({
+        vehicle: drivingProfile(),
+        storedDtcs: ['P0301'],
+        pendingDtcs: ['P0420'],
+        freezeFrame: { speed: 54, rpm: 2350, coolantTemp: 94, throttle: 38, fuelLevel: 52 },
+        latencyMs: 30,
+      }));
+    } catch (error) {
+      console.error('OBD2 simulator error:', error);
+      setConnectedDevices(prev => prev.filter(d => d.id !== SIMULATOR_DEVICE.id));
+    }
+  }, []);
+
+  // Queue newly seen codes against the current trip, once per trip
+  const saveDtcs = (report: DtcReport) => {
+    const trip = getActiveTrip();
+    const vin = obdAdapterRef.current?.vin ?? null;
+    const entries: [DtcKind, DtcInfo[]][] = [['stored', report.stored], ['pending', report.pending]];
+    entries.forEach(([kind, codes]) => codes.forEach(info => {
+      const key = `${trip?.id ?? 'none'}:${kind}:${info.code}`;
+      if (savedDtcsRef.current.has(key)) return;
+      savedDtcsRef.current.add(key);
+      submitToOutbox('vehicle_dtc', {
+        trip_id: trip?.id ?? null,
+        vehicle_id: trip?.vehicleId ?? vin ?? 'unidentified',
+        vin,
+        code: info.code,
+        kind,
+        description: info.description,
+        freeze_frame: kind === 'stored' && report.freezeFrame?.dtc === info.code ? report.freezeFrame.values : null,
+        detected_at: new Date(report.readAt).toISOString(),
+      }).catch(error => console.error('Failed to queue trouble code:', error));
+    }));
+  };
+
+  // Stored and pending codes, plus the freeze frame of the code that lit the MIL
+  const readDtcs = useCallback(async () => {
+    const client = obdClientRef.current;
+    if (!client) {
+      toast.error('Connect an OBD2 adapter first');
+      return;
+    }
+
+    setIsReadingDtcs(true);
+    try {
+      const stored = await client.readDtcs('stored');
+      const pending = await client.readDtcs('pending');
+      const freezeFrame = stored.length > 0 ? await client.readFreezeFrame().catch(() => null) : null;
+      const report: DtcReport = {
+        stored: stored.map(describeDtc),
+        pending: pending.map(describeDtc),
+        freezeFrame,
+        readAt: Date.now(),
+      };
+      setDtcReport(report);
+      saveDtcs(report);
+
+      const count = stored.length + pending.length;
+      if (count === 0) toast.success('No trouble codes stored');
+      else toast.warning(`${count} trouble code${count === 1 ? '' : 's'} found`);
+    } catch (error) {
+      console.error('OBD2 trouble code error:', error);
+      toast.error('Could not read trouble codes');
+    } finally {
+      setIsReadingDtcs(false);
+    }
+  }, []);
+
+  // Mode 04 also resets the readiness monitors, so the UI asks for confirmation first
+  const clearDtcs = useCallback(async () => {
+    const client = obdClientRef.current;
+    if (!client) return;
+
+    setIsClearingDtcs(true);
+    try {
+      await client.clearDtcs();
+      setDtcReport({ stored: [], pending: [], freezeFrame: null, readAt: Date.now() });
+      savedDtcsRef.current.clear();
+      toast.success('Trouble codes cleared');
+
+      // Keep the history, but mark this car's open codes as cleared, including
+      // codes still queued offline; the clear itself queues behind their inserts
+      const vin = obdAdapterRef.current?.vin ?? null;
+      const tripId = getActiveTrip()?.id ?? null;
+      if (!vin && !tripId) return;
+      const clearedAt = new Date().toISOString();
+      await amendOutbox('vehicle_dtc', payload =>
+        (vin ? payload.vin === vin : payload.trip_id === tripId) && !payload.cleared_at
+          ? { ...payload, cleared_at: clearedAt }
+          : payload);
+      submitToOutbox('vehicle_dtc_clear', { vin, trip_id: vin ? null : tripId, cleared_at: clearedAt })
+        .catch(error => console.error('Failed to mark trouble codes cleared:', error));
+    } catch (error) {
+      console.error('OBD2 clear codes error:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not clear trouble codes');
+    } finally {
+      setIsClearingDtcs(false);
     }
   }, []);
 
@@ -167,22 +397,6 @@ export function useBluetooth() {
     }
   }, []);
 
-  // Parse OBD2 data from raw bytes
-  const parseOBD2Data = (dataView: DataView): OBD2Data | null => {
-    try {
-      return {
-        speed: dataView.getUint8(0),
-        rpm: dataView.getUint16(1, true),
-        engineTemp: dataView.getInt8(3) + 40,
-        fuelLevel: dataView.getUint8(4),
-        batteryVoltage: dataView.getUint16(5, true) / 100,
-        timestamp: Date.now(),
-      };
-    } catch {
-      return null;
-    }
-  };
-
   // Parse speed sensor data
   const parseSpeedData = (dataView: DataView): number => {
     try {
@@ -200,7 +414,10 @@ export function useBluetooth() {
     if (deviceRef.current?.gatt?.connected) {
       deviceRef.current.gatt.disconnect();
     }
-    setConnectedDevices(prev => prev.map(d => ({ ...d, connected: false })));
+    closeObdClient();
+    setConnectedDevices(prev => prev
+      .filter(d => d.id !== SIMULATOR_DEVICE.id)
+      .map(d => ({ ...d, connected: false })));
     setObd2Data(null);
     setBtSpeed(0);
     toast.info('All Bluetooth devices disconnected');
@@ -221,8 +438,15 @@ export function useBluetooth() {
     connectedDevices,
     nearbyRiders,
     obd2Data,
+    obdAdapter,
     btSpeed,
+    dtcReport,
+    isReadingDtcs,
+    isClearingDtcs,
     scanDevices,
+    connectSimulator,
+    readDtcs,
+    clearDtcs,
     disconnectAll,
     detectNearbyRiders,
   };
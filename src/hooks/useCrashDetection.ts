@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import { useMotionSensor } from './useMotionSensor';
+import { useHaptics } from './useHaptics';
+import { createCrashDetector, CrashAssessment } from '@/lib/crashDetection';
+
+interface UseCrashDetectionOptions {
+  isActive: boolean;
+  currentSpeed: number; // km/h
+  countdownSeconds?: number;
+  onCountdownExpired: (crash: CrashAssessment) => void;
+  onSpeak?: (message: string) => void;
+}
+
+export function useCrashDetection({
+  isActive,
+  currentSpeed,
+  countdownSeconds = 30,
+  onCountdownExpired,
+  onSpeak,
+}: UseCrashDetectionOptions) {
+  const [crash, setCrash] = useState<CrashAssessment | null>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const detectorRef = useRef(createCrashDetector());
+  const crashRef = useRef<CrashAssessment | null>(null);
+  const { sosHaptic } = useHaptics();
+
+  // Single-sample detection in useMotionSensor is replaced by the state machine
+  const { motionData, isListening, startListening, stopListening } = useMotionSensor({
+    enableCollisionDetection: false,
+  });
+
+  useEffect(() => {
+    if (isActive && !isListening) startListening();
+    if (!isActive && isListening) stopListening();
+  }, [isActive, isListening, startListening, stopListening]);
+
+  const handleAssessment = useCallback((assessment: CrashAssessment) => {
+    if (assessment.state !== 'confirmed' || crashRef.current) return;
+
+    crashRef.current = assessment;
+    setCrash(assessment);
+    setCountdown(countdownSeconds);
+    sosHaptic();
+    toast.error('Crash detected!', {
+      description: `${assessment.reason}. Sending SOS in ${countdownSeconds}s unless cancelled.`,
+      duration: countdownSeconds * 1000,
+    });
+    onSpeak?.(`Crash detected. Sending emergency SOS in ${countdownSeconds} seconds. Tap I'm OK to cancel.`);
+  }, [countdownSeconds, sosHaptic, onSpeak]);
+
+  // Orientation updates keep the acceleration objects, so this runs once per motion sample
+  useEffect(() => {
+    if (!isActive || !isListening) return;
+    handleAssessment(detectorRef.current.addMotion({
+      t: Date.now(),
+      acceleration: motionData.acceleration,
+      accelerationIncludingGravity: motionData.accelerationIncludingGravity,
+    }));
+  }, [isActive, isListening, motionData.acceleration, motionData.accelerationIncludingGravity, handleAssessment]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    handleAssessment(detectorRef.current.addSpeed(currentSpeed, Date.now()));
+  }, [isActive, currentSpeed, handleAssessment]);
+
+  const reset = useCallback(() => {
+    detectorRef.current.reset();
+    crashRef.current = null;
+    setCrash(null);
+    setCountdown(null);
+  }, []);
+
+  // Driver responded
+  const cancel = useCallback(() => {
+    reset();
+    toast.success('Glad you are OK. SOS cancelled.');
+  }, [reset]);
+
+  useEffect(() => {
+    if (countdown === null) return;
+
+    if (countdown <= 0) {
+      const confirmed = crashRef.current;
+      reset();
+      if (confirmed) onCountdownExpired(confirmed);
+      return;
+    }
+
+    const timer = setTimeout(() => setCountdown(c => (c === null ? null : c - 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown, onCountdownExpired, reset]);
+
+  useEffect(() => {
+    if (!isActive) reset();
+  }, [isActive, reset]);
+
+  return {
+    crash,
+    countdown,
+    isCountingDown: countdown !== null,
+    cancel,
+  };
+}
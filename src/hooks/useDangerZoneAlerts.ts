@@ -0,0 +1,65 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { toast } from 'sonner';
+import { useHaptics } from './useHaptics';
+import { useDangerZones } from './useDangerZones';
+import { distanceMeters } from '@/lib/closestApproach';
+import { createZoneGeofence, ZoneWarning } from '@/lib/zoneGeofence';
+
+interface DangerZoneAlertOptions {
+  currentLocation: { lat: number; lng: number } | null;
+  currentHeading: number | null;
+  currentSpeed: number; // km/h
+  isActive: boolean;
+  onSpeak?: (message: string) => void;
+}
+
+export function useDangerZoneAlerts({
+  currentLocation,
+  currentHeading,
+  currentSpeed,
+  isActive,
+  onSpeak,
+}: DangerZoneAlertOptions) {
+  const { zones } = useDangerZones({ enabled: isActive });
+  const { dangerZoneHaptic } = useHaptics();
+  const geofenceRef = useRef(createZoneGeofence());
+  const [lastWarning, setLastWarning] = useState<ZoneWarning | null>(null);
+
+  // Start each ride with fresh cooldowns
+  useEffect(() => {
+    geofenceRef.current.reset();
+    if (!isActive) setLastWarning(null);
+  }, [isActive]);
+
+  useEffect(() => {
+    if (!isActive || !currentLocation || zones.length === 0) return;
+
+    const warning = geofenceRef.current.check({
+      position: currentLocation,
+      heading: currentHeading,
+      speedKmh: currentSpeed,
+      zones,
+    });
+    if (!warning) return;
+
+    setLastWarning(warning);
+    dangerZoneHaptic(warning.level);
+    onSpeak?.(warning.message);
+
+    const show = warning.level === 'approaching' ? toast.info : toast.warning;
+    show(warning.level === 'inside' ? 'Inside Danger Zone' : 'Danger Zone Ahead', {
+      description: warning.message,
+      duration: warning.level === 'approaching' ? 4000 : 6000,
+    });
+  }, [currentLocation, currentHeading, currentSpeed, isActive, zones, dangerZoneHaptic, onSpeak]);
+
+  // Past collisions in the zone the car is in, for the risk score; unknown until zones load
+  const nearbyIncidents = useMemo(() => {
+    if (!isActive || !currentLocation || zones.length === 0) return undefined;
+    return zones
+      .filter(z => distanceMeters(currentLocation, z) <= z.radius)
+      .reduce((max, z) => Math.max(max, z.incidentCount), 0);
+  }, [isActive, currentLocation, zones]);
+
+  return { lastWarning, zoneCount: zones.length, nearbyIncidents };
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DangerZone, toDangerZone } from '@/lib/dangerZones';
+
+interface UseDangerZonesOptions {
+  enabled?: boolean;
+}
+
+// Zones older than this trigger a re-clustering run on the server
+const STALE_AFTER_MS = 60 * 60 * 1000;
+
+export function useDangerZones({ enabled = true }: UseDangerZonesOptions = {}) {
+  const [zones, setZones] = useState<DangerZone[]>([]);
+  const [computedAt, setComputedAt] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const reloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchZones = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('danger_zones')
+      .select('*')
+      .order('risk_score', { ascending: false })
+      .limit(500);
+
+    if (error) {
+      console.error('Error fetching danger zones:', error);
+      return null;
+    }
+
+    setZones((data || []).map(toDangerZone));
+
+    const latest = (data || []).reduce<string | null>((max, z) => (!max || z.computed_at > max ? z.computed_at : max), null);
+    setComputedAt(latest);
+    return latest;
+  }, []);
+
+  // Re-run clustering if the last run is stale, then reload
+  const refresh = useCallback(async (force = false) => {
+    setIsLoading(true);
+    try {
+      const latest = await fetchZones();
+      const isStale = !latest || Date.now() - new Date(latest).getTime() > STALE_AFTER_MS;
+      if (force || isStale) {
+        const { error } = await supabase.functions.invoke('cluster-danger-zones', { body: { force } });
+        if (error) throw error;
+        await fetchZones();
+      }
+    } catch (error) {
+      console.error('Error refreshing danger zones:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchZones]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    refresh();
+
+    // Another client may have triggered a clustering run; a run inserts many rows, reload once
+    const channel = supabase
+      .channel('danger-zones-changes')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'danger_zones' }, () => {
+        if (reloadTimerRef.current) clearTimeout(reloadTimerRef.current);
+        reloadTimerRef.current = setTimeout(fetchZones, 1000);
+      })
+      .subscribe();
+
+    return () => {
+      if (reloadTimerRef.current) clearTimeout(reloadTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, refresh, fetchZones]);
+
+  return { zones, computedAt, isLoading, refresh };
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import { toast } from 'sonner';
+import {
+  driveSession,
+  DriveRecording,
+  ReplayStatus,
+  parseRecording,
+  serializeRecording,
+} from '@/lib/driveSession';
+
+const STATUS_POLL_MS = 250;
+
+// Sensor hooks switch between live APIs and the replay channels on this
+export function useDriveMode() {
+  return useSyncExternalStore(driveSession.subscribe, driveSession.getMode);
+}
+
+const downloadRecording = (recording: DriveRecording) => {
+  const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const stamp = new Date(recording.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  link.href = url;
+  link.download = `drive-${stamp}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export function useDriveSession() {
+  const mode = useDriveMode();
+  const lastResult = useSyncExternalStore(driveSession.subscribe, driveSession.getLastResult);
+  const [recording, setRecording] = useState<DriveRecording | null>(null);
+  const [status, setStatus] = useState<ReplayStatus | null>(null);
+  const [speed, setSpeed] = useState(1);
+
+  // Replay progress lives outside React; poll it while playing
+  useEffect(() => {
+    if (mode !== 'replay') {
+      setStatus(null);
+      return;
+    }
+    setStatus(driveSession.getReplayStatus());
+    const interval = setInterval(() => setStatus(driveSession.getReplayStatus()), STATUS_POLL_MS);
+    return () => clearInterval(interval);
+  }, [mode]);
+
+  const startRecording = useCallback(() => {
+    try {
+      driveSession.startRecording();
+      toast.success('Drive recording started');
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      toast.error('Cannot record right now');
+    }
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    const result = driveSession.stopRecording();
+    if (!result) return;
+    setRecording(result);
+    downloadRecording(result);
+    toast.success('Drive recording saved', {
+      description: `${result.events.length} events over ${Math.round(result.duration / 1000)}s`,
+    });
+  }, []);
+
+  const loadRecording = useCallback(async (file: File) => {
+    try {
+      const loaded = parseRecording(await file.text());
+      setRecording(loaded);
+      toast.success('Recording loaded', { description: `${loaded.events.length} events` });
+    } catch (error) {
+      console.error('Failed to load recording:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to load recording');
+    }
+  }, []);
+
+  const startReplay = useCallback(() => {
+    if (!recording) return;
+    try {
+      driveSession.startReplay(recording, { speed });
+    } catch (error) {
+      console.error('Failed to start replay:', error);
+      toast.error('Cannot replay right now');
+    }
+  }, [recording, speed]);
+
+  const changeSpeed = useCallback((next: number) => {
+    setSpeed(next);
+    driveSession.setReplaySpeed(next);
+  }, []);
+
+  const togglePause = useCallback(() => {
+    const current = driveSession.getReplayStatus();
+    if (!current) return;
+    driveSession.setReplayPaused(!current.paused);
+    setStatus(driveSession.getReplayStatus());
+  }, []);
+
+  return {
+    mode,
+    recording,
+    status,
+    speed,
+    lastResult,
+    startRecording,
+    stopRecording,
+    loadRecording,
+    startReplay,
+    stopReplay: driveSession.stopReplay,
+    changeSpeed,
+    togglePause,
+  };
+}
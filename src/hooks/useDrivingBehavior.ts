@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useMotionSensor } from './useMotionSensor';
+import { createDrivingAnalyzer, HarshEvent } from '@/lib/drivingBehavior';
+import { driveSession } from '@/lib/driveSession';
+import { MotionData, motionSource } from '@/lib/motionSource';
+
+interface UseDrivingBehaviorOptions {
+  isActive: boolean;
+  speed: number | null; // km/h, OBD when an adapter is connected
+  onEvent?: (event: HarshEvent) => void;
+}
+
+// Harsh braking, acceleration, cornering and swerving during a ride
+export function useDrivingBehavior({ isActive, speed, onEvent }: UseDrivingBehaviorOptions) {
+  const [lastEvent, setLastEvent] = useState<HarshEvent | null>(null);
+  const [eventCount, setEventCount] = useState(0);
+  const analyzerRef = useRef(createDrivingAnalyzer());
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const handleEvents = useCallback((events: HarshEvent[]) => {
+    events.forEach(event => {
+      setLastEvent(event);
+      setEventCount(count => count + 1);
+      onEventRef.current?.(event);
+    });
+  }, []);
+
+  const handleMotion = useCallback((sample: MotionData) => {
+    handleEvents(analyzerRef.current.addMotion(sample, driveSession.now(), motionSource.getForwardAxis()));
+  }, [handleEvents]);
+
+  const {
+    isListening,
+    startListening,
+    stopListening,
+  } = useMotionSensor({ enableCollisionDetection: false, trackState: false, onMotion: handleMotion });
+
+  useEffect(() => {
+    if (isActive && !isListening) startListening();
+    if (!isActive && isListening) stopListening();
+  }, [isActive, isListening, startListening, stopListening]);
+
+  useEffect(() => {
+    if (!isActive || speed === null) return;
+    handleEvents(analyzerRef.current.addSpeed(speed, driveSession.now()));
+  }, [isActive, speed, handleEvents]);
+
+  useEffect(() => {
+    if (isActive) return;
+    analyzerRef.current.reset();
+    setLastEvent(null);
+    setEventCount(0);
+  }, [isActive]);
+
+  return { lastEvent, eventCount };
+}
@@ -0,0 +1,268 @@
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+import * as faceLandmarksDetection from '@tensorflow-models/face-landmarks-detection';
+import '@tensorflow/tfjs';
+
+type Point = { x: number; y: number };
+
+export interface EyeMetrics {
+  ear: number; // eye aspect ratio, averaged across both eyes
+  earThreshold: number; // calibrated closed-eye threshold
+  eyesClosed: boolean;
+  eyeClosedDuration: number; // ms of the current closure
+  perclos: number; // 0-1, share of the window with eyes closed
+  blinkRate: number; // blinks per minute
+  mar: number; // mouth aspect ratio
+  isYawning: boolean;
+  yawnCount: number; // yawns in the last 5 minutes
+  microsleepCount: number; // closures > 1s in the window
+}
+
+interface UseEyeTrackingOptions {
+  videoRef: RefObject<HTMLVideoElement>;
+  isActive: boolean;
+  sampleIntervalMs?: number;
+}
+
+// MediaPipe FaceMesh landmark indices: [corner, top1, top2, corner, bottom2, bottom1]
+const LEFT_EYE = [33, 160, 158, 133, 153, 144];
+const RIGHT_EYE = [362, 385, 387, 263, 373, 380];
+// Inner lip: [left corner, right corner, top, bottom]
+const MOUTH = [78, 308, 13, 14];
+
+const DEFAULT_EAR_THRESHOLD = 0.21;
+const CALIBRATION_SAMPLES = 30;
+const PERCLOS_WINDOW_MS = 60000;
+const YAWN_WINDOW_MS = 5 * 60000;
+const MAX_BLINK_MS = 400;
+const MICROSLEEP_MS = 1000;
+const YAWN_MAR = 0.6;
+const YAWN_MIN_MS = 1500;
+
+const INITIAL_METRICS: EyeMetrics = {
+  ear: 0,
+  earThreshold: DEFAULT_EAR_THRESHOLD,
+  eyesClosed: false,
+  eyeClosedDuration: 0,
+  perclos: 0,
+  blinkRate: 0,
+  mar: 0,
+  isYawning: false,
+  yawnCount: 0,
+  microsleepCount: 0,
+};
+
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// EAR = (|p2-p6| + |p3-p5|) / (2 * |p1-p4|)
+export const eyeAspectRatio = (p: Point[]): number => {
+  const horizontal = dist(p[0], p[3]);
+  if (horizontal === 0) return 0;
+  return (dist(p[1], p[5]) + dist(p[2], p[4])) / (2 * horizontal);
+};
+
+export const mouthAspectRatio = (p: Point[]): number => {
+  const horizontal = dist(p[0], p[1]);
+  if (horizontal === 0) return 0;
+  return dist(p[2], p[3]) / horizontal;
+};
+
+// Combine PERCLOS, microsleeps, yawns and a low blink rate into a 0-100 score
+export const computeFatigueLevel = (m: EyeMetrics, windowFull: boolean): number => {
+  let level = Math.min(60, m.perclos * 200);
+  level += m.microsleepCount * 20;
+  level += m.yawnCount * 8;
+  if (windowFull && m.blinkRate > 0 && m.blinkRate < 8) level += 10;
+  return Math.min(100, Math.max(0, level));
+};
+
+export function useEyeTracking({ videoRef, isActive, sampleIntervalMs = 100 }: UseEyeTrackingOptions) {
+  const [isModelLoading, setIsModelLoading] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+  const [faceDetected, setFaceDetected] = useState(false);
+  const [metrics, setMetrics] = useState<EyeMetrics>(INITIAL_METRICS);
+  const [fatigueLevel, setFatigueLevel] = useState(0);
+
+  const detectorRef = useRef<faceLandmarksDetection.FaceLandmarksDetector | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const calibrationRef = useRef<number[]>([]);
+  const thresholdRef = useRef(DEFAULT_EAR_THRESHOLD);
+  // Sliding window of (timestamp, closed) samples for PERCLOS
+  const samplesRef = useRef<{ t: number; closed: boolean }[]>([]);
+  const blinksRef = useRef<number[]>([]);
+  const microsleepsRef = useRef<number[]>([]);
+  const yawnsRef = useRef<number[]>([]);
+  const closedSinceRef = useRef<number | null>(null);
+  const yawnSinceRef = useRef<number | null>(null);
+  const yawnCountedRef = useRef(false);
+  const startedAtRef = useRef(0);
+
+  const reset = useCallback(() => {
+    calibrationRef.current = [];
+    thresholdRef.current = DEFAULT_EAR_THRESHOLD;
+    samplesRef.current = [];
+    blinksRef.current = [];
+    microsleepsRef.current = [];
+    yawnsRef.current = [];
+    closedSinceRef.current = null;
+    yawnSinceRef.current = null;
+    yawnCountedRef.current = false;
+    setMetrics(INITIAL_METRICS);
+    setFatigueLevel(0);
+    setFaceDetected(false);
+  }, []);
+
+  const loadModel = useCallback(async () => {
+    if (detectorRef.current) return detectorRef.current;
+    try {
+      setIsModelLoading(true);
+      const detector = await faceLandmarksDetection.createDetector(
+        faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh,
+        { runtime: 'tfjs', refineLandmarks: true, maxFaces: 1 }
+      );
+      detectorRef.current = detector;
+      setIsReady(true);
+      return detector;
+    } catch (error) {
+      console.error('Failed to load face landmark model:', error);
+      return null;
+    } finally {
+      setIsModelLoading(false);
+    }
+  }, []);
+
+  const processFrame = useCallback((keypoints: Point[], now: number) => {
+    const leftEar = eyeAspectRatio(LEFT_EYE.map(i => keypoints[i]));
+    const rightEar = eyeAspectRatio(RIGHT_EYE.map(i => keypoints[i]));
+    const ear = (leftEar + rightEar) / 2;
+    const mar = mouthAspectRatio(MOUTH.map(i => keypoints[i]));
+
+    // Calibrate the closed-eye threshold from the driver's open-eye EAR
+    if (calibrationRef.current.length < CALIBRATION_SAMPLES) {
+      calibrationRef.current.push(ear);
+      if (calibrationRef.current.length === CALIBRATION_SAMPLES) {
+        const sorted = [...calibrationRef.current].sort((a, b) => a - b);
+        const openEar = sorted[Math.floor(sorted.length * 0.75)];
+        thresholdRef.current = Math.max(0.15, Math.min(0.3, openEar * 0.7));
+      }
+    }
+
+    const closed = ear < thresholdRef.current;
+
+    // Blink / microsleep detection on eye-open transitions
+    if (closed && closedSinceRef.current === null) {
+      closedSinceRef.current = now;
+    } else if (!closed && closedSinceRef.current !== null) {
+      const duration = now - closedSinceRef.current;
+      if (duration <= MAX_BLINK_MS) blinksRef.current.push(now);
+      else if (duration >= MICROSLEEP_MS) microsleepsRef.current.push(now);
+      closedSinceRef.current = null;
+    }
+
+    // Yawn: mouth held wide open long enough, counted once per yawn
+    const mouthOpen = mar > YAWN_MAR;
+    if (mouthOpen) {
+      if (yawnSinceRef.current === null) yawnSinceRef.current = now;
+      if (!yawnCountedRef.current && now - yawnSinceRef.current >= YAWN_MIN_MS) {
+        yawnsRef.current.push(now);
+        yawnCountedRef.current = true;
+      }
+    } else {
+      yawnSinceRef.current = null;
+      yawnCountedRef.current = false;
+    }
+
+    // Trim sliding windows
+    const windowStart = now - PERCLOS_WINDOW_MS;
+    samplesRef.current.push({ t: now, closed });
+    samplesRef.current = samplesRef.current.filter(s => s.t >= windowStart);
+    blinksRef.current = blinksRef.current.filter(t => t >= windowStart);
+    microsleepsRef.current = microsleepsRef.current.filter(t => t >= windowStart);
+    yawnsRef.current = yawnsRef.current.filter(t => t >= now - YAWN_WINDOW_MS);
+
+    const samples = samplesRef.current;
+    const perclos = samples.length > 0 ? samples.filter(s => s.closed).length / samples.length : 0;
+    const elapsed = Math.min(PERCLOS_WINDOW_MS, now - startedAtRef.current);
+    const blinkRate = elapsed > 0 ? blinksRef.current.length * (60000 / elapsed) : 0;
+    const eyeClosedDuration = closedSinceRef.current !== null ? now - closedSinceRef.current : 0;
+
+    const next: EyeMetrics = {
+      ear,
+      earThreshold: thresholdRef.current,
+      eyesClosed: closed,
+      eyeClosedDuration,
+      perclos,
+      blinkRate,
+      mar,
+      isYawning: mouthOpen && yawnCountedRef.current,
+      yawnCount: yawnsRef.current.length,
+      // An ongoing long closure counts immediately
+      microsleepCount: microsleepsRef.current.length + (eyeClosedDuration >= MICROSLEEP_MS ? 1 : 0),
+    };
+
+    setMetrics(next);
+    setFatigueLevel(prev => {
+      const target = computeFatigueLevel(next, elapsed >= PERCLOS_WINDOW_MS);
+      // Rise quickly, recover slowly
+      return target > prev ? prev + (target - prev) * 0.3 : prev + (target - prev) * 0.05;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isActive) {
+      reset();
+      return;
+    }
+
+    let cancelled = false;
+    startedAtRef.current = Date.now();
+
+    const loop = async () => {
+      const detector = detectorRef.current;
+      const video = videoRef.current;
+      if (cancelled || !detector) return;
+
+      if (video && video.readyState >= 2) {
+        try {
+          const faces = await detector.estimateFaces(video, { flipHorizontal: false });
+          if (cancelled) return;
+          if (faces.length > 0) {
+            setFaceDetected(true);
+            processFrame(faces[0].keypoints, Date.now());
+          } else {
+            setFaceDetected(false);
+          }
+        } catch (error) {
+          console.error('Face landmark estimation failed:', error);
+        }
+      }
+
+      if (!cancelled) timeoutRef.current = setTimeout(loop, sampleIntervalMs);
+    };
+
+    loadModel().then(detector => {
+      if (detector && !cancelled) loop();
+    });
+
+    return () => {
+      cancelled = true;
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    };
+  }, [isActive, videoRef, sampleIntervalMs, loadModel, processFrame, reset]);
+
+  // Release model memory on unmount
+  useEffect(() => {
+    return () => {
+      detectorRef.current?.dispose();
+      detectorRef.current = null;
+    };
+  }, []);
+
+  return {
+    isModelLoading,
+    isReady,
+    faceDetected,
+    metrics,
+    fatigueLevel,
+    isCalibrating: isActive && faceDetected && calibrationRef.current.length < CALIBRATION_SAMPLES,
+  };
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useNativeGeolocation } from './useNativeGeolocation';
+import { useMotionSensor } from './useMotionSensor';
+import { createPositionFilter, FusedPosition, imuFromMotion } from '@/lib/positionFilter';
+import { compassFromAlpha, createHeadingFusion } from '@/lib/headingFusion';
+import { driveSession } from '@/lib/driveSession';
+import { MotionData, motionSource } from '@/lib/motionSource';
+import { useDriveMode } from './useDriveSession';
+
+export type LocationSource = FusedPosition['source'] | 'cached';
+
+export interface FusedLocation extends Omit<FusedPosition, 'source'> {
+  source: LocationSource;
+}
+
+interface UseFusedLocationOptions {
+  isActive: boolean;
+  obdSpeed?: number | null; // km/h from the OBD2 adapter
+}
+
+const LOCATION_CACHE_KEY = 'eco_rider_last_location';
+// A cached position older than this is not worth showing
+const CACHE_MAX_AGE_MS = 30 * 60 * 1000;
+const PUBLISH_INTERVAL_MS = 1000;
+// Below this the GPS course is noise and the compass is the only heading reference
+const COMPASS_MAX_SPEED_MS = 2.5;
+const OBD_SPEED_SIGMA_MS = 0.5;
+
+const readCachedLocation = (): FusedLocation | null => {
+  try {
+    const cached = localStorage.getItem(LOCATION_CACHE_KEY);
+    if (!cached) return null;
+    const parsed = JSON.parse(cached) as { lat: number; lng: number; accuracy?: number; timestamp: number };
+    if (Date.now() - parsed.timestamp > CACHE_MAX_AGE_MS) return null;
+    return {
+      lat: parsed.lat,
+      lng: parsed.lng,
+      speed: 0,
+      heading: null,
+      accuracy: parsed.accuracy ?? 100,
+      speedAccuracy: 0,
+      headingAccuracy: 180,
+      confidence: 0,
+      source: 'cached',
+      timestamp: parsed.timestamp,
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Single location provider: GPS, IMU, compass and OBD speed fused by an EKF
+export function useFusedLocation({ isActive, obdSpeed = null }: UseFusedLocationOptions) {
+  const [estimate, setEstimate] = useState<FusedLocation | null>(readCachedLocation);
+  const filterRef = useRef(createPositionFilter());
+  const headingFusionRef = useRef(createHeadingFusion());
+  const isReplaying = useDriveMode() === 'replay';
+
+  const {
+    location: gps,
+    getCurrentPosition,
+    startTracking,
+    stopTracking,
+  } = useNativeGeolocation({ enableHighAccuracy: true, enableBackgroundTracking: false });
+
+  const handleMotion = useCallback((sample: MotionData) => {
+    filterRef.current.predict(driveSession.now(), imuFromMotion(sample, motionSource.getForwardAxis()));
+    headingFusionRef.current.updateCompass(compassFromAlpha(sample.orientation.alpha));
+  }, []);
+
+  const {
+    startListening: startMotion,
+    stopListening: stopMotion,
+  } = useMotionSensor({ enableCollisionDetection: false, trackState: false, onMotion: handleMotion });
+
+  const publish = useCallback(() => {
+    const filter = filterRef.current;
+    filter.predict(driveSession.now());
+
+    // The mount-corrected compass keeps the heading alive while standing still
+    const current = filter.getEstimate();
+    const compass = headingFusionRef.current.getEstimate();
+    if (current && current.speed < COMPASS_MAX_SPEED_MS && compass.source === 'compass' && compass.heading !== null) {
+      filter.updateHeading(compass.heading, 20 + (1 - compass.confidence) * 60, driveSession.now());
+    }
+
+    const next = filter.getEstimate();
+    if (next) setEstimate(next);
+  }, []);
+
+  // GPS fixes correct the filter and are cached for the next cold start
+  useEffect(() => {
+    if (gps.latitude === null || gps.longitude === null || gps.timestamp === null) return;
+
+    const fix = {
+      lat: gps.latitude,
+      lng: gps.longitude,
+      accuracy: gps.accuracy ?? 50,
+      speed: gps.speed,
+      course: gps.heading,
+      timestamp: gps.timestamp,
+    };
+    filterRef.current.updateGps(fix);
+    headingFusionRef.current.updatePosition({
+      lat: fix.lat,
+      lng: fix.lng,
+      speed: fix.speed !== null ? fix.speed * 3.6 : 0,
+      course: fix.course,
+    });
+    // A replayed ride must not overwrite where the phone really is
+    if (!isReplaying) {
+      try {
+        localStorage.setItem(LOCATION_CACHE_KEY, JSON.stringify({ lat: fix.lat, lng: fix.lng, accuracy: fix.accuracy, timestamp: fix.timestamp }));
+      } catch {
+        // Storage full or unavailable; the cache is only a convenience
+      }
+    }
+    publish();
+  }, [gps.latitude, gps.longitude, gps.accuracy, gps.speed, gps.heading, gps.timestamp, isReplaying, publish]);
+
+  useEffect(() => {
+    if (obdSpeed === null || obdSpeed < 0) return;
+    filterRef.current.updateSpeed(obdSpeed / 3.6, OBD_SPEED_SIGMA_MS, driveSession.now());
+  }, [obdSpeed]);
+
+  // Sensors run only during a ride; the filter keeps dead reckoning between GPS fixes.
+  // Switching to or from a replay restarts them on the other source.
+  useEffect(() => {
+    if (!isActive) return;
+    filterRef.current.reset();
+    headingFusionRef.current.reset();
+    startTracking();
+    startMotion();
+    const cancelPublish = driveSession.every(PUBLISH_INTERVAL_MS, publish);
+    return () => {
+      cancelPublish();
+      stopTracking();
+      stopMotion();
+    };
+  }, [isActive, isReplaying, startTracking, stopTracking, startMotion, stopMotion, publish]);
+
+  // One-shot fix before a ride, falling back to the cached position
+  const locate = useCallback(async (): Promise<{ lat: number; lng: number } | null> => {
+    const pos = await getCurrentPosition();
+    if (pos?.latitude && pos?.longitude) return { lat: pos.latitude, lng: pos.longitude };
+    const cached = readCachedLocation();
+    if (cached) setEstimate(cached);
+    return cached ? { lat: cached.lat, lng: cached.lng } : null;
+  }, [getCurrentPosition]);
+
+  const lat = estimate?.lat;
+  const lng = estimate?.lng;
+  const position = useMemo(() => (lat !== undefined && lng !== undefined ? { lat, lng } : null), [lat, lng]);
+
+  return {
+    estimate,
+    position,
+    speed: estimate && estimate.source !== 'cached' ? estimate.speed * 3.6 : null, // km/h
+    heading: estimate?.heading ?? null,
+    accuracy: estimate?.accuracy ?? null,
+    confidence: estimate?.confidence ?? 0,
+    source: estimate?.source ?? null,
+    locate,
+  };
+}
@@ -95,6 +95,26 @@ export function useHaptics() {
     } catch { /* not available */ }
   }, []);
 
+  const dangerZoneHaptic = useCallback(async (level: 'approaching' | 'imminent' | 'inside') => {
+    if (!isNative()) return;
+    try {
+      const { Haptics, ImpactStyle, NotificationType } = await import('@capacitor/haptics');
+      switch (level) {
+        case 'inside':
+          await Haptics.vibrate({ duration: 400 });
+          setTimeout(() => Haptics.vibrate({ duration: 400 }).catch(() => {}), 500);
+          break;
+        case 'imminent':
+          await Haptics.impact({ style: ImpactStyle.Heavy });
+          setTimeout(() => Haptics.impact({ style: ImpactStyle.Heavy }).catch(() => {}), 250);
+          break;
+        case 'approaching':
+          await Haptics.notification({ type: NotificationType.Warning });
+          break;
+      }
+    } catch { /* not available */ }
+  }, []);
+
   return {
     impactLight,
     impactMedium,
@@ -106,6 +126,7 @@ export function useHaptics() {
     collisionWarningHaptic,
     sosHaptic,
     speedLimitHaptic,
+    dangerZoneHaptic,
     isNative,
   };
 }
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import type { CalibrationStatus } from '@/lib/mountCalibration';
+import { motionSource } from '@/lib/motionSource';
+
+interface UseMountCalibrationOptions {
+  isActive: boolean;
+  speed: number | null; // km/h
+}
+
+// Feeds speed to the motion source's calibration and reports its progress
+export function useMountCalibration({ isActive, speed }: UseMountCalibrationOptions) {
+  const [status, setStatus] = useState<CalibrationStatus>(motionSource.getCalibration);
+
+  useEffect(() => {
+    const unsubscribe = motionSource.onCalibrationChange((next, learned) => {
+      setStatus(next);
+      if (!learned) return;
+      if (next.state === 'calibrated') toast.success('Phone mount calibrated');
+      else if (next.state === 'uncalibrated') toast.info('Phone moved, recalibrating the mount');
+    });
+    // Changes made before the listener was attached
+    setStatus(motionSource.getCalibration());
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!isActive || speed === null) return;
+    motionSource.addSpeed(speed);
+  }, [isActive, speed]);
+
+  const recalibrate = useCallback(() => {
+    motionSource.recalibrate();
+    toast.info('Recalibrating the phone mount');
+  }, []);
+
+  return { ...status, recalibrate };
+}
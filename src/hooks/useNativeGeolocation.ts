@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Geolocation, Position, WatchPositionCallback } from '@capacitor/geolocation';
 import { toast } from 'sonner';
+import { driveSession } from '@/lib/driveSession';
 
 interface GeolocationState {
   latitude: number | null;
@@ -42,12 +43,20 @@ export function useNativeGeolocation(options: UseNativeGeolocationOptions = {})
   const [isTracking, setIsTracking] = useState(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const watchIdRef = useRef<string | null>(null);
+  const replayUnsubscribeRef = useRef<(() => void) | null>(null);
 
   const isNative = () => {
     return typeof window !== 'undefined' && 
            (window as any).Capacitor?.isNativePlatform?.();
   };
 
+  // Every fix goes into the drive recording when one is running
+  const applyFix = useCallback((fix: GeolocationState) => {
+    driveSession.record({ type: 'gps', fix });
+    setLocation(fix);
+    setError(null);
+  }, []);
+
   // Check and request permissions
   const checkPermissions = useCallback(async () => {
     try {
@@ -120,8 +129,7 @@ export function useNativeGeolocation(options: UseNativeGeolocationOptions = {})
         timestamp: position.timestamp,
       };
 
-      setLocation(newLocation);
-      setError(null);
+      applyFix(newLocation);
       return newLocation;
     } catch (err: any) {
       const errorMessage = err.message || 'Failed to get location';
@@ -129,10 +137,21 @@ export function useNativeGeolocation(options: UseNativeGeolocationOptions = {})
       console.error('Geolocation error:', err);
       return null;
     }
-  }, [checkPermissions, enableHighAccuracy, timeout, maximumAge]);
+  }, [checkPermissions, applyFix, enableHighAccuracy, timeout, maximumAge]);
 
   // Start watching position (background tracking)
   const startTracking = useCallback(async () => {
+    // Replayed fixes stand in for the receiver
+    if (driveSession.getMode() === 'replay') {
+      replayUnsubscribeRef.current?.();
+      replayUnsubscribeRef.current = driveSession.on('gps', event => {
+        setLocation(event.fix);
+        setError(null);
+      });
+      setIsTracking(true);
+      return;
+    }
+
     try {
       const hasPerms = await checkPermissions();
       if (!hasPerms) {
@@ -152,7 +171,7 @@ export function useNativeGeolocation(options: UseNativeGeolocationOptions = {})
           }
 
           if (position) {
-            setLocation({
+            applyFix({
               latitude: position.coords.latitude,
               longitude: position.coords.longitude,
               accuracy: position.coords.accuracy,
@@ -162,7 +181,6 @@ export function useNativeGeolocation(options: UseNativeGeolocationOptions = {})
               speed: position.coords.speed,
               timestamp: position.timestamp,
             });
-            setError(null);
           }
         };
 
@@ -178,7 +196,7 @@ export function useNativeGeolocation(options: UseNativeGeolocationOptions = {})
         // Web API fallback
         const webWatchId = navigator.geolocation.watchPosition(
           (position) => {
-            setLocation({
+            applyFix({
               latitude: position.coords.latitude,
               longitude: position.coords.longitude,
               accuracy: position.coords.accuracy,
@@ -188,7 +206,6 @@ export function useNativeGeolocation(options: UseNativeGeolocationOptions = {})
               speed: position.coords.speed,
               timestamp: position.timestamp,
             });
-            setError(null);
           },
           (err) => setError(err.message),
           { enableHighAccuracy, timeout, maximumAge }
@@ -202,10 +219,12 @@ export function useNativeGeolocation(options: UseNativeGeolocationOptions = {})
       setError(err.message);
       toast.error('Failed to start location tracking');
     }
-  }, [checkPermissions, enableHighAccuracy, timeout, maximumAge]);
+  }, [checkPermissions, applyFix, enableHighAccuracy, timeout, maximumAge]);
 
   // Stop watching position
   const stopTracking = useCallback(async () => {
+    replayUnsubscribeRef.current?.();
+    replayUnsubscribeRef.current = null;
     try {
       if (watchIdRef.current) {
         if (isNative()) {
@@ -224,7 +243,7 @@ export function useNativeGeolocation(options: UseNativeGeolocationOptions = {})
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (watchIdRef.current) {
+      if (watchIdRef.current || replayUnsubscribeRef.current) {
         stopTracking();
       }
     };
@@ -1,4 +1,24 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSettings } from './useSettings';
+import { downloadRoadGraph } from '@/lib/offlineRouting';
+import {
+  clearTiles,
+  deletePack as deleteTilePack,
+  downloadPack as downloadTilePack,
+  evictToLimit,
+  fetchTile,
+  getCacheStats,
+  listPacks,
+  openOfflineDB,
+  PackRequest,
+  purgeExpired,
+  putTile,
+  ROUTES_STORE,
+  tileCacheConfig,
+  tileKey,
+  tileRange,
+  TilePack,
+} from '@/lib/tileCache';
 
 interface CachedRoute {
   id: string;
@@ -8,52 +28,84 @@ interface CachedRoute {
   timestamp: number;
 }
 
-interface CachedTile {
-  key: string;
-  blob: Blob;
-  timestamp: number;
-}
-
-const DB_NAME = 'collision-prevention-offline';
-const DB_VERSION = 1;
-const ROUTES_STORE = 'routes';
-const TILES_STORE = 'tiles';
-
 export function useOfflineMode() {
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const [cachedRoutes, setCachedRoutes] = useState<CachedRoute[]>([]);
   const [cacheSize, setCacheSize] = useState(0);
+  const [tileCount, setTileCount] = useState(0);
+  const [packs, setPacks] = useState<TilePack[]>([]);
+  const [downloadProgress, setDownloadProgress] = useState<{ done: number; total: number; phase: 'tiles' | 'roads' } | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const { settings, isLoaded: settingsLoaded } = useSettings();
+  const downloadAbortRef = useRef<AbortController | null>(null);
+  const { maxBytes, maxAgeMs } = tileCacheConfig(settings);
 
-  // Initialize IndexedDB
-  const initDB = useCallback((): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result);
+  // Load all cached routes
+  const loadCachedRoutes = useCallback(async () => {
+    try {
+      const db = await openOfflineDB();
+      const transaction = db.transaction(ROUTES_STORE, 'readonly');
+      const store = transaction.objectStore(ROUTES_STORE);
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        if (!db.objectStoreNames.contains(ROUTES_STORE)) {
-          db.createObjectStore(ROUTES_STORE, { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains(TILES_STORE)) {
-          db.createObjectStore(TILES_STORE, { keyPath: 'key' });
-        }
+      const request = store.getAll();
+      request.onsuccess = () => {
+        setCachedRoutes(request.result || []);
       };
-    });
+    } catch {
+      setCachedRoutes([]);
+    }
   }, []);
 
+  // Calculate cache size and reload the pack list
+  const calculateCacheSize = useCallback(async () => {
+    try {
+      const db = await openOfflineDB();
+      const routes = await new Promise<CachedRoute[]>((resolve) => {
+        const request = db.transaction(ROUTES_STORE, 'readonly').objectStore(ROUTES_STORE).getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => resolve([]);
+      });
+      const stats = await getCacheStats();
+      const packList = await listPacks();
+      const graphBytes = packList.reduce((sum, p) => sum + (p.roadGraph?.sizeBytes ?? 0), 0);
+      setCacheSize(JSON.stringify(routes).length + stats.tileBytes + graphBytes);
+      setTileCount(stats.tileCount);
+      setPacks(packList);
+    } catch {
+      setCacheSize(0);
+    }
+  }, []);
+
+  // Cache map tiles along a route (street map, zoom 12-16)
+  const cacheTilesForRoute = useCallback(async (coordinates: { lat: number; lng: number }[]) => {
+    const seen = new Set<string>();
+    for (const coord of coordinates) {
+      for (let zoom = 12; zoom <= 16; zoom++) {
+        const { minX: x, minY: y } = tileRange({ north: coord.lat, south: coord.lat, east: coord.lng, west: coord.lng }, zoom);
+        const key = tileKey('default', zoom, x, y);
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        try {
+          await putTile(key, await fetchTile('default', zoom, x, y));
+        } catch (error) {
+          // Skip failed tiles silently
+        }
+      }
+    }
+    await evictToLimit(maxBytes);
+  }, [maxBytes]);
+
   // Cache a route for offline use
   const cacheRoute = useCallback(async (
     origin: { lat: number; lng: number },
     destination: string,
     coordinates: { lat: number; lng: number }[]
   ) => {
+    if (!settings.autoCacheRoutes) return;
+
     try {
-      const db = await initDB();
+      const db = await openOfflineDB();
       const transaction = db.transaction(ROUTES_STORE, 'readwrite');
       const store = transaction.objectStore(ROUTES_STORE);
 
@@ -66,44 +118,19 @@ export function useOfflineMode() {
       };
 
       store.put(route);
-      
+
       // Also cache map tiles for this route
-      await cacheTilesForRoute(coordinates);
-      
+      if (settings.cacheMapTiles) {
+        await cacheTilesForRoute(coordinates);
+      }
+
       // Update cached routes list
       await loadCachedRoutes();
+      await calculateCacheSize();
     } catch (error) {
       console.error('Failed to cache route:', error);
     }
-  }, [initDB]);
-
-  // Cache map tiles for a route
-  const cacheTilesForRoute = useCallback(async (coordinates: { lat: number; lng: number }[]) => {
-    const db = await initDB();
-    const transaction = db.transaction(TILES_STORE, 'readwrite');
-    const store = transaction.objectStore(TILES_STORE);
-
-    // Calculate tile coordinates for zoom levels 12-16
-    for (const coord of coordinates) {
-      for (let zoom = 12; zoom <= 16; zoom++) {
-        const tileX = Math.floor((coord.lng + 180) / 360 * Math.pow(2, zoom));
-        const tileY = Math.floor((1 - Math.log(Math.tan(coord.lat * Math.PI / 180) + 1 / Math.cos(coord.lat * Math.PI / 180)) / Math.PI) / 2 * Math.pow(2, zoom));
-        
-        const tileUrl = `https://tile.openstreetmap.org/${zoom}/${tileX}/${tileY}.png`;
-        const tileKey = `${zoom}/${tileX}/${tileY}`;
-
-        try {
-          const response = await fetch(tileUrl);
-          if (response.ok) {
-            const blob = await response.blob();
-            store.put({ key: tileKey, blob, timestamp: Date.now() });
-          }
-        } catch (error) {
-          // Skip failed tiles silently
-        }
-      }
-    }
-  }, [initDB]);
+  }, [settings.autoCacheRoutes, settings.cacheMapTiles, cacheTilesForRoute, loadCachedRoutes, calculateCacheSize]);
 
   // Get cached route
   const getCachedRoute = useCallback(async (
@@ -111,7 +138,7 @@ export function useOfflineMode() {
     destination: string
   ): Promise<CachedRoute | null> => {
     try {
-      const db = await initDB();
+      const db = await openOfflineDB();
       const transaction = db.transaction(ROUTES_STORE, 'readonly');
       const store = transaction.objectStore(ROUTES_STORE);
       const id = `${origin.lat.toFixed(4)}_${origin.lng.toFixed(4)}_${destination}`;
@@ -124,64 +151,63 @@ export function useOfflineMode() {
     } catch {
       return null;
     }
-  }, [initDB]);
+  }, []);
 
-  // Load all cached routes
-  const loadCachedRoutes = useCallback(async () => {
+  // Download a region pack and its road graph; only one download runs at a time
+  const downloadPack = useCallback(async (request: PackRequest): Promise<TilePack> => {
+    if (downloadAbortRef.current) throw new Error('Another download is in progress');
+
+    const controller = new AbortController();
+    downloadAbortRef.current = controller;
+    setDownloadProgress({ done: 0, total: 0, phase: 'tiles' });
     try {
-      const db = await initDB();
-      const transaction = db.transaction(ROUTES_STORE, 'readonly');
-      const store = transaction.objectStore(ROUTES_STORE);
+      const pack = await downloadTilePack(request, tileCacheConfig(settings), {
+        signal: controller.signal,
+        onProgress: (done, total) => setDownloadProgress({ done, total, phase: 'tiles' }),
+      });
 
-      const request = store.getAll();
-      request.onsuccess = () => {
-        setCachedRoutes(request.result || []);
-      };
-    } catch {
-      setCachedRoutes([]);
+      // The tiles are useful on their own, so a failed or cancelled road download keeps the pack
+      setDownloadProgress({ done: pack.tileCount, total: pack.tileCount, phase: 'roads' });
+      try {
+        pack.roadGraph = await downloadRoadGraph(pack, controller.signal);
+      } catch (error) {
+        if (!controller.signal.aborted) console.error('Failed to download road graph:', error);
+      }
+      return pack;
+    } finally {
+      downloadAbortRef.current = null;
+      setDownloadProgress(null);
+      await calculateCacheSize();
     }
-  }, [initDB]);
+  }, [settings, calculateCacheSize]);
 
-  // Calculate cache size
-  const calculateCacheSize = useCallback(async () => {
-    try {
-      const db = await initDB();
-      const transaction = db.transaction([ROUTES_STORE, TILES_STORE], 'readonly');
-      
-      let totalSize = 0;
-
-      const routesStore = transaction.objectStore(ROUTES_STORE);
-      const routesRequest = routesStore.getAll();
-      routesRequest.onsuccess = () => {
-        totalSize += JSON.stringify(routesRequest.result).length;
-      };
+  const cancelDownload = useCallback(() => {
+    downloadAbortRef.current?.abort();
+  }, []);
 
-      const tilesStore = transaction.objectStore(TILES_STORE);
-      const tilesRequest = tilesStore.getAll();
-      tilesRequest.onsuccess = () => {
-        for (const tile of tilesRequest.result) {
-          totalSize += tile.blob.size;
-        }
-        setCacheSize(totalSize);
-      };
-    } catch {
-      setCacheSize(0);
+  const deletePack = useCallback(async (id: string) => {
+    try {
+      await deleteTilePack(id);
+    } catch (error) {
+      console.error('Failed to delete tile pack:', error);
     }
-  }, [initDB]);
+    await calculateCacheSize();
+  }, [calculateCacheSize]);
 
   // Clear all cached data
   const clearCache = useCallback(async () => {
     try {
-      const db = await initDB();
-      const transaction = db.transaction([ROUTES_STORE, TILES_STORE], 'readwrite');
-      transaction.objectStore(ROUTES_STORE).clear();
-      transaction.objectStore(TILES_STORE).clear();
+      const db = await openOfflineDB();
+      db.transaction(ROUTES_STORE, 'readwrite').objectStore(ROUTES_STORE).clear();
+      await clearTiles();
       setCachedRoutes([]);
+      setPacks([]);
+      setTileCount(0);
       setCacheSize(0);
     } catch (error) {
       console.error('Failed to clear cache:', error);
     }
-  }, [initDB]);
+  }, []);
 
   // Monitor online/offline status
   useEffect(() => {
@@ -200,22 +226,45 @@ export function useOfflineMode() {
   // Initialize on mount
   useEffect(() => {
     const initialize = async () => {
-      await initDB();
+      await openOfflineDB();
       await loadCachedRoutes();
       await calculateCacheSize();
       setIsInitialized(true);
     };
     initialize();
-  }, [initDB, loadCachedRoutes, calculateCacheSize]);
+  }, [loadCachedRoutes, calculateCacheSize]);
+
+  // Apply the cache duration and size limit whenever they change
+  useEffect(() => {
+    if (!settingsLoaded) return;
+
+    const enforce = async () => {
+      try {
+        await purgeExpired(maxAgeMs);
+        await evictToLimit(maxBytes);
+      } catch (error) {
+        console.error('Failed to enforce tile cache limits:', error);
+      }
+      await calculateCacheSize();
+    };
+    enforce();
+  }, [settingsLoaded, maxAgeMs, maxBytes, calculateCacheSize]);
 
   return {
     isOffline,
     isInitialized,
     cachedRoutes,
     cacheSize,
+    tileCount,
+    packs,
+    downloadProgress,
     cacheRoute,
     getCachedRoute,
+    downloadPack,
+    cancelDownload,
+    deletePack,
     clearCache,
     loadCachedRoutes,
+    refreshCacheStats: calculateCacheSize,
   };
 }
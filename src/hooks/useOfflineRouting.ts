@@ -0,0 +1,88 @@
+import { useEffect, useCallback, useRef } from 'react';
+import type { RoutePlan } from '@/lib/roadGraph';
+import { findRoutingPack, loadRoadGraph, parseCoordinates } from '@/lib/offlineRouting';
+import { listPacks } from '@/lib/tileCache';
+import type { OfflineRouterCommand, OfflineRouterResponse } from '@/workers/offlineRouter.worker';
+
+type LatLng = { lat: number; lng: number };
+
+interface PendingCall {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export function useOfflineRouting() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingCall>());
+  const nextIdRef = useRef(0);
+  const loadedPackRef = useRef<string | null>(null);
+
+  const failPending = useCallback((error: Error) => {
+    pendingRef.current.forEach(call => call.reject(error));
+    pendingRef.current.clear();
+  }, []);
+
+  // The worker is started on first use and keeps the last loaded graph
+  const call = useCallback(<T,>(command: OfflineRouterCommand): Promise<T> => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL('../workers/offlineRouter.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<OfflineRouterResponse>) => {
+        const pending = pendingRef.current.get(event.data.id);
+        if (!pending) return;
+        pendingRef.current.delete(event.data.id);
+        if ('error' in event.data) pending.reject(new Error(event.data.error));
+        else pending.resolve(event.data.result);
+      };
+      worker.onerror = (event) => {
+        console.error('Offline router crashed:', event.message);
+        worker.terminate();
+        workerRef.current = null;
+        loadedPackRef.current = null;
+        failPending(new Error('Offline router stopped unexpectedly'));
+      };
+      workerRef.current = worker;
+    }
+
+    const id = nextIdRef.current++;
+    return new Promise<T>((resolve, reject) => {
+      pendingRef.current.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      workerRef.current!.postMessage({ ...command, id });
+    });
+  }, [failPending]);
+
+  // Make sure the worker holds a graph covering every point
+  const loadPackFor = useCallback(async (points: LatLng[]) => {
+    const pack = findRoutingPack(await listPacks(), points);
+    if (!pack) throw new Error('No offline road data for this area. Download an offline map in Settings.');
+    if (loadedPackRef.current === pack.id) return;
+
+    const record = await loadRoadGraph(pack.id);
+    if (!record) throw new Error('Offline road data is missing. Download the area again.');
+    await call({ type: 'load', packId: pack.id, graph: record.graph, zones: record.zones });
+    loadedPackRef.current = pack.id;
+  }, [call]);
+
+  // Coordinates or a street name inside the offline region around `near`
+  const geocode = useCallback(async (query: string, near: LatLng): Promise<LatLng | null> => {
+    const coordinates = parseCoordinates(query);
+    if (coordinates) return coordinates;
+    await loadPackFor([near]);
+    return call<LatLng | null>({ type: 'geocode', query });
+  }, [loadPackFor, call]);
+
+  const route = useCallback(async (start: LatLng, end: LatLng): Promise<RoutePlan> => {
+    await loadPackFor([start, end]);
+    return call<RoutePlan>({ type: 'route', start, end, hour: new Date().getHours() });
+  }, [loadPackFor, call]);
+
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      loadedPackRef.current = null;
+      failPending(new Error('Offline router closed'));
+    };
+  }, [failPending]);
+
+  return { geocode, route };
+}
@@ -2,6 +2,11 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useHaptics } from './useHaptics';
+import { bearingBetween, distanceMeters } from '@/lib/closestApproach';
+import { assessVehicle, mostUrgentWarning, nearbyVehicles as withinRange } from '@/lib/collisionWarnings';
+import { driveSession } from '@/lib/driveSession';
+import type { Tables } from '@/integrations/supabase/types';
+import { useDriveMode } from './useDriveSession';
 
 interface TrackedVehicle {
   id: string;
@@ -20,6 +25,8 @@ interface CollisionWarning {
   vehicleId: string;
   distance: number;
   relativeSpeed: number;
+  timeToCollision: number; // seconds until closest approach
+  closestDistance: number; // predicted separation at closest approach, meters
   severity: 'low' | 'medium' | 'high' | 'critical';
   timestamp: number;
 }
@@ -36,13 +43,18 @@ interface TrafficUpdate {
 interface UseRealtimeTrackingOptions {
   currentLocation: { lat: number; lng: number } | null;
   currentSpeed: number;
+  currentHeading?: number | null; // degrees; derived from successive fixes when not provided
   isActive: boolean;
   onSpeak?: (message: string) => void;
 }
 
+const PREDICTION_HORIZON = 10; // seconds
+const MIN_HEADING_MOVE = 5; // meters between fixes before trusting a derived heading
+
 export function useRealtimeTracking({
   currentLocation,
   currentSpeed,
+  currentHeading,
   isActive,
   onSpeak,
 }: UseRealtimeTrackingOptions) {
@@ -51,23 +63,11 @@ export function useRealtimeTracking({
   const [trafficUpdates, setTrafficUpdates] = useState<TrafficUpdate[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const lastWarningRef = useRef<number>(0);
+  const headingFixRef = useRef<{ lat: number; lng: number } | null>(null);
+  const derivedHeadingRef = useRef<number>(0);
   const audioContextRef = useRef<AudioContext | null>(null);
   const { collisionWarningHaptic } = useHaptics();
-
-  // Calculate distance between two coordinates (Haversine formula)
-  const calculateDistance = useCallback((
-    lat1: number, lng1: number, lat2: number, lng2: number
-  ): number => {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lng2 - lng1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  }, []);
+  const isReplaying = useDriveMode() === 'replay';
 
   // Play collision warning sound - LOUD
   const playWarningSound = useCallback((severity: 'low' | 'medium' | 'high' | 'critical') => {
@@ -136,42 +136,100 @@ export function useRealtimeTracking({
     }
   }, []);
 
-  // Analyze collision risk
+  // Fall back to the course between fixes when no heading is supplied
+  useEffect(() => {
+    if (!currentLocation) return;
+    const prev = headingFixRef.current;
+    if (!prev) {
+      headingFixRef.current = currentLocation;
+      return;
+    }
+    if (distanceMeters(prev, currentLocation) >= MIN_HEADING_MOVE) {
+      derivedHeadingRef.current = bearingBetween(prev, currentLocation);
+      headingFixRef.current = currentLocation;
+    }
+  }, [currentLocation]);
+
+  // Analyze collision risk by projecting both vehicles along their headings
   const analyzeCollisionRisk = useCallback((
     vehicle: TrackedVehicle
   ): CollisionWarning | null => {
-    if (!currentLocation || !vehicle.distance) return null;
-
-    const relativeSpeed = Math.abs(currentSpeed - vehicle.speed);
-    
-    // Time to collision based on distance and relative speed
-    const timeToCollision = vehicle.distance / (relativeSpeed * 1000 / 3600);
-
-    let severity: 'low' | 'medium' | 'high' | 'critical' = 'low';
-    
-    if (vehicle.distance < 10 || timeToCollision < 2) {
-      severity = 'critical';
-    } else if (vehicle.distance < 30 || timeToCollision < 5) {
-      severity = 'high';
-    } else if (vehicle.distance < 50 || timeToCollision < 10) {
-      severity = 'medium';
-    } else if (vehicle.distance < 100) {
-      severity = 'low';
-    } else {
-      return null;
+    if (!currentLocation) return null;
+
+    const warning = assessVehicle(
+      {
+        lat: currentLocation.lat,
+        lng: currentLocation.lng,
+        speed: currentSpeed,
+        heading: currentHeading ?? derivedHeadingRef.current,
+      },
+      vehicle,
+      { horizon: PREDICTION_HORIZON }
+    );
+    if (!warning) return null;
+
+    const now = driveSession.now();
+    return { ...warning, id: `warning-${vehicle.vehicle_id}-${now}`, timestamp: now };
+  }, [currentLocation, currentSpeed, currentHeading]);
+
+  // Rank nearby vehicles and raise warnings; live rows or replayed ones
+  const processVehicles = useCallback((data: Tables<'vehicle_tracking'>[]) => {
+    if (!currentLocation) return;
+
+    // Only vehicles within 500m, nearest first
+    const vehiclesWithDistance = withinRange(currentLocation, data).map(vehicle => ({
+      ...vehicle,
+      relativeSpeed: Math.abs(currentSpeed - vehicle.speed),
+    }) as TrackedVehicle);
+
+    setNearbyVehicles(vehiclesWithDistance);
+
+    // Analyze collision risks
+    const warnings: CollisionWarning[] = [];
+    for (const vehicle of vehiclesWithDistance) {
+      const warning = analyzeCollisionRisk(vehicle);
+      if (warning) {
+        warnings.push(warning);
+      }
     }
 
-    return {
-      id: `warning-${vehicle.vehicle_id}-${Date.now()}`,
-      vehicleId: vehicle.vehicle_id,
-      distance: vehicle.distance,
-      relativeSpeed,
-      severity,
-      timestamp: Date.now(),
-    };
-  }, [currentLocation, currentSpeed]);
+    // Update warnings and trigger alerts for new critical/high warnings
+    const mostCritical = mostUrgentWarning(warnings);
+    if (mostCritical) {
+      const now = driveSession.now();
+      if (now - lastWarningRef.current > 3000) {
+        lastWarningRef.current = now;
+        driveSession.alert({
+          source: 'collision',
+          level: mostCritical.severity,
+          message: `Vehicle ${mostCritical.distance.toFixed(0)}m away, closest approach in ${mostCritical.timeToCollision.toFixed(1)}s`,
+        });
+
+        console.log('[RealtimeTracking] Collision warning:', mostCritical.severity, 'distance:', mostCritical.distance);
+        playWarningSound(mostCritical.severity);
+        collisionWarningHaptic(mostCritical.severity);
+        
+        toast.error(`⚠️ Collision Warning!`, {
+          description: `Vehicle ${mostCritical.distance.toFixed(0)}m away - ${mostCritical.severity.toUpperCase()}`,
+          duration: 5000,
+        });
+
+        if (onSpeak) {
+          const message = mostCritical.severity === 'critical'
+            ? `DANGER! DANGER! Critical collision warning! Vehicle ${Math.round(mostCritical.distance)} meters away! Brake immediately!`
+            : `WARNING! Collision warning. Paths cross in ${Math.max(1, Math.round(mostCritical.timeToCollision))} seconds, vehicle at ${Math.round(mostCritical.distance)} meters. Reduce speed now!`;
+          console.log('[RealtimeTracking] Speaking:', message);
+          onSpeak(message);
+        } else {
+          console.log('[RealtimeTracking] onSpeak not available - isMuted or not provided');
+        }
+      }
+    }
+
+    setCollisionWarnings(warnings);
+  }, [currentLocation, currentSpeed, analyzeCollisionRisk, playWarningSound, collisionWarningHaptic, onSpeak]);
 
-  // Fetch and process nearby vehicles
+  // Fetch nearby vehicles; the rows go into the drive recording as well
   const fetchNearbyVehicles = useCallback(async () => {
     if (!currentLocation || !isActive) return;
 
@@ -183,74 +241,12 @@ export function useRealtimeTracking({
 
       if (error) throw error;
 
-      const vehiclesWithDistance = (data || []).map(vehicle => {
-        const distance = calculateDistance(
-          currentLocation.lat,
-          currentLocation.lng,
-          vehicle.current_lat,
-          vehicle.current_lng
-        );
-        
-        return {
-          ...vehicle,
-          distance,
-          relativeSpeed: Math.abs(currentSpeed - vehicle.speed),
-        } as TrackedVehicle;
-      }).filter(v => v.distance < 500); // Only show vehicles within 500m
-
-      setNearbyVehicles(vehiclesWithDistance.sort((a, b) => 
-        (a.distance || 0) - (b.distance || 0)
-      ));
-
-      // Analyze collision risks
-      const warnings: CollisionWarning[] = [];
-      for (const vehicle of vehiclesWithDistance) {
-        const warning = analyzeCollisionRisk(vehicle);
-        if (warning) {
-          warnings.push(warning);
-        }
-      }
-
-      // Update warnings and trigger alerts for new critical/high warnings
-      if (warnings.length > 0) {
-        const criticalWarnings = warnings.filter(w => 
-          w.severity === 'critical' || w.severity === 'high'
-        );
-        
-        if (criticalWarnings.length > 0 && Date.now() - lastWarningRef.current > 3000) {
-          lastWarningRef.current = Date.now();
-          
-          const mostCritical = criticalWarnings.sort((a, b) => {
-            const order = { critical: 0, high: 1, medium: 2, low: 3 };
-            return order[a.severity] - order[b.severity];
-          })[0];
-
-          console.log('[RealtimeTracking] Collision warning:', mostCritical.severity, 'distance:', mostCritical.distance);
-          playWarningSound(mostCritical.severity);
-          collisionWarningHaptic(mostCritical.severity);
-          
-          toast.error(`⚠️ Collision Warning!`, {
-            description: `Vehicle ${mostCritical.distance.toFixed(0)}m away - ${mostCritical.severity.toUpperCase()}`,
-            duration: 5000,
-          });
-
-          if (onSpeak) {
-            const message = mostCritical.severity === 'critical'
-              ? `DANGER! DANGER! Critical collision warning! Vehicle ${Math.round(mostCritical.distance)} meters ahead! Brake immediately!`
-              : `WARNING! Collision warning. Vehicle approaching at ${Math.round(mostCritical.distance)} meters. Reduce speed now!`;
-            console.log('[RealtimeTracking] Speaking:', message);
-            onSpeak(message);
-          } else {
-            console.log('[RealtimeTracking] onSpeak not available - isMuted or not provided');
-          }
-        }
-      }
-
-      setCollisionWarnings(warnings);
+      driveSession.record({ type: 'vehicles', vehicles: data || [] });
+      processVehicles(data || []);
     } catch (error) {
       console.error('Failed to fetch nearby vehicles:', error);
     }
-  }, [currentLocation, currentSpeed, isActive, calculateDistance, analyzeCollisionRisk, playWarningSound, onSpeak]);
+  }, [currentLocation, isActive, processVehicles]);
 
   // Simulate traffic updates (in production, this would come from a real API)
   const fetchTrafficUpdates = useCallback(async () => {
@@ -273,17 +269,30 @@ export function useRealtimeTracking({
 
     // Only show updates within 5km
     const nearbyUpdates = simulatedUpdates.filter(update => {
-      const distance = calculateDistance(
-        currentLocation.lat,
-        currentLocation.lng,
-        update.location.lat,
-        update.location.lng
-      );
-      return distance < 5000;
+      return distanceMeters(currentLocation, update.location) < 5000;
     });
 
     setTrafficUpdates(nearbyUpdates);
-  }, [currentLocation, isActive, calculateDistance]);
+  }, [currentLocation, isActive]);
+
+  const processVehiclesRef = useRef(processVehicles);
+  processVehiclesRef.current = processVehicles;
+  const fetchTrafficUpdatesRef = useRef(fetchTrafficUpdates);
+  fetchTrafficUpdatesRef.current = fetchTrafficUpdates;
+
+  // A replay feeds the recorded rows instead of querying the server
+  useEffect(() => {
+    if (!isActive || !isReplaying) return;
+    lastWarningRef.current = 0;
+    setIsConnected(true);
+    const unsubscribe = driveSession.on('vehicles', event => processVehiclesRef.current(event.vehicles));
+    const cancelTraffic = driveSession.every(2000, () => fetchTrafficUpdatesRef.current());
+    return () => {
+      unsubscribe();
+      cancelTraffic();
+      setIsConnected(false);
+    };
+  }, [isActive, isReplaying]);
 
   // Subscribe to real-time vehicle updates
   useEffect(() => {
@@ -291,6 +300,7 @@ export function useRealtimeTracking({
       setIsConnected(false);
       return;
     }
+    if (isReplaying) return;
 
     const channel = supabase
       .channel('realtime-vehicle-tracking')
@@ -319,7 +329,7 @@ export function useRealtimeTracking({
       supabase.removeChannel(channel);
       clearInterval(interval);
     };
-  }, [isActive, fetchNearbyVehicles, fetchTrafficUpdates]);
+  }, [isActive, isReplaying, fetchNearbyVehicles, fetchTrafficUpdates]);
 
   return {
     nearbyVehicles,
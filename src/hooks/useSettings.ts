@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 
 export interface AppSettings {
   // Alert Thresholds
@@ -34,10 +34,14 @@ const DEFAULT_SETTINGS: AppSettings = {
 };
 
 const STORAGE_KEY = 'collision-prevention-settings';
+// Keeps every mounted useSettings instance in sync after a save
+const SETTINGS_CHANGED_EVENT = 'collision-prevention-settings-changed';
 
 export function useSettings() {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [isLoaded, setIsLoaded] = useState(false);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
 
   // Load settings from localStorage
   useEffect(() => {
@@ -51,19 +55,26 @@ export function useSettings() {
       console.error('Failed to load settings:', error);
     }
     setIsLoaded(true);
+
+    const handleChange = (event: Event) => setSettings((event as CustomEvent<AppSettings>).detail);
+    window.addEventListener(SETTINGS_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(SETTINGS_CHANGED_EVENT, handleChange);
   }, []);
 
+  const broadcast = (updated: AppSettings) => {
+    window.dispatchEvent(new CustomEvent(SETTINGS_CHANGED_EVENT, { detail: updated }));
+  };
+
   // Save settings to localStorage
   const saveSettings = useCallback((newSettings: Partial<AppSettings>) => {
-    setSettings(prev => {
-      const updated = { ...prev, ...newSettings };
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-      } catch (error) {
-        console.error('Failed to save settings:', error);
-      }
-      return updated;
-    });
+    const updated = { ...settingsRef.current, ...newSettings };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    }
+    setSettings(updated);
+    broadcast(updated);
   }, []);
 
   // Reset to defaults
@@ -74,6 +85,7 @@ export function useSettings() {
     } catch (error) {
       console.error('Failed to reset settings:', error);
     }
+    broadcast(DEFAULT_SETTINGS);
   }, []);
 
   return {
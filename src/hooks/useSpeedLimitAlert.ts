@@ -1,7 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { toast } from 'sonner';
 import { useHaptics } from './useHaptics';
-import { useTelegramAlert } from './useTelegramAlert';
+import { useAlertDispatch } from './useAlertDispatch';
+import { useDriveMode } from './useDriveSession';
+import { driveSession } from '@/lib/driveSession';
 
 interface SpeedLimit {
   limit: number;
@@ -13,7 +15,7 @@ interface SpeedLimitAlertOptions {
   currentLocation: { lat: number; lng: number } | null;
   isActive: boolean;
   onSpeak?: (message: string) => void;
-  enableTelegram?: boolean;
+  enableContactAlerts?: boolean;
 }
 
 // Default speed limits by road type (in km/h)
@@ -33,7 +35,7 @@ export function useSpeedLimitAlert({
   currentLocation,
   isActive,
   onSpeak,
-  enableTelegram = true,
+  enableContactAlerts = true,
 }: SpeedLimitAlertOptions) {
   const [currentSpeedLimit, setCurrentSpeedLimit] = useState<SpeedLimit>({
     limit: 50,
@@ -44,8 +46,9 @@ export function useSpeedLimitAlert({
   const lastAlertRef = useRef<number>(0);
   const audioContextRef = useRef<AudioContext | null>(null);
   const { speedLimitHaptic } = useHaptics();
-  const { sendAlert } = useTelegramAlert();
-  const telegramCooldownRef = useRef<number>(0);
+  const { sendAlert } = useAlertDispatch();
+  const contactAlertCooldownRef = useRef<number>(0);
+  const isReplaying = useDriveMode() === 'replay';
 
   // Get speed limit for current location
   const fetchSpeedLimit = useCallback(async () => {
@@ -81,6 +84,7 @@ export function useSpeedLimitAlert({
             }
           }
 
+          driveSession.record({ type: 'speedLimit', limit, roadType });
           setCurrentSpeedLimit({ limit, roadType });
         }
       }
@@ -136,8 +140,14 @@ export function useSpeedLimitAlert({
     setOverLimitAmount(Math.max(0, speedDiff));
 
     // Trigger alert if over limit (throttled to once every 10 seconds)
-    if (isOver && Date.now() - lastAlertRef.current > 10000) {
-      lastAlertRef.current = Date.now();
+    const now = driveSession.now();
+    if (isOver && now - lastAlertRef.current > 10000) {
+      lastAlertRef.current = now;
+      driveSession.alert({
+        source: 'speed',
+        level: 'warning',
+        message: `${currentSpeed.toFixed(0)} km/h in a ${currentSpeedLimit.limit} km/h zone`,
+      });
 
       // Play audio alert
       playAlertSound();
@@ -156,9 +166,9 @@ export function useSpeedLimitAlert({
         onSpeak(`Warning! You are ${Math.round(speedDiff)} kilometers per hour over the speed limit.`);
       }
 
-      // Telegram alert (throttled to once per 30s to avoid spam)
-      if (enableTelegram && currentLocation && Date.now() - telegramCooldownRef.current > 30000) {
-        telegramCooldownRef.current = Date.now();
+      // Contact alert (throttled to once per 30s to avoid spam); never for a replayed ride
+      if (enableContactAlerts && !isReplaying && currentLocation && now - contactAlertCooldownRef.current > 30000) {
+        contactAlertCooldownRef.current = now;
         sendAlert('speed_alert', {
           currentSpeed: currentSpeed,
           speedLimit: currentSpeedLimit.limit,
@@ -171,10 +181,22 @@ export function useSpeedLimitAlert({
 
   // Fetch speed limit when location changes significantly
   useEffect(() => {
-    if (isActive && currentLocation) {
+    if (isActive && !isReplaying && currentLocation) {
       fetchSpeedLimit();
     }
-  }, [isActive, currentLocation?.lat.toFixed(3), currentLocation?.lng.toFixed(3), fetchSpeedLimit]);
+  }, [isActive, isReplaying, currentLocation?.lat.toFixed(3), currentLocation?.lng.toFixed(3), fetchSpeedLimit]);
+
+  // Cooldowns and the limit start fresh so a replay runs like the recorded ride did
+  useEffect(() => {
+    lastAlertRef.current = 0;
+    if (isReplaying) setCurrentSpeedLimit({ limit: 50, roadType: 'default' });
+  }, [isReplaying]);
+
+  // A replay applies the limits that were looked up on the road
+  useEffect(() => {
+    if (!isActive || !isReplaying) return;
+    return driveSession.on('speedLimit', ({ limit, roadType }) => setCurrentSpeedLimit({ limit, roadType }));
+  }, [isActive, isReplaying]);
 
   return {
     currentSpeedLimit: currentSpeedLimit.limit,
@@ -0,0 +1,297 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Capacitor } from '@capacitor/core';
+import { Preferences } from '@capacitor/preferences';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { createOutbox, EnqueueOptions, OutboxEntry, OutboxKind } from '@/lib/outbox';
+
+// 'queued' while offline; 'failed' when the server turned it down (it may still be retried);
+// 'no_recipients' for an alert that no emergency contact receives
+export type SubmitResult = 'sent' | 'queued' | 'failed' | 'no_recipients';
+
+export interface SyncStatus {
+  pending: number;
+  failed: number;
+  pendingByKind: Record<OutboxKind, number>;
+  isSyncing: boolean;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+  nextAttemptAt: number | null;
+  failedEntries: OutboxEntry[];
+}
+
+type SendFailure = { error: string; retryable: boolean; noRecipients?: boolean };
+
+const STORAGE_KEY = 'sync_outbox';
+
+// One queue shared by every component that writes through it
+const outbox = createOutbox();
+const inFlight = new Set<string>();
+const listeners = new Set<(status: SyncStatus) => void>();
+let isSyncing = false;
+let lastSyncedAt: number | null = null;
+let lastError: string | null = null;
+
+const isNative = () => Capacitor.isNativePlatform();
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const getStatus = (): SyncStatus => {
+  const entries = outbox.getEntries();
+  const pendingByKind: Record<OutboxKind, number> = {
+    trip: 0,
+    collision_event: 0,
+    sos_alert: 0,
+    vehicle_tracking: 0,
+    alert: 0,
+    vehicle_dtc: 0,
+    vehicle_dtc_clear: 0,
+    driving_event: 0,
+  };
+  entries.filter(e => !e.failed).forEach(e => { pendingByKind[e.kind]++; });
+  return {
+    pending: entries.filter(e => !e.failed).length,
+    failed: entries.filter(e => e.failed).length,
+    pendingByKind,
+    isSyncing,
+    lastSyncedAt,
+    lastError,
+    nextAttemptAt: outbox.getNextAttemptAt(),
+    failedEntries: entries.filter(e => e.failed),
+  };
+};
+
+const notify = () => {
+  const status = getStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+const persist = async () => {
+  const value = JSON.stringify(outbox.getEntries());
+  try {
+    if (isNative()) {
+      await Preferences.set({ key: STORAGE_KEY, value });
+    } else {
+      localStorage.setItem(STORAGE_KEY, value);
+    }
+  } catch (error) {
+    console.error('Failed to persist sync outbox:', error);
+  }
+};
+
+const ready = (async () => {
+  try {
+    const value = isNative()
+      ? (await Preferences.get({ key: STORAGE_KEY })).value
+      : localStorage.getItem(STORAGE_KEY);
+    if (value) outbox.load(JSON.parse(value));
+  } catch (error) {
+    console.error('Failed to load sync outbox:', error);
+  }
+})();
+
+// Postgres data, constraint and permission errors will fail the same way again,
+// except a missing trip, which is still queued ahead of the row pointing at it
+const isPermanentDbError = (code?: string) => !!code && code !== '23503' && /^(22|23|42)/.test(code);
+
+const sendEntry = async (entry: OutboxEntry): Promise<SendFailure | null> => {
+  try {
+    switch (entry.kind) {
+      // The idempotency key is the row id, so a replay of a write that landed is a no-op
+      case 'trip': {
+        const { error } = await supabase
+          .from('trip_history')
+          .upsert({ ...entry.payload, id: entry.id } as TablesInsert<'trip_history'>, { onConflict: 'id', ignoreDuplicates: true });
+        return error ? { error: error.message, retryable: !isPermanentDbError(error.code) } : null;
+      }
+      case 'collision_event': {
+        const { error } = await supabase
+          .from('collision_events')
+          .upsert({ ...entry.payload, id: entry.id } as TablesInsert<'collision_events'>, { onConflict: 'id', ignoreDuplicates: true });
+        return error ? { error: error.message, retryable: !isPermanentDbError(error.code) } : null;
+      }
+      case 'sos_alert': {
+        const { error } = await supabase
+          .from('sos_alerts')
+          .upsert({ ...entry.payload, id: entry.id } as TablesInsert<'sos_alerts'>, { onConflict: 'id', ignoreDuplicates: true });
+        return error ? { error: error.message, retryable: !isPermanentDbError(error.code) } : null;
+      }
+      case 'driving_event': {
+        const { error } = await supabase
+          .from('driving_events')
+          .upsert({ ...entry.payload, id: entry.id } as TablesInsert<'driving_events'>, { onConflict: 'id', ignoreDuplicates: true });
+        return error ? { error: error.message, retryable: !isPermanentDbError(error.code) } : null;
+      }
+      case 'vehicle_dtc': {
+        const { error } = await supabase
+          .from('vehicle_dtcs')
+          .upsert({ ...entry.payload, id: entry.id } as TablesInsert<'vehicle_dtcs'>, { onConflict: 'id', ignoreDuplicates: true });
+        return error ? { error: error.message, retryable: !isPermanentDbError(error.code) } : null;
+      }
+      // Codes detected after the clear stay open, however late this replays
+      case 'vehicle_dtc_clear': {
+        const { vin, trip_id, cleared_at } = entry.payload as { vin: string | null; trip_id: string | null; cleared_at: string };
+        const { error } = await supabase
+          .from('vehicle_dtcs')
+          .update({ cleared_at })
+          .eq(vin ? 'vin' : 'trip_id', vin ?? trip_id!)
+          .lte('detected_at', cleared_at)
+          .is('cleared_at', null);
+        return error ? { error: error.message, retryable: !isPermanentDbError(error.code) } : null;
+      }
+      case 'vehicle_tracking': {
+        const { error } = await supabase
+          .from('vehicle_tracking')
+          .upsert(entry.payload as TablesInsert<'vehicle_tracking'>, { onConflict: 'vehicle_id' });
+        return error ? { error: error.message, retryable: !isPermanentDbError(error.code) } : null;
+      }
+      case 'alert': {
+        const { error } = await supabase.functions.invoke('dispatch-alert', {
+          body: { ...entry.payload, idempotencyKey: entry.id },
+        });
+        if (!error) return null;
+        // Client errors other than timeouts and rate limits won't succeed on retry
+        const status: number | undefined = error instanceof FunctionsHttpError ? error.context?.status : undefined;
+        const retryable = !status || status >= 500 || status === 408 || status === 429;
+        if (status === 422) {
+          const body = await error.context.json().catch(() => null);
+          if (body?.reason === 'no_recipients') return { error: body.error, retryable: false, noRecipients: true };
+        }
+        return { error: error.message, retryable };
+      }
+    }
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e), retryable: true };
+  }
+};
+
+// Resolves to why the entry did not go out, or null once it did
+const attempt = async (entry: OutboxEntry): Promise<SendFailure | null> => {
+  if (inFlight.has(entry.id)) return { error: 'Already sending', retryable: true };
+  inFlight.add(entry.id);
+  try {
+    const failure = await sendEntry(entry);
+    if (failure) {
+      outbox.markFailed(entry.id, failure.error, failure.retryable);
+      lastError = failure.error;
+      console.error(`Outbox ${entry.kind} sync failed:`, failure.error);
+      return failure;
+    }
+    outbox.markSent(entry.id);
+    lastSyncedAt = Date.now();
+    lastError = null;
+    return null;
+  } finally {
+    inFlight.delete(entry.id);
+  }
+};
+
+export const flushOutbox = async () => {
+  await ready;
+  if (isSyncing || !isOnline()) return;
+
+  isSyncing = true;
+  notify();
+  try {
+    for (const entry of outbox.due()) {
+      const failure = await attempt(entry);
+      // A failing entry usually means the connection is gone; back off as a whole
+      if (failure && !outbox.getEntries().find(e => e.id === entry.id)?.failed) break;
+    }
+  } finally {
+    isSyncing = false;
+    await persist();
+    notify();
+  }
+};
+
+// Queue a write and try to deliver it right away
+export const submitToOutbox = async (
+  kind: OutboxKind,
+  payload: Record<string, unknown>,
+  options?: EnqueueOptions
+): Promise<SubmitResult> => {
+  await ready;
+  // Stamp the owner now; by the time a queued row replays another account may be signed in
+  const owned = kind === 'alert'
+    ? payload
+    : { user_id: (await supabase.auth.getSession()).data.session?.user.id ?? null, ...payload };
+  const entry = outbox.enqueue(kind, owned, options);
+  await persist();
+  notify();
+
+  if (!isOnline()) return 'queued';
+
+  const failure = await attempt(entry);
+  await persist();
+  notify();
+  if (!failure) {
+    flushOutbox();
+    return 'sent';
+  }
+  if (failure.noRecipients) return 'no_recipients';
+  return isOnline() ? 'failed' : 'queued';
+};
+
+// Apply a change to writes of a kind that are still queued
+export const amendOutbox = async (
+  kind: OutboxKind,
+  update: (payload: Record<string, unknown>) => Record<string, unknown>
+) => {
+  await ready;
+  outbox.amend(kind, update);
+  await persist();
+  notify();
+};
+
+export function useSyncOutbox() {
+  const [status, setStatus] = useState<SyncStatus>(getStatus);
+
+  useEffect(() => {
+    listeners.add(setStatus);
+    ready.then(() => setStatus(getStatus()));
+    return () => {
+      listeners.delete(setStatus);
+    };
+  }, []);
+
+  const retryFailed = useCallback(async () => {
+    outbox.retryFailed();
+    await persist();
+    notify();
+    await flushOutbox();
+  }, []);
+
+  const discardFailed = useCallback(async () => {
+    outbox.discardFailed();
+    await persist();
+    notify();
+  }, []);
+
+  return {
+    ...status,
+    submit: submitToOutbox,
+    syncNow: flushOutbox,
+    retryFailed,
+    discardFailed,
+  };
+}
+
+// Drives the outbox from connectivity; mount once near the app root
+export function useOutboxAutoSync(connected: boolean) {
+  const { pending, nextAttemptAt, isSyncing } = useSyncOutbox();
+
+  useEffect(() => {
+    if (!connected) return;
+    // Reconnected: whatever was waiting out a backoff can go now
+    outbox.expedite();
+    flushOutbox();
+  }, [connected]);
+
+  useEffect(() => {
+    if (!connected || isSyncing || pending === 0 || nextAttemptAt === null) return;
+    const timer = setTimeout(flushOutbox, Math.max(0, nextAttemptAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [connected, isSyncing, pending, nextAttemptAt]);
+}
@@ -0,0 +1,351 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { distanceMeters } from '@/lib/closestApproach';
+import type { HarshSeverity } from '@/lib/drivingBehavior';
+import { createIdempotencyKey } from '@/lib/outbox';
+import { amendOutbox, submitToOutbox, SubmitResult } from './useSyncOutbox';
+import { toast } from 'sonner';
+
+type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+  speed: number; // km/h
+  t: number; // epoch ms
+}
+
+export interface TripStats {
+  distance: number; // km
+  duration: number; // minutes
+  maxSpeed: number; // km/h
+  avgSpeed: number; // km/h
+  collisionCount: number;
+  harshEventCount: number;
+  safetyScore: number;
+}
+
+interface ActiveTrip {
+  id: string | null;
+  vehicleId: string;
+  startTime: number;
+  lastUpdate: number;
+  routePoints: RoutePoint[];
+  lastPoint: RoutePoint | null;
+  distance: number;
+  maxSpeed: number;
+  speedSum: number;
+  speedSamples: number;
+  collisions: Record<Severity, number>;
+  harshEvents: Record<HarshSeverity, number>;
+}
+
+const STORAGE_KEY = 'active_trip';
+const SAMPLE_INTERVAL_MS = 5000;
+const SAMPLE_MIN_DISTANCE_KM = 0.025;
+const MAX_ROUTE_POINTS = 2000;
+const FLUSH_INTERVAL_MS = 30000;
+const MIN_MOVING_SPEED = 3; // km/h, below this samples don't count towards avg speed
+
+const COLLISION_PENALTIES: Record<Severity, number> = {
+  low: 3,
+  medium: 8,
+  high: 15,
+  critical: 25,
+};
+
+const HARSH_EVENT_PENALTIES: Record<HarshSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 4,
+};
+
+// Score starts at 100 and loses points per collision and harsh driving event (by severity) and for excessive top speed
+export const computeSafetyScore = (
+  collisions: Partial<Record<Severity, number>>,
+  maxSpeed: number,
+  harshEvents: Partial<Record<HarshSeverity, number>> = {}
+): number => {
+  let score = 100;
+  (Object.keys(COLLISION_PENALTIES) as Severity[]).forEach(severity => {
+    score -= (collisions[severity] || 0) * COLLISION_PENALTIES[severity];
+  });
+  (Object.keys(HARSH_EVENT_PENALTIES) as HarshSeverity[]).forEach(severity => {
+    score -= (harshEvents[severity] || 0) * HARSH_EVENT_PENALTIES[severity];
+  });
+  if (maxSpeed > 140) score -= 20;
+  else if (maxSpeed > 120) score -= 10;
+  return Math.max(0, Math.min(100, Math.round(score)));
+};
+
+const getStats = (trip: ActiveTrip, now = Date.now()): TripStats => {
+  const collisionCount = Object.values(trip.collisions).reduce((sum, n) => sum + n, 0);
+  // Snapshots persisted before harsh events were tracked lack the field
+  const harshEvents = trip.harshEvents ?? { low: 0, medium: 0, high: 0 };
+  return {
+    distance: trip.distance,
+    duration: (now - trip.startTime) / 60000,
+    maxSpeed: trip.maxSpeed,
+    avgSpeed: trip.speedSamples > 0 ? trip.speedSum / trip.speedSamples : 0,
+    collisionCount,
+    harshEventCount: Object.values(harshEvents).reduce((sum, n) => sum + n, 0),
+    safetyScore: computeSafetyScore(trip.collisions, trip.maxSpeed, harshEvents),
+  };
+};
+
+const toRow = (trip: ActiveTrip) => {
+  const stats = getStats(trip);
+  return {
+    total_distance: Number(stats.distance.toFixed(3)),
+    max_speed: Number(stats.maxSpeed.toFixed(1)),
+    avg_speed: Number(stats.avgSpeed.toFixed(1)),
+    collision_count: stats.collisionCount,
+    harsh_event_count: stats.harshEventCount,
+    safety_score: stats.safetyScore,
+    route_points: trip.routePoints as unknown as Json,
+  };
+};
+
+const persistTrip = (trip: ActiveTrip | null) => {
+  try {
+    if (trip) localStorage.setItem(STORAGE_KEY, JSON.stringify(trip));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to persist active trip:', error);
+  }
+};
+
+const loadPersistedTrip = (): ActiveTrip | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load active trip:', error);
+    return null;
+  }
+};
+
+// The trip being recorded, for code that runs outside the recorder (OBD2 panel)
+export const getActiveTrip = (): { id: string | null; vehicleId: string } | null => {
+  const trip = loadPersistedTrip();
+  return trip ? { id: trip.id, vehicleId: trip.vehicleId } : null;
+};
+
+export function useTripRecorder() {
+  const [tripId, setTripId] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [stats, setStats] = useState<TripStats | null>(null);
+  const tripRef = useRef<ActiveTrip | null>(null);
+  const creatingRef = useRef<Promise<SubmitResult | null> | null>(null);
+  const flushIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // Close a trip row using whatever we know about it
+  const finalizeTrip = useCallback(async (trip: ActiveTrip, endTime: number) => {
+    if (!trip.id) return;
+    const id = trip.id;
+    const end = trip.lastPoint;
+    const row = {
+      ...toRow(trip),
+      end_time: new Date(endTime).toISOString(),
+      end_lat: end?.lat ?? null,
+      end_lng: end?.lng ?? null,
+    };
+    // A row still waiting in the outbox is inserted closed
+    await amendOutbox('trip', payload => (payload.id === id ? { ...payload, ...row } : payload));
+    const { error } = await supabase.from('trip_history').update(row).eq('id', id);
+    if (error) throw error;
+  }, []);
+
+  // Push in-progress stats so the History page shows live trips
+  const flushTrip = useCallback(async () => {
+    const trip = tripRef.current;
+    if (!trip?.id) return;
+    try {
+      const { error } = await supabase.from('trip_history').update(toRow(trip)).eq('id', trip.id);
+      if (error) throw error;
+    } catch (error) {
+      console.error('Failed to flush trip:', error);
+    }
+  }, []);
+
+  // Recover a trip left open by a crash or a killed app
+  useEffect(() => {
+    const orphan = loadPersistedTrip();
+    if (!orphan) return;
+
+    const recover = async () => {
+      try {
+        if (orphan.id) {
+          await finalizeTrip(orphan, orphan.lastUpdate);
+          toast.info('Previous trip recovered', {
+            description: `${orphan.distance.toFixed(2)} km saved to your history`,
+          });
+        }
+        if (loadPersistedTrip()?.startTime === orphan.startTime) persistTrip(null);
+      } catch (error) {
+        console.error('Failed to recover unfinished trip:', error);
+      }
+    };
+    recover();
+  }, [finalizeTrip]);
+
+  useEffect(() => {
+    return () => {
+      if (flushIntervalRef.current) clearInterval(flushIntervalRef.current);
+    };
+  }, []);
+
+  // The row is created lazily on the first fix because start_lat/start_lng are required.
+  // Its id is chosen here and the insert goes through the outbox, so a trip started offline is kept.
+  const createTripRow = useCallback((trip: ActiveTrip, point: RoutePoint) => {
+    const id = createIdempotencyKey();
+    trip.id = id;
+    persistTrip(trip);
+    setTripId(id);
+
+    // Trouble codes read before the first fix were queued without a trip
+    const startedAt = new Date(trip.startTime).toISOString();
+    amendOutbox('vehicle_dtc', payload =>
+      payload.trip_id === null && payload.vehicle_id === trip.vehicleId && String(payload.detected_at) >= startedAt
+        ? { ...payload, trip_id: id }
+        : payload
+    ).catch(error => console.error('Failed to link trouble codes to trip:', error));
+
+    return submitToOutbox('trip', {
+      id,
+      vehicle_id: trip.vehicleId,
+      start_time: startedAt,
+      start_lat: point.lat,
+      start_lng: point.lng,
+      route_points: [point] as unknown as Json,
+    }, { id }).catch(error => {
+      console.error('Failed to create trip:', error);
+      return null;
+    });
+  }, []);
+
+  const startTrip = useCallback((vehicleId: string) => {
+    if (tripRef.current) return;
+
+    const now = Date.now();
+    tripRef.current = {
+      id: null,
+      vehicleId,
+      startTime: now,
+      lastUpdate: now,
+      routePoints: [],
+      lastPoint: null,
+      distance: 0,
+      maxSpeed: 0,
+      speedSum: 0,
+      speedSamples: 0,
+      collisions: { low: 0, medium: 0, high: 0, critical: 0 },
+      harshEvents: { low: 0, medium: 0, high: 0 },
+    };
+    creatingRef.current = null;
+    persistTrip(tripRef.current);
+    setIsRecording(true);
+    setStats(getStats(tripRef.current));
+
+    flushIntervalRef.current = setInterval(flushTrip, FLUSH_INTERVAL_MS);
+  }, [flushTrip]);
+
+  const recordPosition = useCallback((location: { lat: number; lng: number }, speed: number) => {
+    const trip = tripRef.current;
+    if (!trip) return;
+
+    const now = Date.now();
+    const point: RoutePoint = { lat: location.lat, lng: location.lng, speed: Math.max(0, speed), t: now };
+
+    if (trip.lastPoint) {
+      trip.distance += distanceMeters(trip.lastPoint, point) / 1000;
+    }
+    trip.maxSpeed = Math.max(trip.maxSpeed, point.speed);
+    if (point.speed >= MIN_MOVING_SPEED) {
+      trip.speedSum += point.speed;
+      trip.speedSamples += 1;
+    }
+
+    // Sample the route by time and distance to keep route_points compact
+    const lastSample = trip.routePoints[trip.routePoints.length - 1];
+    const shouldSample = !lastSample ||
+      now - lastSample.t >= SAMPLE_INTERVAL_MS ||
+      distanceMeters(lastSample, point) / 1000 >= SAMPLE_MIN_DISTANCE_KM;
+    if (shouldSample && trip.routePoints.length < MAX_ROUTE_POINTS) {
+      trip.routePoints.push(point);
+    }
+
+    trip.lastPoint = point;
+    trip.lastUpdate = now;
+    persistTrip(trip);
+    setStats(getStats(trip));
+
+    if (!trip.id) {
+      creatingRef.current = createTripRow(trip, point);
+    }
+  }, [createTripRow]);
+
+  const recordCollision = useCallback((severity: Severity) => {
+    const trip = tripRef.current;
+    if (!trip) return;
+    trip.collisions[severity] += 1;
+    persistTrip(trip);
+    setStats(getStats(trip));
+  }, []);
+
+  const recordHarshEvent = useCallback((severity: HarshSeverity) => {
+    const trip = tripRef.current;
+    if (!trip) return;
+    trip.harshEvents[severity] += 1;
+    persistTrip(trip);
+    setStats(getStats(trip));
+  }, []);
+
+  const stopTrip = useCallback(async (): Promise<TripStats | null> => {
+    const trip = tripRef.current;
+    if (!trip) return null;
+
+    if (flushIntervalRef.current) {
+      clearInterval(flushIntervalRef.current);
+      flushIntervalRef.current = null;
+    }
+
+    tripRef.current = null;
+    setIsRecording(false);
+    setTripId(null);
+
+    // Let the first insert attempt finish so the update below can find the row
+    if (creatingRef.current) await creatingRef.current;
+    creatingRef.current = null;
+
+    const endTime = Date.now();
+    const finalStats = getStats(trip, endTime);
+    try {
+      await finalizeTrip(trip, endTime);
+      persistTrip(null);
+    } catch (error) {
+      // Leave the snapshot in storage so the next launch can close the row
+      console.error('Failed to finalize trip:', error);
+    }
+    if (!trip.id) persistTrip(null);
+
+    setStats(finalStats);
+    return finalStats;
+  }, [finalizeTrip]);
+
+  // Current trip id for tagging collision events and SOS alerts
+  const getTripId = useCallback(() => tripRef.current?.id ?? null, []);
+
+  return {
+    tripId,
+    isRecording,
+    stats,
+    startTrip,
+    recordPosition,
+    recordCollision,
+    recordHarshEvent,
+    stopTrip,
+    getTripId,
+  };
+}
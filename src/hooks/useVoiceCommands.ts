@@ -33,6 +33,9 @@ export const useVoiceCommands = ({ onCommand, isListening, setIsListening }: Voi
     } else if (transcript.includes('show route') || transcript.includes('show directions')) {
       onCommand('SHOW_ROUTE');
       speak('Showing route.');
+    } else if (transcript.includes('changing lanes') || transcript.includes('change lane') || transcript.includes('lane change')) {
+      onCommand('CHANGE_LANE');
+      speak('Lane change noted.');
     } else if (transcript.includes('clear route') || transcript.includes('cancel navigation')) {
       onCommand('CLEAR_ROUTE');
       speak('Navigation cancelled.');
@@ -14,27 +14,69 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_deliveries: {
+        Row: {
+          alert_type: string
+          delivered_at: string
+          idempotency_key: string
+        }
+        Insert: {
+          alert_type: string
+          delivered_at?: string
+          idempotency_key: string
+        }
+        Update: {
+          alert_type?: string
+          delivered_at?: string
+          idempotency_key?: string
+        }
+        Relationships: []
+      }
       alert_logs: {
         Row: {
           alert_type: string
+          channel: string | null
           collision_event_id: string | null
+          contact_id: string | null
+          error: string | null
           id: string
+          idempotency_key: string | null
           message: string
+          provider_message_id: string | null
+          recipient: string | null
+          status: string
           triggered_at: string
+          user_id: string | null
         }
         Insert: {
           alert_type: string
+          channel?: string | null
           collision_event_id?: string | null
+          contact_id?: string | null
+          error?: string | null
           id?: string
+          idempotency_key?: string | null
           message: string
+          provider_message_id?: string | null
+          recipient?: string | null
+          status?: string
           triggered_at?: string
+          user_id?: string | null
         }
         Update: {
           alert_type?: string
+          channel?: string | null
           collision_event_id?: string | null
+          contact_id?: string | null
+          error?: string | null
           id?: string
+          idempotency_key?: string | null
           message?: string
+          provider_message_id?: string | null
+          recipient?: string | null
+          status?: string
           triggered_at?: string
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -44,6 +86,13 @@ export type Database = {
             referencedRelation: "collision_events"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "alert_logs_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       collision_events: {
@@ -58,6 +107,8 @@ export type Database = {
           relative_speed: number
           severity: string
           timestamp: string
+          trip_id: string | null
+          user_id: string | null
           vehicle_count: number
           weather_condition: string | null
         }
@@ -72,6 +123,8 @@ export type Database = {
           relative_speed: number
           severity: string
           timestamp?: string
+          trip_id?: string | null
+          user_id?: string | null
           vehicle_count?: number
           weather_condition?: string | null
         }
@@ -86,35 +139,155 @@ export type Database = {
           relative_speed?: number
           severity?: string
           timestamp?: string
+          trip_id?: string | null
+          user_id?: string | null
           vehicle_count?: number
           weather_condition?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "collision_events_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trip_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      danger_zones: {
+        Row: {
+          center_lat: number
+          center_lng: number
+          computed_at: string
+          dominant_severity: string
+          id: string
+          incident_count: number
+          last_incident_at: string
+          radius_m: number
+          risk_score: number
+          severity_counts: Json
+        }
+        Insert: {
+          center_lat: number
+          center_lng: number
+          computed_at?: string
+          dominant_severity: string
+          id?: string
+          incident_count: number
+          last_incident_at: string
+          radius_m: number
+          risk_score: number
+          severity_counts?: Json
+        }
+        Update: {
+          center_lat?: number
+          center_lng?: number
+          computed_at?: string
+          dominant_severity?: string
+          id?: string
+          incident_count?: number
+          last_incident_at?: string
+          radius_m?: number
+          risk_score?: number
+          severity_counts?: Json
+        }
         Relationships: []
       }
+      driving_events: {
+        Row: {
+          duration_ms: number
+          event_type: string
+          id: string
+          location_lat: number | null
+          location_lng: number | null
+          occurred_at: string
+          peak_g: number
+          severity: string
+          speed: number
+          trip_id: string | null
+          user_id: string | null
+          vehicle_id: string
+        }
+        Insert: {
+          duration_ms: number
+          event_type: string
+          id?: string
+          location_lat?: number | null
+          location_lng?: number | null
+          occurred_at?: string
+          peak_g: number
+          severity: string
+          speed: number
+          trip_id?: string | null
+          user_id?: string | null
+          vehicle_id: string
+        }
+        Update: {
+          duration_ms?: number
+          event_type?: string
+          id?: string
+          location_lat?: number | null
+          location_lng?: number | null
+          occurred_at?: string
+          peak_g?: number
+          severity?: string
+          speed?: number
+          trip_id?: string | null
+          user_id?: string | null
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "driving_events_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trip_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       emergency_contacts: {
         Row: {
+          alert_types: string[]
+          channels: string[]
           created_at: string
           email: string | null
           id: string
           is_primary: boolean
+          locale: string
           name: string
           phone: string
+          telegram_chat_id: string | null
+          user_id: string | null
+          webhook_url: string | null
         }
         Insert: {
+          alert_types?: string[]
+          channels?: string[]
           created_at?: string
           email?: string | null
           id?: string
           is_primary?: boolean
+          locale?: string
           name: string
           phone: string
+          telegram_chat_id?: string | null
+          user_id?: string | null
+          webhook_url?: string | null
         }
         Update: {
+          alert_types?: string[]
+          channels?: string[]
           created_at?: string
           email?: string | null
           id?: string
           is_primary?: boolean
+          locale?: string
           name?: string
           phone?: string
+          telegram_chat_id?: string | null
+          user_id?: string | null
+          webhook_url?: string | null
         }
         Relationships: []
       }
@@ -127,6 +300,7 @@ export type Database = {
           status: string
           triggered_at: string
           trip_id: string | null
+          user_id: string | null
         }
         Insert: {
           id?: string
@@ -136,6 +310,7 @@ export type Database = {
           status?: string
           triggered_at?: string
           trip_id?: string | null
+          user_id?: string | null
         }
         Update: {
           id?: string
@@ -145,6 +320,7 @@ export type Database = {
           status?: string
           triggered_at?: string
           trip_id?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -164,6 +340,7 @@ export type Database = {
           end_lat: number | null
           end_lng: number | null
           end_time: string | null
+          harsh_event_count: number
           id: string
           max_speed: number
           route_points: Json | null
@@ -172,6 +349,7 @@ export type Database = {
           start_lng: number
           start_time: string
           total_distance: number
+          user_id: string | null
           vehicle_id: string
         }
         Insert: {
@@ -181,6 +359,7 @@ export type Database = {
           end_lat?: number | null
           end_lng?: number | null
           end_time?: string | null
+          harsh_event_count?: number
           id?: string
           max_speed?: number
           route_points?: Json | null
@@ -189,6 +368,7 @@ export type Database = {
           start_lng: number
           start_time?: string
           total_distance?: number
+          user_id?: string | null
           vehicle_id: string
         }
         Update: {
@@ -198,6 +378,7 @@ export type Database = {
           end_lat?: number | null
           end_lng?: number | null
           end_time?: string | null
+          harsh_event_count?: number
           id?: string
           max_speed?: number
           route_points?: Json | null
@@ -206,10 +387,61 @@ export type Database = {
           start_lng?: number
           start_time?: string
           total_distance?: number
+          user_id?: string | null
           vehicle_id?: string
         }
         Relationships: []
       }
+      vehicle_dtcs: {
+        Row: {
+          cleared_at: string | null
+          code: string
+          description: string
+          detected_at: string
+          freeze_frame: Json | null
+          id: string
+          kind: string
+          trip_id: string | null
+          user_id: string | null
+          vehicle_id: string
+          vin: string | null
+        }
+        Insert: {
+          cleared_at?: string | null
+          code: string
+          description: string
+          detected_at?: string
+          freeze_frame?: Json | null
+          id?: string
+          kind: string
+          trip_id?: string | null
+          user_id?: string | null
+          vehicle_id: string
+          vin?: string | null
+        }
+        Update: {
+          cleared_at?: string | null
+          code?: string
+          description?: string
+          detected_at?: string
+          freeze_frame?: Json | null
+          id?: string
+          kind?: string
+          trip_id?: string | null
+          user_id?: string | null
+          vehicle_id?: string
+          vin?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_dtcs_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trip_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       vehicle_tracking: {
         Row: {
           created_at: string
@@ -220,6 +452,7 @@ export type Database = {
           last_update: string
           speed: number
           status: string
+          user_id: string | null
           vehicle_id: string
         }
         Insert: {
@@ -231,6 +464,7 @@ export type Database = {
           last_update?: string
           speed?: number
           status?: string
+          user_id?: string | null
           vehicle_id: string
         }
         Update: {
@@ -242,13 +476,27 @@ export type Database = {
           last_update?: string
           speed?: number
           status?: string
+          user_id?: string | null
           vehicle_id?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      public_collision_events: {
+        Row: {
+          distance: number | null
+          id: string | null
+          location_lat: number | null
+          location_lng: number | null
+          relative_speed: number | null
+          severity: string | null
+          timestamp: string | null
+          vehicle_count: number | null
+          weather_condition: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
       [_ in never]: never
@@ -0,0 +1,79 @@
+// Cache-first Leaflet tile layer.
+// Fresh tiles come straight from IndexedDB; missing or expired tiles are
+// fetched and written back. When the network fails an expired tile is still
+// better than a blank square, so it is served anyway.
+
+import L from 'leaflet';
+import { evictToLimit, getTile, putTile, tileKey, TILE_SOURCES, TileCacheConfig, TileSourceId } from './tileCache';
+
+// Eviction scans the whole store, so batch it after a burst of tile writes
+const EVICT_DELAY_MS = 5000;
+
+export function createCachedTileLayer(
+  source: TileSourceId,
+  getConfig: () => TileCacheConfig,
+  options: L.TileLayerOptions = {}
+): L.TileLayer {
+  let evictTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleEviction = () => {
+    if (evictTimer) clearTimeout(evictTimer);
+    evictTimer = setTimeout(() => {
+      evictTimer = null;
+      evictToLimit(getConfig().maxBytes).catch(error => console.error('Tile eviction failed:', error));
+    }, EVICT_DELAY_MS);
+  };
+
+  const loadTile = async (url: string, key: string): Promise<Blob> => {
+    const config = getConfig();
+    const cached = await getTile(key).catch(() => null);
+    if (cached && (Date.now() - cached.fetchedAt < config.maxAgeMs || !navigator.onLine)) {
+      return cached.blob;
+    }
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Tile request failed: ${response.status}`);
+      const blob = await response.blob();
+      if (config.enabled) {
+        putTile(key, blob)
+          .then(scheduleEviction)
+          .catch(error => console.error('Failed to cache tile:', error));
+      }
+      return blob;
+    } catch (error) {
+      if (cached) return cached.blob;
+      throw error;
+    }
+  };
+
+  const CachedTileLayer = L.TileLayer.extend({
+    createTile(this: L.TileLayer, coords: L.Coords, done: L.DoneCallback) {
+      const tile = document.createElement('img');
+      tile.alt = '';
+      tile.setAttribute('role', 'presentation');
+
+      loadTile(this.getTileUrl(coords), tileKey(source, coords.z, coords.x, coords.y))
+        .then(blob => {
+          const objectUrl = URL.createObjectURL(blob);
+          tile.onload = () => {
+            URL.revokeObjectURL(objectUrl);
+            done(undefined, tile);
+          };
+          tile.onerror = () => {
+            URL.revokeObjectURL(objectUrl);
+            done(new Error('Tile image could not be decoded'), tile);
+          };
+          tile.src = objectUrl;
+        })
+        .catch(error => done(error, tile));
+
+      return tile;
+    },
+  }) as new (urlTemplate: string, options?: L.TileLayerOptions) => L.TileLayer;
+
+  return new CachedTileLayer(TILE_SOURCES[source].url, {
+    attribution: TILE_SOURCES[source].attribution,
+    ...options,
+  });
+}
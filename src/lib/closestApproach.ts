@@ -0,0 +1,105 @@
+// Closest-point-of-approach (CPA) model for two vehicles moving at constant
+// speed and heading. Positions are projected onto a local east/north plane
+// around the own vehicle, which is accurate enough at the few hundred meters
+// the collision checks look at.
+
+export interface MovingVehicle {
+  lat: number;
+  lng: number;
+  speed: number; // km/h
+  heading: number; // degrees clockwise from north
+}
+
+export interface ClosestApproach {
+  distance: number; // current separation, meters
+  timeToClosest: number; // seconds until CPA, 0 if already diverging
+  closestDistance: number; // separation at CPA, meters
+  relativeSpeed: number; // magnitude of relative velocity, km/h
+  closingSpeed: number; // rate the gap shrinks right now, km/h (negative = opening)
+}
+
+export type EncounterSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface EncounterOptions {
+  horizon?: number; // seconds to look ahead
+  conflictRadius?: number; // meters; paths closer than this at CPA are a conflict
+  nearMissRadius?: number; // meters; CPA inside this but outside conflict is a low warning
+}
+
+const EARTH_RADIUS = 6371000;
+const KMH_TO_MS = 1000 / 3600;
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+// Equirectangular projection of `point` relative to `origin`, in meters (x east, y north)
+export const toLocalXY = (origin: { lat: number; lng: number }, point: { lat: number; lng: number }) => ({
+  x: toRad(point.lng - origin.lng) * EARTH_RADIUS * Math.cos(toRad((origin.lat + point.lat) / 2)),
+  y: toRad(point.lat - origin.lat) * EARTH_RADIUS,
+});
+
+// Velocity in m/s on the local plane
+export const velocityFromHeading = (speedKmh: number, headingDeg: number) => {
+  const speed = Math.max(0, speedKmh) * KMH_TO_MS;
+  return {
+    x: speed * Math.sin(toRad(headingDeg)),
+    y: speed * Math.cos(toRad(headingDeg)),
+  };
+};
+
+// Great-circle (haversine) distance in meters
+export const distanceMeters = (a: { lat: number; lng: number }, b: { lat: number; lng: number }): number => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+// Initial bearing from a to b in degrees clockwise from north
+export const bearingBetween = (a: { lat: number; lng: number }, b: { lat: number; lng: number }): number => {
+  const dLng = toRad(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(b.lat));
+  const x = Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) -
+    Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(dLng);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+export const computeClosestApproach = (own: MovingVehicle, other: MovingVehicle): ClosestApproach => {
+  const r = toLocalXY(own, other);
+  const ownV = velocityFromHeading(own.speed, own.heading);
+  const otherV = velocityFromHeading(other.speed, other.heading);
+  const v = { x: otherV.x - ownV.x, y: otherV.y - ownV.y };
+
+  const distance = Math.hypot(r.x, r.y);
+  const vSq = v.x * v.x + v.y * v.y;
+  const rDotV = r.x * v.x + r.y * v.y;
+
+  // t* = -(r·v)/|v|², clamped to now when the vehicles are separating
+  const timeToClosest = vSq > 1e-6 ? Math.max(0, -rDotV / vSq) : 0;
+  const closestDistance = Math.hypot(r.x + v.x * timeToClosest, r.y + v.y * timeToClosest);
+  const closingSpeed = distance > 0 ? -rDotV / distance : 0;
+
+  return {
+    distance,
+    timeToClosest,
+    closestDistance,
+    relativeSpeed: Math.sqrt(vSq) / KMH_TO_MS,
+    closingSpeed: closingSpeed / KMH_TO_MS,
+  };
+};
+
+// Grade an encounter; null when the predicted paths don't meet within the horizon
+export const classifyEncounter = (
+  cpa: ClosestApproach,
+  { horizon = 10, conflictRadius = 3, nearMissRadius = 8 }: EncounterOptions = {}
+): EncounterSeverity | null => {
+  if (cpa.distance <= conflictRadius) return 'critical';
+  if (cpa.timeToClosest <= 0 || cpa.timeToClosest > horizon) return null;
+
+  if (cpa.closestDistance <= conflictRadius) {
+    if (cpa.timeToClosest < 2) return 'critical';
+    if (cpa.timeToClosest < 5) return 'high';
+    return 'medium';
+  }
+  if (cpa.closestDistance <= nearMissRadius) return 'low';
+  return null;
+};
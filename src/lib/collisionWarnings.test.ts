@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { classifyEncounter, computeClosestApproach, distanceMeters } from './closestApproach';
+import { assessVehicle, assessVehicles, mostUrgentWarning, nearbyVehicles } from './collisionWarnings';
+import { encounters, offset, ORIGIN } from '@/test/scenarios';
+
+describe('classifyEncounter', () => {
+  const cpa = (distance: number, timeToClosest: number, closestDistance: number) => ({
+    distance,
+    timeToClosest,
+    closestDistance,
+    relativeSpeed: 0,
+    closingSpeed: 0,
+  });
+
+  it('grades a conflict by time to closest approach', () => {
+    expect(classifyEncounter(cpa(30, 1.9, 2))).toBe('critical');
+    expect(classifyEncounter(cpa(30, 2, 2))).toBe('high');
+    expect(classifyEncounter(cpa(30, 4.9, 3))).toBe('high');
+    expect(classifyEncounter(cpa(30, 5, 3))).toBe('medium');
+    expect(classifyEncounter(cpa(30, 10, 3))).toBe('medium');
+  });
+
+  it('treats a pass inside the near-miss radius as low', () => {
+    expect(classifyEncounter(cpa(30, 3, 3.1))).toBe('low');
+    expect(classifyEncounter(cpa(30, 3, 8))).toBe('low');
+    expect(classifyEncounter(cpa(30, 3, 8.1))).toBeNull();
+  });
+
+  it('ignores encounters beyond the horizon or already behind us', () => {
+    expect(classifyEncounter(cpa(30, 10.1, 0))).toBeNull();
+    expect(classifyEncounter(cpa(30, 0, 30))).toBeNull();
+  });
+
+  it('is critical whenever a vehicle is already within the conflict radius', () => {
+    expect(classifyEncounter(cpa(2.5, 0, 2.5))).toBe('critical');
+  });
+});
+
+describe('assessVehicle', () => {
+  it('warns critically for a head-on approach', () => {
+    const { own, other } = encounters.headOn;
+    const warning = assessVehicle(own, other);
+
+    expect(warning?.severity).toBe('critical');
+    expect(warning?.distance).toBeCloseTo(40, 0);
+    expect(warning?.timeToCollision).toBeCloseTo(1.44, 1);
+    expect(warning?.relativeSpeed).toBeCloseTo(100, 0);
+  });
+
+  it('warns high when closing on a slower car ahead', () => {
+    const { own, other } = encounters.rearEnd;
+    const warning = assessVehicle(own, other);
+
+    expect(warning?.severity).toBe('high');
+    expect(warning?.timeToCollision).toBeCloseTo(4.32, 1);
+    expect(warning?.closestDistance).toBeLessThan(1);
+  });
+
+  it('only warns for a slow rear-end closure inside the horizon', () => {
+    const { own, other } = encounters.rearEndDistant;
+
+    expect(assessVehicle(own, other)).toBeNull();
+    expect(assessVehicle(own, other, { horizon: 30 })?.severity).toBe('medium');
+  });
+
+  it('stays quiet for traffic on a parallel road', () => {
+    expect(assessVehicle(encounters.parallelOncoming.own, encounters.parallelOncoming.other)).toBeNull();
+    expect(assessVehicle(encounters.parallelSameWay.own, encounters.parallelSameWay.other)).toBeNull();
+
+    const { own, other } = encounters.parallelOncoming;
+    expect(computeClosestApproach(own, { lat: other.current_lat, lng: other.current_lng, speed: other.speed, heading: other.heading }).closestDistance)
+      .toBeCloseTo(25, 0);
+  });
+
+  it('skips our own row in the tracking table', () => {
+    expect(assessVehicle(encounters.self.own, encounters.self.other)).toBeNull();
+  });
+});
+
+describe('nearbyVehicles', () => {
+  it('keeps vehicles within the radius, nearest first', () => {
+    const far = { vehicle_id: 'far', current_lat: offset(600, 0).lat, current_lng: ORIGIN.lng, speed: 0, heading: 0 };
+    const nearby = nearbyVehicles(ORIGIN, [encounters.rearEnd.other, far, encounters.headOn.other]);
+
+    expect(nearby.map(v => v.vehicle_id)).toEqual(['oncoming', 'lead']);
+    expect(nearby[0].distance).toBeCloseTo(40, 0);
+    expect(nearbyVehicles(ORIGIN, [far], 1000)).toHaveLength(1);
+  });
+
+  it('measures great-circle distance in meters', () => {
+    expect(distanceMeters(ORIGIN, offset(1000, 0))).toBeCloseTo(1000, -1);
+    expect(distanceMeters(ORIGIN, offset(0, 1000))).toBeCloseTo(1000, -1);
+  });
+});
+
+describe('mostUrgentWarning', () => {
+  it('picks the most severe high or critical warning', () => {
+    const { own } = encounters.rearEnd;
+    const warnings = assessVehicles(own, [
+      encounters.parallelOncoming.other,
+      encounters.rearEnd.other,
+      encounters.headOn.other,
+    ]);
+
+    expect(warnings.map(w => w.vehicleId)).toEqual(['oncoming', 'lead']);
+    expect(mostUrgentWarning(warnings)?.vehicleId).toBe('oncoming');
+  });
+
+  it('does not interrupt the driver for medium or low warnings', () => {
+    expect(mostUrgentWarning([{ severity: 'medium' }, { severity: 'low' }])).toBeNull();
+    expect(mostUrgentWarning([])).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+// Collision warnings for the tracked vehicles around the driver.
+// Each vehicle within range is projected along its heading against our own
+// motion (closestApproach) and graded; the most urgent warning is the one the
+// driver hears.
+
+import { classifyEncounter, computeClosestApproach, distanceMeters, EncounterSeverity, MovingVehicle } from './closestApproach';
+
+export interface VehiclePosition {
+  vehicle_id: string;
+  current_lat: number;
+  current_lng: number;
+  speed: number; // km/h
+  heading: number; // degrees
+}
+
+export interface VehicleWarning {
+  vehicleId: string;
+  distance: number; // meters now
+  relativeSpeed: number; // km/h
+  timeToCollision: number; // seconds until closest approach
+  closestDistance: number; // meters at closest approach
+  severity: EncounterSeverity;
+}
+
+export interface WarningOptions {
+  horizon?: number; // seconds to look ahead
+  radius?: number; // meters; vehicles farther away are ignored
+}
+
+export const NEARBY_RADIUS_M = 500;
+const SEVERITY_ORDER: Record<EncounterSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// Vehicles within the radius, nearest first
+export const nearbyVehicles = <T extends VehiclePosition>(
+  position: { lat: number; lng: number },
+  vehicles: T[],
+  radius = NEARBY_RADIUS_M
+): (T & { distance: number })[] =>
+  vehicles
+    .map(vehicle => ({ ...vehicle, distance: distanceMeters(position, { lat: vehicle.current_lat, lng: vehicle.current_lng }) }))
+    .filter(vehicle => vehicle.distance < radius)
+    .sort((a, b) => a.distance - b.distance);
+
+export const assessVehicle = (
+  own: MovingVehicle,
+  vehicle: VehiclePosition,
+  { horizon = 10 }: WarningOptions = {}
+): VehicleWarning | null => {
+  const cpa = computeClosestApproach(own, {
+    lat: vehicle.current_lat,
+    lng: vehicle.current_lng,
+    speed: vehicle.speed,
+    heading: vehicle.heading,
+  });
+  // Zero separation is our own row in the tracking table
+  if (cpa.distance === 0) return null;
+
+  const severity = classifyEncounter(cpa, { horizon });
+  if (!severity) return null;
+
+  return {
+    vehicleId: vehicle.vehicle_id,
+    distance: cpa.distance,
+    relativeSpeed: cpa.relativeSpeed,
+    timeToCollision: cpa.timeToClosest,
+    closestDistance: cpa.closestDistance,
+    severity,
+  };
+};
+
+export const assessVehicles = (
+  own: MovingVehicle,
+  vehicles: VehiclePosition[],
+  options: WarningOptions = {}
+): VehicleWarning[] =>
+  nearbyVehicles(own, vehicles, options.radius)
+    .map(vehicle => assessVehicle(own, vehicle, options))
+    .filter((warning): warning is VehicleWarning => warning !== null);
+
+// The high or critical warning worth interrupting the driver for, if any
+export const mostUrgentWarning = <T extends { severity: EncounterSeverity }>(warnings: T[]): T | null => {
+  const urgent = warnings.filter(w => w.severity === 'critical' || w.severity === 'high');
+  if (urgent.length === 0) return null;
+  return urgent.reduce((best, w) => (SEVERITY_ORDER[w.severity] < SEVERITY_ORDER[best.severity] ? w : best));
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createCrashDetector, severityFromG } from './crashDetection';
+import { IMPACT_AT, runCrashDetector, traces } from '@/test/scenarios';
+
+describe('severityFromG', () => {
+  it.each([
+    [2.5, 'low'],
+    [3.49, 'low'],
+    [3.5, 'medium'],
+    [4.99, 'medium'],
+    [5, 'high'],
+    [7.99, 'high'],
+    [8, 'critical'],
+    [15, 'critical'],
+  ] as const)('grades %sG as %s', (g, severity) => {
+    expect(severityFromG(g)).toBe(severity);
+  });
+});
+
+describe('createCrashDetector', () => {
+  it('dismisses a pothole once the car keeps moving through the window', () => {
+    const result = runCrashDetector(createCrashDetector(), traces.pothole);
+
+    expect(result.state).toBe('dismissed');
+    expect(result.reason).toBe('Vehicle kept moving after the spike');
+    expect(result.impactAt).toBe(IMPACT_AT);
+    expect(result.evidence.speedDrop).toBe(false);
+  });
+
+  it('dismisses a phone drop as soon as it lands', () => {
+    const result = runCrashDetector(createCrashDetector(), traces.phoneDrop);
+
+    expect(result.state).toBe('dismissed');
+    expect(result.reason).toBe('Phone drop: free fall before impact');
+    expect(result.evidence.freeFall).toBe(true);
+    expect(result.impactAt).toBe(IMPACT_AT);
+  });
+
+  it('confirms a crash when the car stops after a strong impact', () => {
+    const result = runCrashDetector(createCrashDetector(), traces.crash);
+
+    expect(result.state).toBe('confirmed');
+    expect(result.severity).toBe('critical');
+    expect(result.preImpactSpeed).toBe(60);
+    expect(result.evidence.speedDrop).toBe(true);
+    expect(result.impactG).toBeGreaterThanOrEqual(9);
+    expect(result.reason).toMatch(/^9\.\dG impact with sudden stop/);
+  });
+
+  it('confirms a parked car knocked onto its side', () => {
+    const result = runCrashDetector(createCrashDetector(), traces.rollover);
+
+    expect(result.state).toBe('confirmed');
+    expect(result.evidence.rollover).toBe(true);
+    expect(result.severity).toBe('high');
+    expect(result.reason).toBe('5.0G impact with rollover');
+  });
+
+  it('waits for stillness or rollover after a moderate impact', () => {
+    const detector = createCrashDetector();
+    detector.addSpeed(60, 0);
+    detector.addSpeed(60, 1000);
+    const sample = (t: number, z: number) => ({
+      t,
+      acceleration: { x: 0, y: 0, z },
+      accelerationIncludingGravity: { x: 0, y: 0, z: z + 9.81 },
+    });
+
+    // 4G is below the strong-impact bar, so a stop alone is not enough
+    expect(detector.addMotion(sample(1500, 4 * 9.81)).state).toBe('evaluating');
+    expect(detector.addSpeed(0, 2000).state).toBe('evaluating');
+
+    let result = detector.update(2000);
+    for (let t = 2020; t <= 6000 && result.state === 'evaluating'; t += 20) {
+      result = detector.addMotion(sample(t, 0));
+    }
+    expect(result.state).toBe('confirmed');
+    expect(result.evidence.stillness).toBe(true);
+    expect(result.severity).toBe('medium');
+  });
+
+  it('never starts evaluating on a hard brake', () => {
+    const result = runCrashDetector(createCrashDetector(), traces.hardBrake);
+
+    expect(result.state).toBe('monitoring');
+    expect(result.impactAt).toBeNull();
+  });
+});
@@ -0,0 +1,236 @@
+// Crash detection state machine.
+// A single acceleration spike is only a candidate: after it we watch for the
+// vehicle speed dropping to zero, the phone's gravity vector swinging over
+// (rollover) and the car coming to rest. A spike preceded by free fall is a
+// dropped phone, not a crash.
+
+export type Vec3 = { x: number; y: number; z: number };
+
+export interface MotionSample {
+  t: number; // epoch ms
+  acceleration: Vec3; // m/s², gravity removed
+  accelerationIncludingGravity: Vec3; // m/s²
+}
+
+export type CrashState = 'monitoring' | 'evaluating' | 'confirmed' | 'dismissed';
+export type CrashSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface CrashEvidence {
+  speedDrop: boolean;
+  rollover: boolean;
+  stillness: boolean;
+  freeFall: boolean;
+}
+
+export interface CrashAssessment {
+  state: CrashState;
+  impactG: number;
+  impactAt: number | null;
+  severity: CrashSeverity | null;
+  evidence: CrashEvidence;
+  preImpactSpeed: number; // km/h
+  reason: string;
+}
+
+export interface CrashDetectorOptions {
+  impactThreshold?: number; // G
+  evaluationWindowMs?: number; // how long after the spike evidence is collected
+  movingSpeed?: number; // km/h; above this before impact the car counts as moving
+  stoppedSpeed?: number; // km/h; below this after impact the car counts as stopped
+  rolloverAngle?: number; // degrees the gravity vector must rotate
+  stillnessMs?: number; // duration of rest required after the impact
+  stillnessLimit?: number; // m/s² of linear acceleration treated as rest
+}
+
+const G = 9.81;
+const HISTORY_MS = 5000;
+const FREE_FALL_G = 0.3;
+const FREE_FALL_MIN_MS = 120;
+const SETTLE_MS = 1000; // ignore the impact ringing when checking rest and attitude
+
+const magnitude = (v: Vec3) => Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+
+const angleBetween = (a: Vec3, b: Vec3): number => {
+  const ma = magnitude(a);
+  const mb = magnitude(b);
+  if (ma === 0 || mb === 0) return 0;
+  const cos = (a.x * b.x + a.y * b.y + a.z * b.z) / (ma * mb);
+  return Math.acos(Math.max(-1, Math.min(1, cos))) * 180 / Math.PI;
+};
+
+const average = (vs: Vec3[]): Vec3 => {
+  const n = vs.length || 1;
+  return vs.reduce((acc, v) => ({ x: acc.x + v.x / n, y: acc.y + v.y / n, z: acc.z + v.z / n }), { x: 0, y: 0, z: 0 });
+};
+
+export const severityFromG = (g: number): CrashSeverity => {
+  if (g >= 8) return 'critical';
+  if (g >= 5) return 'high';
+  if (g >= 3.5) return 'medium';
+  return 'low';
+};
+
+const NO_EVIDENCE: CrashEvidence = { speedDrop: false, rollover: false, stillness: false, freeFall: false };
+
+export function createCrashDetector({
+  impactThreshold = 2.5,
+  evaluationWindowMs = 8000,
+  movingSpeed = 15,
+  stoppedSpeed = 5,
+  rolloverAngle = 60,
+  stillnessMs = 3000,
+  stillnessLimit = 0.6,
+}: CrashDetectorOptions = {}) {
+  let samples: MotionSample[] = [];
+  let speeds: { t: number; speed: number }[] = [];
+  let state: CrashState = 'monitoring';
+  let impactAt: number | null = null;
+  let impactG = 0;
+  let preImpactSpeed = 0;
+  let preImpactGravity: Vec3 | null = null;
+  let evidence: CrashEvidence = { ...NO_EVIDENCE };
+  let reason = '';
+
+  const assessment = (): CrashAssessment => ({
+    state,
+    impactG,
+    impactAt,
+    severity: impactAt !== null ? severityFromG(impactG) : null,
+    evidence: { ...evidence },
+    preImpactSpeed,
+    reason,
+  });
+
+  const trim = (now: number) => {
+    const cutoff = now - HISTORY_MS - evaluationWindowMs;
+    samples = samples.filter(s => s.t >= cutoff);
+    speeds = speeds.filter(s => s.t >= cutoff);
+  };
+
+  // Free fall right before the spike means the phone was dropped
+  const detectFreeFall = (before: number): boolean => {
+    let fallStart: number | null = null;
+    for (const s of samples) {
+      if (s.t < before - 1000 || s.t > before) continue;
+      if (magnitude(s.accelerationIncludingGravity) / G < FREE_FALL_G) {
+        if (fallStart === null) fallStart = s.t;
+        if (s.t - fallStart >= FREE_FALL_MIN_MS) return true;
+      } else {
+        fallStart = null;
+      }
+    }
+    return false;
+  };
+
+  const beginEvaluation = (sample: MotionSample, g: number) => {
+    state = 'evaluating';
+    impactAt = sample.t;
+    impactG = g;
+    reason = '';
+    evidence = { ...NO_EVIDENCE, freeFall: detectFreeFall(sample.t) };
+
+    const before = speeds.filter(s => s.t >= sample.t - HISTORY_MS && s.t < sample.t);
+    preImpactSpeed = before.reduce((max, s) => Math.max(max, s.speed), 0);
+
+    const attitude = samples.filter(s => s.t >= sample.t - 2000 && s.t < sample.t - 200);
+    preImpactGravity = attitude.length > 0 ? average(attitude.map(s => s.accelerationIncludingGravity)) : null;
+  };
+
+  const collectEvidence = (now: number) => {
+    if (impactAt === null) return;
+
+    const after = speeds.filter(s => s.t > impactAt);
+    if (preImpactSpeed >= movingSpeed && after.length > 0 && after[after.length - 1].speed <= stoppedSpeed) {
+      evidence.speedDrop = true;
+    }
+
+    const settled = samples.filter(s => s.t >= impactAt + SETTLE_MS);
+    if (preImpactGravity && settled.length > 0) {
+      const recent = settled.slice(-10).map(s => s.accelerationIncludingGravity);
+      if (angleBetween(preImpactGravity, average(recent)) >= rolloverAngle) evidence.rollover = true;
+    }
+
+    // Rest: linear acceleration stays low over the trailing stillness window
+    if (now - (impactAt + SETTLE_MS) >= stillnessMs) {
+      const window = settled.filter(s => s.t >= now - stillnessMs);
+      evidence.stillness = window.length > 0 && window.every(s => magnitude(s.acceleration) <= stillnessLimit);
+    }
+  };
+
+  const decide = (now: number) => {
+    if (impactAt === null) return;
+
+    if (evidence.freeFall) {
+      state = 'dismissed';
+      reason = 'Phone drop: free fall before impact';
+      return;
+    }
+
+    const wasMoving = preImpactSpeed >= movingSpeed;
+    const strongImpact = impactG >= 6;
+    const confirmed = wasMoving
+      ? evidence.speedDrop && (evidence.stillness || evidence.rollover || strongImpact)
+      // Hit while stationary: no speed change to observe, rely on the impact and aftermath
+      : impactG >= 4 && (evidence.rollover || (evidence.stillness && strongImpact));
+
+    if (confirmed) {
+      state = 'confirmed';
+      const parts = [
+        evidence.speedDrop && 'sudden stop',
+        evidence.rollover && 'rollover',
+        evidence.stillness && 'no movement after impact',
+      ].filter(Boolean);
+      reason = `${impactG.toFixed(1)}G impact${parts.length ? ` with ${parts.join(', ')}` : ''}`;
+      return;
+    }
+
+    if (now - impactAt >= evaluationWindowMs) {
+      state = 'dismissed';
+      reason = wasMoving && !evidence.speedDrop ? 'Vehicle kept moving after the spike' : 'Not enough crash evidence';
+    }
+  };
+
+  const addMotion = (sample: MotionSample): CrashAssessment => {
+    samples.push(sample);
+    trim(sample.t);
+
+    const g = magnitude(sample.acceleration) / G;
+    if (state === 'monitoring' || state === 'dismissed') {
+      if (g >= impactThreshold) beginEvaluation(sample, g);
+      else if (state === 'dismissed') state = 'monitoring';
+    } else if (state === 'evaluating' && g > impactG && impactAt !== null && sample.t - impactAt < 500) {
+      // Keep the peak of the same impact
+      impactG = g;
+    }
+
+    return update(sample.t);
+  };
+
+  const addSpeed = (speed: number, t: number): CrashAssessment => {
+    speeds.push({ t, speed: Math.max(0, speed) });
+    trim(t);
+    return update(t);
+  };
+
+  const update = (now: number): CrashAssessment => {
+    if (state === 'evaluating') {
+      collectEvidence(now);
+      decide(now);
+    }
+    return assessment();
+  };
+
+  const reset = () => {
+    state = 'monitoring';
+    impactAt = null;
+    impactG = 0;
+    preImpactSpeed = 0;
+    preImpactGravity = null;
+    evidence = { ...NO_EVIDENCE };
+    reason = '';
+  };
+
+  return { addMotion, addSpeed, update, reset };
+}
+
+export type CrashDetector = ReturnType<typeof createCrashDetector>;
@@ -0,0 +1,31 @@
+// Clustered danger zones as the app uses them: the danger_zones rows written
+// by the cluster-danger-zones edge function, with numeric columns parsed and
+// names in camelCase. Also the shape offline routing scores against.
+
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ZoneSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface DangerZone {
+  id: string;
+  lat: number;
+  lng: number;
+  radius: number; // meters
+  riskScore: number;
+  incidentCount: number;
+  severityCounts: Record<ZoneSeverity, number>;
+  dominantSeverity: ZoneSeverity;
+  lastIncidentAt: string;
+}
+
+export const toDangerZone = (z: Tables<'danger_zones'>): DangerZone => ({
+  id: z.id,
+  lat: Number(z.center_lat),
+  lng: Number(z.center_lng),
+  radius: Number(z.radius_m),
+  riskScore: Number(z.risk_score),
+  incidentCount: z.incident_count,
+  severityCounts: z.severity_counts as Record<ZoneSeverity, number>,
+  dominantSeverity: z.dominant_severity as ZoneSeverity,
+  lastIncidentAt: z.last_incident_at,
+});
@@ -0,0 +1,407 @@
+// Drive recording and deterministic replay.
+// While recording, the sensor hooks append their raw inputs (GPS fixes, motion
+// samples, OBD2 readings, camera detections, server lookups) and the alerts
+// they raise to a timestamped event log. In replay the same hooks subscribe to
+// the log instead of the live APIs and read time from the session clock, which
+// only advances from event to event, so a ride plays back the same way at any
+// speed and its alerts can be compared with the ones raised on the road.
+
+import type { MotionData } from './motionSource';
+import type { Tables } from '@/integrations/supabase/types';
+import type { LaneState } from './laneDetection';
+import type { ObdReading } from './obd2';
+import type { BBox } from './objectTracker';
+
+export type DriveMode = 'live' | 'recording' | 'replay';
+
+export interface GpsSample {
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  altitude: number | null;
+  altitudeAccuracy: number | null;
+  heading: number | null;
+  speed: number | null; // m/s
+  timestamp: number | null;
+}
+
+export interface CameraFrame {
+  predictions: { bbox: BBox; class: string; score: number }[];
+  lanes: LaneState;
+}
+
+export type AlertSource = 'collision' | 'speed' | 'impact' | 'camera' | 'lane';
+
+export interface DriveAlert {
+  t: number; // ms since the start of the recording
+  source: AlertSource;
+  level: string;
+  message: string;
+}
+
+export type DriveEvent =
+  | { t: number; type: 'gps'; fix: GpsSample }
+  | { t: number; type: 'motion'; sample: MotionData }
+  | { t: number; type: 'obd'; data: ObdReading }
+  | { t: number; type: 'camera'; frame: CameraFrame }
+  | { t: number; type: 'vehicles'; vehicles: Tables<'vehicle_tracking'>[] }
+  | { t: number; type: 'speedLimit'; limit: number; roadType: string }
+  | { t: number; type: 'alert'; alert: Omit<DriveAlert, 't'> };
+
+export type DriveEventType = DriveEvent['type'];
+export type DriveEventOf<K extends DriveEventType> = Extract<DriveEvent, { type: K }>;
+type Untimed<E> = E extends unknown ? Omit<E, 't'> : never;
+
+export interface DriveRecording {
+  version: 1;
+  startedAt: number; // epoch ms
+  duration: number; // ms
+  userAgent: string;
+  events: DriveEvent[];
+}
+
+export interface AlertComparison {
+  matched: number;
+  missing: DriveAlert[]; // recorded on the road, not raised in replay
+  unexpected: DriveAlert[]; // raised in replay only
+}
+
+export interface ReplayResult {
+  recorded: DriveAlert[];
+  replayed: DriveAlert[];
+  comparison: AlertComparison;
+  completed: boolean; // false when stopped early
+}
+
+export interface ReplayStatus {
+  position: number; // ms into the recording
+  duration: number;
+  speed: number;
+  paused: boolean;
+}
+
+export interface ReplayOptions {
+  speed?: number;
+  realtime?: boolean; // false leaves stepping to advance(), e.g. in tests
+  leadInMs?: number;
+}
+
+const RECORDING_VERSION = 1;
+const TICK_MS = 50;
+// Lets the hooks switch over to the replay channels before the first event
+const REPLAY_LEAD_IN_MS = 500;
+const ALERT_MATCH_TOLERANCE_MS = 1500;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Motion arrives at up to 60 Hz; three decimals keep long rides manageable
+const compactMotion = (sample: MotionData): MotionData => ({
+  acceleration: { x: round(sample.acceleration.x), y: round(sample.acceleration.y), z: round(sample.acceleration.z) },
+  accelerationIncludingGravity: {
+    x: round(sample.accelerationIncludingGravity.x),
+    y: round(sample.accelerationIncludingGravity.y),
+    z: round(sample.accelerationIncludingGravity.z),
+  },
+  rotationRate: { alpha: round(sample.rotationRate.alpha), beta: round(sample.rotationRate.beta), gamma: round(sample.rotationRate.gamma) },
+  orientation: { alpha: round(sample.orientation.alpha), beta: round(sample.orientation.beta), gamma: round(sample.orientation.gamma) },
+});
+
+export const alertsOf = (recording: DriveRecording): DriveAlert[] =>
+  recording.events.flatMap(event => (event.type === 'alert' ? [{ t: event.t, ...event.alert }] : []));
+
+// Pairs alerts of the same source and level raised within the tolerance of each other
+export const compareAlerts = (
+  expected: DriveAlert[],
+  actual: DriveAlert[],
+  toleranceMs = ALERT_MATCH_TOLERANCE_MS
+): AlertComparison => {
+  const unmatched = [...actual];
+  const missing: DriveAlert[] = [];
+  let matched = 0;
+
+  for (const alert of expected) {
+    let best = -1;
+    for (let i = 0; i < unmatched.length; i++) {
+      const candidate = unmatched[i];
+      if (candidate.source !== alert.source || candidate.level !== alert.level) continue;
+      const gap = Math.abs(candidate.t - alert.t);
+      if (gap <= toleranceMs && (best === -1 || gap < Math.abs(unmatched[best].t - alert.t))) best = i;
+    }
+    if (best === -1) {
+      missing.push(alert);
+    } else {
+      unmatched.splice(best, 1);
+      matched++;
+    }
+  }
+
+  return { matched, missing, unexpected: unmatched };
+};
+
+export const serializeRecording = (recording: DriveRecording): string => JSON.stringify(recording);
+
+export const parseRecording = (text: string): DriveRecording => {
+  let parsed: Partial<DriveRecording>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a drive recording');
+  }
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray(parsed.events) || typeof parsed.startedAt !== 'number') {
+    throw new Error('Not a drive recording');
+  }
+  if (parsed.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${parsed.version}`);
+  }
+  const events = [...parsed.events].sort((a, b) => a.t - b.t);
+  return {
+    version: RECORDING_VERSION,
+    startedAt: parsed.startedAt,
+    duration: parsed.duration ?? (events.length ? events[events.length - 1].t : 0),
+    userAgent: parsed.userAgent ?? '',
+    events,
+  };
+};
+
+interface VirtualTimer {
+  due: number;
+  intervalMs: number;
+  callback: () => void;
+}
+
+interface ReplayState {
+  recording: DriveRecording;
+  index: number; // next event to dispatch
+  clock: number; // ms since start; only moves to event and timer times
+  position: number; // play head, ahead of the clock between events
+  speed: number;
+  paused: boolean;
+  alerts: DriveAlert[];
+  timers: Set<VirtualTimer>;
+  handle: ReturnType<typeof setTimeout> | null;
+  lastTick: number;
+}
+
+export function createDriveSession(wallClock: () => number = Date.now) {
+  let mode: DriveMode = 'live';
+  let recording: { startedAt: number; events: DriveEvent[] } | null = null;
+  let replay: ReplayState | null = null;
+  let lastResult: ReplayResult | null = null;
+  const listeners = new Set<() => void>();
+  const handlers = new Map<DriveEventType, Set<(event: DriveEvent) => void>>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const getMode = () => mode;
+  const getLastResult = () => lastResult;
+
+  // Wall time live; recorded time during replay
+  const now = () => (replay ? replay.recording.startedAt + replay.clock : wallClock());
+
+  const on = <K extends DriveEventType>(type: K, handler: (event: DriveEventOf<K>) => void) => {
+    const set = handlers.get(type) ?? new Set();
+    const wrapped = handler as (event: DriveEvent) => void;
+    set.add(wrapped);
+    handlers.set(type, set);
+    return () => {
+      set.delete(wrapped);
+    };
+  };
+
+  const record = (event: Untimed<DriveEvent>) => {
+    if (!recording) return;
+    const timed = { ...event, t: wallClock() - recording.startedAt } as DriveEvent;
+    if (timed.type === 'motion') timed.sample = compactMotion(timed.sample);
+    recording.events.push(timed);
+  };
+
+  const alert = (raised: Omit<DriveAlert, 't'>) => {
+    if (replay) {
+      replay.alerts.push({ ...raised, t: replay.clock });
+    } else {
+      record({ type: 'alert', alert: raised });
+    }
+  };
+
+  // setInterval that follows the recorded clock during replay
+  const every = (intervalMs: number, callback: () => void) => {
+    if (!replay) {
+      const handle = setInterval(callback, intervalMs);
+      return () => clearInterval(handle);
+    }
+    const timers = replay.timers;
+    const timer: VirtualTimer = { due: replay.clock + intervalMs, intervalMs, callback };
+    timers.add(timer);
+    return () => {
+      timers.delete(timer);
+    };
+  };
+
+  const startRecording = () => {
+    if (mode !== 'live') throw new Error(`Cannot record while in ${mode} mode`);
+    recording = { startedAt: wallClock(), events: [] };
+    mode = 'recording';
+    notify();
+  };
+
+  const stopRecording = (): DriveRecording | null => {
+    if (!recording) return null;
+    const result: DriveRecording = {
+      version: RECORDING_VERSION,
+      startedAt: recording.startedAt,
+      duration: wallClock() - recording.startedAt,
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : '',
+      events: recording.events,
+    };
+    recording = null;
+    mode = 'live';
+    notify();
+    return result;
+  };
+
+  const dispatch = (event: DriveEvent) => {
+    handlers.get(event.type)?.forEach(handler => {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`Replay handler for ${event.type} failed:`, error);
+      }
+    });
+  };
+
+  const nextTimer = (state: ReplayState): VirtualTimer | null => {
+    let next: VirtualTimer | null = null;
+    for (const timer of state.timers) {
+      if (!next || timer.due < next.due) next = timer;
+    }
+    return next;
+  };
+
+  const finish = (completed: boolean) => {
+    if (!replay) return;
+    const state = replay;
+    if (state.handle) clearTimeout(state.handle);
+    const recorded = alertsOf(state.recording);
+    lastResult = {
+      recorded,
+      replayed: state.alerts,
+      comparison: compareAlerts(recorded, state.alerts),
+      completed,
+    };
+    replay = null;
+    mode = 'live';
+    notify();
+  };
+
+  // Events and timers fire in time order; ties go to the recorded event
+  const advance = (ms: number) => {
+    const state = replay;
+    if (!state) return;
+    const target = Math.min(state.position + ms, state.recording.duration);
+    const { events } = state.recording;
+
+    while (replay === state) {
+      const event = events[state.index];
+      const timer = nextTimer(state);
+      const eventDue = event && event.t <= target ? event.t : Infinity;
+      const timerDue = timer && timer.due <= target ? timer.due : Infinity;
+      if (eventDue === Infinity && timerDue === Infinity) break;
+
+      if (eventDue <= timerDue) {
+        state.clock = Math.max(state.clock, eventDue);
+        state.index++;
+        if (event.type !== 'alert') dispatch(event);
+      } else if (timer) {
+        state.clock = Math.max(state.clock, timerDue);
+        timer.due += timer.intervalMs;
+        timer.callback();
+      }
+    }
+
+    if (replay !== state) return;
+    state.position = target;
+    if (state.index >= events.length && target >= state.recording.duration) finish(true);
+  };
+
+  const tick = () => {
+    const state = replay;
+    if (!state) return;
+    const wall = wallClock();
+    if (!state.paused) advance((wall - state.lastTick) * state.speed);
+    state.lastTick = wall;
+    if (replay === state) state.handle = setTimeout(tick, TICK_MS);
+  };
+
+  const startReplay = (source: DriveRecording, { speed = 1, realtime = true, leadInMs = REPLAY_LEAD_IN_MS }: ReplayOptions = {}) => {
+    if (mode !== 'live') throw new Error(`Cannot replay while in ${mode} mode`);
+    replay = {
+      recording: source,
+      index: 0,
+      clock: 0,
+      position: 0,
+      speed,
+      paused: false,
+      alerts: [],
+      timers: new Set(),
+      handle: null,
+      lastTick: wallClock(),
+    };
+    lastResult = null;
+    mode = 'replay';
+    notify();
+
+    if (realtime) {
+      const state = replay;
+      state.handle = setTimeout(() => {
+        state.lastTick = wallClock();
+        tick();
+      }, leadInMs);
+    }
+  };
+
+  const stopReplay = () => finish(false);
+
+  const setReplaySpeed = (speed: number) => {
+    if (replay) replay.speed = speed;
+  };
+
+  const setReplayPaused = (paused: boolean) => {
+    if (replay) replay.paused = paused;
+  };
+
+  const getReplayStatus = (): ReplayStatus | null =>
+    replay
+      ? { position: replay.position, duration: replay.recording.duration, speed: replay.speed, paused: replay.paused }
+      : null;
+
+  return {
+    subscribe,
+    getMode,
+    getLastResult,
+    getReplayStatus,
+    now,
+    on,
+    record,
+    alert,
+    every,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay,
+    setReplaySpeed,
+    setReplayPaused,
+    advance,
+  };
+}
+
+export type DriveSession = ReturnType<typeof createDriveSession>;
+
+// Shared by every sensor hook in the app
+export const driveSession = createDriveSession();
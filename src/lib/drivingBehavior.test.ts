@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { createDrivingAnalyzer, HarshEvent } from './drivingBehavior';
+
+const G = 9.81;
+// Phone flat with its top towards the bonnet: forward is +y, right is +x
+const FORWARD = { x: 0, y: 1, z: 0 };
+
+interface DriveSpec {
+  durationMs: number;
+  speed: (t: number) => number; // km/h, reported at 4 Hz like OBD
+  longitudinal?: (t: number) => number; // G, positive forward
+  lateral?: (t: number) => number; // G, positive right
+  yawRate?: (t: number) => number; // degrees/s, clockwise positive
+  calibrated?: boolean;
+  onChangeOnly?: boolean; // speed source that stays quiet while the value holds
+}
+
+const drive = ({ durationMs, speed, longitudinal = () => 0, lateral = () => 0, yawRate = () => 0, calibrated = false, onChangeOnly = false }: DriveSpec) => {
+  const analyzer = createDrivingAnalyzer();
+  const events: HarshEvent[] = [];
+  let reported: number | null = null;
+  for (let t = 0; t <= durationMs; t += 20) {
+    if (t % 250 === 0 && !(onChangeOnly && speed(t) === reported)) {
+      reported = speed(t);
+      events.push(...analyzer.addSpeed(reported, t));
+    }
+    const acceleration = { x: lateral(t) * G, y: longitudinal(t) * G, z: 0 };
+    events.push(...analyzer.addMotion({
+      acceleration,
+      accelerationIncludingGravity: { ...acceleration, z: G },
+      // Gravity on +z, so turning clockwise seen from above is a negative alpha
+      rotationRate: { alpha: -yawRate(t), beta: 0, gamma: 0 },
+    }, t, calibrated ? FORWARD : null));
+  }
+  return events;
+};
+
+const during = (t: number, from: number, ms: number) => t >= from && t < from + ms;
+
+// Constant deceleration from 60 km/h starting at 2 s
+const braking = (g: number) => (t: number) => Math.max(0, 60 - Math.max(0, t - 2000) / 1000 * g * G * 3.6);
+
+describe('createDrivingAnalyzer', () => {
+  it('detects harsh braking on the calibrated accelerometer', () => {
+    const events = drive({
+      durationMs: 6000,
+      speed: braking(0.55),
+      longitudinal: t => (during(t, 2000, 1500) ? -0.55 : 0),
+      calibrated: true,
+    });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'harsh_braking', severity: 'medium', speed: 60 });
+    expect(events[0].peakG).toBeCloseTo(0.55, 1);
+    expect(events[0].durationMs).toBeGreaterThanOrEqual(1300);
+  });
+
+  it('falls back to speed deltas without a calibration', () => {
+    const events = drive({ durationMs: 8000, speed: braking(0.65) });
+
+    expect(events.map(e => e.type)).toEqual(['harsh_braking']);
+    expect(events[0].severity).toBe('high');
+  });
+
+  it('ends a speed-derived episode when the car holds its speed', () => {
+    // 60 down to 30 km/h in about 1.3 s, then no further readings
+    const events = drive({ durationMs: 10000, speed: t => Math.max(30, braking(0.65)(t)), onChangeOnly: true });
+
+    expect(events.map(e => e.type)).toEqual(['harsh_braking']);
+    expect(events[0].durationMs).toBeLessThan(3000);
+  });
+
+  it('detects rapid acceleration from a standstill', () => {
+    const events = drive({ durationMs: 9000, speed: t => Math.min(80, Math.max(0, t - 1000) / 1000 * 0.45 * G * 3.6) });
+
+    expect(events.map(e => e.type)).toEqual(['rapid_acceleration']);
+    // Speed deltas need a moment of history before the episode opens
+    expect(events[0].speed).toBeLessThan(25);
+  });
+
+  it('derives cornering from speed and yaw rate however the phone is mounted', () => {
+    // 0.55G at 50 km/h is about 22 degrees/s
+    const yaw = 0.55 * G / (50 / 3.6) * 180 / Math.PI;
+    const events = drive({ durationMs: 8000, speed: () => 50, yawRate: t => (during(t, 2000, 3000) ? yaw : 0) });
+
+    expect(events.map(e => e.type)).toEqual(['aggressive_cornering']);
+    expect(events[0].peakG).toBeCloseTo(0.55, 1);
+  });
+
+  it('reports a swerve instead of two corners', () => {
+    const events = drive({
+      durationMs: 6000,
+      speed: () => 70,
+      lateral: t => (during(t, 2000, 700) ? 0.5 : during(t, 2700, 700) ? -0.5 : 0),
+      calibrated: true,
+    });
+
+    expect(events.map(e => e.type)).toEqual(['swerve']);
+    expect(events[0].durationMs).toBeGreaterThanOrEqual(1200);
+  });
+
+  it('ignores potholes and handling the phone while parked', () => {
+    expect(drive({
+      durationMs: 4000,
+      speed: () => 50,
+      longitudinal: t => (during(t, 2000, 100) ? -0.9 : 0),
+      lateral: t => (during(t, 2000, 100) ? 0.8 : 0),
+      calibrated: true,
+    })).toEqual([]);
+
+    expect(drive({
+      durationMs: 4000,
+      speed: () => 0,
+      longitudinal: t => (during(t, 1000, 1000) ? 0.6 : 0),
+      lateral: t => (during(t, 2000, 1000) ? -0.6 : 0),
+      calibrated: true,
+    })).toEqual([]);
+  });
+});
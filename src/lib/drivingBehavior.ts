@@ -0,0 +1,240 @@
+// Harsh driving detection.
+// Longitudinal and lateral acceleration in the vehicle frame are watched for
+// episodes past a G threshold: harsh braking, rapid acceleration, aggressive
+// cornering, and a swerve when a short lateral episode is answered by one the
+// other way. With the phone's forward axis known the accelerometer gives both
+// directly. Without it the longitudinal part comes from speed deltas (OBD or
+// GPS) and the lateral part from speed times the gyroscope yaw rate, neither
+// of which depends on how the phone is mounted. Both are evaluated on every
+// motion sample, so an episode ends when the car does, not when the next speed
+// reading happens to arrive.
+
+import type { Vec3 } from './crashDetection';
+import { imuFromMotion, MotionSample } from './positionFilter';
+import { createSpeedTrend } from './speedTrend';
+import { cross, dot, normalize } from './vector';
+
+export type HarshEventType = 'harsh_braking' | 'rapid_acceleration' | 'aggressive_cornering' | 'swerve';
+export type HarshSeverity = 'low' | 'medium' | 'high';
+
+export interface HarshEvent {
+  type: HarshEventType;
+  severity: HarshSeverity;
+  peakG: number;
+  startedAt: number; // ms
+  durationMs: number;
+  speed: number; // km/h when it started
+}
+
+export interface DrivingAnalyzerOptions {
+  brakingG?: number;
+  accelerationG?: number;
+  corneringG?: number;
+  swerveG?: number; // both halves of a swerve must reach this
+  swerveWindowMs?: number; // longest gap between the two halves
+  minDurationMs?: number; // shorter spikes are bumps and sensor noise
+  minSpeed?: number; // km/h the car must reach during an episode
+  cooldownMs?: number; // per event type
+}
+
+interface Episode {
+  sign: 1 | -1;
+  startedAt: number;
+  endedAt: number;
+  peak: number; // G, absolute
+  speed: number; // km/h at the start
+  maxSpeed: number;
+}
+
+const G = 9.81;
+const SMOOTHING_MS = 200; // accelerometer and gyro low-pass time constant
+const AXIS_TIMEOUT_MS = 1000; // speed deltas take over when motion samples stop carrying a forward axis
+const RELEASE_RATIO = 0.5; // an episode ends below this fraction of its threshold
+const MAX_SWERVE_HALF_MS = 2000; // longer lateral episodes are bends in the road
+
+const severityFor = (peak: number, threshold: number): HarshSeverity => {
+  const ratio = peak / threshold;
+  if (ratio >= 1.5) return 'high';
+  if (ratio >= 1.25) return 'medium';
+  return 'low';
+};
+
+// One vehicle axis: an episode opens past the threshold for its direction and
+// closes when the value falls back or changes sign
+const createChannel = (positive: number, negative: number) => {
+  let episode: Episode | null = null;
+
+  const update = (value: number, t: number, speed: number): Episode | null => {
+    const sign = value >= 0 ? 1 : -1;
+    let closed: Episode | null = null;
+
+    if (episode) {
+      const threshold = episode.sign > 0 ? positive : negative;
+      if (sign !== episode.sign || Math.abs(value) < threshold * RELEASE_RATIO) {
+        closed = { ...episode, endedAt: t };
+        episode = null;
+      } else {
+        episode.peak = Math.max(episode.peak, Math.abs(value));
+        episode.maxSpeed = Math.max(episode.maxSpeed, speed);
+      }
+    }
+
+    if (!episode && Math.abs(value) >= (sign > 0 ? positive : negative)) {
+      episode = { sign, startedAt: t, endedAt: t, peak: Math.abs(value), speed, maxSpeed: speed };
+    }
+    return closed;
+  };
+
+  const openSince = () => episode?.startedAt ?? null;
+
+  const reset = () => {
+    episode = null;
+  };
+
+  return { update, openSince, reset };
+};
+
+export function createDrivingAnalyzer({
+  brakingG = 0.4,
+  accelerationG = 0.35,
+  corneringG = 0.45,
+  swerveG = 0.3,
+  swerveWindowMs = 1500,
+  minDurationMs = 300,
+  minSpeed = 10,
+  cooldownMs = 3000,
+}: DrivingAnalyzerOptions = {}) {
+  const longitudinal = createChannel(accelerationG, brakingG);
+  const lateral = createChannel(swerveG, swerveG);
+  const speeds = createSpeedTrend();
+  let smoothed = { longitudinal: 0, lateral: 0 };
+  let lastMotionAt: number | null = null;
+  let axisAt = -Infinity;
+  // A lateral episode waits here for its counterpart before it counts as cornering
+  let pendingLateral: Episode | null = null;
+  const lastEventAt: Partial<Record<HarshEventType, number>> = {};
+
+  const currentSpeed = () => speeds.current();
+
+  const emit = (type: HarshEventType, episode: Episode, peak: number, threshold: number, events: HarshEvent[]) => {
+    const last = lastEventAt[type];
+    if (last !== undefined && episode.startedAt - last < cooldownMs) return;
+    lastEventAt[type] = episode.startedAt;
+    events.push({
+      type,
+      severity: severityFor(peak, threshold),
+      peakG: Math.round(peak * 100) / 100,
+      startedAt: episode.startedAt,
+      durationMs: episode.endedAt - episode.startedAt,
+      speed: episode.speed,
+    });
+  };
+
+  const qualifies = (episode: Episode) =>
+    episode.endedAt - episode.startedAt >= minDurationMs && episode.maxSpeed >= minSpeed;
+
+  const updateLongitudinal = (value: number, t: number, events: HarshEvent[]) => {
+    const episode = longitudinal.update(value, t, currentSpeed());
+    if (!episode || !qualifies(episode)) return;
+    if (episode.sign < 0 && episode.peak >= brakingG) emit('harsh_braking', episode, episode.peak, brakingG, events);
+    if (episode.sign > 0 && episode.peak >= accelerationG) emit('rapid_acceleration', episode, episode.peak, accelerationG, events);
+  };
+
+  // Without a forward axis the speed readings stand in for the accelerometer
+  const updateFromSpeed = (t: number, events: HarshEvent[]) => {
+    if (t - axisAt <= AXIS_TIMEOUT_MS) return;
+    const accel = speeds.slope(t);
+    if (accel !== null) updateLongitudinal(accel / G, t, events);
+  };
+
+  const flushCornering = (events: HarshEvent[]) => {
+    if (pendingLateral && pendingLateral.peak >= corneringG) {
+      emit('aggressive_cornering', pendingLateral, pendingLateral.peak, corneringG, events);
+    }
+    pendingLateral = null;
+  };
+
+  const updateLateral = (value: number, t: number, events: HarshEvent[]) => {
+    const episode = lateral.update(value, t, currentSpeed());
+
+    if (episode && qualifies(episode)) {
+      const first = pendingLateral;
+      const isSwerve = first !== null &&
+        first.sign !== episode.sign &&
+        episode.startedAt - first.endedAt <= swerveWindowMs &&
+        first.endedAt - first.startedAt <= MAX_SWERVE_HALF_MS &&
+        episode.endedAt - episode.startedAt <= MAX_SWERVE_HALF_MS;
+      if (isSwerve) {
+        const swerve = { ...first, endedAt: episode.endedAt, maxSpeed: Math.max(first.maxSpeed, episode.maxSpeed) };
+        emit('swerve', swerve, Math.min(first.peak, episode.peak), swerveG, events);
+        pendingLateral = null;
+      } else {
+        flushCornering(events);
+        pendingLateral = episode;
+      }
+      return;
+    }
+
+    // No answer within the window: it was a corner
+    const openSince = lateral.openSince();
+    const awaitingAnswer = openSince !== null && pendingLateral !== null && openSince - pendingLateral.endedAt <= swerveWindowMs;
+    if (pendingLateral && t - pendingLateral.endedAt > swerveWindowMs && !awaitingAnswer) flushCornering(events);
+  };
+
+  // forwardAxis is the vehicle's forward direction in the sample's frame, once calibrated
+  const addMotion = (sample: MotionSample, t: number, forwardAxis?: Vec3 | null): HarshEvent[] => {
+    const events: HarshEvent[] = [];
+    const dt = lastMotionAt === null ? 0 : Math.max(0, t - lastMotionAt);
+    const alpha = lastMotionAt === null ? 1 : Math.min(1, dt / SMOOTHING_MS);
+    lastMotionAt = t;
+
+    const { forwardAccel, yawRate } = imuFromMotion(sample, forwardAxis);
+    const up = normalize({
+      x: sample.accelerationIncludingGravity.x - sample.acceleration.x,
+      y: sample.accelerationIncludingGravity.y - sample.acceleration.y,
+      z: sample.accelerationIncludingGravity.z - sample.acceleration.z,
+    });
+    const right = forwardAxis && up ? normalize(cross(forwardAxis, up)) : null;
+
+    if (forwardAccel !== null) {
+      axisAt = t;
+      smoothed.longitudinal += (forwardAccel / G - smoothed.longitudinal) * alpha;
+      updateLongitudinal(smoothed.longitudinal, t, events);
+    } else {
+      updateFromSpeed(t, events);
+    }
+
+    // Centripetal acceleration: speed times turn rate, positive to the right
+    const lateralAccel = right
+      ? dot(sample.acceleration, right)
+      : yawRate !== null ? (currentSpeed() / 3.6) * (yawRate * Math.PI / 180) : null;
+    if (lateralAccel !== null) {
+      smoothed.lateral += (lateralAccel / G - smoothed.lateral) * alpha;
+      updateLateral(smoothed.lateral, t, events);
+    }
+    return events;
+  };
+
+  // km/h from OBD or GPS; only evaluated here when no motion samples come in
+  const addSpeed = (speed: number, t: number): HarshEvent[] => {
+    const events: HarshEvent[] = [];
+    speeds.add(speed, t);
+    if (lastMotionAt === null || t - lastMotionAt > AXIS_TIMEOUT_MS) updateFromSpeed(t, events);
+    return events;
+  };
+
+  const reset = () => {
+    longitudinal.reset();
+    lateral.reset();
+    speeds.reset();
+    smoothed = { longitudinal: 0, lateral: 0 };
+    lastMotionAt = null;
+    axisAt = -Infinity;
+    pendingLateral = null;
+    (Object.keys(lastEventAt) as HarshEventType[]).forEach(type => delete lastEventAt[type]);
+  };
+
+  return { addMotion, addSpeed, reset };
+}
+
+export type DrivingAnalyzer = ReturnType<typeof createDrivingAnalyzer>;
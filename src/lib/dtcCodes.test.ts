@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { describeDtc } from './dtcCodes';
+
+describe('describeDtc', () => {
+  it('looks up generic codes', () => {
+    expect(describeDtc('p0301')).toEqual({
+      code: 'P0301',
+      system: 'powertrain',
+      description: 'Cylinder 1 misfire detected',
+      manufacturerSpecific: false,
+    });
+    expect(describeDtc('U0100').system).toBe('network');
+  });
+
+  it('falls back to the powertrain area for unlisted generic codes', () => {
+    expect(describeDtc('P0399')).toMatchObject({ description: 'Powertrain fault in ignition system or misfire', manufacturerSpecific: false });
+    expect(describeDtc('C0999').description).toBe('Chassis fault');
+  });
+
+  it.each(['P1234', 'P3001', 'B1A0F', 'C2100', 'U1000'])('flags %s as manufacturer-specific', code => {
+    const info = describeDtc(code);
+    expect(info.manufacturerSpecific).toBe(true);
+    expect(info.description).toMatch(/manufacturer-specific code$/);
+  });
+
+  it('keeps P34-P39 generic', () => {
+    expect(describeDtc('P3400').manufacturerSpecific).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+// Descriptions for OBD-II diagnostic trouble codes.
+// Bundled so codes can be explained offline. The table covers the generic
+// SAE J2012 codes drivers run into most; anything else is described by the
+// system and subsystem its number belongs to.
+
+export type DtcSystem = 'powertrain' | 'chassis' | 'body' | 'network';
+
+export interface DtcInfo {
+  code: string;
+  system: DtcSystem;
+  description: string;
+  manufacturerSpecific: boolean;
+}
+
+const DTC_DESCRIPTIONS: Record<string, string> = {
+  P0010: 'Intake camshaft position actuator circuit (bank 1)',
+  P0011: 'Intake camshaft timing over-advanced (bank 1)',
+  P0016: 'Crankshaft/camshaft position correlation (bank 1 sensor A)',
+  P0030: 'O2 sensor heater control circuit (bank 1 sensor 1)',
+  P0087: 'Fuel rail/system pressure too low',
+  P0088: 'Fuel rail/system pressure too high',
+  P0100: 'Mass air flow circuit malfunction',
+  P0101: 'Mass air flow circuit range/performance',
+  P0102: 'Mass air flow circuit low input',
+  P0103: 'Mass air flow circuit high input',
+  P0106: 'Manifold absolute pressure circuit range/performance',
+  P0107: 'Manifold absolute pressure circuit low input',
+  P0108: 'Manifold absolute pressure circuit high input',
+  P0110: 'Intake air temperature circuit malfunction',
+  P0113: 'Intake air temperature circuit high input',
+  P0115: 'Engine coolant temperature circuit malfunction',
+  P0116: 'Engine coolant temperature circuit range/performance',
+  P0117: 'Engine coolant temperature circuit low input',
+  P0118: 'Engine coolant temperature circuit high input',
+  P0120: 'Throttle position sensor circuit malfunction',
+  P0121: 'Throttle position sensor circuit range/performance',
+  P0122: 'Throttle position sensor circuit low input',
+  P0123: 'Throttle position sensor circuit high input',
+  P0125: 'Insufficient coolant temperature for closed loop fuel control',
+  P0128: 'Coolant thermostat below regulating temperature',
+  P0130: 'O2 sensor circuit malfunction (bank 1 sensor 1)',
+  P0131: 'O2 sensor circuit low voltage (bank 1 sensor 1)',
+  P0133: 'O2 sensor circuit slow response (bank 1 sensor 1)',
+  P0134: 'O2 sensor circuit no activity detected (bank 1 sensor 1)',
+  P0135: 'O2 sensor heater circuit malfunction (bank 1 sensor 1)',
+  P0136: 'O2 sensor circuit malfunction (bank 1 sensor 2)',
+  P0141: 'O2 sensor heater circuit malfunction (bank 1 sensor 2)',
+  P0171: 'System too lean (bank 1)',
+  P0172: 'System too rich (bank 1)',
+  P0174: 'System too lean (bank 2)',
+  P0175: 'System too rich (bank 2)',
+  P0200: 'Injector circuit malfunction',
+  P0201: 'Injector circuit malfunction, cylinder 1',
+  P0217: 'Engine overheat condition',
+  P0220: 'Throttle position sensor B circuit malfunction',
+  P0234: 'Engine overboost condition',
+  P0299: 'Turbocharger underboost',
+  P0300: 'Random/multiple cylinder misfire detected',
+  P0301: 'Cylinder 1 misfire detected',
+  P0302: 'Cylinder 2 misfire detected',
+  P0303: 'Cylinder 3 misfire detected',
+  P0304: 'Cylinder 4 misfire detected',
+  P0305: 'Cylinder 5 misfire detected',
+  P0306: 'Cylinder 6 misfire detected',
+  P0325: 'Knock sensor 1 circuit malfunction (bank 1)',
+  P0335: 'Crankshaft position sensor A circuit malfunction',
+  P0340: 'Camshaft position sensor circuit malfunction',
+  P0351: 'Ignition coil A primary/secondary circuit malfunction',
+  P0400: 'Exhaust gas recirculation flow malfunction',
+  P0401: 'Exhaust gas recirculation flow insufficient',
+  P0402: 'Exhaust gas recirculation flow excessive',
+  P0403: 'Exhaust gas recirculation circuit malfunction',
+  P0410: 'Secondary air injection system malfunction',
+  P0420: 'Catalyst system efficiency below threshold (bank 1)',
+  P0430: 'Catalyst system efficiency below threshold (bank 2)',
+  P0440: 'Evaporative emission control system malfunction',
+  P0441: 'Evaporative emission control system incorrect purge flow',
+  P0442: 'Evaporative emission control system leak detected (small leak)',
+  P0446: 'Evaporative emission control system vent control circuit malfunction',
+  P0455: 'Evaporative emission control system leak detected (large leak)',
+  P0456: 'Evaporative emission control system leak detected (very small leak)',
+  P0457: 'Evaporative emission control system leak detected (fuel cap loose/off)',
+  P0480: 'Cooling fan 1 control circuit malfunction',
+  P0500: 'Vehicle speed sensor malfunction',
+  P0501: 'Vehicle speed sensor range/performance',
+  P0505: 'Idle control system malfunction',
+  P0506: 'Idle control system RPM lower than expected',
+  P0507: 'Idle control system RPM higher than expected',
+  P0520: 'Engine oil pressure sensor/switch circuit malfunction',
+  P0562: 'System voltage low',
+  P0563: 'System voltage high',
+  P0571: 'Brake switch A circuit malfunction',
+  P0600: 'Serial communication link malfunction',
+  P0601: 'Internal control module memory check sum error',
+  P0606: 'Control module processor fault',
+  P0700: 'Transmission control system malfunction',
+  P0705: 'Transmission range sensor circuit malfunction',
+  P0715: 'Input/turbine speed sensor circuit malfunction',
+  P0720: 'Output speed sensor circuit malfunction',
+  P0730: 'Incorrect gear ratio',
+  P0740: 'Torque converter clutch circuit malfunction',
+  P0750: 'Shift solenoid A malfunction',
+  P0755: 'Shift solenoid B malfunction',
+  C0035: 'Left front wheel speed sensor circuit',
+  C0040: 'Right front wheel speed sensor circuit',
+  C0045: 'Left rear wheel speed sensor circuit',
+  C0050: 'Right rear wheel speed sensor circuit',
+  C0110: 'ABS pump motor circuit',
+  C0561: 'System disabled information stored (stability control)',
+  B0001: 'Driver frontal stage 1 deployment control',
+  B0012: 'Passenger frontal stage 1 deployment control',
+  B0100: 'Electronic frontal sensor 1',
+  U0001: 'High speed CAN communication bus',
+  U0073: 'Control module communication bus A off',
+  U0100: 'Lost communication with ECM/PCM A',
+  U0101: 'Lost communication with TCM',
+  U0121: 'Lost communication with anti-lock brake system control module',
+  U0140: 'Lost communication with body control module',
+  U0155: 'Lost communication with instrument panel cluster control module',
+};
+
+const SYSTEMS: Record<string, { system: DtcSystem; label: string }> = {
+  P: { system: 'powertrain', label: 'Powertrain' },
+  C: { system: 'chassis', label: 'Chassis' },
+  B: { system: 'body', label: 'Body' },
+  U: { system: 'network', label: 'Network' },
+};
+
+// Third character of generic powertrain codes
+const POWERTRAIN_AREAS: Record<string, string> = {
+  '0': 'fuel, air or emission controls',
+  '1': 'fuel and air metering',
+  '2': 'fuel and air metering (injector circuit)',
+  '3': 'ignition system or misfire',
+  '4': 'auxiliary emission controls',
+  '5': 'vehicle speed, idle control or auxiliary inputs',
+  '6': 'computer or auxiliary outputs',
+  '7': 'transmission',
+  '8': 'transmission',
+  '9': 'transmission',
+  A: 'hybrid propulsion',
+  B: 'hybrid propulsion',
+  C: 'hybrid propulsion',
+};
+
+export const describeDtc = (code: string): DtcInfo => {
+  const normalized = code.trim().toUpperCase();
+  const [letter, digit, area] = normalized;
+  const { system, label } = SYSTEMS[letter] ?? SYSTEMS.P;
+  // P1, P30-P33, and B/C/U 1 and 2 are defined by each manufacturer
+  const manufacturerSpecific = digit === '1' ||
+    (digit === '2' && system !== 'powertrain') ||
+    (digit === '3' && system === 'powertrain' && area < '4');
+
+  const known = DTC_DESCRIPTIONS[normalized];
+  if (known) return { code: normalized, system, description: known, manufacturerSpecific };
+
+  const subsystem = system === 'powertrain' ? POWERTRAIN_AREAS[area] : undefined;
+  const description = manufacturerSpecific
+    ? `${label} fault, manufacturer-specific code`
+    : subsystem ? `${label} fault in ${subsystem}` : `${label} fault`;
+  return { code: normalized, system, description, manufacturerSpecific };
+};
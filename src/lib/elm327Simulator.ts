@@ -0,0 +1,238 @@
+// Simulated ELM327 adapter.
+// Answers the AT commands and mode 01/02/03/04/07/09 requests the OBD2 client sends, with
+// the adapter's quirks: echo until ATE0, spaces until ATS0, a protocol search
+// on the first request and responses split across notifications like a BLE
+// link. Used by the tests and as a stand-in adapter during development.
+
+import { toHex, type ObdTransport } from './obd2';
+
+export interface SimulatedVehicle {
+  speed: number; // km/h
+  rpm: number;
+  coolantTemp: number; // °C
+  throttle: number; // %
+  fuelLevel: number; // %
+  batteryVoltage: number; // V
+  vin: string;
+}
+
+export interface SimulatorOptions {
+  vehicle?: Partial<SimulatedVehicle> | (() => Partial<SimulatedVehicle>);
+  unsupportedPids?: number[];
+  ignitionOff?: boolean; // the ECUs don't answer
+  legacyProtocol?: boolean; // ISO 9141-2: VIN and codes in numbered frames instead of ISO-TP
+  storedDtcs?: string[]; // mode 03, e.g. ['P0301']
+  pendingDtcs?: string[]; // mode 07
+  freezeFrame?: Partial<SimulatedVehicle>; // captured with the first stored code
+  chunkSize?: number; // characters per notification
+  latencyMs?: number;
+}
+
+const DEFAULT_VEHICLE: SimulatedVehicle = {
+  speed: 0,
+  rpm: 800,
+  coolantTemp: 90,
+  throttle: 15,
+  fuelLevel: 60,
+  batteryVoltage: 12.6,
+  vin: '1D4GP00R55B123456',
+};
+
+const toPercentByte = (value: number) => Math.round(Math.max(0, Math.min(100, value)) * 255 / 100);
+
+const ENCODERS: Record<number, (v: SimulatedVehicle) => number[]> = {
+  0x05: v => [Math.round(v.coolantTemp) + 40],
+  0x0c: v => {
+    const raw = Math.round(v.rpm * 4);
+    return [raw >> 8, raw & 0xff];
+  },
+  0x0d: v => [Math.round(Math.max(0, Math.min(255, v.speed)))],
+  0x11: v => [toPercentByte(v.throttle)],
+  0x2f: v => [toPercentByte(v.fuelLevel)],
+};
+
+// Gentle city driving loop for the development adapter
+export const drivingProfile = (start = Date.now()) => (): Partial<SimulatedVehicle> => {
+  const t = (Date.now() - start) / 1000;
+  const speed = Math.max(0, 35 + 25 * Math.sin(t / 20));
+  return {
+    speed,
+    rpm: 800 + speed * 35,
+    throttle: 12 + 20 * Math.max(0, Math.cos(t / 20)),
+    coolantTemp: Math.min(92, 40 + t),
+    fuelLevel: Math.max(5, 60 - t / 120),
+  };
+};
+
+// "P0301" -> [0x03, 0x01]
+const encodeDtc = (code: string): number[] => {
+  const system = 'PCBU'.indexOf(code[0].toUpperCase());
+  const a = (system << 6) | (parseInt(code[1], 16) << 4) | parseInt(code[2], 16);
+  return [a, parseInt(code.slice(3, 5), 16)];
+};
+
+export function createSimulatedElm327({
+  vehicle = {},
+  unsupportedPids = [],
+  ignitionOff = false,
+  legacyProtocol = false,
+  storedDtcs = [],
+  pendingDtcs = [],
+  freezeFrame,
+  chunkSize = 20,
+  latencyMs = 0,
+}: SimulatorOptions = {}) {
+  const listeners = new Set<(chunk: string) => void>();
+  const supported = Object.keys(ENCODERS).map(Number).filter(pid => !unsupportedPids.includes(pid));
+  let echo = true;
+  let spaces = true;
+  let searched = false;
+  let connected = true;
+  let stored = [...storedDtcs];
+  let pending = [...pendingDtcs];
+  let frozen = stored.length > 0 && freezeFrame ? { ...DEFAULT_VEHICLE, ...freezeFrame } : null;
+
+  const state = (): SimulatedVehicle => ({
+    ...DEFAULT_VEHICLE,
+    ...(typeof vehicle === 'function' ? vehicle() : vehicle),
+  });
+
+  const bytes = (data: number[]) => data.map(toHex).join(spaces ? ' ' : '');
+
+  // Bitmask of the PIDs in (base, base + 32], with the last bit chaining to the next block
+  const supportedMask = (base: number): number[] => {
+    const mask = [0, 0, 0, 0];
+    const set = (pid: number) => {
+      const offset = pid - base - 1;
+      mask[offset >> 3] |= 0x80 >> (offset & 7);
+    };
+    supported.filter(pid => pid > base && pid <= base + 0x20).forEach(set);
+    if (supported.some(pid => pid > base + 0x20)) set(base + 0x20);
+    return mask;
+  };
+
+  // ISO-TP as the adapter prints it with headers off: a length line, then numbered segments
+  const isoTpLines = (payload: number[]): string[] => {
+    if (payload.length <= 7) return [bytes(payload)];
+    const lines = [payload.length.toString(16).toUpperCase().padStart(3, '0')];
+    for (let offset = 0, index = 0; offset < payload.length; index++) {
+      const size = index === 0 ? 6 : 7;
+      const segment = payload.slice(offset, offset + size);
+      while (segment.length < size) segment.push(0);
+      lines.push(`${(index & 0xf).toString(16).toUpperCase()}: ${bytes(segment)}`);
+      offset += size;
+    }
+    return lines;
+  };
+
+  const vinLines = (): string[] => {
+    const vin = [...state().vin].map(c => c.charCodeAt(0));
+    if (legacyProtocol) {
+      const padded = [0, 0, 0, ...vin];
+      return [0, 1, 2, 3, 4].map(i => bytes([0x49, 0x02, i + 1, ...padded.slice(i * 4, i * 4 + 4)]));
+    }
+    return isoTpLines([0x49, 0x02, 0x01, ...vin]);
+  };
+
+  // CAN sends a count and every code in one message; older buses three codes per frame
+  const dtcLines = (service: number, codes: string[]): string[] => {
+    const encoded = codes.flatMap(encodeDtc);
+    if (!legacyProtocol) return isoTpLines([service, codes.length, ...encoded]);
+    const lines: string[] = [];
+    for (let i = 0; i === 0 || i < encoded.length; i += 6) {
+      const frame = encoded.slice(i, i + 6);
+      while (frame.length < 6) frame.push(0);
+      lines.push(bytes([service, ...frame]));
+    }
+    return lines;
+  };
+
+  const freezeFrameLines = (pid: number): string[] => {
+    if (!frozen) return ['NO DATA'];
+    if (pid === 0x02) return [bytes([0x42, 0x02, 0x00, ...encodeDtc(stored[0])])];
+    if (!supported.includes(pid)) return ['NO DATA'];
+    return [bytes([0x42, pid, 0x00, ...ENCODERS[pid](frozen)])];
+  };
+
+  const answer = (command: string): string[] => {
+    if (command === 'ATZ') {
+      echo = true;
+      spaces = true;
+      searched = false;
+      return ['', 'ELM327 v1.5'];
+    }
+    if (command === 'ATE0' || command === 'ATE1') {
+      echo = command === 'ATE1';
+      return ['OK'];
+    }
+    if (command === 'ATS0' || command === 'ATS1') {
+      spaces = command === 'ATS1';
+      return ['OK'];
+    }
+    if (/^AT(L[01]|H[01]|AT[0-2]|SP[0-9A-C])$/.test(command)) return ['OK'];
+    if (command === 'ATDP') return [legacyProtocol ? 'AUTO, ISO 9141-2' : 'AUTO, ISO 15765-4 (CAN 11/500)'];
+    if (command === 'ATDPN') return [legacyProtocol ? 'A3' : 'A6'];
+    if (command === 'ATRV') return [`${state().batteryVoltage.toFixed(1)}V`];
+
+    const request = command.match(/^(0[1-9])((?:[0-9A-F]{2})*)$/);
+    if (!request) return ['?'];
+
+    const lines: string[] = [];
+    if (!searched) {
+      searched = true;
+      lines.push('SEARCHING...');
+    }
+    if (ignitionOff) return [...lines, 'UNABLE TO CONNECT'];
+
+    const mode = parseInt(request[1], 16);
+    const pid = parseInt(request[2].slice(0, 2), 16);
+    if (mode === 0x03) return [...lines, ...dtcLines(0x43, stored)];
+    if (mode === 0x07) return [...lines, ...dtcLines(0x47, pending)];
+    if (mode === 0x04) {
+      stored = [];
+      pending = [];
+      frozen = null;
+      return [...lines, '44'];
+    }
+    if (Number.isNaN(pid)) return ['?'];
+    if (mode === 0x02) return [...lines, ...freezeFrameLines(pid)];
+    if (mode === 0x09) return [...lines, ...(pid === 0x02 ? vinLines() : ['NO DATA'])];
+    if (mode !== 0x01) return ['?'];
+    if (pid % 0x20 === 0) return [...lines, bytes([0x41, pid, ...supportedMask(pid)])];
+    if (supported.includes(pid)) return [...lines, bytes([0x41, pid, ...ENCODERS[pid](state())])];
+    return [...lines, 'NO DATA'];
+  };
+
+  const emit = (text: string) => {
+    for (let i = 0; i < text.length; i += chunkSize) {
+      const chunk = text.slice(i, i + chunkSize);
+      setTimeout(() => {
+        if (connected) listeners.forEach(listener => listener(chunk));
+      }, latencyMs);
+    }
+  };
+
+  const transport: ObdTransport = {
+    write: async (data: string) => {
+      if (!connected) throw new Error('Simulated adapter disconnected');
+      const command = data.replace(/[\r\n\s]/g, '').toUpperCase();
+      const lines = answer(command);
+      emit(`${echo ? `${data.trim()}\r` : ''}${lines.join('\r')}\r\r>`);
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  // Stop answering, as if the adapter lost power
+  const disconnect = () => {
+    connected = false;
+  };
+
+  return { ...transport, disconnect };
+}
+
+export type SimulatedElm327 = ReturnType<typeof createSimulatedElm327>;
@@ -0,0 +1,130 @@
+// Heading fusion from GPS course, course over ground between fixes and the
+// device compass. GPS-derived courses are reliable only while moving, the
+// compass works at standstill but is offset by how the phone is mounted, so
+// the compass offset is learned against the GPS course while driving.
+
+import { bearingBetween, distanceMeters } from './closestApproach';
+
+export type HeadingSource = 'gps' | 'fixes' | 'compass' | 'none';
+
+export interface HeadingEstimate {
+  heading: number | null; // degrees clockwise from north
+  source: HeadingSource;
+  confidence: number; // 0-1
+}
+
+export interface HeadingFusionOptions {
+  minCourseSpeed?: number; // km/h below which GPS course is ignored
+  minFixDistance?: number; // meters between fixes for a course-over-ground sample
+  smoothing?: number; // 0-1, weight of a new sample
+  courseHoldMs?: number; // how long a GPS-based course outranks the compass
+}
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const normalize = (deg: number) => ((deg % 360) + 360) % 360;
+
+// Signed smallest difference b - a in degrees (-180, 180]
+export const angleDifference = (a: number, b: number): number => {
+  const d = normalize(b - a);
+  return d > 180 ? d - 360 : d;
+};
+
+// Weighted blend of two angles via unit vectors
+export const blendAngles = (a: number, b: number, weightB: number): number => {
+  const x = Math.cos(toRad(a)) * (1 - weightB) + Math.cos(toRad(b)) * weightB;
+  const y = Math.sin(toRad(a)) * (1 - weightB) + Math.sin(toRad(b)) * weightB;
+  return normalize(Math.atan2(y, x) * 180 / Math.PI);
+};
+
+// DeviceOrientation alpha grows counter-clockwise; compass heading grows clockwise
+export const compassFromAlpha = (alpha: number): number => normalize(360 - alpha);
+
+export function createHeadingFusion({
+  minCourseSpeed = 8,
+  minFixDistance = 5,
+  smoothing = 0.4,
+  courseHoldMs = 10000,
+}: HeadingFusionOptions = {}) {
+  let heading: number | null = null;
+  let source: HeadingSource = 'none';
+  let confidence = 0;
+  let lastFix: { lat: number; lng: number } | null = null;
+  let compass: number | null = null;
+  let compassOffset: number | null = null; // vehicle heading - compass reading
+  let lastCourseAt = 0;
+
+  const apply = (sample: number, weight: number, from: HeadingSource, sampleConfidence: number) => {
+    heading = heading === null ? normalize(sample) : blendAngles(heading, sample, weight);
+    source = from;
+    confidence = from === 'compass' ? sampleConfidence : Math.max(confidence * 0.9, sampleConfidence);
+    if (from !== 'compass') lastCourseAt = Date.now();
+  };
+
+  // Learn how the phone is rotated relative to the vehicle while a trusted course is available
+  const learnCompassOffset = (course: number) => {
+    if (compass === null) return;
+    const offset = angleDifference(compass, course);
+    compassOffset = compassOffset === null ? offset : compassOffset + angleDifference(compassOffset, offset) * 0.1;
+  };
+
+  const updatePosition = (fix: {
+    lat: number;
+    lng: number;
+    speed?: number | null; // km/h
+    course?: number | null; // GPS-reported heading, degrees
+  }) => {
+    const speed = fix.speed ?? 0;
+    const moving = speed >= minCourseSpeed;
+
+    if (moving && fix.course !== null && fix.course !== undefined && !Number.isNaN(fix.course)) {
+      apply(fix.course, smoothing, 'gps', 0.9);
+      learnCompassOffset(fix.course);
+      lastFix = { lat: fix.lat, lng: fix.lng };
+      return getEstimate();
+    }
+
+    if (!lastFix) {
+      lastFix = { lat: fix.lat, lng: fix.lng };
+      return getEstimate();
+    }
+
+    if (distanceMeters(lastFix, fix) >= minFixDistance) {
+      const course = bearingBetween(lastFix, fix);
+      // Course between fixes is noisy at walking pace, trust it more as speed builds
+      const weight = moving ? smoothing : smoothing / 2;
+      apply(course, weight, 'fixes', moving ? 0.75 : 0.5);
+      if (moving) learnCompassOffset(course);
+      lastFix = { lat: fix.lat, lng: fix.lng };
+    }
+    return getEstimate();
+  };
+
+  const updateCompass = (compassHeading: number | null) => {
+    if (compassHeading === null || Number.isNaN(compassHeading)) return getEstimate();
+    compass = normalize(compassHeading);
+
+    // Without a learned offset the raw compass only tells us where the phone points
+    const corrected = normalize(compass + (compassOffset ?? 0));
+    // A recent GPS-based course wins; at standstill the compass takes over
+    if (source === 'none' || source === 'compass' || Date.now() - lastCourseAt > courseHoldMs) {
+      apply(corrected, smoothing / 2, 'compass', compassOffset !== null ? 0.6 : 0.3);
+    }
+    return getEstimate();
+  };
+
+  const getEstimate = (): HeadingEstimate => ({ heading, source, confidence });
+
+  const reset = () => {
+    heading = null;
+    source = 'none';
+    confidence = 0;
+    lastFix = null;
+    compass = null;
+    compassOffset = null;
+    lastCourseAt = 0;
+  };
+
+  return { updatePosition, updateCompass, getEstimate, reset };
+}
+
+export type HeadingFusion = ReturnType<typeof createHeadingFusion>;
@@ -0,0 +1,92 @@
+// Canvas heat layer for Leaflet.
+// The canvas covers the map viewport and is redrawn from the kernel density
+// after every pan/zoom. The kernel bandwidth is fixed in meters so hot spots
+// keep their real-world size across zoom levels.
+
+import L from 'leaflet';
+import { colorizeDensity, computeDensity, densityScale, HeatEvent, HEAT_SEVERITY_WEIGHTS } from './heatmap';
+
+export interface HeatLayerOptions {
+  bandwidthMeters?: number;
+  minRadiusPx?: number;
+  maxRadiusPx?: number;
+}
+
+const metersPerPixel = (map: L.Map) => {
+  const lat = map.getCenter().lat;
+  return 40075016.686 * Math.cos(lat * Math.PI / 180) / Math.pow(2, map.getZoom() + 8);
+};
+
+export function createHeatLayer(
+  map: L.Map,
+  { bandwidthMeters = 150, minRadiusPx = 6, maxRadiusPx = 60 }: HeatLayerOptions = {}
+) {
+  const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+  canvas.style.pointerEvents = 'none';
+  map.getPanes().overlayPane.appendChild(canvas);
+
+  let events: HeatEvent[] = [];
+  let frame: number | null = null;
+
+  const radiusPx = () =>
+    Math.max(minRadiusPx, Math.min(maxRadiusPx, bandwidthMeters / metersPerPixel(map)));
+
+  const draw = () => {
+    frame = null;
+    const size = map.getSize();
+    if (size.x === 0 || size.y === 0) return;
+
+    // Keep the canvas pinned to the viewport while the map pane moves underneath
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+    canvas.width = size.x;
+    canvas.height = size.y;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    if (events.length === 0) {
+      ctx.clearRect(0, 0, size.x, size.y);
+      return;
+    }
+
+    const points = events.map(e => {
+      const p = map.latLngToContainerPoint([e.lat, e.lng]);
+      return { x: p.x, y: p.y, weight: HEAT_SEVERITY_WEIGHTS[e.severity] ?? 1 };
+    });
+    const density = computeDensity(points, size.x, size.y, radiusPx());
+    const pixels = colorizeDensity(density, densityScale(density));
+    ctx.putImageData(new ImageData(pixels, size.x, size.y), 0, 0);
+  };
+
+  const scheduleDraw = () => {
+    if (frame === null) frame = requestAnimationFrame(draw);
+  };
+
+  map.on('moveend zoomend resize', scheduleDraw);
+
+  const setEvents = (next: HeatEvent[]) => {
+    events = next;
+    scheduleDraw();
+  };
+
+  // Events close enough to a clicked point to contribute to the heat there, nearest first
+  const eventsAt = (latlng: L.LatLng, maxDistancePx = radiusPx()): HeatEvent[] => {
+    const target = map.latLngToContainerPoint(latlng);
+    return events
+      .map(e => ({ e, d: target.distanceTo(map.latLngToContainerPoint([e.lat, e.lng])) }))
+      .filter(({ d }) => d <= maxDistancePx)
+      .sort((a, b) => a.d - b.d)
+      .map(({ e }) => e);
+  };
+
+  const remove = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    map.off('moveend zoomend resize', scheduleDraw);
+    canvas.remove();
+  };
+
+  scheduleDraw();
+
+  return { setEvents, eventsAt, redraw: scheduleDraw, remove };
+}
+
+export type HeatLayer = ReturnType<typeof createHeatLayer>;
@@ -0,0 +1,170 @@
+// Kernel density estimation for the accident heatmap.
+// Weighted points in screen space are splatted with a precomputed Gaussian
+// kernel into a density grid, which is then mapped through a color ramp into
+// RGBA pixels for a canvas. Event filtering for the heatmap controls lives
+// here as well so it can be shared and reasoned about without a map.
+
+export type HeatSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface HeatEvent {
+  id: string;
+  lat: number;
+  lng: number;
+  severity: HeatSeverity;
+  timestamp: string;
+  weather: string | null;
+  relativeSpeed: number | null;
+}
+
+export interface HeatPoint {
+  x: number;
+  y: number;
+  weight: number;
+}
+
+export type TimeWindow = '24h' | '7d' | '30d' | 'custom';
+
+export interface HeatFilter {
+  hourRange: [number, number]; // local hours, start inclusive, end exclusive; wraps past midnight when start > end
+  weather: string | null; // null = any
+}
+
+export const HEAT_SEVERITY_WEIGHTS: Record<HeatSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 4,
+  critical: 8,
+};
+
+const WINDOW_MS: Record<Exclude<TimeWindow, 'custom'>, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+// Color ramp stops: position in [0, 1] -> RGB
+const RAMP: [number, [number, number, number]][] = [
+  [0, [34, 197, 94]],
+  [0.35, [234, 179, 8]],
+  [0.65, [249, 115, 22]],
+  [1, [239, 68, 68]],
+];
+
+export const timeWindowRange = (
+  timeWindow: TimeWindow,
+  custom: { from: Date | null; to: Date | null },
+  now = Date.now()
+): { from: Date; to: Date } => {
+  if (timeWindow === 'custom') {
+    return {
+      from: custom.from ?? new Date(now - WINDOW_MS['30d']),
+      to: custom.to ?? new Date(now),
+    };
+  }
+  return { from: new Date(now - WINDOW_MS[timeWindow]), to: new Date(now) };
+};
+
+export const filterHeatEvents = (events: HeatEvent[], { hourRange, weather }: HeatFilter): HeatEvent[] => {
+  const [startHour, endHour] = hourRange;
+  return events.filter(e => {
+    const hour = new Date(e.timestamp).getHours();
+    const inRange = startHour <= endHour
+      ? hour >= startHour && hour < endHour
+      : hour >= startHour || hour < endHour;
+    if (!inRange) return false;
+    if (weather && (e.weather ?? 'unknown') !== weather) return false;
+    return true;
+  });
+};
+
+// Gaussian kernel stamp covering +-3 sigma
+const kernelCache = new Map<number, { size: number; values: Float32Array }>();
+const getKernel = (radius: number) => {
+  const r = Math.max(1, Math.round(radius));
+  const cached = kernelCache.get(r);
+  if (cached) return cached;
+
+  const size = 2 * r + 1;
+  const sigma = r / 3;
+  const values = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = x - r;
+      const dy = y - r;
+      values[y * size + x] = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+    }
+  }
+  const kernel = { size, values };
+  kernelCache.set(r, kernel);
+  return kernel;
+};
+
+export function computeDensity(points: HeatPoint[], width: number, height: number, radius: number): Float32Array {
+  const density = new Float32Array(width * height);
+  const { size, values } = getKernel(radius);
+  const r = (size - 1) / 2;
+
+  for (const p of points) {
+    const px = Math.round(p.x);
+    const py = Math.round(p.y);
+    if (px < -r || py < -r || px >= width + r || py >= height + r) continue;
+
+    const x0 = Math.max(0, px - r);
+    const x1 = Math.min(width - 1, px + r);
+    const y0 = Math.max(0, py - r);
+    const y1 = Math.min(height - 1, py + r);
+    for (let y = y0; y <= y1; y++) {
+      const row = (y - py + r) * size;
+      const offset = y * width;
+      for (let x = x0; x <= x1; x++) {
+        density[offset + x] += values[row + x - px + r] * p.weight;
+      }
+    }
+  }
+  return density;
+}
+
+// Normalization level; a high percentile keeps one extreme hot spot from washing out the rest
+export const densityScale = (density: Float32Array, percentile = 0.995): number => {
+  const nonZero: number[] = [];
+  for (let i = 0; i < density.length; i++) {
+    if (density[i] > 1e-6) nonZero.push(density[i]);
+  }
+  if (nonZero.length === 0) return 0;
+  nonZero.sort((a, b) => a - b);
+  return nonZero[Math.min(nonZero.length - 1, Math.floor(nonZero.length * percentile))];
+};
+
+const rampColor = (t: number): [number, number, number] => {
+  for (let i = 1; i < RAMP.length; i++) {
+    const [p1, c1] = RAMP[i];
+    if (t <= p1) {
+      const [p0, c0] = RAMP[i - 1];
+      const f = (t - p0) / (p1 - p0);
+      return [
+        c0[0] + (c1[0] - c0[0]) * f,
+        c0[1] + (c1[1] - c0[1]) * f,
+        c0[2] + (c1[2] - c0[2]) * f,
+      ];
+    }
+  }
+  return RAMP[RAMP.length - 1][1];
+};
+
+export function colorizeDensity(density: Float32Array, scale: number, maxAlpha = 0.75): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(density.length * 4);
+  if (scale <= 0) return pixels;
+
+  for (let i = 0; i < density.length; i++) {
+    const t = Math.min(1, density[i] / scale);
+    if (t < 0.02) continue;
+    const [r, g, b] = rampColor(t);
+    const p = i * 4;
+    pixels[p] = r;
+    pixels[p + 1] = g;
+    pixels[p + 2] = b;
+    // Faint edges fade in so the layer doesn't cover the map with green
+    pixels[p + 3] = Math.round(255 * maxAlpha * Math.min(1, t * 2));
+  }
+  return pixels;
+}
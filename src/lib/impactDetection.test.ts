@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { assessImpact, createImpactDetector, gForce, impactDirection } from './impactDetection';
+import { IMPACT_AT, traces } from '@/test/scenarios';
+
+const G = 9.81;
+
+describe('impactDirection', () => {
+  it.each([
+    [{ x: 0, y: -5, z: 0 }, 'front'],
+    [{ x: 0, y: 5, z: 0 }, 'rear'],
+    [{ x: -5, y: 1, z: 1 }, 'right'],
+    [{ x: 5, y: 1, z: 1 }, 'left'],
+    [{ x: 1, y: 1, z: -5 }, 'top'],
+    [{ x: 1, y: 1, z: 5 }, 'bottom'],
+  ] as const)('maps %o to %s', (v, direction) => {
+    expect(impactDirection(v)).toBe(direction);
+  });
+});
+
+describe('assessImpact', () => {
+  it('ignores samples below the threshold', () => {
+    expect(assessImpact({ x: 0, y: 0, z: 2.4 * G })).toBeNull();
+    expect(assessImpact({ x: 0, y: 0, z: 3 * G }, 3.5)).toBeNull();
+  });
+
+  it('grades an impact with the crash severity scale', () => {
+    expect(assessImpact({ x: 0, y: -2.5 * G, z: 0 })).toMatchObject({ severity: 'low', direction: 'front' });
+    expect(assessImpact({ x: 0, y: 5 * G, z: 0 })).toMatchObject({ severity: 'high', direction: 'rear' });
+    expect(assessImpact({ x: 8 * G, y: 0, z: 0 })?.gForce).toBeCloseTo(8);
+  });
+});
+
+describe('createImpactDetector', () => {
+  it('raises one alert per impact within the cooldown', () => {
+    const detector = createImpactDetector({ cooldownMs: 3000 });
+    const hit = { x: 0, y: 0, z: 4 * G };
+
+    expect(detector.update(hit, 1000)).not.toBeNull();
+    expect(detector.update(hit, 1020)).toBeNull();
+    expect(detector.update(hit, 3999)).toBeNull();
+    expect(detector.update(hit, 4000)).not.toBeNull();
+  });
+
+  it('starts over after a reset', () => {
+    const detector = createImpactDetector();
+    const hit = { x: 0, y: 0, z: 4 * G };
+
+    detector.update(hit, 1000);
+    detector.reset();
+    expect(detector.update(hit, 1010)).not.toBeNull();
+  });
+
+  // The fast alert fires on potholes as well; telling them apart is the crash detector's job
+  it('alerts once for the pothole jolt and not for road vibration', () => {
+    const detector = createImpactDetector();
+    const impacts = traces.pothole.motion
+      .map(sample => ({ t: sample.t, impact: detector.update(sample.acceleration, sample.t) }))
+      .filter(({ impact }) => impact !== null);
+
+    expect(impacts).toHaveLength(1);
+    expect(impacts[0].t).toBe(IMPACT_AT);
+    expect(impacts[0].impact?.severity).toBe('low');
+  });
+
+  it('stays quiet through a hard brake', () => {
+    const detector = createImpactDetector();
+    expect(traces.hardBrake.motion.some(s => detector.update(s.acceleration, s.t))).toBe(false);
+    expect(gForce(traces.hardBrake.motion[IMPACT_AT / 20].acceleration)).toBeCloseTo(0.9);
+  });
+});
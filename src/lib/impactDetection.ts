@@ -0,0 +1,60 @@
+// Single-sample impact detection.
+// Grades one acceleration sample (gravity removed, vehicle frame) against a G
+// threshold and tells which side it came from. It is the fast first alert;
+// telling a crash from a pothole or a dropped phone is left to the crash detector.
+
+import { CrashSeverity, severityFromG, Vec3 } from './crashDetection';
+
+export type ImpactDirection = 'front' | 'rear' | 'left' | 'right' | 'top' | 'bottom';
+
+export interface Impact {
+  gForce: number;
+  severity: CrashSeverity;
+  direction: ImpactDirection;
+}
+
+export interface ImpactDetectorOptions {
+  threshold?: number; // G
+  cooldownMs?: number; // one alert per impact
+}
+
+const G = 9.81;
+
+export const gForce = ({ x, y, z }: Vec3): number => Math.sqrt(x * x + y * y + z * z) / G;
+
+// Dominant axis of the vehicle frame (x right, y forward, z up). A blow pushes
+// the car away from it, so the impact comes from opposite the acceleration.
+export const impactDirection = ({ x, y, z }: Vec3): ImpactDirection => {
+  const absX = Math.abs(x);
+  const absY = Math.abs(y);
+  const absZ = Math.abs(z);
+
+  if (absY >= absX && absY >= absZ) return y < 0 ? 'front' : 'rear';
+  if (absX >= absZ) return x > 0 ? 'left' : 'right';
+  return z > 0 ? 'bottom' : 'top';
+};
+
+export const assessImpact = (acceleration: Vec3, threshold = 2.5): Impact | null => {
+  const g = gForce(acceleration);
+  if (g < threshold) return null;
+  return { gForce: g, severity: severityFromG(g), direction: impactDirection(acceleration) };
+};
+
+export function createImpactDetector({ threshold = 2.5, cooldownMs = 3000 }: ImpactDetectorOptions = {}) {
+  let lastImpactAt = -Infinity;
+
+  const update = (acceleration: Vec3, now: number): Impact | null => {
+    if (now - lastImpactAt < cooldownMs) return null;
+    const impact = assessImpact(acceleration, threshold);
+    if (impact) lastImpactAt = now;
+    return impact;
+  };
+
+  const reset = () => {
+    lastImpactAt = -Infinity;
+  };
+
+  return { update, reset };
+}
+
+export type ImpactDetector = ReturnType<typeof createImpactDetector>;
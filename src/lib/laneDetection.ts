@@ -0,0 +1,217 @@
+// Lane-line detection for the dashcam feed.
+// Classic pipeline on a downscaled frame: grayscale, Sobel edges, a trapezoid
+// region of interest in front of the car and a Hough transform restricted to
+// the slopes lane markings can have. Results are smoothed over frames by the
+// lane tracker, which also derives our offset in the lane and departures.
+
+export interface LaneLine {
+  x1: number;
+  y1: number; // bottom of the region of interest
+  x2: number;
+  y2: number; // top of the region of interest
+}
+
+export interface LaneDetection {
+  left: LaneLine | null;
+  right: LaneLine | null;
+}
+
+export interface LaneImage {
+  data: Uint8ClampedArray; // RGBA
+  width: number;
+  height: number;
+}
+
+export interface LaneDetectionOptions {
+  roiTop?: number; // fraction of height where the region of interest starts
+  edgeThreshold?: number; // Sobel magnitude threshold
+  minVotes?: number; // minimum Hough votes for a line, relative to image height
+}
+
+export type LaneDeparture = 'left' | 'right' | null;
+
+export interface LaneState extends LaneDetection {
+  offset: number | null; // -1 (on left line) .. 1 (on right line), 0 = centered
+  departure: LaneDeparture;
+}
+
+export interface LaneTrackerOptions {
+  smoothing?: number; // weight of a new detection
+  maxMissedFrames?: number; // frames a line survives without detection
+  departureThreshold?: number; // |offset| that counts as drifting
+  recoveryThreshold?: number; // |offset| that clears a departure
+  minDepartureFrames?: number; // consecutive frames before a departure is reported
+}
+
+const DEG = Math.PI / 180;
+// Normal angles of lines lane markings can take; left markings lean one way, right the other
+const THETAS = Array.from({ length: 56 }, (_, i) => (15 + i) * DEG);
+
+// X coordinate of a lane line at a given y
+export const laneXAt = (line: LaneLine, y: number): number => {
+  if (line.y1 === line.y2) return line.x1;
+  return line.x1 + (line.x2 - line.x1) * (y - line.y1) / (line.y2 - line.y1);
+};
+
+export const scaleLane = (line: LaneLine | null, sx: number, sy: number): LaneLine | null =>
+  line ? { x1: line.x1 * sx, y1: line.y1 * sy, x2: line.x2 * sx, y2: line.y2 * sy } : null;
+
+export function detectLanes(
+  image: LaneImage,
+  { roiTop = 0.55, edgeThreshold = 120, minVotes = 0.25 }: LaneDetectionOptions = {}
+): LaneDetection {
+  const { data, width, height } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = data[p] * 0.299 + data[p + 1] * 0.587 + data[p + 2] * 0.114;
+  }
+
+  const top = Math.floor(height * roiTop);
+  const bottom = height - 1;
+  const cx = width / 2;
+  const diag = Math.ceil(Math.hypot(width, height));
+  const leftAcc = new Uint16Array(THETAS.length * (2 * diag + 1));
+  const rightAcc = new Uint16Array(THETAS.length * (2 * diag + 1));
+  const cosT = THETAS.map(Math.cos);
+  const sinT = THETAS.map(Math.sin);
+
+  for (let y = Math.max(1, top); y < bottom; y++) {
+    // Trapezoid: narrow at the horizon, full width at the bottom
+    const spread = 0.15 + 0.85 * (y - top) / (bottom - top);
+    const xMin = Math.max(1, Math.floor(cx - cx * spread));
+    const xMax = Math.min(width - 2, Math.ceil(cx + cx * spread));
+
+    for (let x = xMin; x <= xMax; x++) {
+      const i = y * width + x;
+      const gx =
+        gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1];
+      const gy =
+        gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1];
+      // Lane markings are steep edges; skip weak and near-horizontal gradients
+      if (Math.abs(gx) + Math.abs(gy) < edgeThreshold || Math.abs(gx) < Math.abs(gy) * 0.3) continue;
+
+      // Left markings live left of center and rise to the right: normal angle +theta
+      if (x < cx) {
+        for (let t = 0; t < THETAS.length; t++) {
+          const rho = Math.round(x * cosT[t] + y * sinT[t]);
+          leftAcc[t * (2 * diag + 1) + rho + diag]++;
+        }
+      } else {
+        for (let t = 0; t < THETAS.length; t++) {
+          const rho = Math.round(x * cosT[t] - y * sinT[t]);
+          rightAcc[t * (2 * diag + 1) + rho + diag]++;
+        }
+      }
+    }
+  }
+
+  const threshold = Math.max(8, Math.round((bottom - top) * minVotes));
+
+  const bestLine = (acc: Uint16Array, sign: 1 | -1): LaneLine | null => {
+    let best = 0;
+    let bestIndex = -1;
+    for (let i = 0; i < acc.length; i++) {
+      if (acc[i] > best) {
+        best = acc[i];
+        bestIndex = i;
+      }
+    }
+    if (best < threshold || bestIndex < 0) return null;
+
+    const t = Math.floor(bestIndex / (2 * diag + 1));
+    const rho = bestIndex % (2 * diag + 1) - diag;
+    // rho = x cos(t) + sign * y sin(t)  =>  x = (rho - sign * y sin(t)) / cos(t)
+    const xAt = (y: number) => (rho - sign * y * sinT[t]) / cosT[t];
+    return { x1: xAt(bottom), y1: bottom, x2: xAt(top), y2: top };
+  };
+
+  return {
+    left: bestLine(leftAcc, 1),
+    right: bestLine(rightAcc, -1),
+  };
+}
+
+// Is the bottom-center of a box (the contact point with the road) between our lane lines?
+export const isInLane = (bbox: [number, number, number, number], lanes: LaneDetection): boolean | null => {
+  if (!lanes.left || !lanes.right) return null;
+  const x = bbox[0] + bbox[2] / 2;
+  const y = bbox[1] + bbox[3];
+  return x >= laneXAt(lanes.left, y) && x <= laneXAt(lanes.right, y);
+};
+
+export function createLaneTracker({
+  smoothing = 0.3,
+  maxMissedFrames = 10,
+  departureThreshold = 0.6,
+  recoveryThreshold = 0.4,
+  minDepartureFrames = 5,
+}: LaneTrackerOptions = {}) {
+  let left: LaneLine | null = null;
+  let right: LaneLine | null = null;
+  let leftMissed = 0;
+  let rightMissed = 0;
+  let departure: LaneDeparture = null;
+  let driftFrames = 0;
+
+  const blend = (prev: LaneLine | null, next: LaneLine): LaneLine => prev
+    ? {
+      x1: prev.x1 + (next.x1 - prev.x1) * smoothing,
+      y1: next.y1,
+      x2: prev.x2 + (next.x2 - prev.x2) * smoothing,
+      y2: next.y2,
+    }
+    : next;
+
+  const update = (detection: LaneDetection, frameWidth: number): LaneState => {
+    if (detection.left) {
+      left = blend(left, detection.left);
+      leftMissed = 0;
+    } else if (++leftMissed > maxMissedFrames) {
+      left = null;
+    }
+    if (detection.right) {
+      right = blend(right, detection.right);
+      rightMissed = 0;
+    } else if (++rightMissed > maxMissedFrames) {
+      right = null;
+    }
+
+    let offset: number | null = null;
+    if (left && right) {
+      const laneHalfWidth = (right.x1 - left.x1) / 2;
+      if (laneHalfWidth > 0) {
+        const laneCenter = (left.x1 + right.x1) / 2;
+        // The camera is assumed to be mounted on the car's center line
+        offset = Math.max(-1.5, Math.min(1.5, (frameWidth / 2 - laneCenter) / laneHalfWidth));
+      }
+    }
+
+    if (offset === null) {
+      driftFrames = 0;
+      departure = null;
+    } else if (Math.abs(offset) >= departureThreshold) {
+      driftFrames++;
+      if (driftFrames >= minDepartureFrames) departure = offset < 0 ? 'left' : 'right';
+    } else if (Math.abs(offset) <= recoveryThreshold) {
+      driftFrames = 0;
+      departure = null;
+    }
+
+    return { left, right, offset, departure };
+  };
+
+  const reset = () => {
+    left = null;
+    right = null;
+    leftMissed = 0;
+    rightMissed = 0;
+    departure = null;
+    driftFrames = 0;
+  };
+
+  return { update, reset };
+}
+
+export type LaneTracker = ReturnType<typeof createLaneTracker>;
@@ -0,0 +1,276 @@
+// The phone's motion sensors, shared by every consumer.
+// However many hooks listen, the sensors (or, during a replay, the recorded
+// samples) are subscribed once. Each sample is recorded once, teaches the
+// mount calibration once and goes out to every listener rotated into the
+// vehicle frame. A replay learns its mount from the recording and the saved
+// one comes back when it ends.
+
+import { Motion, AccelListenerEvent, OrientationListenerEvent } from '@capacitor/motion';
+import { Capacitor, type PluginListenerHandle } from '@capacitor/core';
+import { driveSession } from './driveSession';
+import { CalibrationStatus, createMountCalibration, isVehicleFrame, VehicleFrame } from './mountCalibration';
+
+// Vehicle frame once published: x to the right, y forward, z up
+export interface MotionData {
+  acceleration: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  accelerationIncludingGravity: {
+    x: number;
+    y: number;
+    z: number;
+  };
+  rotationRate: {
+    alpha: number;
+    beta: number;
+    gamma: number;
+  };
+  orientation: {
+    alpha: number;
+    beta: number;
+    gamma: number;
+  };
+}
+
+// 'motion' for accelerometer samples, 'orientation' when only the orientation changed
+export type MotionListener = (sample: MotionData, type: 'motion' | 'orientation') => void;
+
+// learned: the live samples changed the calibration, rather than a reset, a restore or a replay
+export type CalibrationListener = (status: CalibrationStatus, learned: boolean) => void;
+
+type MotionUpdate = Omit<MotionData, 'orientation'> & Partial<Pick<MotionData, 'orientation'>>;
+
+const STORAGE_KEY = 'phone_mount_calibration';
+
+const EMPTY_SAMPLE: MotionData = {
+  acceleration: { x: 0, y: 0, z: 0 },
+  accelerationIncludingGravity: { x: 0, y: 0, z: 0 },
+  rotationRate: { alpha: 0, beta: 0, gamma: 0 },
+  orientation: { alpha: 0, beta: 0, gamma: 0 },
+};
+
+const isNative = () => Capacitor.isNativePlatform();
+
+const loadFrame = (): VehicleFrame | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const frame: unknown = stored ? JSON.parse(stored) : null;
+    return isVehicleFrame(frame) ? frame : null;
+  } catch (error) {
+    console.error('Failed to load mount calibration:', error);
+    return null;
+  }
+};
+
+const saveFrame = (frame: VehicleFrame | null) => {
+  try {
+    if (frame) localStorage.setItem(STORAGE_KEY, JSON.stringify(frame));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to save mount calibration:', error);
+  }
+};
+
+export function createMotionSource() {
+  const calibration = createMountCalibration();
+  const listeners = new Set<MotionListener>();
+  const calibrationListeners = new Set<CalibrationListener>();
+  let raw = EMPTY_SAMPLE; // phone frame, as recorded
+  let latest = EMPTY_SAMPLE;
+  // Resolves to the function that unsubscribes from the sensors
+  let connection: Promise<() => void> | null = null;
+  let isReplaying = false;
+  let initialized = false;
+
+  const notifyCalibration = (learned = false) => {
+    const status = calibration.getStatus();
+    calibrationListeners.forEach(listener => listener(status, learned));
+  };
+
+  const restoreSaved = () => {
+    calibration.reset();
+    const saved = loadFrame();
+    if (saved) calibration.restore(saved);
+  };
+
+  const publishMotion = (update: MotionUpdate) => {
+    raw = { ...raw, ...update };
+    driveSession.record({ type: 'motion', sample: raw });
+
+    const before = calibration.getStatus().state;
+    const after = calibration.addMotion(raw, driveSession.now());
+    if (after !== before) {
+      // A replayed drive must not replace the real mount
+      if (!isReplaying) saveFrame(after === 'calibrated' ? calibration.getStatus().frame : null);
+      notifyCalibration(!isReplaying);
+    }
+
+    latest = calibration.rotate(raw);
+    listeners.forEach(listener => listener(latest, 'motion'));
+  };
+
+  const publishOrientation = (orientation: MotionData['orientation']) => {
+    raw = { ...raw, orientation };
+    latest = { ...latest, orientation };
+    listeners.forEach(listener => listener(latest, 'orientation'));
+  };
+
+  const connectReplay = async () => driveSession.on('motion', event => publishMotion(event.sample));
+
+  const connectNative = async () => {
+    // Request permission on iOS
+    try {
+      await (DeviceMotionEvent as any).requestPermission?.();
+    } catch (e) {
+      // Permission API not available or denied
+    }
+
+    const handles: PluginListenerHandle[] = [
+      await Motion.addListener('accel', (event: AccelListenerEvent) => publishMotion({
+        acceleration: {
+          x: event.acceleration.x || 0,
+          y: event.acceleration.y || 0,
+          z: event.acceleration.z || 0,
+        },
+        accelerationIncludingGravity: {
+          x: event.accelerationIncludingGravity.x || 0,
+          y: event.accelerationIncludingGravity.y || 0,
+          z: event.accelerationIncludingGravity.z || 0,
+        },
+        rotationRate: {
+          alpha: event.rotationRate.alpha || 0,
+          beta: event.rotationRate.beta || 0,
+          gamma: event.rotationRate.gamma || 0,
+        },
+      })),
+      await Motion.addListener('orientation', (event: OrientationListenerEvent) => publishOrientation({
+        alpha: event.alpha || 0,
+        beta: event.beta || 0,
+        gamma: event.gamma || 0,
+      })),
+    ];
+    return () => {
+      // Only our own listeners; other plugins may be listening too
+      Promise.all(handles.map(handle => handle.remove())).catch(error => console.error('Failed to stop motion sensors:', error));
+    };
+  };
+
+  // Web fallback using DeviceMotionEvent
+  const connectWeb = async () => {
+    const handleMotion = (event: DeviceMotionEvent) => {
+      const accel = event.acceleration || { x: 0, y: 0, z: 0 };
+      const accelGravity = event.accelerationIncludingGravity || { x: 0, y: 0, z: 0 };
+      const rotation = event.rotationRate || { alpha: 0, beta: 0, gamma: 0 };
+      publishMotion({
+        acceleration: { x: accel.x || 0, y: accel.y || 0, z: accel.z || 0 },
+        accelerationIncludingGravity: { x: accelGravity.x || 0, y: accelGravity.y || 0, z: accelGravity.z || 0 },
+        rotationRate: { alpha: rotation.alpha || 0, beta: rotation.beta || 0, gamma: rotation.gamma || 0 },
+      });
+    };
+    const handleOrientation = (event: DeviceOrientationEvent) => publishOrientation({
+      alpha: event.alpha || 0,
+      beta: event.beta || 0,
+      gamma: event.gamma || 0,
+    });
+
+    window.addEventListener('devicemotion', handleMotion);
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => {
+      window.removeEventListener('devicemotion', handleMotion);
+      window.removeEventListener('deviceorientation', handleOrientation);
+    };
+  };
+
+  const connect = () => {
+    const next = isReplaying ? connectReplay() : isNative() ? connectNative() : connectWeb();
+    connection = next;
+    next.catch(() => {
+      if (connection === next) connection = null;
+    });
+    return next;
+  };
+
+  const disconnect = () => {
+    connection?.then(close => close()).catch(() => {});
+    connection = null;
+  };
+
+  // Loads the saved mount and follows replays; on first use rather than on import
+  const init = () => {
+    if (initialized) return;
+    initialized = true;
+    isReplaying = driveSession.getMode() === 'replay';
+    if (!isReplaying) restoreSaved();
+
+    driveSession.subscribe(() => {
+      const replaying = driveSession.getMode() === 'replay';
+      if (replaying === isReplaying) return;
+      isReplaying = replaying;
+      if (replaying) calibration.reset();
+      else restoreSaved();
+      notifyCalibration();
+
+      // Recorded samples stand in for the sensors, and the other way round
+      if (!connection) return;
+      disconnect();
+      connect().catch(error => console.error('Failed to switch motion sources:', error));
+    });
+  };
+
+  // Starts the sensors for the first listener and stops them after the last
+  const subscribe = async (listener: MotionListener): Promise<() => void> => {
+    init();
+    listeners.add(listener);
+    try {
+      await (connection ?? connect());
+    } catch (error) {
+      listeners.delete(listener);
+      throw error;
+    }
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) disconnect();
+    };
+  };
+
+  const getCalibration = (): CalibrationStatus => {
+    init();
+    return calibration.getStatus();
+  };
+
+  const onCalibrationChange = (listener: CalibrationListener) => {
+    init();
+    calibrationListeners.add(listener);
+    return () => {
+      calibrationListeners.delete(listener);
+    };
+  };
+
+  // km/h from OBD or GPS
+  const addSpeed = (speed: number) => {
+    init();
+    calibration.addSpeed(speed, driveSession.now());
+  };
+
+  const recalibrate = () => {
+    init();
+    calibration.reset();
+    if (!isReplaying) saveFrame(null);
+    notifyCalibration();
+  };
+
+  return {
+    subscribe,
+    getCalibration,
+    onCalibrationChange,
+    addSpeed,
+    recalibrate,
+    getForwardAxis: calibration.forwardAxis,
+  };
+}
+
+export type MotionSource = ReturnType<typeof createMotionSource>;
+
+export const motionSource = createMotionSource();
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import type { Vec3 } from './crashDetection';
+import { createMountCalibration, frameFromAxes, levelFrame, rotateSample, VehicleFrame } from './mountCalibration';
+
+const G = 9.81;
+
+const unit = (v: Vec3): Vec3 => {
+  const n = Math.hypot(v.x, v.y, v.z);
+  return { x: v.x / n, y: v.y / n, z: v.z / n };
+};
+
+const expectVec = (actual: Vec3, expected: Vec3) => {
+  expect(actual.x).toBeCloseTo(expected.x, 3);
+  expect(actual.y).toBeCloseTo(expected.y, 3);
+  expect(actual.z).toBeCloseTo(expected.z, 3);
+};
+
+// Vehicle-frame vector (x right, y forward, z up) as the phone would measure it
+const toPhone = (v: Vec3, mount: VehicleFrame): Vec3 => ({
+  x: v.x * mount.right.x + v.y * mount.forward.x + v.z * mount.up.x,
+  y: v.x * mount.right.y + v.y * mount.forward.y + v.z * mount.up.y,
+  z: v.x * mount.right.z + v.y * mount.forward.z + v.z * mount.up.z,
+});
+
+const add = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+
+const sampleFor = (forwardG: number, mount: VehicleFrame) => {
+  const acceleration = toPhone({ x: 0, y: forwardG * G, z: 0 }, mount);
+  const gravity = toPhone({ x: 0, y: 0, z: G }, mount);
+  return {
+    acceleration,
+    accelerationIncludingGravity: { x: acceleration.x + gravity.x, y: acceleration.y + gravity.y, z: acceleration.z + gravity.z },
+    rotationRate: { alpha: 0, beta: 0, gamma: 0 },
+  };
+};
+
+// Tilted back on the dash in landscape: the phone's x axis points roughly forward
+const MOUNT = frameFromAxes(unit({ x: 0, y: 0.6, z: 0.8 }), { x: 1, y: 0, z: 0 })!;
+
+// 3 s parked, then a steady 0.2G pull away
+const calibrate = (mount: VehicleFrame) => {
+  const calibration = createMountCalibration();
+  for (let t = 0; t <= 12000; t += 20) {
+    const accelerating = t >= 3000;
+    const speed = accelerating ? (t - 3000) / 1000 * 0.2 * G * 3.6 : 0;
+    if (t % 250 === 0) calibration.addSpeed(speed, t);
+    calibration.addMotion(sampleFor(accelerating ? 0.2 : 0, mount), t);
+  }
+  return calibration;
+};
+
+describe('levelFrame', () => {
+  it('keeps a flat phone as it is', () => {
+    const frame = levelFrame({ x: 0, y: 0, z: 1 });
+    expectVec(frame.right, { x: 1, y: 0, z: 0 });
+    expectVec(frame.forward, { x: 0, y: 1, z: 0 });
+  });
+
+  it('points forward out of the back of an upright phone', () => {
+    const frame = levelFrame({ x: 0, y: 1, z: 0 });
+    expectVec(frame.right, { x: 1, y: 0, z: 0 });
+    expectVec(frame.forward, { x: 0, y: 0, z: -1 });
+  });
+
+  it('stays right-handed for a phone lying face down', () => {
+    const frame = levelFrame({ x: 0, y: 0, z: -1 });
+    expectVec(frame.forward, { x: 0, y: -1, z: 0 });
+    const { right: r, forward: f } = frame;
+    expectVec({ x: r.y * f.z - r.z * f.y, y: r.z * f.x - r.x * f.z, z: r.x * f.y - r.y * f.x }, frame.up);
+  });
+});
+
+describe('rotateSample', () => {
+  it('maps phone axes and rotation rates onto the vehicle', () => {
+    const rotated = rotateSample({
+      acceleration: { x: 0, y: 0, z: -2 },
+      accelerationIncludingGravity: { x: 0, y: G, z: -2 },
+      rotationRate: { alpha: 0, beta: 0, gamma: 0 },
+    }, levelFrame({ x: 0, y: 1, z: 0 }));
+
+    expectVec(rotated.acceleration, { x: 0, y: 2, z: 0 });
+    expectVec(rotated.accelerationIncludingGravity, { x: 0, y: 2, z: G });
+
+    // Turning about the phone's y axis is yaw once the phone stands upright
+    const yawing = rotateSample({
+      acceleration: { x: 0, y: 0, z: 0 },
+      accelerationIncludingGravity: { x: 0, y: G, z: 0 },
+      rotationRate: { alpha: 0, beta: 0, gamma: 10 },
+    }, levelFrame({ x: 0, y: 1, z: 0 }));
+    expect(yawing.rotationRate.alpha).toBeCloseTo(10, 3);
+  });
+});
+
+describe('createMountCalibration', () => {
+  it('learns gravity while parked', () => {
+    const calibration = createMountCalibration();
+    for (let t = 0; t <= 2500; t += 20) {
+      if (t % 250 === 0) calibration.addSpeed(0, t);
+      calibration.addMotion(sampleFor(0, MOUNT), t);
+    }
+
+    const { state, frame } = calibration.getStatus();
+    expect(state).toBe('gravity');
+    expectVec(frame.up, MOUNT.up);
+  });
+
+  it('learns forward from pulling away and rotates into the vehicle frame', () => {
+    const calibration = calibrate(MOUNT);
+
+    const { state, frame } = calibration.getStatus();
+    expect(state).toBe('calibrated');
+    expectVec(frame.forward, MOUNT.forward);
+    expectVec(calibration.rotate(sampleFor(-0.5, MOUNT)).acceleration, { x: 0, y: -0.5 * G, z: 0 });
+  });
+
+  it('waits for the car to move before trusting forward', () => {
+    const calibration = createMountCalibration();
+    for (let t = 0; t <= 12000; t += 20) {
+      if (t % 250 === 0) calibration.addSpeed(0, t);
+      calibration.addMotion(sampleFor(t >= 3000 ? 0.2 : 0, MOUNT), t);
+    }
+    expect(calibration.getStatus()).toMatchObject({ state: 'gravity', progress: 0 });
+  });
+
+  it('stops learning once the car holds its speed, even with no new readings', () => {
+    // Parked, 6 s pulling away at 0.2G, 2 s braking, then a speed source that stays quiet
+    const calibration = createMountCalibration({ minSamples: 10000 });
+    const speedAt = (t: number) => {
+      const peak = 6 * 0.2 * G * 3.6;
+      if (t < 3000) return 0;
+      if (t < 9000) return (t - 3000) / 1000 * 0.2 * G * 3.6;
+      return peak - Math.min(2000, t - 9000) / 1000 * 0.2 * G * 3.6;
+    };
+    // A bumpy road while holding: sideways jolts that must not count as forward
+    const sway = { x: 0.15 * G, y: 0, z: 0 };
+    const holding = (t: number) => {
+      const sample = sampleFor(0, MOUNT);
+      const jolt = toPhone(sway, MOUNT);
+      return { ...sample, acceleration: jolt, accelerationIncludingGravity: add(sample.accelerationIncludingGravity, jolt) };
+    };
+
+    let progressAfterWindow = 0;
+    for (let t = 0; t <= 25000; t += 20) {
+      if (t % 250 === 0 && t <= 11000) calibration.addSpeed(speedAt(t), t);
+      const phase = t < 3000 ? 0 : t < 9000 ? 0.2 : t < 11000 ? -0.2 : null;
+      calibration.addMotion(phase === null ? holding(t) : sampleFor(phase, MOUNT), t);
+      if (t === 13000) progressAfterWindow = calibration.getStatus().progress;
+    }
+
+    expect(progressAfterWindow).toBeGreaterThan(0);
+    expect(calibration.getStatus().progress).toBe(progressAfterWindow);
+  });
+
+  it('starts over when the phone is moved', () => {
+    const calibration = calibrate(MOUNT);
+    const flat = levelFrame({ x: 0, y: 0, z: 1 });
+
+    expect(calibration.addMotion(sampleFor(0, flat), 12020)).toBe('calibrated');
+    let state = calibration.getStatus().state;
+    for (let t = 12040; t <= 17000; t += 20) state = calibration.addMotion(sampleFor(0, flat), t);
+    expect(state).toBe('uncalibrated');
+  });
+
+  it('restores a saved mount', () => {
+    const calibration = createMountCalibration();
+    calibration.restore(MOUNT);
+
+    expect(calibration.getStatus().state).toBe('calibrated');
+    expectVec(calibration.rotate(sampleFor(0.3, MOUNT)).acceleration, { x: 0, y: 0.3 * G, z: 0 });
+  });
+});
@@ -0,0 +1,226 @@
+// Phone-to-vehicle mount calibration.
+// The phone may sit in a dash holder, a cup holder or a pocket, so its axes
+// say nothing about the car's. Gravity averaged while the car stands still
+// gives "up"; the horizontal direction the phone accelerates in while the
+// speed rises (and against while it falls) on straight road gives "forward".
+// Samples are then rotated into the vehicle frame: x to the right, y forward,
+// z up. Until forward is known the phone is assumed to be level-mounted with
+// its top towards the bonnet. When gravity stays away from "up" the phone has
+// been moved and calibration starts over.
+
+import type { Vec3 } from './crashDetection';
+import type { MotionSample } from './positionFilter';
+import { createSpeedTrend } from './speedTrend';
+import { add, cross, dot, length, normalize, scale } from './vector';
+
+export type CalibrationState = 'uncalibrated' | 'gravity' | 'calibrated';
+
+// Vehicle axes as unit vectors in the phone frame
+export interface VehicleFrame {
+  right: Vec3;
+  forward: Vec3;
+  up: Vec3;
+}
+
+export interface CalibrationStatus {
+  state: CalibrationState;
+  progress: number; // 0-1, evidence collected for the forward axis
+  frame: VehicleFrame;
+}
+
+export interface MountCalibrationOptions {
+  restMs?: number; // stillness needed to take gravity
+  restLimit?: number; // m/s² of linear acceleration treated as rest
+  minAccelG?: number; // speed change needed to learn from a sample
+  maxYawRate?: number; // degrees/s; turns mix lateral into the estimate
+  minSamples?: number; // accelerating samples before forward is trusted
+  minConsistency?: number; // 0-1, how well the samples agree on a direction
+  remountAngle?: number; // degrees gravity must move to count as remounted
+  remountMs?: number;
+}
+
+const STILL_SPEED = 1; // km/h
+const MIN_LEARNING_SPEED = 5; // km/h
+const GRAVITY_SMOOTHING_MS = 1000;
+
+const X: Vec3 = { x: 1, y: 0, z: 0 };
+const Y: Vec3 = { x: 0, y: 1, z: 0 };
+const Z: Vec3 = { x: 0, y: 0, z: 1 };
+const IDENTITY: VehicleFrame = { right: X, forward: Y, up: Z };
+
+const horizontal = (v: Vec3, up: Vec3): Vec3 => add(v, scale(up, -dot(v, up)));
+const angleBetween = (a: Vec3, b: Vec3) =>
+  Math.acos(Math.max(-1, Math.min(1, dot(a, b) / (length(a) * length(b) || 1)))) * 180 / Math.PI;
+
+// Rodrigues rotation of v about the unit axis k
+const rotate = (v: Vec3, k: Vec3, angle: number): Vec3 =>
+  add(add(scale(v, Math.cos(angle)), scale(cross(k, v), Math.sin(angle))), scale(k, dot(k, v) * (1 - Math.cos(angle))));
+
+// Only "up" known: the smallest rotation that levels the phone decides forward
+export const levelFrame = (up: Vec3): VehicleFrame => {
+  const angle = Math.acos(Math.max(-1, Math.min(1, up.z)));
+  const axis = normalize(cross(Z, up)) ?? X;
+  return { right: rotate(X, axis, angle), forward: rotate(Y, axis, angle), up };
+};
+
+// Right-handed frame from up and a rough forward direction
+export const frameFromAxes = (up: Vec3, forward: Vec3): VehicleFrame | null => {
+  const right = normalize(cross(forward, up));
+  if (!right) return null;
+  return { right, forward: cross(up, right), up };
+};
+
+const isVec3 = (v: unknown): v is Vec3 =>
+  typeof v === 'object' && v !== null && ['x', 'y', 'z'].every(k => Number.isFinite((v as Record<string, unknown>)[k]));
+
+// A saved mount, checked before it is trusted
+export const isVehicleFrame = (value: unknown): value is VehicleFrame =>
+  typeof value === 'object' && value !== null &&
+  (['right', 'forward', 'up'] as const).every(axis => isVec3((value as Record<string, unknown>)[axis]));
+
+const toVehicle = (v: Vec3, frame: VehicleFrame): Vec3 => ({
+  x: dot(v, frame.right),
+  y: dot(v, frame.forward),
+  z: dot(v, frame.up),
+});
+
+// DeviceMotion rotation rates: alpha about z, beta about x, gamma about y
+export const rotateSample = <T extends MotionSample>(sample: T, frame: VehicleFrame): T => {
+  const omega = toVehicle({ x: sample.rotationRate.beta, y: sample.rotationRate.gamma, z: sample.rotationRate.alpha }, frame);
+  return {
+    ...sample,
+    acceleration: toVehicle(sample.acceleration, frame),
+    accelerationIncludingGravity: toVehicle(sample.accelerationIncludingGravity, frame),
+    rotationRate: { alpha: omega.z, beta: omega.x, gamma: omega.y },
+  };
+};
+
+export function createMountCalibration({
+  restMs = 2000,
+  restLimit = 0.3,
+  minAccelG = 0.08,
+  maxYawRate = 3,
+  minSamples = 150,
+  minConsistency = 0.7,
+  remountAngle = 25,
+  remountMs = 2000,
+}: MountCalibrationOptions = {}) {
+  let state: CalibrationState = 'uncalibrated';
+  let frame: VehicleFrame = IDENTITY;
+  const speeds = createSpeedTrend();
+  let rest: { since: number; sum: Vec3; count: number } | null = null;
+  let gravity: Vec3 | null = null; // smoothed, phone frame
+  let lastMotionAt: number | null = null;
+  let movedSince: number | null = null;
+  // Signed horizontal acceleration summed over accelerating and braking samples
+  let evidence = { sum: { x: 0, y: 0, z: 0 }, magnitude: 0, count: 0 };
+
+  const startOver = () => {
+    state = 'uncalibrated';
+    frame = IDENTITY;
+    rest = null;
+    movedSince = null;
+    evidence = { sum: { x: 0, y: 0, z: 0 }, magnitude: 0, count: 0 };
+  };
+
+  const learnGravity = (sample: MotionSample, t: number, speed: number) => {
+    const still = speed <= STILL_SPEED && length(sample.acceleration) <= restLimit;
+    if (!still) {
+      rest = null;
+      return;
+    }
+    rest = rest ?? { since: t, sum: { x: 0, y: 0, z: 0 }, count: 0 };
+    rest.sum = add(rest.sum, sample.accelerationIncludingGravity);
+    rest.count += 1;
+    if (t - rest.since < restMs) return;
+
+    const up = normalize(rest.sum);
+    rest = null;
+    if (!up) return;
+    frame = levelFrame(up);
+    state = 'gravity';
+  };
+
+  const learnForward = (sample: MotionSample, speed: number, accel: number | null) => {
+    if (accel === null || Math.abs(accel) < minAccelG * 9.81 || speed < MIN_LEARNING_SPEED) return;
+    const { up } = frame;
+    const yawRate = sample.rotationRate.beta * up.x + sample.rotationRate.gamma * up.y + sample.rotationRate.alpha * up.z;
+    if (Math.abs(yawRate) > maxYawRate) return;
+
+    const h = horizontal(sample.acceleration, up);
+    const magnitude = length(h);
+    if (magnitude < 0.5 * Math.abs(accel)) return;
+    evidence.sum = add(evidence.sum, scale(h, Math.sign(accel)));
+    evidence.magnitude += magnitude;
+    evidence.count += 1;
+
+    if (evidence.count < minSamples || length(evidence.sum) / evidence.magnitude < minConsistency) return;
+    const forward = normalize(horizontal(evidence.sum, up));
+    const next = forward && frameFromAxes(up, forward);
+    if (!next) return;
+    frame = next;
+    state = 'calibrated';
+  };
+
+  // Gravity that stays away from "up" means the phone was picked up or remounted
+  const watchMount = (sample: MotionSample, t: number) => {
+    const measured = add(sample.accelerationIncludingGravity, scale(sample.acceleration, -1));
+    const alpha = lastMotionAt === null ? 1 : Math.min(1, Math.max(0, t - lastMotionAt) / GRAVITY_SMOOTHING_MS);
+    gravity = gravity ? add(gravity, scale(add(measured, scale(gravity, -1)), alpha)) : measured;
+    if (state === 'uncalibrated') return;
+
+    if (angleBetween(gravity, frame.up) < remountAngle) {
+      movedSince = null;
+    } else if (movedSince === null) {
+      movedSince = t;
+    } else if (t - movedSince >= remountMs) {
+      startOver();
+    }
+  };
+
+  const addMotion = (sample: MotionSample, t: number): CalibrationState => {
+    const speed = speeds.current();
+    const accel = speeds.slope(t);
+    watchMount(sample, t);
+    lastMotionAt = t;
+    if (state === 'uncalibrated') learnGravity(sample, t, speed);
+    else learnForward(sample, speed, accel);
+    return state;
+  };
+
+  // km/h from OBD or GPS
+  const addSpeed = (speed: number, t: number) => speeds.add(speed, t);
+
+  const getStatus = (): CalibrationStatus => ({
+    state,
+    progress: state === 'calibrated' ? 1 : Math.min(1, evidence.count / minSamples),
+    frame,
+  });
+
+  // A mount learned on an earlier ride; dropped like any other once the phone moves
+  const restore = (saved: VehicleFrame) => {
+    startOver();
+    frame = saved;
+    state = 'calibrated';
+  };
+
+  const reset = () => {
+    startOver();
+    speeds.reset();
+    gravity = null;
+    lastMotionAt = null;
+  };
+
+  return {
+    addMotion,
+    addSpeed,
+    rotate: <T extends MotionSample>(sample: T): T => rotateSample(sample, frame),
+    // Forward in rotated samples, once it has been learned rather than assumed
+    forwardAxis: (): Vec3 | null => (state === 'calibrated' ? Y : null),
+    getStatus,
+    restore,
+    reset,
+  };
+}
+
+export type MountCalibration = ReturnType<typeof createMountCalibration>;
@@ -0,0 +1,223 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createObdClient, decodeDtc, decodeDtcs, decodeSupportedPids, decodeVin, ObdReading, ObdTransport, parseMessages, PID_DEFINITIONS, responseLines } from './obd2';
+import { createSimulatedElm327 } from './elm327Simulator';
+
+const VIN = '1D4GP00R55B123456';
+
+describe('responseLines', () => {
+  it('drops the echo, prompt and search notice', () => {
+    expect(responseLines('010D\rSEARCHING...\r41 0D 32\r\r>', '010D')).toEqual(['41 0D 32']);
+    expect(responseLines('BUS INIT: ...OK\r410D32\r\r', '010D')).toEqual(['410D32']);
+  });
+});
+
+describe('parseMessages', () => {
+  it('returns one message per answering ECU', () => {
+    expect(parseMessages(['41 0D 32', '41 0D 33'])).toEqual([[0x41, 0x0d, 0x32], [0x41, 0x0d, 0x33]]);
+    expect(parseMessages(['410C1AF8'])).toEqual([[0x41, 0x0c, 0x1a, 0xf8]]);
+  });
+
+  it('reassembles an ISO-TP multi-frame response and drops the padding', () => {
+    const messages = parseMessages([
+      '014',
+      '0: 49 02 01 31 44 34',
+      '1: 47 50 30 30 52 35 35',
+      '2: 42 31 32 33 34 35 36',
+    ]);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toHaveLength(0x14);
+    expect(decodeVin(messages)).toBe(VIN);
+  });
+
+  it('keeps single frames before and after a multi-frame message apart', () => {
+    expect(parseMessages(['41 00 BE 3F', '009', '0: 43 03 01 33 02 20', '1: 04 20 00 00 00 00 00']))
+      .toEqual([[0x41, 0x00, 0xbe, 0x3f], [0x43, 0x03, 0x01, 0x33, 0x02, 0x20, 0x04, 0x20, 0x00]]);
+  });
+
+  it('ignores lines that are not hex data', () => {
+    expect(parseMessages(['NO DATA', 'OK'])).toEqual([]);
+  });
+});
+
+describe('decoders', () => {
+  it.each([
+    [0x0d, [0x32], 50],
+    [0x0c, [0x1a, 0xf8], 1726],
+    [0x05, [0x7b], 83],
+    [0x11, [0xff], 100],
+    [0x2f, [0x80], 50.2],
+  ])('decodes PID %i', (pid, data, value) => {
+    expect(PID_DEFINITIONS[pid].decode(data)).toBe(value);
+  });
+
+  it('reads the supported PID bitmask', () => {
+    expect(decodeSupportedPids(0x00, [0x08, 0x18, 0x80, 0x01])).toEqual([0x05, 0x0c, 0x0d, 0x11, 0x20]);
+    expect(decodeSupportedPids(0x20, [0x00, 0x02, 0x00, 0x00])).toEqual([0x2f]);
+  });
+
+  it('joins numbered VIN frames from older buses', () => {
+    const frames = [[0, 0, 0, 0x31], [0x44, 0x34, 0x47, 0x50], [0x30, 0x30, 0x52, 0x35], [0x35, 0x42, 0x31, 0x32], [0x33, 0x34, 0x35, 0x36]]
+      .map((data, i) => [0x49, 0x02, i + 1, ...data]);
+    expect(decodeVin([...frames].reverse())).toBe(VIN);
+  });
+});
+
+describe('trouble codes', () => {
+  it.each([
+    [0x01, 0x33, 'P0133'],
+    [0x03, 0x01, 'P0301'],
+    [0x41, 0x23, 'C0123'],
+    [0x9a, 0x0f, 'B1A0F'],
+    [0xc1, 0x00, 'U0100'],
+  ])('decodes %i %i as %s', (a, b, code) => {
+    expect(decodeDtc(a, b)).toBe(code);
+  });
+
+  it('skips the CAN code count', () => {
+    expect(decodeDtcs([[0x43, 0x03, 0x01, 0x33, 0x02, 0x20, 0x04, 0x20]], 0x43)).toEqual(['P0133', 'P0220', 'P0420']);
+    expect(decodeDtcs([[0x43, 0x00]], 0x43)).toEqual([]);
+  });
+
+  it('joins padded frames from older buses and from several ECUs', () => {
+    const messages = [
+      [0x47, 0x01, 0x33, 0x00, 0x00, 0x00, 0x00],
+      [0x47, 0x01, 0x33, 0xc1, 0x00, 0x00, 0x00],
+      [0x43, 0x03, 0x01, 0x00, 0x00, 0x00, 0x00],
+    ];
+    expect(decodeDtcs(messages, 0x47)).toEqual(['P0133', 'U0100']);
+  });
+});
+
+describe('createObdClient', () => {
+  const vehicle = { speed: 72, rpm: 2150, coolantTemp: 88, throttle: 30, fuelLevel: 45, batteryVoltage: 13.9, vin: VIN };
+
+  const nextReading = (client: ReturnType<typeof createObdClient>) =>
+    new Promise<ObdReading>(resolve => {
+      const unsubscribe = client.subscribe(reading => {
+        unsubscribe();
+        resolve(reading);
+      });
+    });
+
+  let client: ReturnType<typeof createObdClient> | null = null;
+  afterEach(() => client?.close());
+
+  it('runs the handshake and reports the adapter', async () => {
+    client = createObdClient(createSimulatedElm327({ vehicle, chunkSize: 7 }));
+    const info = await client.initialize();
+
+    expect(info.version).toBe('ELM327 v1.5');
+    expect(info.protocol).toBe('AUTO, ISO 15765-4 (CAN 11/500)');
+    expect(info.supportedPids).toEqual([0x05, 0x0c, 0x0d, 0x11, 0x20, 0x2f]);
+    expect(await client.readVin()).toBe(VIN);
+  });
+
+  it('polls the configured PIDs into readings', async () => {
+    client = createObdClient(createSimulatedElm327({ vehicle }), { intervalMs: 10 });
+    await client.initialize();
+    const reading = nextReading(client);
+    client.startPolling();
+
+    expect(await reading).toMatchObject({
+      speed: 72,
+      rpm: 2150,
+      engineTemp: 88,
+      throttle: 30.2,
+      fuelLevel: 45.1,
+      batteryVoltage: 13.9,
+    });
+  });
+
+  it('leaves PIDs the car does not support empty', async () => {
+    client = createObdClient(createSimulatedElm327({ vehicle, unsupportedPids: [0x2f] }), { pids: [0x0d, 0x2f] });
+    const info = await client.initialize();
+    const reading = nextReading(client);
+    client.startPolling();
+
+    expect(info.supportedPids).not.toContain(0x2f);
+    expect(await reading).toMatchObject({ speed: 72, rpm: null, fuelLevel: null });
+    expect(await client.readPid(0x2f)).toBeNull();
+  });
+
+  it('reads the VIN on older protocols', async () => {
+    client = createObdClient(createSimulatedElm327({ vehicle, legacyProtocol: true }));
+    const info = await client.initialize();
+
+    expect(info.protocol).toBe('AUTO, ISO 9141-2');
+    expect(await client.readVin()).toBe(VIN);
+  });
+
+  it('reads stored and pending codes with the freeze frame', async () => {
+    const storedDtcs = ['P0301', 'P0420', 'C0035', 'U0100'];
+    client = createObdClient(createSimulatedElm327({
+      vehicle,
+      storedDtcs,
+      pendingDtcs: ['P0171'],
+      freezeFrame: { speed: 54, rpm: 2350, coolantTemp: 96 },
+    }));
+    await client.initialize();
+
+    expect(await client.readDtcs('stored')).toEqual(storedDtcs);
+    expect(await client.readDtcs('pending')).toEqual(['P0171']);
+    const frame = await client.readFreezeFrame();
+    expect(frame?.dtc).toBe('P0301');
+    expect(frame?.values).toMatchObject({ speed: 54, rpm: 2350, engineTemp: 96 });
+  });
+
+  it('reads codes spread over frames on older protocols', async () => {
+    const storedDtcs = ['P0301', 'P0302', 'P0303', 'P0304'];
+    client = createObdClient(createSimulatedElm327({ vehicle, legacyProtocol: true, storedDtcs }));
+    await client.initialize();
+
+    expect(await client.readDtcs('stored')).toEqual(storedDtcs);
+    expect(await client.readDtcs('pending')).toEqual([]);
+  });
+
+  it('clears the codes and the freeze frame', async () => {
+    client = createObdClient(createSimulatedElm327({ vehicle, storedDtcs: ['P0301'], freezeFrame: { speed: 54 } }));
+    await client.initialize();
+
+    await client.clearDtcs();
+    expect(await client.readDtcs('stored')).toEqual([]);
+    expect(await client.readFreezeFrame()).toBeNull();
+  });
+
+  it('fails the handshake when the ECUs do not answer', async () => {
+    client = createObdClient(createSimulatedElm327({ ignitionOff: true }));
+    await expect(client.initialize()).rejects.toThrow('OBD2 adapter error: UNABLE TO CONNECT');
+  });
+
+  it('rejects commands the adapter does not know', async () => {
+    client = createObdClient(createSimulatedElm327());
+    await expect(client.request('ATXX')).rejects.toThrow('OBD2 adapter rejected ATXX');
+  });
+
+  it('times out when the adapter stays silent', async () => {
+    vi.useFakeTimers();
+    try {
+      const silent: ObdTransport = { write: async () => undefined, subscribe: () => () => undefined };
+      client = createObdClient(silent, { timeoutMs: 500 });
+      const result = client.send('ATI');
+      const assertion = expect(result).rejects.toThrow('OBD2 adapter did not answer ATI');
+      await vi.advanceTimersByTimeAsync(500);
+      await assertion;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('stops polling and reports when the adapter goes away', async () => {
+    const adapter = createSimulatedElm327({ vehicle });
+    client = createObdClient(adapter, { intervalMs: 1 });
+    await client.initialize();
+    const error = new Promise<Error>(resolve => client!.onError(resolve));
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    client.startPolling();
+    adapter.disconnect();
+
+    expect((await error).message).toBe('OBD2 adapter stopped responding');
+    spy.mockRestore();
+  });
+});
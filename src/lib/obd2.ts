@@ -0,0 +1,402 @@
+// ELM327 OBD-II client.
+// The adapter behaves like a serial line: a command is ASCII ending in \r and
+// the answer is a few text lines closed by a '>' prompt. After the AT
+// handshake the client polls mode 01 PIDs and decodes them into readings, and
+// reads (modes 03/07), clears (mode 04) and explains (mode 02 freeze frame)
+// trouble codes. The transport is abstract so the same client runs over BLE,
+// against the simulated adapter and in tests.
+
+export interface ObdTransport {
+  write: (data: string) => Promise<void>;
+  subscribe: (listener: (chunk: string) => void) => () => void;
+}
+
+export interface ObdReading {
+  speed: number | null; // km/h
+  rpm: number | null;
+  engineTemp: number | null; // coolant, °C
+  throttle: number | null; // %
+  fuelLevel: number | null; // %
+  batteryVoltage: number | null; // V at the adapter
+  timestamp: number;
+}
+
+export interface AdapterInfo {
+  version: string; // e.g. "ELM327 v1.5"
+  protocol: string; // e.g. "AUTO, ISO 15765-4 (CAN 11/500)"
+  supportedPids: number[]; // mode 01
+}
+
+export interface ObdClientOptions {
+  pids?: number[]; // mode 01 PIDs to poll
+  intervalMs?: number; // pause between polling cycles
+  timeoutMs?: number; // per command
+  voltageEvery?: number; // read the battery voltage every N cycles
+}
+
+export type DtcKind = 'stored' | 'pending';
+
+export interface FreezeFrame {
+  dtc: string | null; // the code that triggered the snapshot
+  values: Partial<Record<PidField, number>>;
+}
+
+export type PidField = Exclude<keyof ObdReading, 'timestamp' | 'batteryVoltage'>;
+
+interface PidDefinition {
+  field: PidField;
+  bytes: number;
+  decode: (data: number[]) => number;
+}
+
+const percent = ([a]: number[]) => Math.round(a * 1000 / 255) / 10;
+
+export const PID_DEFINITIONS: Record<number, PidDefinition> = {
+  0x05: { field: 'engineTemp', bytes: 1, decode: ([a]) => a - 40 },
+  0x0c: { field: 'rpm', bytes: 2, decode: ([a, b]) => (a * 256 + b) / 4 },
+  0x0d: { field: 'speed', bytes: 1, decode: ([a]) => a },
+  0x11: { field: 'throttle', bytes: 1, decode: percent },
+  0x2f: { field: 'fuelLevel', bytes: 1, decode: percent },
+};
+
+export const DEFAULT_POLL_PIDS = [0x0d, 0x0c, 0x05, 0x11, 0x2f];
+
+const PROMPT = '>';
+const RESET_TIMEOUT_MS = 5000;
+const SEARCH_TIMEOUT_MS = 10000; // the first request after ATSP0 waits for the protocol search
+const MAX_FAILED_CYCLES = 3;
+const INIT_COMMANDS = ['ATE0', 'ATL0', 'ATS0', 'ATH0', 'ATAT1', 'ATSP0'];
+const ADAPTER_ERROR = /^(UNABLE TO CONNECT|CAN ERROR|BUS ERROR|BUS INIT: \.*ERROR|BUFFER FULL|DATA ERROR|FB ERROR|LV RESET|STOPPED|ERR\d+)/;
+
+export const toHex = (value: number) => value.toString(16).toUpperCase().padStart(2, '0');
+
+const hexBytes = (text: string): number[] | null => {
+  const hex = text.replace(/\s+/g, '');
+  if (!/^([0-9A-Fa-f]{2})+$/.test(hex)) return null;
+  return hex.match(/../g)!.map(byte => parseInt(byte, 16));
+};
+
+const compact = (text: string) => text.replace(/\s+/g, '').toUpperCase();
+
+// Response lines without the echoed command, the prompt and progress notices
+export const responseLines = (raw: string, command = ''): string[] =>
+  raw
+    .replace(PROMPT, '')
+    .split(/[\r\n]+/)
+    .map(line => line.trim())
+    .filter(line => line && compact(line) !== compact(command) && !/^SEARCHING/.test(line) && !/^BUS INIT: \.*OK/.test(line));
+
+// Messages in a response: one per answering ECU for single frames, or one
+// reassembled ISO-TP message when the adapter prints the "len / 0: / 1: …" form
+export const parseMessages = (lines: string[]): number[][] => {
+  const messages: number[][] = [];
+  let multi: { length: number; bytes: number[] } | null = null;
+
+  const flush = () => {
+    if (multi) messages.push(multi.bytes.slice(0, multi.length));
+    multi = null;
+  };
+
+  for (const line of lines) {
+    const segment = line.match(/^([0-9A-F]):\s*(.*)$/i);
+    if (segment) {
+      if (multi) multi.bytes.push(...(hexBytes(segment[2]) ?? []));
+      continue;
+    }
+    // Data is whole bytes, so three hex digits can only be a length header
+    if (/^[0-9A-F]{3}$/i.test(line)) {
+      flush();
+      multi = { length: parseInt(line, 16), bytes: [] };
+      continue;
+    }
+    const bytes = hexBytes(line);
+    if (bytes) {
+      flush();
+      messages.push(bytes);
+    }
+  }
+  flush();
+  return messages;
+};
+
+// Mode 01 PID 00/20/40… answer with a 32-bit mask of the next 32 PIDs
+export const decodeSupportedPids = (base: number, mask: number[]): number[] => {
+  const pids: number[] = [];
+  mask.slice(0, 4).forEach((byte, i) => {
+    for (let bit = 0; bit < 8; bit++) {
+      if (byte & (0x80 >> bit)) pids.push(base + i * 8 + bit + 1);
+    }
+  });
+  return pids;
+};
+
+// VIN from mode 09 PID 02: one ISO-TP message on CAN, numbered frames on older buses
+export const decodeVin = (messages: number[][]): string | null => {
+  const parts = messages.filter(m => m[0] === 0x49 && m[1] === 0x02);
+  if (parts.length === 0) return null;
+  const bytes = parts.length === 1
+    ? parts[0].slice(3)
+    : [...parts].sort((a, b) => a[2] - b[2]).flatMap(m => m.slice(3));
+  const vin = String.fromCharCode(...bytes.filter(b => b > 0x20 && b < 0x7f));
+  return vin.length >= 17 ? vin.slice(-17) : null;
+};
+
+// Two bytes per code: system letter, then four digits
+export const decodeDtc = (a: number, b: number): string =>
+  `${'PCBU'[a >> 6]}${(a >> 4) & 0x3}${(a & 0xf).toString(16)}${toHex(b)}`.toUpperCase();
+
+// Mode 03/07 answers. CAN puts a code count after the service byte, older
+// buses send three codes per frame padded with 0000
+export const decodeDtcs = (messages: number[][], service: number): string[] => {
+  const codes = new Set<string>();
+  messages
+    .filter(m => m[0] === service)
+    .forEach(m => {
+      const data = (m.length - 1) % 2 === 1 ? m.slice(2) : m.slice(1);
+      for (let i = 0; i + 1 < data.length; i += 2) {
+        if (data[i] === 0 && data[i + 1] === 0) continue;
+        codes.add(decodeDtc(data[i], data[i + 1]));
+      }
+    });
+  return [...codes];
+};
+
+const DTC_SERVICES: Record<DtcKind, { request: string; response: number }> = {
+  stored: { request: '03', response: 0x43 },
+  pending: { request: '07', response: 0x47 },
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const EMPTY_READING: ObdReading = {
+  speed: null,
+  rpm: null,
+  engineTemp: null,
+  throttle: null,
+  fuelLevel: null,
+  batteryVoltage: null,
+  timestamp: 0,
+};
+
+export function createObdClient(
+  transport: ObdTransport,
+  { pids = DEFAULT_POLL_PIDS, intervalMs = 250, timeoutMs = 2000, voltageEvery = 10 }: ObdClientOptions = {}
+) {
+  const readingListeners = new Set<(reading: ObdReading) => void>();
+  const errorListeners = new Set<(error: Error) => void>();
+  let buffer = '';
+  let pending: ((raw: string) => void) | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+  let supported: Set<number> | null = null;
+  let reading: ObdReading = { ...EMPTY_READING };
+  let polling = false;
+  let cycle = 0;
+
+  const unsubscribeTransport = transport.subscribe(chunk => {
+    buffer += chunk;
+    const end = buffer.indexOf(PROMPT);
+    if (end === -1) return;
+    const raw = buffer.slice(0, end);
+    buffer = buffer.slice(end + 1);
+    const resolve = pending;
+    pending = null;
+    resolve?.(raw);
+  });
+
+  // One command at a time; the adapter cannot interleave requests
+  const send = (command: string, timeout = timeoutMs): Promise<string[]> => {
+    const run = () => new Promise<string[]>((resolve, reject) => {
+      buffer = '';
+      const timer = setTimeout(() => {
+        pending = null;
+        reject(new Error(`OBD2 adapter did not answer ${command}`));
+      }, timeout);
+      pending = raw => {
+        clearTimeout(timer);
+        resolve(responseLines(raw, command));
+      };
+      transport.write(`${command}\r`).catch(error => {
+        clearTimeout(timer);
+        pending = null;
+        reject(error);
+      });
+    });
+    const result = queue.then(run, run);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  // Decoded messages; empty when the vehicle has no data for the request
+  const request = async (command: string, timeout?: number): Promise<number[][]> => {
+    const lines = await send(command, timeout);
+    if (lines.some(line => line === 'NO DATA')) return [];
+    const error = lines.find(line => ADAPTER_ERROR.test(line));
+    if (error) throw new Error(`OBD2 adapter error: ${error}`);
+    if (lines.includes('?')) throw new Error(`OBD2 adapter rejected ${command}`);
+    return parseMessages(lines);
+  };
+
+  const readSupportedPids = async (): Promise<Set<number>> => {
+    const result = new Set<number>();
+    for (let base = 0; base < 0xe0; base += 0x20) {
+      const messages = await request(`01${toHex(base)}`, base === 0 ? SEARCH_TIMEOUT_MS : timeoutMs);
+      const masks = messages.filter(m => m[0] === 0x41 && m[1] === base);
+      if (masks.length === 0) break;
+      // Several ECUs may answer; the car supports the union
+      masks.forEach(m => decodeSupportedPids(base, m.slice(2)).forEach(pid => result.add(pid)));
+      if (!result.has(base + 0x20)) break;
+    }
+    if (result.size === 0) throw new Error('Vehicle did not answer, is the ignition on?');
+    return result;
+  };
+
+  const initialize = async (): Promise<AdapterInfo> => {
+    const reset = await send('ATZ', RESET_TIMEOUT_MS);
+    const version = reset.find(line => /ELM327/i.test(line)) ?? 'ELM327';
+
+    for (const command of INIT_COMMANDS) {
+      const lines = await send(command);
+      if (!lines.includes('OK')) throw new Error(`OBD2 adapter rejected ${command}`);
+    }
+
+    supported = await readSupportedPids();
+    const [protocol = 'unknown'] = await send('ATDP');
+    return { version, protocol, supportedPids: [...supported].sort((a, b) => a - b) };
+  };
+
+  const readPid = async (pid: number): Promise<number | null> => {
+    const definition = PID_DEFINITIONS[pid];
+    if (!definition) throw new Error(`No decoder for PID ${toHex(pid)}`);
+    const messages = await request(`01${toHex(pid)}`);
+    const message = messages.find(m => m[0] === 0x41 && m[1] === pid && m.length >= 2 + definition.bytes);
+    return message ? definition.decode(message.slice(2, 2 + definition.bytes)) : null;
+  };
+
+  const readVoltage = async (): Promise<number | null> => {
+    const [line] = await send('ATRV');
+    const volts = parseFloat(line ?? '');
+    return Number.isFinite(volts) ? volts : null;
+  };
+
+  const readVin = async (): Promise<string | null> => decodeVin(await request('0902'));
+
+  const readDtcs = async (kind: DtcKind): Promise<string[]> => {
+    const service = DTC_SERVICES[kind];
+    return decodeDtcs(await request(service.request), service.response);
+  };
+
+  // Also turns the check engine light off and resets the readiness monitors
+  const clearDtcs = async (): Promise<void> => {
+    const messages = await request('04');
+    if (!messages.some(m => m[0] === 0x44)) throw new Error('Vehicle refused to clear trouble codes');
+  };
+
+  // Mode 02 frame 0: the PID values captured when the stored code was set
+  const readFreezeFrame = async (): Promise<FreezeFrame | null> => {
+    const trigger = (await request('020200')).find(m => m[0] === 0x42 && m[1] === 0x02 && m.length >= 5);
+    if (!trigger || (trigger[3] === 0 && trigger[4] === 0)) return null;
+
+    const values: FreezeFrame['values'] = {};
+    for (const [key, definition] of Object.entries(PID_DEFINITIONS)) {
+      const pid = Number(key);
+      if (supported && !supported.has(pid)) continue;
+      const message = (await request(`02${toHex(pid)}00`))
+        .find(m => m[0] === 0x42 && m[1] === pid && m.length >= 3 + definition.bytes);
+      if (message) values[definition.field] = definition.decode(message.slice(3, 3 + definition.bytes));
+    }
+    return { dtc: decodeDtc(trigger[3], trigger[4]), values };
+  };
+
+  // One reading per cycle; false when every request failed
+  const poll = async (): Promise<boolean> => {
+    const next: ObdReading = { ...reading };
+    let answered = false;
+
+    for (const pid of pids) {
+      if (!supported?.has(pid) || !PID_DEFINITIONS[pid]) continue;
+      try {
+        next[PID_DEFINITIONS[pid].field] = await readPid(pid);
+        answered = true;
+      } catch (error) {
+        console.error(`OBD2 PID ${toHex(pid)} failed:`, error);
+      }
+    }
+    if (cycle % voltageEvery === 0) {
+      next.batteryVoltage = await readVoltage().catch(() => null);
+      answered = answered || next.batteryVoltage !== null;
+    }
+    cycle++;
+
+    if (!answered) return false;
+    next.timestamp = Date.now();
+    reading = next;
+    readingListeners.forEach(listener => listener(next));
+    return true;
+  };
+
+  const startPolling = () => {
+    if (!supported) throw new Error('Initialize the OBD2 adapter before polling');
+    if (polling) return;
+    polling = true;
+
+    const loop = async () => {
+      let failed = 0;
+      while (polling) {
+        failed = (await poll()) ? 0 : failed + 1;
+        if (failed >= MAX_FAILED_CYCLES) {
+          polling = false;
+          const error = new Error('OBD2 adapter stopped responding');
+          errorListeners.forEach(listener => listener(error));
+          return;
+        }
+        if (polling) await sleep(intervalMs);
+      }
+    };
+    loop();
+  };
+
+  const stopPolling = () => {
+    polling = false;
+  };
+
+  const subscribe = (listener: (reading: ObdReading) => void) => {
+    readingListeners.add(listener);
+    return () => {
+      readingListeners.delete(listener);
+    };
+  };
+
+  const onError = (listener: (error: Error) => void) => {
+    errorListeners.add(listener);
+    return () => {
+      errorListeners.delete(listener);
+    };
+  };
+
+  const close = () => {
+    polling = false;
+    pending = null;
+    unsubscribeTransport();
+    readingListeners.clear();
+    errorListeners.clear();
+  };
+
+  return {
+    initialize,
+    send,
+    request,
+    readPid,
+    readVoltage,
+    readVin,
+    readDtcs,
+    clearDtcs,
+    readFreezeFrame,
+    startPolling,
+    stopPolling,
+    subscribe,
+    onError,
+    close,
+  };
+}
+
+export type ObdClient = ReturnType<typeof createObdClient>;
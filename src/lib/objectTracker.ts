@@ -0,0 +1,237 @@
+// Multi-object tracker for camera detections.
+// Each track runs a constant-velocity Kalman filter over box center and size
+// (one decoupled 1D filter per axis). New detections are associated to the
+// predicted track boxes by IoU with a centroid-distance fallback, tracks are
+// confirmed after a few consecutive hits and coast through short occlusions.
+
+export type BBox = [number, number, number, number]; // x, y, width, height
+
+export interface TrackerDetection {
+  bbox: BBox;
+  class: string;
+  score: number;
+}
+
+export interface Track {
+  id: string;
+  class: string;
+  bbox: BBox; // filtered box
+  velocity: { x: number; y: number; width: number; height: number }; // px/s
+  score: number;
+  hits: number;
+  misses: number; // consecutive frames without a matched detection
+  confirmed: boolean;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface ObjectTrackerOptions {
+  iouThreshold?: number; // minimum association score
+  minHits?: number; // hits before a track is confirmed
+  maxAgeMs?: number; // how long a confirmed track coasts without detections
+  processNoise?: number;
+  measurementNoise?: number;
+}
+
+interface Kalman1D {
+  x: number;
+  v: number;
+  p00: number;
+  p01: number;
+  p10: number;
+  p11: number;
+}
+
+interface TrackState {
+  id: string;
+  class: string;
+  score: number;
+  cx: Kalman1D;
+  cy: Kalman1D;
+  w: Kalman1D;
+  h: Kalman1D;
+  hits: number;
+  misses: number;
+  confirmed: boolean;
+  firstSeen: number;
+  lastSeen: number;
+  lastPredicted: number;
+}
+
+const createKalman = (x: number, initialVariance: number): Kalman1D => ({
+  x,
+  v: 0,
+  p00: initialVariance,
+  p01: 0,
+  p10: 0,
+  p11: initialVariance * 10,
+});
+
+const kalmanPredict = (k: Kalman1D, dt: number, q: number) => {
+  k.x += k.v * dt;
+  const dt2 = dt * dt;
+  const p00 = k.p00 + dt * (k.p10 + k.p01) + dt2 * k.p11 + q * dt2 * dt2 / 4;
+  const p01 = k.p01 + dt * k.p11 + q * dt2 * dt / 2;
+  const p10 = k.p10 + dt * k.p11 + q * dt2 * dt / 2;
+  const p11 = k.p11 + q * dt2;
+  k.p00 = p00;
+  k.p01 = p01;
+  k.p10 = p10;
+  k.p11 = p11;
+};
+
+const kalmanUpdate = (k: Kalman1D, z: number, r: number) => {
+  const y = z - k.x;
+  const s = k.p00 + r;
+  const k0 = k.p00 / s;
+  const k1 = k.p10 / s;
+  k.x += k0 * y;
+  k.v += k1 * y;
+  const p00 = (1 - k0) * k.p00;
+  const p01 = (1 - k0) * k.p01;
+  const p10 = k.p10 - k1 * k.p00;
+  const p11 = k.p11 - k1 * k.p01;
+  k.p00 = p00;
+  k.p01 = p01;
+  k.p10 = p10;
+  k.p11 = p11;
+};
+
+export const iou = (a: BBox, b: BBox): number => {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y2 = Math.min(a[1] + a[3], b[1] + b[3]);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a[2] * a[3] + b[2] * b[3] - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Similarity in [0, 1] from center distance relative to the box diagonal
+const centroidSimilarity = (a: BBox, b: BBox): number => {
+  const dx = (a[0] + a[2] / 2) - (b[0] + b[2] / 2);
+  const dy = (a[1] + a[3] / 2) - (b[1] + b[3] / 2);
+  const diagonal = Math.hypot(a[2], a[3]) || 1;
+  return Math.max(0, 1 - Math.hypot(dx, dy) / diagonal);
+};
+
+const stateToBox = (t: TrackState): BBox => {
+  const w = Math.max(1, t.w.x);
+  const h = Math.max(1, t.h.x);
+  return [t.cx.x - w / 2, t.cy.x - h / 2, w, h];
+};
+
+export function createObjectTracker({
+  iouThreshold = 0.3,
+  minHits = 3,
+  maxAgeMs = 1000,
+  processNoise = 500,
+  measurementNoise = 25,
+}: ObjectTrackerOptions = {}) {
+  let tracks: TrackState[] = [];
+  let nextId = 1;
+
+  const toTrack = (t: TrackState): Track => ({
+    id: t.id,
+    class: t.class,
+    bbox: stateToBox(t),
+    velocity: { x: t.cx.v, y: t.cy.v, width: t.w.v, height: t.h.v },
+    score: t.score,
+    hits: t.hits,
+    misses: t.misses,
+    confirmed: t.confirmed,
+    firstSeen: t.firstSeen,
+    lastSeen: t.lastSeen,
+  });
+
+  const spawn = (d: TrackerDetection, timestamp: number): TrackState => {
+    const [x, y, w, h] = d.bbox;
+    return {
+      id: `T${nextId++}`,
+      class: d.class,
+      score: d.score,
+      cx: createKalman(x + w / 2, measurementNoise),
+      cy: createKalman(y + h / 2, measurementNoise),
+      w: createKalman(w, measurementNoise),
+      h: createKalman(h, measurementNoise),
+      hits: 1,
+      misses: 0,
+      confirmed: minHits <= 1,
+      firstSeen: timestamp,
+      lastSeen: timestamp,
+      lastPredicted: timestamp,
+    };
+  };
+
+  const update = (detections: TrackerDetection[], timestamp: number): Track[] => {
+    // Predict every track forward to this frame
+    tracks.forEach(t => {
+      const dt = Math.max(0, (timestamp - t.lastPredicted) / 1000);
+      if (dt > 0) {
+        [t.cx, t.cy, t.w, t.h].forEach(k => kalmanPredict(k, dt, processNoise));
+        t.lastPredicted = timestamp;
+      }
+    });
+
+    // Score all track/detection pairs, then match greedily from the best pair down
+    const pairs: { track: number; detection: number; score: number }[] = [];
+    tracks.forEach((t, ti) => {
+      const predicted = stateToBox(t);
+      detections.forEach((d, di) => {
+        let score = Math.max(iou(predicted, d.bbox), centroidSimilarity(predicted, d.bbox) * 0.6);
+        // Detectors flip between similar classes (car/truck), so penalize rather than forbid
+        if (d.class !== t.class) score -= 0.15;
+        if (score >= iouThreshold) pairs.push({ track: ti, detection: di, score });
+      });
+    });
+    pairs.sort((a, b) => b.score - a.score);
+
+    const matchedTracks = new Set<number>();
+    const matchedDetections = new Set<number>();
+    for (const pair of pairs) {
+      if (matchedTracks.has(pair.track) || matchedDetections.has(pair.detection)) continue;
+      matchedTracks.add(pair.track);
+      matchedDetections.add(pair.detection);
+
+      const t = tracks[pair.track];
+      const d = detections[pair.detection];
+      const [x, y, w, h] = d.bbox;
+      kalmanUpdate(t.cx, x + w / 2, measurementNoise);
+      kalmanUpdate(t.cy, y + h / 2, measurementNoise);
+      kalmanUpdate(t.w, w, measurementNoise);
+      kalmanUpdate(t.h, h, measurementNoise);
+      // Only switch class on a more confident detection
+      if (d.score > t.score) t.class = d.class;
+      t.hits += 1;
+      t.misses = 0;
+      t.score = d.score;
+      t.lastSeen = timestamp;
+      if (t.hits >= minHits) t.confirmed = true;
+    }
+
+    // Age out unmatched tracks; tentative ones die on their first miss
+    tracks = tracks.filter((t, ti) => {
+      if (matchedTracks.has(ti)) return true;
+      t.misses += 1;
+      if (!t.confirmed) return false;
+      return timestamp - t.lastSeen <= maxAgeMs;
+    });
+
+    detections.forEach((d, di) => {
+      if (!matchedDetections.has(di)) tracks.push(spawn(d, timestamp));
+    });
+
+    return tracks.filter(t => t.confirmed).map(toTrack);
+  };
+
+  const getTracks = (): Track[] => tracks.map(toTrack);
+
+  const reset = () => {
+    tracks = [];
+    nextId = 1;
+  };
+
+  return { update, getTracks, reset };
+}
+
+export type ObjectTracker = ReturnType<typeof createObjectTracker>;
@@ -0,0 +1,107 @@
+// Road graphs for offline routing.
+// Each tile pack can carry a road graph for the same bounds, built from the
+// Overpass API, plus a snapshot of the danger zones inside it so offline
+// routes are still scored. Both are stored in the offline database keyed by
+// pack id and removed together with the pack.
+
+import { supabase } from '@/integrations/supabase/client';
+import { DangerZone, toDangerZone } from './dangerZones';
+import { buildRoadGraph, overpassQuery, RoadGraph } from './roadGraph';
+import { GRAPHS_STORE, openOfflineDB, requestResult, TileBounds, TilePack, transactionDone, updatePack } from './tileCache';
+
+export interface RoadGraphRecord {
+  packId: string;
+  bounds: TileBounds;
+  graph: RoadGraph;
+  zones: DangerZone[];
+  createdAt: number;
+}
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+// Larger regions make Overpass time out and the graph too big to route quickly on a phone
+export const MAX_GRAPH_AREA_KM2 = 400;
+// Zones centred just outside the pack can still overlap roads inside it
+const ZONE_MARGIN_DEG = 0.01;
+
+export function boundsAreaKm2(bounds: TileBounds): number {
+  const heightKm = (bounds.north - bounds.south) * 111.32;
+  const widthKm = (bounds.east - bounds.west) * 111.32 * Math.cos(((bounds.north + bounds.south) / 2) * Math.PI / 180);
+  return Math.abs(heightKm * widthKm);
+}
+
+const graphBytes = (graph: RoadGraph) =>
+  graph.lat.byteLength + graph.lng.byteLength + graph.offsets.byteLength + graph.targets.byteLength +
+  graph.meters.byteLength + graph.seconds.byteLength + graph.nameIndex.byteLength +
+  graph.names.reduce((sum, name) => sum + name.length * 2, 0);
+
+// "lat, lng" typed into the destination box
+export function parseCoordinates(text: string): { lat: number; lng: number } | null {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+}
+
+// Smallest pack with a road graph that covers every point
+export function findRoutingPack(packs: TilePack[], points: { lat: number; lng: number }[]): TilePack | null {
+  const covers = (pack: TilePack) => points.every(p =>
+    p.lat >= pack.bounds.south && p.lat <= pack.bounds.north && p.lng >= pack.bounds.west && p.lng <= pack.bounds.east);
+  return packs
+    .filter(pack => pack.roadGraph && covers(pack))
+    .sort((a, b) => boundsAreaKm2(a.bounds) - boundsAreaKm2(b.bounds))[0] ?? null;
+}
+
+async function fetchZones(bounds: TileBounds): Promise<DangerZone[]> {
+  const { data, error } = await supabase
+    .from('danger_zones')
+    .select('*')
+    .gte('center_lat', bounds.south - ZONE_MARGIN_DEG)
+    .lte('center_lat', bounds.north + ZONE_MARGIN_DEG)
+    .gte('center_lng', bounds.west - ZONE_MARGIN_DEG)
+    .lte('center_lng', bounds.east + ZONE_MARGIN_DEG)
+    .order('risk_score', { ascending: false })
+    .limit(500);
+
+  if (error) {
+    // Routing still works without zones; routes just score 100
+    console.error('Failed to fetch danger zones for offline routing:', error);
+    return [];
+  }
+  return (data || []).map(toDangerZone);
+}
+
+export async function downloadRoadGraph(pack: TilePack, signal?: AbortSignal): Promise<NonNullable<TilePack['roadGraph']>> {
+  if (boundsAreaKm2(pack.bounds) > MAX_GRAPH_AREA_KM2) {
+    throw new Error(`Offline routing is limited to ${MAX_GRAPH_AREA_KM2} km² regions`);
+  }
+
+  const response = await fetch(OVERPASS_URL, {
+    method: 'POST',
+    body: new URLSearchParams({ data: overpassQuery(pack.bounds) }),
+    signal,
+  });
+  if (!response.ok) throw new Error(`Road data request failed: ${response.status}`);
+  const { elements } = await response.json();
+
+  const graph = buildRoadGraph(elements ?? []);
+  if (graph.targets.length === 0) throw new Error('No roads found in this area');
+  const zones = await fetchZones(pack.bounds);
+
+  const db = await openOfflineDB();
+  const tx = db.transaction(GRAPHS_STORE, 'readwrite');
+  tx.objectStore(GRAPHS_STORE).put({ packId: pack.id, bounds: pack.bounds, graph, zones, createdAt: Date.now() } satisfies RoadGraphRecord);
+  await transactionDone(tx);
+
+  const info = { nodes: graph.lat.length, edges: graph.targets.length, sizeBytes: graphBytes(graph) };
+  await updatePack(pack.id, { roadGraph: info });
+  return info;
+}
+
+export async function loadRoadGraph(packId: string): Promise<RoadGraphRecord | null> {
+  const db = await openOfflineDB();
+  const record = await requestResult<RoadGraphRecord | undefined>(
+    db.transaction(GRAPHS_STORE, 'readonly').objectStore(GRAPHS_STORE).get(packId)
+  );
+  return record ?? null;
+}
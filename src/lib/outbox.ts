@@ -0,0 +1,190 @@
+// Outbox for writes that must survive being offline.
+// Every entry carries an idempotency key that is sent along with the write, so
+// replaying an entry whose first attempt actually reached the server is
+// harmless. Failed attempts back off exponentially with jitter; entries that
+// keep failing, or fail in a way retrying can't fix, are parked as failed.
+
+export type OutboxKind =
+  | 'trip'
+  | 'collision_event'
+  | 'sos_alert'
+  | 'vehicle_tracking'
+  | 'alert'
+  | 'vehicle_dtc'
+  | 'vehicle_dtc_clear'
+  | 'driving_event';
+
+export interface OutboxEntry {
+  id: string; // idempotency key
+  kind: OutboxKind;
+  payload: Record<string, unknown>;
+  coalesceKey?: string; // a newer entry with the same key replaces a pending one
+  createdAt: number;
+  expiresAt?: number; // stale entries are dropped instead of sent
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  failed: boolean;
+}
+
+export interface EnqueueOptions {
+  id?: string;
+  coalesceKey?: string;
+  ttlMs?: number;
+}
+
+export interface OutboxOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxAttempts?: number;
+  jitter?: number; // fraction of the delay randomized either way
+  random?: () => number;
+}
+
+// Trips first since the other rows point at them, then SOS; live vehicle positions last
+const PRIORITY: Record<OutboxKind, number> = {
+  trip: 0,
+  sos_alert: 1,
+  collision_event: 2,
+  alert: 3,
+  driving_event: 4,
+  vehicle_dtc: 5,
+  vehicle_dtc_clear: 6,
+  vehicle_tracking: 7,
+};
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  // RFC 4122 v4 layout for environments without randomUUID
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.random() * 16 | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+};
+
+export const backoffDelay = (
+  attempts: number,
+  { baseDelayMs = 2000, maxDelayMs = 5 * 60 * 1000, jitter = 0.2, random = Math.random }: OutboxOptions = {}
+): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempts - 1));
+  return Math.round(exponential * (1 + jitter * (random() * 2 - 1)));
+};
+
+export function createOutbox(options: OutboxOptions = {}) {
+  const { maxAttempts = 10 } = options;
+  let entries: OutboxEntry[] = [];
+
+  const load = (stored: OutboxEntry[]) => {
+    const known = new Set(entries.map(e => e.id));
+    // Alerts queued before they went through the dispatcher were Telegram-only
+    const migrated = stored.map(e => ((e.kind as string) === 'telegram_alert' ? { ...e, kind: 'alert' as const } : e));
+    entries = [...migrated.filter(e => !known.has(e.id)), ...entries];
+  };
+
+  const enqueue = (
+    kind: OutboxKind,
+    payload: Record<string, unknown>,
+    { id, coalesceKey, ttlMs }: EnqueueOptions = {},
+    now = Date.now()
+  ): OutboxEntry => {
+    // Only pending entries are replaced; one that is failing keeps its own history
+    if (coalesceKey) {
+      entries = entries.filter(e => e.coalesceKey !== coalesceKey || e.failed || e.attempts > 0);
+    }
+    const entry: OutboxEntry = {
+      id: id ?? createIdempotencyKey(),
+      kind,
+      payload,
+      coalesceKey,
+      createdAt: now,
+      expiresAt: ttlMs ? now + ttlMs : undefined,
+      attempts: 0,
+      nextAttemptAt: now,
+      failed: false,
+    };
+    entries.push(entry);
+    return entry;
+  };
+
+  // Rewrite queued payloads of a kind, failed ones included, e.g. to apply a later change before they are sent
+  const amend = (kind: OutboxKind, update: (payload: Record<string, unknown>) => Record<string, unknown>) => {
+    entries.forEach(e => {
+      if (e.kind === kind) e.payload = update(e.payload);
+    });
+  };
+
+  const pruneExpired = (now: number): OutboxEntry[] => {
+    const expired = entries.filter(e => e.expiresAt !== undefined && e.expiresAt <= now);
+    if (expired.length) entries = entries.filter(e => !expired.includes(e));
+    return expired;
+  };
+
+  // Entries ready to send, most important first and oldest first within a kind
+  const due = (now = Date.now()): OutboxEntry[] => {
+    pruneExpired(now);
+    return entries
+      .filter(e => !e.failed && e.nextAttemptAt <= now)
+      .sort((a, b) => PRIORITY[a.kind] - PRIORITY[b.kind] || a.createdAt - b.createdAt);
+  };
+
+  const markSent = (id: string) => {
+    entries = entries.filter(e => e.id !== id);
+  };
+
+  const markFailed = (id: string, error: string, retryable: boolean, now = Date.now()): OutboxEntry | null => {
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return null;
+    entry.attempts += 1;
+    entry.lastError = error;
+    if (!retryable || entry.attempts >= maxAttempts) {
+      entry.failed = true;
+    } else {
+      entry.nextAttemptAt = now + backoffDelay(entry.attempts, options);
+    }
+    return entry;
+  };
+
+  const retryFailed = (now = Date.now()) => {
+    entries.forEach(e => {
+      if (!e.failed) return;
+      e.failed = false;
+      e.attempts = 0;
+      e.nextAttemptAt = now;
+    });
+  };
+
+  // Pull every backed-off entry forward, e.g. when connectivity comes back
+  const expedite = (now = Date.now()) => {
+    entries.forEach(e => {
+      if (!e.failed) e.nextAttemptAt = Math.min(e.nextAttemptAt, now);
+    });
+  };
+
+  const discardFailed = () => {
+    entries = entries.filter(e => !e.failed);
+  };
+
+  const getEntries = (): OutboxEntry[] => entries.map(e => ({ ...e }));
+
+  const getNextAttemptAt = (): number | null => {
+    const pending = entries.filter(e => !e.failed);
+    return pending.length ? Math.min(...pending.map(e => e.nextAttemptAt)) : null;
+  };
+
+  return {
+    load,
+    enqueue,
+    amend,
+    due,
+    markSent,
+    markFailed,
+    retryFailed,
+    expedite,
+    discardFailed,
+    pruneExpired,
+    getEntries,
+    getNextAttemptAt,
+  };
+}
+
+export type Outbox = ReturnType<typeof createOutbox>;
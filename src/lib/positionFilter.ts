@@ -0,0 +1,268 @@
+// Extended Kalman filter for vehicle position.
+// State is [east m, north m, speed m/s, heading rad] in a local tangent plane
+// anchored at the first fix. The motion model is constant speed and turn
+// rate: accelerometer (along the vehicle's forward axis, once the phone
+// mounting is known) and gyroscope yaw rate drive the prediction, and GPS
+// position/speed/course, OBD speed and compass heading correct it. Between
+// fixes the prediction keeps the position moving (dead reckoning) while the
+// covariance grows, so consumers see the confidence drop instead of a frozen dot.
+
+export interface GpsFix {
+  lat: number;
+  lng: number;
+  accuracy: number; // meters, 1-sigma
+  speed: number | null; // m/s
+  course: number | null; // degrees clockwise from north
+  timestamp: number;
+}
+
+export interface ImuInput {
+  forwardAccel: number | null; // m/s² along the direction of travel
+  yawRate: number | null; // degrees/s, clockwise positive
+}
+
+export interface MotionSample {
+  acceleration: { x: number; y: number; z: number };
+  accelerationIncludingGravity: { x: number; y: number; z: number };
+  rotationRate: { alpha: number; beta: number; gamma: number };
+}
+
+export type FusedSource = 'gps' | 'dead-reckoning';
+
+export interface FusedPosition {
+  lat: number;
+  lng: number;
+  speed: number; // m/s
+  heading: number | null; // degrees, null until it is known to within maxHeadingSigma
+  accuracy: number; // meters, radial 1-sigma
+  speedAccuracy: number; // m/s
+  headingAccuracy: number; // degrees
+  confidence: number; // 0-1
+  source: FusedSource;
+  timestamp: number;
+}
+
+export interface PositionFilterOptions {
+  accelNoise?: number; // m/s², process noise when no accelerometer input
+  imuAccelNoise?: number; // m/s², process noise with accelerometer input
+  yawRateNoise?: number; // degrees/s without gyroscope
+  gyroYawRateNoise?: number; // degrees/s with gyroscope
+  gateChiSquare?: number; // GPS fixes beyond this Mahalanobis distance are outliers
+  maxRejectedFixes?: number; // consecutive outliers before snapping back to GPS
+  minCourseSpeed?: number; // m/s below which the GPS course is ignored
+  maxHeadingSigma?: number; // degrees
+  gpsTimeoutMs?: number; // without a fix for this long the source is dead reckoning
+  maxDeadReckoningMs?: number; // stop extrapolating the position after this long
+}
+
+type Matrix = number[][];
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+const wrapAngle = (rad: number) => Math.atan2(Math.sin(rad), Math.cos(rad));
+const METERS_PER_DEG_LAT = 111320;
+// Re-anchor the tangent plane before the flat-earth error becomes noticeable
+const REANCHOR_METERS = 20000;
+
+const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => b[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)));
+const transpose = (a: Matrix): Matrix => a[0].map((_, j) => a.map(row => row[j]));
+const add = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((v, j) => v + b[i][j]));
+const identity = (n: number): Matrix => Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+const diagonal = (values: number[]): Matrix => values.map((v, i) => values.map((_, j) => (i === j ? v : 0)));
+
+// Inverse of the 1x1 or 2x2 innovation covariance
+const invertSmall = (m: Matrix): Matrix => {
+  if (m.length === 1) return [[1 / m[0][0]]];
+  const det = m[0][0] * m[1][1] - m[0][1] * m[1][0];
+  return [[m[1][1] / det, -m[0][1] / det], [-m[1][0] / det, m[0][0] / det]];
+};
+
+// Yaw rate from the gyroscope projected on gravity, so it works however the phone is mounted.
+// Forward acceleration needs the phone-to-vehicle axis, so it is only given with a calibration.
+export function imuFromMotion(sample: MotionSample, forwardAxis?: { x: number; y: number; z: number } | null): ImuInput {
+  const g = {
+    x: sample.accelerationIncludingGravity.x - sample.acceleration.x,
+    y: sample.accelerationIncludingGravity.y - sample.acceleration.y,
+    z: sample.accelerationIncludingGravity.z - sample.acceleration.z,
+  };
+  const gNorm = Math.hypot(g.x, g.y, g.z);
+  // DeviceMotion rotation: alpha about z, beta about x, gamma about y; counter-clockwise about "up" turns left
+  const yawRate = gNorm > 5
+    ? -(sample.rotationRate.beta * g.x + sample.rotationRate.gamma * g.y + sample.rotationRate.alpha * g.z) / gNorm
+    : null;
+  const forwardAccel = forwardAxis
+    ? sample.acceleration.x * forwardAxis.x + sample.acceleration.y * forwardAxis.y + sample.acceleration.z * forwardAxis.z
+    : null;
+  return { forwardAccel, yawRate };
+}
+
+export function createPositionFilter({
+  accelNoise = 3,
+  imuAccelNoise = 0.8,
+  yawRateNoise = 25,
+  gyroYawRateNoise = 3,
+  gateChiSquare = 13.8, // 99.9% for 2 degrees of freedom
+  maxRejectedFixes = 3,
+  minCourseSpeed = 2.5,
+  maxHeadingSigma = 45,
+  gpsTimeoutMs = 3000,
+  maxDeadReckoningMs = 120000,
+}: PositionFilterOptions = {}) {
+  let origin: { lat: number; lng: number } | null = null;
+  let x: number[] = [0, 0, 0, 0];
+  let P: Matrix = diagonal([1, 1, 1, 1]);
+  let lastTime = 0;
+  let lastFixTime = 0;
+  let rejectedFixes = 0;
+
+  const metersPerDegLng = () => METERS_PER_DEG_LAT * Math.cos(toRad(origin!.lat));
+  const toLocal = (lat: number, lng: number) => [(lng - origin!.lng) * metersPerDegLng(), (lat - origin!.lat) * METERS_PER_DEG_LAT];
+  const toLatLng = (east: number, north: number) => ({
+    lat: origin!.lat + north / METERS_PER_DEG_LAT,
+    lng: origin!.lng + east / metersPerDegLng(),
+  });
+
+  const initialize = (fix: GpsFix) => {
+    origin = { lat: fix.lat, lng: fix.lng };
+    const hasCourse = fix.course !== null && fix.speed !== null && fix.speed >= minCourseSpeed;
+    x = [0, 0, fix.speed ?? 0, hasCourse ? toRad(fix.course!) : 0];
+    P = diagonal([fix.accuracy ** 2, fix.accuracy ** 2, fix.speed !== null ? 1 : 25, hasCourse ? toRad(15) ** 2 : Math.PI ** 2]);
+    lastTime = fix.timestamp;
+    lastFixTime = fix.timestamp;
+    rejectedFixes = 0;
+  };
+
+  const reanchor = () => {
+    if (Math.abs(x[0]) < REANCHOR_METERS && Math.abs(x[1]) < REANCHOR_METERS) return;
+    origin = toLatLng(x[0], x[1]);
+    x = [0, 0, x[2], x[3]];
+  };
+
+  // Generic EKF correction; returns the squared Mahalanobis distance of the innovation
+  const correct = (innovation: number[], H: Matrix, R: Matrix, gate = Infinity): number => {
+    const Ht = transpose(H);
+    const S = add(multiply(multiply(H, P), Ht), R);
+    const Sinv = invertSmall(S);
+    const y = innovation.map(v => [v]);
+    const d2 = multiply(multiply(transpose(y), Sinv), y)[0][0];
+    if (d2 > gate) return d2;
+
+    const K = multiply(multiply(P, Ht), Sinv);
+    const dx = multiply(K, y);
+    x = x.map((v, i) => v + dx[i][0]);
+    x[2] = Math.max(0, x[2]);
+    x[3] = wrapAngle(x[3]);
+    // Joseph form keeps P symmetric and positive definite
+    const IKH = add(identity(4), multiply(K, H).map(row => row.map(v => -v)));
+    P = add(multiply(multiply(IKH, P), transpose(IKH)), multiply(multiply(K, R), transpose(K)));
+    return d2;
+  };
+
+  const predict = (timestamp: number, imu: ImuInput = { forwardAccel: null, yawRate: null }) => {
+    if (!origin) return;
+    const dt = Math.min(5, (timestamp - lastTime) / 1000);
+    if (dt <= 0) return;
+    lastTime = timestamp;
+
+    const [, , v, psi] = x;
+    const frozen = timestamp - lastFixTime > maxDeadReckoningMs;
+    const a = imu.forwardAccel ?? 0;
+    const omega = toRad(imu.yawRate ?? 0);
+    const sin = Math.sin(psi);
+    const cos = Math.cos(psi);
+
+    if (!frozen) {
+      x = [x[0] + v * sin * dt, x[1] + v * cos * dt, Math.max(0, v + a * dt), wrapAngle(psi + omega * dt)];
+    }
+
+    const F: Matrix = frozen ? identity(4) : [
+      [1, 0, sin * dt, v * cos * dt],
+      [0, 1, cos * dt, -v * sin * dt],
+      [0, 0, 1, 0],
+      [0, 0, 0, 1],
+    ];
+    const sigmaA = imu.forwardAccel !== null ? imuAccelNoise : accelNoise;
+    const sigmaW = toRad(imu.yawRate !== null ? gyroYawRateNoise : yawRateNoise);
+    const G: Matrix = [
+      [0.5 * dt * dt * sin, 0],
+      [0.5 * dt * dt * cos, 0],
+      [dt, 0],
+      [0, dt],
+    ];
+    const Q = multiply(multiply(G, diagonal([sigmaA ** 2, sigmaW ** 2])), transpose(G));
+    P = add(multiply(multiply(F, P), transpose(F)), Q);
+    reanchor();
+  };
+
+  const updateGps = (fix: GpsFix) => {
+    if (!origin) {
+      initialize(fix);
+      return;
+    }
+    predict(fix.timestamp);
+
+    const [east, north] = toLocal(fix.lat, fix.lng);
+    const accuracy = Math.max(3, fix.accuracy);
+    const d2 = correct([east - x[0], north - x[1]], [[1, 0, 0, 0], [0, 1, 0, 0]], diagonal([accuracy ** 2, accuracy ** 2]), gateChiSquare);
+    if (d2 > gateChiSquare) {
+      // A run of outliers means the filter drifted (tunnel, long outage), not that GPS is wrong
+      if (++rejectedFixes >= maxRejectedFixes) initialize(fix);
+      return;
+    }
+    rejectedFixes = 0;
+    lastFixTime = fix.timestamp;
+
+    if (fix.speed !== null && !isNaN(fix.speed)) {
+      correct([fix.speed - x[2]], [[0, 0, 1, 0]], [[0.5 ** 2]]);
+    }
+    if (fix.course !== null && !isNaN(fix.course) && fix.speed !== null && fix.speed >= minCourseSpeed) {
+      correct([wrapAngle(toRad(fix.course) - x[3])], [[0, 0, 0, 1]], [[toRad(8) ** 2]]);
+    }
+  };
+
+  // Wheel speed from OBD or another vehicle sensor
+  const updateSpeed = (speed: number, sigma: number, timestamp: number) => {
+    if (!origin) return;
+    predict(timestamp);
+    correct([speed - x[2]], [[0, 0, 1, 0]], [[sigma ** 2]]);
+  };
+
+  // Absolute heading, e.g. the mount-corrected compass while standing still
+  const updateHeading = (heading: number, sigmaDeg: number, timestamp: number) => {
+    if (!origin) return;
+    predict(timestamp);
+    correct([wrapAngle(toRad(heading) - x[3])], [[0, 0, 0, 1]], [[toRad(sigmaDeg) ** 2]]);
+  };
+
+  const getEstimate = (): FusedPosition | null => {
+    if (!origin) return null;
+    const accuracy = Math.sqrt(P[0][0] + P[1][1]);
+    const headingAccuracy = toDeg(Math.sqrt(P[3][3]));
+    return {
+      ...toLatLng(x[0], x[1]),
+      speed: x[2],
+      heading: headingAccuracy <= maxHeadingSigma ? (toDeg(x[3]) + 360) % 360 : null,
+      accuracy,
+      speedAccuracy: Math.sqrt(P[2][2]),
+      headingAccuracy,
+      // 1 at 5 m or better, 0 at 100 m or worse
+      confidence: Math.max(0, Math.min(1, 1 - (accuracy - 5) / 95)),
+      source: lastTime - lastFixTime > gpsTimeoutMs ? 'dead-reckoning' : 'gps',
+      timestamp: lastTime,
+    };
+  };
+
+  const reset = () => {
+    origin = null;
+    x = [0, 0, 0, 0];
+    P = diagonal([1, 1, 1, 1]);
+    lastTime = 0;
+    lastFixTime = 0;
+    rejectedFixes = 0;
+  };
+
+  return { predict, updateGps, updateSpeed, updateHeading, getEstimate, reset };
+}
+
+export type PositionFilter = ReturnType<typeof createPositionFilter>;
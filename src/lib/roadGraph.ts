@@ -0,0 +1,415 @@
+// Compact road graph for offline routing.
+// OSM ways from Overpass are turned into a directed graph in CSR form (typed
+// arrays for node coordinates, edge targets, lengths and travel times) so a
+// city-sized region stays small in IndexedDB and cheap to post to a worker.
+// Routing is A* on travel time with a straight-line heuristic at the fastest
+// speed in the graph; an optional per-edge cost multiplier lets callers steer
+// around danger zones while keeping the heuristic admissible.
+
+import { conditionsMultiplier, DrivingConditions, EXPOSURE_MARGIN_M, RouteExposure, scoreRoute } from '@shared/routeScoring';
+import { bearingBetween, distanceMeters } from './closestApproach';
+import type { DangerZone } from './dangerZones';
+
+export interface RoadGraph {
+  lat: Float64Array;
+  lng: Float64Array;
+  offsets: Uint32Array; // edges of node i are offsets[i]..offsets[i + 1]
+  targets: Uint32Array;
+  meters: Float32Array;
+  seconds: Float32Array;
+  nameIndex: Uint32Array; // per edge, into names
+  names: string[];
+  maxSpeedMs: number;
+}
+
+export interface GraphStep {
+  instruction: string;
+  distance: number;
+  duration: number;
+  type: string;
+  modifier?: string;
+  name: string;
+}
+
+export interface GraphRoute {
+  coordinates: { lat: number; lng: number }[];
+  distance: number;
+  duration: number;
+  directions: GraphStep[];
+}
+
+interface OverpassElement {
+  type: 'node' | 'way';
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  tags?: Record<string, string>;
+}
+
+// Typical free-flow speeds (km/h) when a way has no usable maxspeed tag
+const HIGHWAY_SPEEDS: Record<string, number> = {
+  motorway: 100,
+  motorway_link: 60,
+  trunk: 80,
+  trunk_link: 50,
+  primary: 60,
+  primary_link: 40,
+  secondary: 50,
+  secondary_link: 35,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 30,
+  residential: 25,
+  living_street: 10,
+  service: 15,
+};
+
+export const ROUTABLE_HIGHWAYS = Object.keys(HIGHWAY_SPEEDS);
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+const nodePoint = (graph: RoadGraph, node: number) => ({ lat: graph.lat[node], lng: graph.lng[node] });
+
+const wayDirection = (tags: Record<string, string>): 'both' | 'forward' | 'backward' => {
+  const oneway = tags.oneway;
+  if (oneway === '-1') return 'backward';
+  if (oneway === 'yes' || oneway === 'true' || oneway === '1') return 'forward';
+  if (tags.junction === 'roundabout' || tags.highway === 'motorway') return oneway === 'no' ? 'both' : 'forward';
+  return 'both';
+};
+
+const waySpeedKmh = (tags: Record<string, string>) => {
+  const parsed = parseInt(tags.maxspeed ?? '', 10);
+  if (!isNaN(parsed) && parsed > 0) return tags.maxspeed.includes('mph') ? parsed * 1.609 : parsed;
+  return HIGHWAY_SPEEDS[tags.highway] ?? 25;
+};
+
+// Overpass QL for every routable way in a bounding box, with its nodes
+export function overpassQuery(bounds: { north: number; south: number; east: number; west: number }): string {
+  const bbox = `${bounds.south},${bounds.west},${bounds.north},${bounds.east}`;
+  return `[out:json][timeout:90];way["highway"~"^(${ROUTABLE_HIGHWAYS.join('|')})$"](${bbox});(._;>;);out body qt;`;
+}
+
+export function buildRoadGraph(elements: OverpassElement[]): RoadGraph {
+  const nodeCoords = new Map<number, [number, number]>();
+  elements.forEach(e => {
+    if (e.type === 'node' && e.lat !== undefined && e.lon !== undefined) nodeCoords.set(e.id, [e.lat, e.lon]);
+  });
+
+  const indexOf = new Map<number, number>();
+  const lat: number[] = [];
+  const lng: number[] = [];
+  const nodeIndex = (id: number) => {
+    let index = indexOf.get(id);
+    if (index === undefined) {
+      const [nodeLat, nodeLng] = nodeCoords.get(id)!;
+      index = lat.length;
+      indexOf.set(id, index);
+      lat.push(nodeLat);
+      lng.push(nodeLng);
+    }
+    return index;
+  };
+
+  const names: string[] = [''];
+  const nameIds = new Map<string, number>([['', 0]]);
+  const edges: { from: number; to: number; meters: number; seconds: number; name: number }[] = [];
+  let maxSpeedMs = 1;
+
+  elements.forEach(way => {
+    if (way.type !== 'way' || !way.nodes || !way.tags?.highway) return;
+    const ids = way.nodes.filter(id => nodeCoords.has(id));
+    if (ids.length < 2) return;
+
+    const name = way.tags.name ?? way.tags.ref ?? '';
+    if (!nameIds.has(name)) {
+      nameIds.set(name, names.length);
+      names.push(name);
+    }
+    const speedMs = waySpeedKmh(way.tags) / 3.6;
+    maxSpeedMs = Math.max(maxSpeedMs, speedMs);
+    const direction = wayDirection(way.tags);
+
+    for (let i = 0; i < ids.length - 1; i++) {
+      const a = nodeIndex(ids[i]);
+      const b = nodeIndex(ids[i + 1]);
+      const meters = distanceMeters({ lat: lat[a], lng: lng[a] }, { lat: lat[b], lng: lng[b] });
+      const edge = { meters, seconds: meters / speedMs, name: nameIds.get(name)! };
+      if (direction !== 'backward') edges.push({ from: a, to: b, ...edge });
+      if (direction !== 'forward') edges.push({ from: b, to: a, ...edge });
+    }
+  });
+
+  edges.sort((x, y) => x.from - y.from);
+  const offsets = new Uint32Array(lat.length + 1);
+  edges.forEach(e => { offsets[e.from + 1]++; });
+  for (let i = 0; i < lat.length; i++) offsets[i + 1] += offsets[i];
+
+  return {
+    lat: Float64Array.from(lat),
+    lng: Float64Array.from(lng),
+    offsets,
+    targets: Uint32Array.from(edges.map(e => e.to)),
+    meters: Float32Array.from(edges.map(e => e.meters)),
+    seconds: Float32Array.from(edges.map(e => e.seconds)),
+    nameIndex: Uint32Array.from(edges.map(e => e.name)),
+    names,
+    maxSpeedMs,
+  };
+}
+
+// Closest node that has outgoing edges, or -1 for an empty graph
+export function nearestNode(graph: RoadGraph, lat: number, lng: number): number {
+  const metersPerDegLng = 111320 * Math.cos(toRad(lat));
+  let best = -1;
+  let bestDistance = Infinity;
+  for (let i = 0; i < graph.lat.length; i++) {
+    if (graph.offsets[i] === graph.offsets[i + 1]) continue;
+    const dx = (graph.lng[i] - lng) * metersPerDegLng;
+    const dy = (graph.lat[i] - lat) * 111320;
+    const d = dx * dx + dy * dy;
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+// Middle of the street whose name best matches the query, for offline destination lookup
+export function findStreet(graph: RoadGraph, query: string): { lat: number; lng: number; name: string } | null {
+  // "Main Street, Springfield" -> "main street"; the graph only knows street names
+  const needle = query.split(',')[0].trim().toLowerCase();
+  if (!needle) return null;
+  const exact = graph.names.findIndex(n => n.toLowerCase() === needle);
+  const nameId = exact > 0 ? exact : graph.names.findIndex((n, i) => i > 0 && n.toLowerCase().includes(needle));
+  if (nameId <= 0) return null;
+
+  const streetNodes: number[] = [];
+  for (let node = 0; node < graph.lat.length; node++) {
+    for (let e = graph.offsets[node]; e < graph.offsets[node + 1]; e++) {
+      if (graph.nameIndex[e] === nameId) {
+        streetNodes.push(node);
+        break;
+      }
+    }
+  }
+  const centerLat = streetNodes.reduce((sum, n) => sum + graph.lat[n], 0) / streetNodes.length;
+  const centerLng = streetNodes.reduce((sum, n) => sum + graph.lng[n], 0) / streetNodes.length;
+  const center = { lat: centerLat, lng: centerLng };
+  const node = streetNodes.reduce((best, n) =>
+    distanceMeters(center, nodePoint(graph, n)) < distanceMeters(center, nodePoint(graph, best)) ? n : best);
+  return { lat: graph.lat[node], lng: graph.lng[node], name: graph.names[nameId] };
+}
+
+// Minimal binary heap keyed by priority
+const createHeap = () => {
+  const items: number[] = [];
+  const priorities: number[] = [];
+  const swap = (i: number, j: number) => {
+    [items[i], items[j]] = [items[j], items[i]];
+    [priorities[i], priorities[j]] = [priorities[j], priorities[i]];
+  };
+  return {
+    get size() { return items.length; },
+    push(item: number, priority: number) {
+      items.push(item);
+      priorities.push(priority);
+      let i = items.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (priorities[parent] <= priorities[i]) break;
+        swap(i, parent);
+        i = parent;
+      }
+    },
+    pop(): number {
+      const top = items[0];
+      const lastItem = items.pop()!;
+      const lastPriority = priorities.pop()!;
+      if (items.length > 0) {
+        items[0] = lastItem;
+        priorities[0] = lastPriority;
+        let i = 0;
+        for (;;) {
+          const l = 2 * i + 1;
+          const r = l + 1;
+          let smallest = i;
+          if (l < items.length && priorities[l] < priorities[smallest]) smallest = l;
+          if (r < items.length && priorities[r] < priorities[smallest]) smallest = r;
+          if (smallest === i) break;
+          swap(i, smallest);
+          i = smallest;
+        }
+      }
+      return top;
+    },
+  };
+};
+
+// A* over travel time; costMultiplier(edge) must be >= 1 to keep the heuristic admissible
+export function findPath(
+  graph: RoadGraph,
+  start: number,
+  goal: number,
+  costMultiplier: (edge: number) => number = () => 1
+): number[] | null {
+  const n = graph.lat.length;
+  const cost = new Float64Array(n).fill(Infinity);
+  const previousEdge = new Int32Array(n).fill(-1);
+  const previousNode = new Int32Array(n).fill(-1);
+  const closed = new Uint8Array(n);
+  const heuristic = (node: number) =>
+    distanceMeters(nodePoint(graph, node), nodePoint(graph, goal)) / graph.maxSpeedMs;
+
+  const open = createHeap();
+  cost[start] = 0;
+  open.push(start, heuristic(start));
+
+  while (open.size > 0) {
+    const node = open.pop();
+    if (node === goal) break;
+    if (closed[node]) continue;
+    closed[node] = 1;
+
+    for (let e = graph.offsets[node]; e < graph.offsets[node + 1]; e++) {
+      const next = graph.targets[e];
+      if (closed[next]) continue;
+      const candidate = cost[node] + graph.seconds[e] * costMultiplier(e);
+      if (candidate < cost[next]) {
+        cost[next] = candidate;
+        previousEdge[next] = e;
+        previousNode[next] = node;
+        open.push(next, candidate + heuristic(next));
+      }
+    }
+  }
+
+  if (cost[goal] === Infinity) return null;
+  const path: number[] = [];
+  for (let node = goal; node !== start; node = previousNode[node]) path.push(previousEdge[node]);
+  return path.reverse();
+}
+
+const turnModifier = (delta: number): { type: string; modifier?: string } => {
+  const abs = Math.abs(delta);
+  const side = delta > 0 ? 'right' : 'left';
+  if (abs < 25) return { type: 'new name', modifier: 'straight' };
+  if (abs < 60) return { type: 'turn', modifier: `slight ${side}` };
+  if (abs < 150) return { type: 'turn', modifier: side };
+  return { type: 'turn', modifier: 'uturn' };
+};
+
+const instructionFor = (type: string, modifier?: string) => {
+  if (type === 'depart') return 'Start your journey';
+  if (type === 'arrive') return 'You have arrived';
+  if (modifier === 'straight') return 'Continue straight';
+  if (modifier === 'uturn') return 'Make a U-turn';
+  return `Turn ${modifier}`;
+};
+
+// Turn an edge path into a polyline and OSRM-shaped steps (one step per named stretch)
+export function buildRoute(graph: RoadGraph, start: number, edges: number[]): GraphRoute {
+  const coordinates = [{ lat: graph.lat[start], lng: graph.lng[start] }];
+  const directions: GraphStep[] = [];
+  let from = start;
+  let lastBearing = 0;
+
+  edges.forEach((e, i) => {
+    const to = graph.targets[e];
+    const edgeBearing = bearingBetween(nodePoint(graph, from), nodePoint(graph, to));
+    const name = graph.names[graph.nameIndex[e]] || 'Unknown road';
+    const current = directions[directions.length - 1];
+
+    if (i === 0 || current.name !== name) {
+      const { type, modifier } = i === 0
+        ? { type: 'depart', modifier: undefined }
+        : turnModifier(((edgeBearing - lastBearing + 540) % 360) - 180);
+      directions.push({ instruction: instructionFor(type, modifier), distance: 0, duration: 0, type, modifier, name });
+    }
+
+    const step = directions[directions.length - 1];
+    step.distance += graph.meters[e];
+    step.duration += graph.seconds[e];
+    coordinates.push({ lat: graph.lat[to], lng: graph.lng[to] });
+    lastBearing = edgeBearing;
+    from = to;
+  });
+
+  directions.push({ instruction: instructionFor('arrive'), distance: 0, duration: 0, type: 'arrive', name: '' });
+
+  return {
+    coordinates,
+    distance: directions.reduce((sum, s) => sum + s.distance, 0),
+    duration: directions.reduce((sum, s) => sum + s.duration, 0),
+    directions,
+  };
+}
+
+export interface PlannedRoute extends GraphRoute {
+  summary: string;
+  safetyScore: number;
+  dangerZones: RouteExposure[];
+}
+
+export interface RoutePlan {
+  routes: PlannedRoute[];
+  fastestIndex: number;
+  conditions: DrivingConditions & { riskMultiplier: number };
+}
+
+// Start/end points further than this from any road are outside the downloaded region
+const MAX_SNAP_METERS = 1000;
+
+const routeSummary = (directions: GraphStep[]) => {
+  const byName = new Map<string, number>();
+  directions.forEach(s => { if (s.name && s.name !== 'Unknown road') byName.set(s.name, (byName.get(s.name) ?? 0) + s.distance); });
+  return [...byName.entries()].sort((a, b) => b[1] - a[1]).slice(0, 2).map(([name]) => name).join(', ');
+};
+
+// Fastest route plus a zone-avoiding alternative, both scored and ranked safest first like the edge function
+export function planRoutes(
+  graph: RoadGraph,
+  zones: DangerZone[],
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  conditions: DrivingConditions
+): RoutePlan {
+  const from = nearestNode(graph, start.lat, start.lng);
+  const to = nearestNode(graph, end.lat, end.lng);
+  if (
+    from === -1 || to === -1 ||
+    distanceMeters(start, nodePoint(graph, from)) > MAX_SNAP_METERS ||
+    distanceMeters(end, nodePoint(graph, to)) > MAX_SNAP_METERS
+  ) {
+    throw new Error('Start or destination is outside the offline map area');
+  }
+
+  // Each zone a node falls in adds to the cost of driving into it
+  const nodePenalty = new Float32Array(graph.lat.length).fill(-1);
+  const zoneCost = (edge: number) => {
+    const node = graph.targets[edge];
+    if (nodePenalty[node] < 0) {
+      nodePenalty[node] = zones.reduce((sum, zone) =>
+        distanceMeters(nodePoint(graph, node), zone) <= zone.radius + EXPOSURE_MARGIN_M
+          ? sum + Math.min(3, (5 + zone.riskScore) / 10)
+          : sum, 1);
+    }
+    return nodePenalty[node];
+  };
+
+  const fastest = findPath(graph, from, to);
+  if (!fastest) throw new Error('No road connection between these points in the offline map');
+  const safest = zones.length > 0 ? findPath(graph, from, to, zoneCost) : null;
+
+  const paths = safest && safest.join() !== fastest.join() ? [fastest, safest] : [fastest];
+  const routes = paths.map(path => {
+    const route = buildRoute(graph, from, path);
+    return { ...route, summary: routeSummary(route.directions), ...scoreRoute(route.coordinates, zones, conditions) };
+  });
+  routes.sort((a, b) => b.safetyScore - a.safetyScore || a.duration - b.duration);
+
+  const fastestIndex = routes.reduce((best, r, i) => (r.duration < routes[best].duration ? i : best), 0);
+  return { routes, fastestIndex, conditions: { ...conditions, riskMultiplier: conditionsMultiplier(conditions) } };
+}
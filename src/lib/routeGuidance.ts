@@ -0,0 +1,175 @@
+// Turn-by-turn guidance engine.
+// Each GPS fix is snapped onto the route polyline to get the distance driven
+// along the route. Step boundaries come from the router's per-step distances,
+// scaled to the polyline length, so the upcoming maneuver is the first step
+// that starts ahead of the driver. Voice prompts fire once per step as the
+// driver crosses each distance threshold, and a run of fixes far from the
+// polyline reports the driver as off route.
+
+import { distanceMeters } from './closestApproach';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface GuidanceStep {
+  instruction: string;
+  distance: number; // meters covered by the step after its maneuver
+  type: string;
+  modifier?: string;
+  name: string;
+}
+
+export interface GuidanceUpdate {
+  stepIndex: number; // upcoming maneuver
+  distanceToManeuver: number; // meters
+  distanceRemaining: number; // meters to destination
+  distanceFromRoute: number; // meters between the fix and the snapped point
+  snapped: LatLng;
+  offRoute: boolean;
+  arrived: boolean;
+  announcement: string | null;
+}
+
+export interface GuidanceOptions {
+  announceThresholds?: number[]; // meters before a maneuver, largest first
+  offRouteDistance?: number; // meters from the polyline
+  offRouteFixes?: number; // consecutive fixes beyond offRouteDistance
+  arrivalDistance?: number; // meters from the end of the route
+  searchAhead?: number; // segments scanned past the last snapped segment
+}
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+// Project a point onto segment a-b in a local flat frame; t is the position along the segment in [0, 1]
+const projectOnSegment = (p: LatLng, a: LatLng, b: LatLng) => {
+  const metersPerDegLng = 111320 * Math.cos(toRad(p.lat));
+  const ax = (a.lng - p.lng) * metersPerDegLng;
+  const ay = (a.lat - p.lat) * 111320;
+  const dx = (b.lng - a.lng) * metersPerDegLng;
+  const dy = (b.lat - a.lat) * 111320;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  return { t, distance: Math.hypot(ax + t * dx, ay + t * dy) };
+};
+
+const formatAnnounceDistance = (meters: number) =>
+  meters >= 1000 ? `${+(meters / 1000).toFixed(1)} kilometers` : `${Math.round(meters)} meters`;
+
+// Spoken prompt for a step, e.g. "In 200 meters, turn left onto Main Street"
+export function maneuverPrompt(step: GuidanceStep, distance: number | null): string {
+  if (step.type === 'arrive') {
+    return distance === null ? 'You have arrived at your destination' : `In ${formatAnnounceDistance(distance)}, you will arrive at your destination`;
+  }
+  const onto = step.name && step.name !== 'Unknown road' ? ` onto ${step.name}` : '';
+  const action = step.instruction.charAt(0).toLowerCase() + step.instruction.slice(1);
+  return distance === null ? `Now ${action}${onto}` : `In ${formatAnnounceDistance(distance)}, ${action}${onto}`;
+}
+
+export function createGuidanceEngine(
+  coordinates: LatLng[],
+  steps: GuidanceStep[],
+  {
+    announceThresholds = [1000, 400, 150],
+    offRouteDistance = 50,
+    offRouteFixes = 3,
+    arrivalDistance = 25,
+    searchAhead = 60,
+  }: GuidanceOptions = {}
+) {
+  // Cumulative distance along the polyline at each vertex
+  const cumulative = [0];
+  for (let i = 1; i < coordinates.length; i++) {
+    cumulative.push(cumulative[i - 1] + distanceMeters(coordinates[i - 1], coordinates[i]));
+  }
+  const totalLength = cumulative[cumulative.length - 1] ?? 0;
+
+  // Along-route position of each step's maneuver
+  const stepTotal = steps.reduce((sum, s) => sum + s.distance, 0);
+  const scale = stepTotal > 0 ? totalLength / stepTotal : 1;
+  const stepStarts: number[] = [];
+  steps.reduce((start, s) => {
+    stepStarts.push(start);
+    return start + s.distance * scale;
+  }, 0);
+
+  let lastSegment = 0;
+  let farFixes = 0;
+  let arrived = false;
+  const announced = new Set<string>();
+
+  const snap = (position: LatLng, from: number, to: number) => {
+    let best = { segment: -1, t: 0, distance: Infinity };
+    for (let i = Math.max(0, from); i < Math.min(coordinates.length - 1, to); i++) {
+      const { t, distance } = projectOnSegment(position, coordinates[i], coordinates[i + 1]);
+      if (distance < best.distance) best = { segment: i, t, distance };
+    }
+    return best;
+  };
+
+  const update = (position: LatLng, accuracy = 0): GuidanceUpdate => {
+    if (coordinates.length < 2) {
+      return {
+        stepIndex: 0, distanceToManeuver: 0, distanceRemaining: 0, distanceFromRoute: 0,
+        snapped: position, offRoute: false, arrived: false, announcement: null,
+      };
+    }
+
+    // Search near the last match first so overlapping or looping roads don't make the position jump
+    const threshold = offRouteDistance + Math.min(accuracy, 50);
+    let match = snap(position, lastSegment - 2, lastSegment + searchAhead);
+    if (match.distance > threshold) {
+      const global = snap(position, 0, coordinates.length - 1);
+      if (global.distance < match.distance) match = global;
+    }
+
+    const offRoute = match.distance > threshold;
+    farFixes = offRoute ? farFixes + 1 : 0;
+    if (!offRoute) lastSegment = match.segment;
+
+    const a = coordinates[match.segment];
+    const b = coordinates[match.segment + 1];
+    const snapped = { lat: a.lat + (b.lat - a.lat) * match.t, lng: a.lng + (b.lng - a.lng) * match.t };
+    const progress = cumulative[match.segment] + (cumulative[match.segment + 1] - cumulative[match.segment]) * match.t;
+    const distanceRemaining = Math.max(0, totalLength - progress);
+
+    let stepIndex = stepStarts.findIndex(start => start > progress);
+    if (stepIndex === -1) stepIndex = steps.length - 1;
+    const distanceToManeuver = Math.max(0, (stepStarts[stepIndex] ?? totalLength) - progress);
+
+    let announcement: string | null = null;
+    if (!offRoute && !arrived) {
+      if (distanceRemaining <= arrivalDistance) {
+        arrived = true;
+        announcement = maneuverPrompt({ instruction: '', distance: 0, type: 'arrive', name: '' }, null);
+      } else if (steps[stepIndex]) {
+        // Only the closest crossed threshold is spoken; thresholds longer than the leg are skipped
+        const legLength = stepStarts[stepIndex] - (stepStarts[stepIndex - 1] ?? 0);
+        const crossed = announceThresholds.filter(d => distanceToManeuver <= d && d < legLength);
+        const now = steps[stepIndex].type !== 'arrive' && distanceToManeuver <= 30;
+        const key = now ? `${stepIndex}:now` : crossed.length ? `${stepIndex}:${crossed[crossed.length - 1]}` : null;
+        if (key && !announced.has(key)) {
+          crossed.forEach(d => announced.add(`${stepIndex}:${d}`));
+          announced.add(key);
+          announcement = maneuverPrompt(steps[stepIndex], now ? null : crossed[crossed.length - 1]);
+        }
+      }
+    }
+
+    return {
+      stepIndex,
+      distanceToManeuver,
+      distanceRemaining,
+      distanceFromRoute: match.distance,
+      snapped,
+      offRoute: farFixes >= offRouteFixes,
+      arrived,
+      announcement,
+    };
+  };
+
+  return { update, totalLength };
+}
+
+export type GuidanceEngine = ReturnType<typeof createGuidanceEngine>;
@@ -0,0 +1,49 @@
+// Acceleration along the road from speed readings (OBD or GPS).
+// Readings arrive a few times a second at best, and a source may only report
+// when the value changes, so the slope is taken at the caller's clock rather
+// than at the last reading: the newest speed is assumed to hold until another
+// arrives, and readings older than the window drop out even when nothing new
+// comes in. A car that brakes and then holds its speed reads as steady again
+// one window later.
+
+export interface SpeedTrendOptions {
+  windowMs?: number; // speed deltas are taken across this much history
+  minSpanMs?: number; // shorter histories give no slope
+}
+
+export function createSpeedTrend({ windowMs = 1500, minSpanMs = 500 }: SpeedTrendOptions = {}) {
+  let readings: { t: number; speed: number }[] = [];
+
+  // The last reading before the window is the speed the window starts at
+  const prune = (now: number) => {
+    let drop = 0;
+    while (drop < readings.length - 1 && readings[drop + 1].t <= now - windowMs) drop++;
+    if (drop > 0) readings = readings.slice(drop);
+  };
+
+  // km/h
+  const add = (speed: number, t: number) => {
+    readings.push({ t, speed: Math.max(0, speed) });
+    prune(t);
+  };
+
+  const current = () => (readings.length > 0 ? readings[readings.length - 1].speed : 0);
+
+  // m/s² over the window ending now, null until there is enough history
+  const slope = (now: number): number | null => {
+    prune(now);
+    if (readings.length === 0) return null;
+    const from = Math.max(readings[0].t, now - windowMs);
+    const span = now - from;
+    if (span < minSpanMs) return null;
+    return (current() - readings[0].speed) / 3.6 / (span / 1000);
+  };
+
+  const reset = () => {
+    readings = [];
+  };
+
+  return { add, current, slope, reset };
+}
+
+export type SpeedTrend = ReturnType<typeof createSpeedTrend>;
@@ -0,0 +1,442 @@
+// Offline map tile cache backed by IndexedDB.
+// Tiles are stored per source with their fetch time (for expiry) and last
+// access time (for LRU eviction). Region packs are bounding boxes downloaded
+// ahead of time; their tiles are evicted only after every loose tile is gone.
+// The database also holds the cached routes used by useOfflineMode and the
+// road graphs downloaded with packs for offline routing (see offlineRouting).
+
+import type { AppSettings } from '@/hooks/useSettings';
+
+export type TileSourceId = 'default' | 'satellite' | 'dark';
+
+export const TILE_SOURCES: Record<TileSourceId, { label: string; url: string; attribution: string }> = {
+  default: {
+    label: 'Street',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '© OpenStreetMap contributors',
+  },
+  satellite: {
+    label: 'Satellite',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: '© Esri',
+  },
+  dark: {
+    label: 'Dark',
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    attribution: '© CARTO',
+  },
+};
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface TileRecord {
+  key: string; // `${source}/${z}/${x}/${y}`
+  blob: Blob;
+  size: number;
+  fetchedAt: number;
+  lastAccess: number;
+  packs: string[];
+}
+
+export interface TilePack {
+  id: string;
+  name: string;
+  source: TileSourceId;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  storedTiles: number;
+  sizeBytes: number;
+  createdAt: number;
+  status: 'downloading' | 'complete' | 'partial';
+  roadGraph?: { nodes: number; edges: number; sizeBytes: number };
+}
+
+export interface TileCacheConfig {
+  enabled: boolean;
+  maxBytes: number;
+  maxAgeMs: number;
+}
+
+export const DB_NAME = 'collision-prevention-offline';
+export const ROUTES_STORE = 'routes';
+export const TILES_STORE = 'tiles';
+export const PACKS_STORE = 'packs';
+export const GRAPHS_STORE = 'graphs';
+const DB_VERSION = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Bulk downloads are capped to stay within the tile servers' usage policies
+export const MAX_PACK_TILES = 2500;
+export const AVERAGE_TILE_BYTES = 20 * 1024;
+const DOWNLOAD_CONCURRENCY = 4;
+
+export const tileCacheConfig = (
+  settings: Pick<AppSettings, 'cacheMapTiles' | 'maxCacheSize' | 'cacheDuration'>
+): TileCacheConfig => ({
+  enabled: settings.cacheMapTiles,
+  maxBytes: settings.maxCacheSize * 1024 * 1024,
+  maxAgeMs: settings.cacheDuration * DAY_MS,
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openOfflineDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => resolve(request.result);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+
+      if (!db.objectStoreNames.contains(ROUTES_STORE)) {
+        db.createObjectStore(ROUTES_STORE, { keyPath: 'id' });
+      }
+      // Version 1 stored bare OSM tiles without metadata; they are only a cache, so start over
+      if (event.oldVersion < 2 && db.objectStoreNames.contains(TILES_STORE)) {
+        db.deleteObjectStore(TILES_STORE);
+      }
+      if (!db.objectStoreNames.contains(TILES_STORE)) {
+        const tiles = db.createObjectStore(TILES_STORE, { keyPath: 'key' });
+        tiles.createIndex('lastAccess', 'lastAccess');
+        tiles.createIndex('fetchedAt', 'fetchedAt');
+      }
+      if (!db.objectStoreNames.contains(PACKS_STORE)) {
+        db.createObjectStore(PACKS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(GRAPHS_STORE)) {
+        db.createObjectStore(GRAPHS_STORE, { keyPath: 'packId' });
+      }
+      tx.onerror = () => reject(tx.error);
+    };
+  });
+  return dbPromise;
+}
+
+export const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const tileKey = (source: TileSourceId, z: number, x: number, y: number) => `${source}/${z}/${x}/${y}`;
+
+export function tileUrl(source: TileSourceId, z: number, x: number, y: number): string {
+  const subdomains = 'abc';
+  return TILE_SOURCES[source].url
+    .replace('{s}', subdomains[(x + y) % subdomains.length])
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', '');
+}
+
+// Slippy-map tile indices covering a bounding box at one zoom level
+export function tileRange(bounds: TileBounds, z: number) {
+  const n = Math.pow(2, z);
+  const clampLat = (lat: number) => Math.max(-85.0511, Math.min(85.0511, lat));
+  const toX = (lng: number) => Math.min(n - 1, Math.max(0, Math.floor((lng + 180) / 360 * n)));
+  const toY = (lat: number) => {
+    const rad = clampLat(lat) * Math.PI / 180;
+    return Math.min(n - 1, Math.max(0, Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * n)));
+  };
+  return { minX: toX(bounds.west), maxX: toX(bounds.east), minY: toY(bounds.north), maxY: toY(bounds.south) };
+}
+
+export function countTiles(bounds: TileBounds, minZoom: number, maxZoom: number): number {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+}
+
+// Read a tile and mark it as recently used
+export async function getTile(key: string): Promise<TileRecord | null> {
+  const db = await openOfflineDB();
+  const tx = db.transaction(TILES_STORE, 'readwrite');
+  const store = tx.objectStore(TILES_STORE);
+  const record = await requestResult<TileRecord | undefined>(store.get(key));
+  if (record) store.put({ ...record, lastAccess: Date.now() });
+  await transactionDone(tx);
+  return record ?? null;
+}
+
+export async function putTile(key: string, blob: Blob, packId?: string): Promise<void> {
+  const db = await openOfflineDB();
+  const tx = db.transaction(TILES_STORE, 'readwrite');
+  const store = tx.objectStore(TILES_STORE);
+  const existing = await requestResult<TileRecord | undefined>(store.get(key));
+  const packs = existing?.packs ?? [];
+  const now = Date.now();
+  store.put({
+    key,
+    blob,
+    size: blob.size,
+    fetchedAt: now,
+    lastAccess: now,
+    packs: packId && !packs.includes(packId) ? [...packs, packId] : packs,
+  } satisfies TileRecord);
+  await transactionDone(tx);
+}
+
+// Reference a stored tile from a pack without touching its age; false if the tile is gone
+export async function addTileToPack(key: string, packId: string): Promise<boolean> {
+  const db = await openOfflineDB();
+  const tx = db.transaction(TILES_STORE, 'readwrite');
+  const store = tx.objectStore(TILES_STORE);
+  const existing = await requestResult<TileRecord | undefined>(store.get(key));
+  if (existing && !existing.packs.includes(packId)) {
+    store.put({ ...existing, packs: [...existing.packs, packId] } satisfies TileRecord);
+  }
+  await transactionDone(tx);
+  return existing !== undefined;
+}
+
+export async function fetchTile(source: TileSourceId, z: number, x: number, y: number, signal?: AbortSignal): Promise<Blob> {
+  const response = await fetch(tileUrl(source, z, x, y), { signal });
+  if (!response.ok) throw new Error(`Tile request failed: ${response.status}`);
+  return response.blob();
+}
+
+export async function getCacheStats(): Promise<{ tileCount: number; tileBytes: number }> {
+  const db = await openOfflineDB();
+  const tx = db.transaction(TILES_STORE, 'readonly');
+  let tileCount = 0;
+  let tileBytes = 0;
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = tx.objectStore(TILES_STORE).openCursor();
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return resolve();
+      tileCount++;
+      tileBytes += (cursor.value as TileRecord).size;
+      cursor.continue();
+    };
+  });
+  return { tileCount, tileBytes };
+}
+
+export async function listPacks(): Promise<TilePack[]> {
+  const db = await openOfflineDB();
+  const packs = await requestResult<TilePack[]>(db.transaction(PACKS_STORE, 'readonly').objectStore(PACKS_STORE).getAll());
+  return packs.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Delete tiles (and update the packs that referenced them) matching a predicate over the metadata
+async function deleteTiles(select: (tiles: TileRecord[]) => Set<string>): Promise<number> {
+  const db = await openOfflineDB();
+  const tx = db.transaction([TILES_STORE, PACKS_STORE], 'readwrite');
+  const tiles = tx.objectStore(TILES_STORE);
+  const packsStore = tx.objectStore(PACKS_STORE);
+
+  const all: TileRecord[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = tiles.index('lastAccess').openCursor();
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return resolve();
+      all.push(cursor.value as TileRecord);
+      cursor.continue();
+    };
+  });
+
+  const doomed = select(all);
+  if (doomed.size === 0) {
+    await transactionDone(tx);
+    return 0;
+  }
+
+  const packLosses = new Map<string, { tiles: number; bytes: number }>();
+  all.filter(t => doomed.has(t.key)).forEach(t => {
+    tiles.delete(t.key);
+    t.packs.forEach(id => {
+      const loss = packLosses.get(id) ?? { tiles: 0, bytes: 0 };
+      packLosses.set(id, { tiles: loss.tiles + 1, bytes: loss.bytes + t.size });
+    });
+  });
+
+  for (const [id, loss] of packLosses) {
+    const pack = await requestResult<TilePack | undefined>(packsStore.get(id));
+    if (!pack) continue;
+    packsStore.put({
+      ...pack,
+      storedTiles: Math.max(0, pack.storedTiles - loss.tiles),
+      sizeBytes: Math.max(0, pack.sizeBytes - loss.bytes),
+      status: pack.status === 'downloading' ? pack.status : 'partial',
+    } satisfies TilePack);
+  }
+
+  await transactionDone(tx);
+  return doomed.size;
+}
+
+// Least recently used tiles go first; pack tiles only once no loose tiles are left
+export function evictToLimit(maxBytes: number): Promise<number> {
+  return deleteTiles(tiles => {
+    let total = tiles.reduce((sum, t) => sum + t.size, 0);
+    const doomed = new Set<string>();
+    for (const pass of [(t: TileRecord) => t.packs.length === 0, (t: TileRecord) => t.packs.length > 0]) {
+      for (const tile of tiles) {
+        if (total <= maxBytes) return doomed;
+        if (!pass(tile)) continue;
+        doomed.add(tile.key);
+        total -= tile.size;
+      }
+    }
+    return doomed;
+  });
+}
+
+// Drop tiles and packs older than the configured cache duration
+export async function purgeExpired(maxAgeMs: number, now = Date.now()): Promise<number> {
+  const cutoff = now - maxAgeMs;
+  const removed = await deleteTiles(tiles => new Set(tiles.filter(t => t.fetchedAt < cutoff).map(t => t.key)));
+
+  const db = await openOfflineDB();
+  const tx = db.transaction([PACKS_STORE, GRAPHS_STORE], 'readwrite');
+  const store = tx.objectStore(PACKS_STORE);
+  const packs = await requestResult<TilePack[]>(store.getAll());
+  packs.filter(p => p.status !== 'downloading' && p.createdAt < cutoff).forEach(p => {
+    store.delete(p.id);
+    tx.objectStore(GRAPHS_STORE).delete(p.id);
+  });
+  await transactionDone(tx);
+  return removed;
+}
+
+export async function deletePack(id: string): Promise<void> {
+  // Tiles shared with another pack stay; the rest of the pack's tiles go with it
+  await deleteTiles(tiles => new Set(tiles.filter(t => t.packs.length === 1 && t.packs[0] === id).map(t => t.key)));
+
+  const db = await openOfflineDB();
+  const tx = db.transaction([TILES_STORE, PACKS_STORE, GRAPHS_STORE], 'readwrite');
+  const tiles = tx.objectStore(TILES_STORE);
+  const shared = await requestResult<TileRecord[]>(tiles.getAll());
+  shared.filter(t => t.packs.includes(id)).forEach(t => tiles.put({ ...t, packs: t.packs.filter(p => p !== id) }));
+  tx.objectStore(PACKS_STORE).delete(id);
+  tx.objectStore(GRAPHS_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export async function clearTiles(): Promise<void> {
+  const db = await openOfflineDB();
+  const tx = db.transaction([TILES_STORE, PACKS_STORE, GRAPHS_STORE], 'readwrite');
+  tx.objectStore(TILES_STORE).clear();
+  tx.objectStore(PACKS_STORE).clear();
+  tx.objectStore(GRAPHS_STORE).clear();
+  await transactionDone(tx);
+}
+
+async function savePack(pack: TilePack): Promise<void> {
+  const db = await openOfflineDB();
+  const tx = db.transaction(PACKS_STORE, 'readwrite');
+  tx.objectStore(PACKS_STORE).put(pack);
+  await transactionDone(tx);
+}
+
+export async function updatePack(id: string, patch: Partial<TilePack>): Promise<void> {
+  const db = await openOfflineDB();
+  const tx = db.transaction(PACKS_STORE, 'readwrite');
+  const store = tx.objectStore(PACKS_STORE);
+  const pack = await requestResult<TilePack | undefined>(store.get(id));
+  if (pack) store.put({ ...pack, ...patch });
+  await transactionDone(tx);
+}
+
+export interface PackRequest {
+  name: string;
+  source: TileSourceId;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+}
+
+// Download every tile of a region, reusing fresh cached tiles, then enforce the size limit
+export async function downloadPack(
+  request: PackRequest,
+  config: TileCacheConfig,
+  { onProgress, signal }: { onProgress?: (done: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<TilePack> {
+  const tileCount = countTiles(request.bounds, request.minZoom, request.maxZoom);
+  if (tileCount > MAX_PACK_TILES) {
+    throw new Error(`Region needs ${tileCount} tiles; the limit is ${MAX_PACK_TILES}. Zoom in or lower the max zoom.`);
+  }
+
+  const pack: TilePack = {
+    ...request,
+    id: `pack_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    tileCount,
+    storedTiles: 0,
+    sizeBytes: 0,
+    createdAt: Date.now(),
+    status: 'downloading',
+  };
+  await savePack(pack);
+
+  const queue: [number, number, number][] = [];
+  for (let z = request.minZoom; z <= request.maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(request.bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) queue.push([z, x, y]);
+    }
+  }
+
+  let done = 0;
+  const worker = async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      const [z, x, y] = queue.shift()!;
+      const key = tileKey(request.source, z, x, y);
+      try {
+        const cached = await getTile(key);
+        let size: number;
+        if (cached && Date.now() - cached.fetchedAt < config.maxAgeMs && await addTileToPack(key, pack.id)) {
+          size = cached.size;
+        } else {
+          const blob = await fetchTile(request.source, z, x, y, signal);
+          await putTile(key, blob, pack.id);
+          size = blob.size;
+        }
+        pack.storedTiles++;
+        pack.sizeBytes += size;
+      } catch (error) {
+        if (!signal?.aborted) console.error(`Failed to cache tile ${key}:`, error);
+      }
+      onProgress?.(++done, tileCount);
+    }
+  };
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+  if (signal?.aborted) {
+    await deletePack(pack.id);
+    throw new DOMException('Download cancelled', 'AbortError');
+  }
+
+  pack.status = pack.storedTiles === tileCount ? 'complete' : 'partial';
+  await savePack(pack);
+  await evictToLimit(config.maxBytes);
+  return pack;
+}
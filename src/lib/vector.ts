@@ -0,0 +1,23 @@
+// 3D vector helpers for motion samples.
+
+import type { Vec3 } from './crashDetection';
+
+export const add = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+
+export const scale = (v: Vec3, k: number): Vec3 => ({ x: v.x * k, y: v.y * k, z: v.z * k });
+
+export const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+export const cross = (a: Vec3, b: Vec3): Vec3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+
+export const length = (v: Vec3) => Math.hypot(v.x, v.y, v.z);
+
+// Unit vector, or null for a (near) zero vector
+export const normalize = (v: Vec3): Vec3 | null => {
+  const n = length(v);
+  return n > 1e-9 ? scale(v, 1 / n) : null;
+};
@@ -0,0 +1,154 @@
+// Danger-zone geofence for an active ride.
+// Zones ahead of the vehicle (inside a cone around the heading) are checked
+// against a look-ahead distance that grows with speed. Warnings escalate from
+// approaching to imminent to inside; each zone gets each level at most once
+// per cooldown, so a driver circling a block is not warned on every fix.
+
+import { bearingBetween, distanceMeters } from './closestApproach';
+
+export type ZoneSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type ZoneWarningLevel = 'approaching' | 'imminent' | 'inside';
+
+export interface GeofenceZone {
+  id: string;
+  lat: number;
+  lng: number;
+  radius: number; // meters
+  incidentCount: number;
+  dominantSeverity: ZoneSeverity;
+}
+
+export interface ZoneWarning {
+  zone: GeofenceZone;
+  level: ZoneWarningLevel;
+  distanceToEdge: number; // meters, 0 when inside
+  message: string;
+}
+
+export interface GeofenceInput {
+  position: { lat: number; lng: number };
+  heading: number | null; // degrees from north
+  speedKmh: number;
+  zones: GeofenceZone[];
+  now?: number;
+}
+
+export interface GeofenceOptions {
+  lookAheadSeconds?: number; // approaching warning this many seconds before the zone edge
+  minLookAheadMeters?: number;
+  imminentSeconds?: number;
+  minImminentMeters?: number;
+  coneDegrees?: number; // half-angle of the cone counted as "ahead"
+  cooldownMs?: number; // per zone and level
+  minGapMs?: number; // between any two warnings of the same or lower level
+  minSpeedKmh?: number; // no warnings while crawling or parked
+}
+
+const LEVEL_RANK: Record<ZoneWarningLevel, number> = { approaching: 1, imminent: 2, inside: 3 };
+
+const angleDiff = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+};
+
+const roundDistance = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} kilometers` : `${Math.max(50, Math.round(meters / 50) * 50)} meters`;
+
+export function zoneWarningMessage(zone: GeofenceZone, level: ZoneWarningLevel, distanceToEdge: number): string {
+  const risk = zone.dominantSeverity === 'critical' || zone.dominantSeverity === 'high' ? 'high-risk crash zone' : 'accident-prone area';
+  const riskTitle = risk.charAt(0).toUpperCase() + risk.slice(1);
+  const history = `${zone.incidentCount} collision${zone.incidentCount === 1 ? '' : 's'} reported here`;
+  switch (level) {
+    case 'inside':
+      return `You are in a ${risk}. ${history}. Drive carefully.`;
+    case 'imminent':
+      return `Warning! ${riskTitle} in ${roundDistance(distanceToEdge)}. Slow down now.`;
+    default:
+      return `Caution. ${riskTitle} ahead in ${roundDistance(distanceToEdge)}. ${history}. Reduce speed.`;
+  }
+}
+
+export function createZoneGeofence({
+  lookAheadSeconds = 30,
+  minLookAheadMeters = 250,
+  imminentSeconds = 10,
+  minImminentMeters = 80,
+  coneDegrees = 40,
+  cooldownMs = 5 * 60 * 1000,
+  minGapMs = 8000,
+  minSpeedKmh = 10,
+}: GeofenceOptions = {}) {
+  const lastWarned = new Map<string, number>(); // `${zoneId}:${level}` -> time
+  let lastWarningAt = 0;
+  let lastWarningRank = 0;
+  let lastPosition: { lat: number; lng: number } | null = null;
+  let movementHeading: number | null = null;
+
+  // Warnings ordered most urgent first
+  const evaluate = ({ position, heading, speedKmh, zones }: GeofenceInput): Omit<ZoneWarning, 'message'>[] => {
+    // Without a compass heading fall back to the direction of travel between fixes
+    if (lastPosition && distanceMeters(lastPosition, position) >= 10) {
+      movementHeading = bearingBetween(lastPosition, position);
+      lastPosition = position;
+    } else if (!lastPosition) {
+      lastPosition = position;
+    }
+    const travelHeading = heading ?? movementHeading;
+
+    const speedMs = speedKmh / 3.6;
+    const lookAhead = Math.max(minLookAheadMeters, speedMs * lookAheadSeconds);
+    const imminent = Math.max(minImminentMeters, speedMs * imminentSeconds);
+
+    return zones
+      .map(zone => {
+        const distance = distanceMeters(position, zone);
+        const distanceToEdge = Math.max(0, distance - zone.radius);
+        if (distanceToEdge === 0) return { zone, level: 'inside' as const, distanceToEdge };
+        if (distanceToEdge > lookAhead) return null;
+
+        // Until the direction of travel is known nothing counts as ahead
+        if (travelHeading === null) return null;
+        const offAxis = angleDiff(travelHeading, bearingBetween(position, zone));
+        if (offAxis > coneDegrees) return null;
+        return { zone, level: distanceToEdge <= imminent ? 'imminent' as const : 'approaching' as const, distanceToEdge };
+      })
+      .filter((w): w is Omit<ZoneWarning, 'message'> => w !== null)
+      .sort((a, b) => LEVEL_RANK[b.level] - LEVEL_RANK[a.level] || a.distanceToEdge - b.distanceToEdge);
+  };
+
+  const check = (input: GeofenceInput): ZoneWarning | null => {
+    const now = input.now ?? Date.now();
+    const candidates = evaluate(input);
+    if (input.speedKmh < minSpeedKmh) return null;
+
+    for (const candidate of candidates) {
+      const key = `${candidate.zone.id}:${candidate.level}`;
+      if (now - (lastWarned.get(key) ?? -Infinity) < cooldownMs) continue;
+
+      // Escalations always get through; anything else waits for the gap after the last warning
+      const rank = LEVEL_RANK[candidate.level];
+      if (rank <= lastWarningRank && now - lastWarningAt < minGapMs) continue;
+
+      // A warning also covers the lower levels, so escalation doesn't step back down on the way out
+      (Object.keys(LEVEL_RANK) as ZoneWarningLevel[])
+        .filter(level => LEVEL_RANK[level] <= rank)
+        .forEach(level => lastWarned.set(`${candidate.zone.id}:${level}`, now));
+      lastWarningAt = now;
+      lastWarningRank = rank;
+      return { ...candidate, message: zoneWarningMessage(candidate.zone, candidate.level, candidate.distanceToEdge) };
+    }
+    return null;
+  };
+
+  const reset = () => {
+    lastWarned.clear();
+    lastWarningAt = 0;
+    lastWarningRank = 0;
+    lastPosition = null;
+    movementHeading = null;
+  };
+
+  return { check, reset };
+}
+
+export type ZoneGeofence = ReturnType<typeof createZoneGeofence>;
@@ -0,0 +1,134 @@
+import { useState, FormEvent } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Shield, Loader2, LogIn, UserPlus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const Auth = () => {
+  const { isAuthenticated, isLoading, signIn, signUp } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Send the driver back to the page that asked them to sign in
+  const from = (location.state as { from?: string } | null)?.from ?? '/dashboard';
+
+  if (!isLoading && isAuthenticated) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSignIn = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const { error } = await signIn(email.trim(), password);
+    setIsSubmitting(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success('Signed in');
+    navigate(from, { replace: true });
+  };
+
+  const handleSignUp = async (e: FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { error, needsConfirmation } = await signUp(email.trim(), password);
+    setIsSubmitting(false);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    if (needsConfirmation) {
+      toast.success('Check your email to confirm your account');
+      return;
+    }
+    toast.success('Account created');
+    navigate(from, { replace: true });
+  };
+
+  const fields = (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="auth-email" className="font-mono text-xs">Email</Label>
+        <Input
+          id="auth-email"
+          type="email"
+          autoComplete="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="auth-password" className="font-mono text-xs">Password</Label>
+        <Input
+          id="auth-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-10 md:py-16">
+      <Card>
+        <CardHeader className="text-center">
+          <Shield className="h-10 w-10 text-primary mx-auto mb-2" />
+          <CardTitle className="font-mono">Sign in to Eco Rider AI</CardTitle>
+          <CardDescription>Your trips, emergency contacts and SOS alerts are private to your account</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="signin">
+            <TabsList className="grid grid-cols-2 w-full mb-4">
+              <TabsTrigger value="signin" className="font-mono">Sign In</TabsTrigger>
+              <TabsTrigger value="signup" className="font-mono">Sign Up</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="signin">
+              <form onSubmit={handleSignIn} className="space-y-4">
+                {fields}
+                <Button type="submit" className="w-full font-mono" disabled={isSubmitting}>
+                  {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogIn className="h-4 w-4 mr-2" />}
+                  Sign In
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="signup">
+              <form onSubmit={handleSignUp} className="space-y-4">
+                {fields}
+                <Button type="submit" className="w-full font-mono" disabled={isSubmitting}>
+                  {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+                  Create Account
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
@@ -19,18 +19,27 @@ import UnifiedCollisionRisk from '@/components/UnifiedCollisionRisk';
 import SafeRouteAI from '@/components/SafeRouteAI';
 import BluetoothPanel from '@/components/BluetoothPanel';
 import AIChatAssistant from '@/components/AIChatAssistant';
+import DriveRecorderPanel from '@/components/DriveRecorderPanel';
+import MountCalibrationPanel from '@/components/MountCalibrationPanel';
+import DriverFatigueDetector from '@/components/DriverFatigueDetector';
 import { useVoiceCommands } from '@/hooks/useVoiceCommands';
 import { useSpeedLimitAlert } from '@/hooks/useSpeedLimitAlert';
+import { useDangerZoneAlerts } from '@/hooks/useDangerZoneAlerts';
 import { useOfflineMode } from '@/hooks/useOfflineMode';
-import { useOfflineGeolocation } from '@/hooks/useOfflineGeolocation';
 import { useRealtimeTracking } from '@/hooks/useRealtimeTracking';
-import { useNativeGeolocation } from '@/hooks/useNativeGeolocation';
+import { useFusedLocation } from '@/hooks/useFusedLocation';
 import { useNativeSpeech } from '@/hooks/useNativeSpeech';
 import { usePushNotifications } from '@/hooks/usePushNotifications';
 import { useOfflineStorage } from '@/hooks/useOfflineStorage';
+import { useDriveMode } from '@/hooks/useDriveSession';
 import { Activity, AlertTriangle, Gauge, Shield } from 'lucide-react';
 import { toast } from 'sonner';
 
+// Shown until the first fix when neither GPS nor a cached position is available
+const DEFAULT_LOCATION = { lat: 28.6139, lng: 77.2090 };
+// The indicator can't be read, so a lane change the driver announces stands in for it this long
+const LANE_CHANGE_MS = 8000;
+
 const Index = () => {
   const [stats, setStats] = useState({
     activeVehicles: 0,
@@ -40,22 +49,29 @@ const Index = () => {
   });
   const [isRideActive, setIsRideActive] = useState(false);
   const [detectedSpeed, setDetectedSpeed] = useState(0);
-  const [currentLocation, setCurrentLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [obdSpeed, setObdSpeed] = useState<number | null>(null);
+  const [fallbackLocation, setFallbackLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [routeCoordinates, setRouteCoordinates] = useState<{ lat: number; lng: number }[]>([]);
   const [dangerZones, setDangerZones] = useState<{ lat: number; lng: number; reason: string }[]>([]);
   const [destination, setDestination] = useState('');
   const [isVoiceListening, setIsVoiceListening] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
+  const [fatigueLevel, setFatigueLevel] = useState(0);
+  const [weather, setWeather] = useState<{ condition: string; visibility: number } | null>(null);
+  const [laneChangeAt, setLaneChangeAt] = useState<number | null>(null);
+
+  // A replayed drive runs the detectors without starting a real ride
+  const isReplaying = useDriveMode() === 'replay';
+  const isMonitoring = isRideActive || isReplaying;
 
-  const {
-    location: nativeLocation,
-    startTracking: startLocationTracking,
-    stopTracking: stopLocationTracking,
-    getCurrentPosition,
-    speed: nativeSpeed,
-  } = useNativeGeolocation({ enableHighAccuracy: true, enableBackgroundTracking: false });
+  // GPS, motion sensors and OBD speed fused into one position for every consumer below
+  const fusedLocation = useFusedLocation({ isActive: isMonitoring, obdSpeed });
+  const { locate } = fusedLocation;
+  const currentLocation = fusedLocation.position ?? fallbackLocation;
+  const currentHeading = fusedLocation.heading;
+  const currentSpeed = fusedLocation.speed ?? detectedSpeed;
 
-  const { speak: nativeSpeak, speakCollisionWarning, speakSpeedWarning, speakSOSConfirmation, enableSpeech, isSupported: isSpeechSupported } = useNativeSpeech();
+  const { speak: nativeSpeak, speakCollisionWarning, speakSpeedWarning, speakNavigation, speakSOSConfirmation, enableSpeech, isSupported: isSpeechSupported } = useNativeSpeech();
 
   const { sendLocalNotification } = usePushNotifications({
     onNotificationReceived: (n) => console.log('Notification:', n),
@@ -64,22 +80,38 @@ const Index = () => {
 
   const { cacheCollisionEvent } = useOfflineStorage();
   const { isOffline, cachedRoutes, cacheSize, cacheRoute, clearCache } = useOfflineMode();
-  const { getCurrentPosition: getOfflinePosition, startTracking: startOfflineTracking, stopTracking: stopOfflineTracking, locationSource } = useOfflineGeolocation();
 
   const { currentSpeedLimit, roadType, isOverLimit, overLimitAmount } = useSpeedLimitAlert({
-    currentSpeed: detectedSpeed,
+    currentSpeed,
     currentLocation,
-    isActive: isRideActive,
+    isActive: isMonitoring,
     onSpeak: isMuted ? undefined : (msg) => nativeSpeak?.(msg),
   });
 
+  const { nearbyIncidents } = useDangerZoneAlerts({
+    currentLocation,
+    currentHeading,
+    currentSpeed,
+    isActive: isMonitoring,
+    onSpeak: isMuted ? undefined : nativeSpeak,
+  });
+
   const { nearbyVehicles, collisionWarnings, trafficUpdates, isConnected } = useRealtimeTracking({
     currentLocation,
-    currentSpeed: detectedSpeed,
-    isActive: isRideActive,
+    currentSpeed,
+    currentHeading,
+    isActive: isMonitoring,
     onSpeak: isMuted ? undefined : (msg) => nativeSpeak?.(msg),
   });
 
+  const signalLaneChange = useCallback(() => setLaneChangeAt(Date.now()), []);
+
+  useEffect(() => {
+    if (laneChangeAt === null) return;
+    const t = setTimeout(() => setLaneChangeAt(null), LANE_CHANGE_MS);
+    return () => clearTimeout(t);
+  }, [laneChangeAt]);
+
   const handleVoiceCommand = useCallback((command: string, params?: any) => {
     switch (command) {
       case 'START_RIDE':
@@ -97,11 +129,14 @@ const Index = () => {
           setTimeout(() => document.querySelector<HTMLButtonElement>('[data-navigate-button]')?.click(), 100);
         }
         break;
+      case 'CHANGE_LANE':
+        signalLaneChange();
+        break;
       case 'CLEAR_ROUTE':
         setRouteCoordinates([]); setDangerZones([]); setDestination('');
         break;
       case 'GET_SPEED':
-        nativeSpeak(`Your current speed is ${Math.max(detectedSpeed, 0).toFixed(0)} kilometers per hour`);
+        nativeSpeak(`Your current speed is ${Math.max(currentSpeed, 0).toFixed(0)} kilometers per hour`);
         break;
       case 'GET_LOCATION':
         if (currentLocation) nativeSpeak(`You are at latitude ${currentLocation.lat.toFixed(2)} and longitude ${currentLocation.lng.toFixed(2)}`);
@@ -110,7 +145,7 @@ const Index = () => {
         nativeSpeak(`Your safety score is ${stats.safetyScore.toFixed(0)} percent. ${stats.totalCollisions} collisions in the last 24 hours.`);
         break;
     }
-  }, [isRideActive, detectedSpeed, currentLocation, stats, nativeSpeak]);
+  }, [isRideActive, currentSpeed, currentLocation, stats, nativeSpeak, signalLaneChange]);
 
   const { speak, toggleListening, isSupported } = useVoiceCommands({
     onCommand: handleVoiceCommand,
@@ -121,34 +156,8 @@ const Index = () => {
   useEffect(() => { fetchStats(); const i = setInterval(fetchStats, 5000); return () => clearInterval(i); }, []);
 
   useEffect(() => {
-    const getInitialLocation = async () => {
-      const pos = await getCurrentPosition();
-      if (pos?.latitude && pos?.longitude) {
-        setCurrentLocation({ lat: pos.latitude, lng: pos.longitude });
-      } else {
-        // Offline fallback
-        const offlinePos = await getOfflinePosition();
-        if (offlinePos) setCurrentLocation({ lat: offlinePos.lat, lng: offlinePos.lng });
-        else setCurrentLocation({ lat: 28.6139, lng: 77.2090 });
-      }
-    };
-    getInitialLocation();
-  }, [getCurrentPosition, getOfflinePosition]);
-
-  useEffect(() => {
-    if (isRideActive) startLocationTracking(); else stopLocationTracking();
-  }, [isRideActive, startLocationTracking, stopLocationTracking]);
-
-  useEffect(() => {
-    if (nativeLocation.latitude && nativeLocation.longitude) setCurrentLocation({ lat: nativeLocation.latitude, lng: nativeLocation.longitude });
-  }, [nativeLocation.latitude, nativeLocation.longitude]);
-
-  useEffect(() => {
-    if (nativeSpeed !== null && nativeSpeed > 0) {
-      const speedKmh = nativeSpeed * 3.6;
-      if (speedKmh > detectedSpeed) setDetectedSpeed(speedKmh);
-    }
-  }, [nativeSpeed, detectedSpeed]);
+    locate().then(pos => { if (!pos) setFallbackLocation(DEFAULT_LOCATION); });
+  }, [locate]);
 
   const fetchStats = async () => {
     const { data: vehicles } = await supabase.from('vehicle_tracking').select('speed');
@@ -193,7 +202,7 @@ const Index = () => {
       </div>
 
       {/* Live Dashboard Header */}
-      <LiveDashboardHeader currentSpeed={detectedSpeed} safetyScore={stats.safetyScore} isRideActive={isRideActive} nearbyVehicles={nearbyVehicles.length} collisionWarnings={collisionWarnings.length} isConnected={isConnected} />
+      <LiveDashboardHeader currentSpeed={currentSpeed} safetyScore={stats.safetyScore} isRideActive={isRideActive} nearbyVehicles={nearbyVehicles.length} collisionWarnings={collisionWarnings.length} isConnected={isConnected} />
 
       {/* Offline indicator */}
       <div className="mb-4">
@@ -203,31 +212,40 @@ const Index = () => {
       {/* Camera & Controls */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 md:gap-6 mb-6 md:mb-8">
         <div className="lg:col-span-2 order-2 lg:order-1">
-          <AdvancedCameraDetection onSpeedDetected={setDetectedSpeed} isRideActive={isRideActive} onSpeak={isMuted ? undefined : nativeSpeak} />
+          <AdvancedCameraDetection
+            onSpeedDetected={setDetectedSpeed}
+            isRideActive={isMonitoring}
+            onSpeak={isMuted ? undefined : nativeSpeak}
+            isTurnSignalOn={laneChangeAt !== null}
+            onLaneChange={signalLaneChange}
+          />
         </div>
         <div className="space-y-4 order-1 lg:order-2">
-          <RideController onRideStateChange={setIsRideActive} detectedSpeed={detectedSpeed} />
-          {isRideActive && (
-            <SpeedLimitAlert currentSpeed={detectedSpeed} speedLimit={currentSpeedLimit} isOverLimit={isOverLimit} overLimitAmount={overLimitAmount} roadType={roadType} />
+          <RideController onRideStateChange={setIsRideActive} detectedSpeed={currentSpeed} obdSpeed={obdSpeed} />
+          {isMonitoring && (
+            <SpeedLimitAlert currentSpeed={currentSpeed} speedLimit={currentSpeedLimit} isOverLimit={isOverLimit} overLimitAmount={overLimitAmount} roadType={roadType} />
           )}
           <VoiceControlPanel isListening={isVoiceListening} toggleListening={toggleListening} isSupported={isSupported} isMuted={isMuted} setIsMuted={setIsMuted} />
-          <BluetoothPanel onSpeedUpdate={(speed) => { if (speed > detectedSpeed) setDetectedSpeed(speed); }} />
+          <DriverFatigueDetector isRideActive={isRideActive} onSpeak={isMuted ? undefined : nativeSpeak} onFatigueChange={setFatigueLevel} />
+          <BluetoothPanel onSpeedUpdate={setObdSpeed} />
+          <MountCalibrationPanel isActive={isMonitoring} speed={currentSpeed} />
+          <DriveRecorderPanel isRideActive={isRideActive} />
         </div>
       </div>
 
       {/* Main Dashboard Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4 md:gap-6 mb-6 md:mb-8">
         <div className="md:col-span-2 h-[300px] sm:h-[350px] md:h-[400px] lg:h-[450px] bg-card rounded-lg p-3 md:p-4 border border-border">
-          <EnhancedCollisionMap routeCoordinates={routeCoordinates} dangerZones={dangerZones} currentLocation={currentLocation} isRideActive={isRideActive} nearbyVehicleCount={nearbyVehicles.length} />
+          <EnhancedCollisionMap routeCoordinates={routeCoordinates} dangerZones={dangerZones} currentLocation={currentLocation} locationAccuracy={fusedLocation.accuracy} isDeadReckoning={fusedLocation.source === 'dead-reckoning'} isRideActive={isRideActive} nearbyVehicleCount={nearbyVehicles.length} />
         </div>
         <div className="space-y-4">
-          <UnifiedCollisionRisk currentSpeed={detectedSpeed} nearbyVehicles={nearbyVehicles.length} collisionWarnings={collisionWarnings} isRideActive={isRideActive} isOverSpeedLimit={isOverLimit} />
-          <NavigationRoute currentLocation={currentLocation} onRouteCalculated={(coords, zones) => { handleRouteCalculated(coords, zones); if (currentLocation && destination) cacheRoute(currentLocation, destination, coords); }} destination={destination} setDestination={setDestination} speak={isMuted ? undefined : nativeSpeak} />
-          <EmergencySOS currentLocation={currentLocation} isRideActive={isRideActive} />
+          <UnifiedCollisionRisk currentSpeed={currentSpeed} nearbyVehicles={nearbyVehicles.length} collisionWarnings={collisionWarnings} isRideActive={isRideActive} fatigueLevel={fatigueLevel} isOverSpeedLimit={isOverLimit} overLimitAmount={overLimitAmount} weatherCondition={weather?.condition} visibility={weather?.visibility} historicalCollisions={nearbyIncidents} />
+          <NavigationRoute currentLocation={currentLocation} onRouteCalculated={(coords, zones) => { handleRouteCalculated(coords, zones); if (currentLocation && destination) cacheRoute(currentLocation, destination, coords); }} destination={destination} setDestination={setDestination} speak={isMuted ? undefined : nativeSpeak} speakNavigation={isMuted ? undefined : speakNavigation} isOffline={isOffline} />
+          <EmergencySOS currentLocation={currentLocation} isRideActive={isRideActive} currentSpeed={currentSpeed} onSpeak={isMuted ? undefined : nativeSpeak} />
         </div>
         <div className="space-y-4">
           <RealtimePanel nearbyVehicles={nearbyVehicles} collisionWarnings={collisionWarnings} trafficUpdates={trafficUpdates} isConnected={isConnected} />
-          <WeatherTrafficAlert currentLocation={currentLocation} />
+          <WeatherTrafficAlert currentLocation={currentLocation} onWeatherChange={setWeather} />
         </div>
       </div>
 
@@ -238,7 +256,7 @@ const Index = () => {
       </div>
 
       {/* AI Chat - Floating */}
-      <AIChatAssistant currentSpeed={detectedSpeed} isRideActive={isRideActive} currentLocation={currentLocation} safetyScore={stats.safetyScore} collisionWarnings={collisionWarnings.length} />
+      <AIChatAssistant currentSpeed={currentSpeed} isRideActive={isRideActive} currentLocation={currentLocation} safetyScore={stats.safetyScore} collisionWarnings={collisionWarnings.length} />
     </div>
   );
 };
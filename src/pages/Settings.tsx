@@ -10,6 +10,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator';
 import { toast } from 'sonner';
 import { useSettings, AppSettings } from '@/hooks/useSettings';
+import TilePackManager from '@/components/TilePackManager';
 
 const Settings = () => {
   const { settings, saveSettings, resetSettings, isLoaded } = useSettings();
@@ -296,6 +297,10 @@ const Settings = () => {
                 How long to keep cached data before auto-clearing
               </p>
             </div>
+
+            <Separator />
+
+            <TilePackManager />
           </CardContent>
         </Card>
 
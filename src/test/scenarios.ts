@@ -0,0 +1,144 @@
+// Scenario fixtures for the detection tests.
+// Encounters are placed around a fixed origin in meters north/east of it.
+// Motion traces are sampled at 50 Hz with the phone lying flat (gravity on +z)
+// and speed reported once a second, like the GPS/OBD feed.
+
+import type { MovingVehicle } from '@/lib/closestApproach';
+import type { VehiclePosition } from '@/lib/collisionWarnings';
+import type { CrashAssessment, CrashDetector, MotionSample, Vec3 } from '@/lib/crashDetection';
+
+const G = 9.81;
+const M_PER_DEG_LAT = 111320;
+const SAMPLE_MS = 20;
+const SPEED_MS = 1000;
+
+export const ORIGIN = { lat: 52.52, lng: 13.405 };
+
+export const offset = (north: number, east: number) => ({
+  lat: ORIGIN.lat + north / M_PER_DEG_LAT,
+  lng: ORIGIN.lng + east / (M_PER_DEG_LAT * Math.cos(ORIGIN.lat * Math.PI / 180)),
+});
+
+const vehicle = (id: string, north: number, east: number, speed: number, heading: number): VehiclePosition => {
+  const { lat, lng } = offset(north, east);
+  return { vehicle_id: id, current_lat: lat, current_lng: lng, speed, heading };
+};
+
+const own = (speed: number, heading = 0): MovingVehicle => ({ ...ORIGIN, speed, heading });
+
+export interface Encounter {
+  own: MovingVehicle;
+  other: VehiclePosition;
+}
+
+export const encounters = {
+  // Oncoming car in our lane, 40m ahead, both at 50 km/h
+  headOn: { own: own(50), other: vehicle('oncoming', 40, 0, 50, 180) },
+  // Closing on a slow car 60m ahead at 80 vs 30 km/h
+  rearEnd: { own: own(80), other: vehicle('lead', 60, 0, 30, 0) },
+  // Same gap closing at only 10 km/h: paths meet only after the horizon
+  rearEndDistant: { own: own(40), other: vehicle('lead', 60, 0, 30, 0) },
+  // Oncoming traffic on a parallel road 25m to the east
+  parallelOncoming: { own: own(60), other: vehicle('other-road', 150, 25, 60, 180) },
+  // Overtaking a car on a parallel road 25m to the east
+  parallelSameWay: { own: own(90), other: vehicle('other-road', 30, 25, 70, 0) },
+  // Our own row in the tracking table
+  self: { own: own(50), other: vehicle('self', 0, 0, 50, 0) },
+} satisfies Record<string, Encounter>;
+
+export interface DriveTrace {
+  motion: MotionSample[];
+  speeds: { t: number; speed: number }[];
+}
+
+interface TraceSpec {
+  durationMs: number;
+  speed: (t: number) => number; // km/h
+  acceleration?: (t: number) => Vec3 | null; // m/s², gravity removed
+  gravity?: (t: number) => Vec3 | null; // defaults to flat
+}
+
+const FLAT: Vec3 = { x: 0, y: 0, z: G };
+const NONE: Vec3 = { x: 0, y: 0, z: 0 };
+
+// Road vibration, well below any detection threshold
+const vibration = (t: number): Vec3 => ({ x: 0.1 * Math.sin(t / 37), y: 0.1 * Math.cos(t / 53), z: 0.2 * Math.sin(t / 29) });
+
+const buildTrace = ({ durationMs, speed, acceleration = () => null, gravity = () => null }: TraceSpec): DriveTrace => {
+  const motion: MotionSample[] = [];
+  const speeds: { t: number; speed: number }[] = [];
+
+  for (let t = 0; t <= durationMs; t += SAMPLE_MS) {
+    const moving = speed(t) > 0;
+    const a = acceleration(t) ?? (moving ? vibration(t) : NONE);
+    const g = gravity(t) ?? FLAT;
+    motion.push({
+      t,
+      acceleration: a,
+      accelerationIncludingGravity: { x: a.x + g.x, y: a.y + g.y, z: a.z + g.z },
+    });
+  }
+  for (let t = 0; t <= durationMs; t += SPEED_MS) speeds.push({ t, speed: speed(t) });
+
+  return { motion, speeds };
+};
+
+export const IMPACT_AT = 5000;
+const during = (t: number, from: number, ms: number) => t >= from && t < from + ms;
+
+export const traces = {
+  // 3G jolt through a pothole at 50 km/h; the car drives on
+  pothole: buildTrace({
+    durationMs: 15000,
+    speed: () => 50,
+    acceleration: t => (during(t, IMPACT_AT, 60) ? { x: 0, y: 0.5, z: 3 * G } : null),
+  }),
+  // Phone slips off the mount: 400ms of free fall, then a 6G hit on the floor
+  phoneDrop: buildTrace({
+    durationMs: 10000,
+    speed: () => 40,
+    // In free fall the sensor reads no gravity, i.e. linear acceleration cancels it
+    acceleration: t => {
+      if (during(t, IMPACT_AT - 400, 400)) return { x: 0, y: 0, z: -G };
+      if (during(t, IMPACT_AT, 40)) return { x: 0, y: 0, z: 6 * G };
+      return null;
+    },
+  }),
+  // 9G frontal hit at 60 km/h; the car is stopped a second later and stays put
+  crash: buildTrace({
+    durationMs: 10000,
+    speed: t => (t < IMPACT_AT ? 60 : 0),
+    acceleration: t => {
+      if (during(t, IMPACT_AT, 100)) return { x: 0.8, y: 1.2, z: -9 * G };
+      return t >= IMPACT_AT ? NONE : null;
+    },
+  }),
+  // Parked car hit from the side at 5G and tipped over onto its side
+  rollover: buildTrace({
+    durationMs: 8000,
+    speed: () => 0,
+    acceleration: t => (during(t, IMPACT_AT, 80) ? { x: 5 * G, y: 0, z: 0 } : null),
+    gravity: t => (t >= IMPACT_AT + 300 ? { x: G, y: 0, z: 0 } : null),
+  }),
+  // Emergency stop from 80 km/h at 0.9G without hitting anything
+  hardBrake: buildTrace({
+    durationMs: 10000,
+    speed: t => (t < IMPACT_AT ? 80 : t < IMPACT_AT + 2500 ? 80 - (t - IMPACT_AT) / 2500 * 80 : 0),
+    acceleration: t => (during(t, IMPACT_AT, 2500) ? { x: 0, y: 0, z: -0.9 * G } : null),
+  }),
+} satisfies Record<string, DriveTrace>;
+
+// Feed a trace in time order; returns the first decision, or the last assessment when none was reached
+export const runCrashDetector = (detector: CrashDetector, trace: DriveTrace): CrashAssessment => {
+  const events = [
+    ...trace.motion.map(sample => ({ t: sample.t, feed: () => detector.addMotion(sample) })),
+    ...trace.speeds.map(({ t, speed }) => ({ t, feed: () => detector.addSpeed(speed, t) })),
+  ].sort((a, b) => a.t - b.t);
+
+  let last = detector.update(0);
+  for (const event of events) {
+    last = event.feed();
+    if (last.state === 'confirmed' || last.state === 'dismissed') return last;
+  }
+  return last;
+};
@@ -0,0 +1,37 @@
+// Offline routing worker.
+// Holds one region's road graph and danger-zone snapshot so A* searches and
+// street lookups never block the map or the sensor loops on the main thread.
+
+import type { DangerZone } from '@/lib/dangerZones';
+import { findStreet, planRoutes, RoadGraph } from '@/lib/roadGraph';
+
+export type OfflineRouterCommand =
+  | { type: 'load'; packId: string; graph: RoadGraph; zones: DangerZone[] }
+  | { type: 'route'; start: { lat: number; lng: number }; end: { lat: number; lng: number }; hour: number }
+  | { type: 'geocode'; query: string };
+
+export type OfflineRouterRequest = OfflineRouterCommand & { id: number };
+
+export type OfflineRouterResponse = { id: number; result: unknown } | { id: number; error: string };
+
+let loaded: { packId: string; graph: RoadGraph; zones: DangerZone[] } | null = null;
+
+const handle = (request: OfflineRouterCommand): unknown => {
+  if (request.type === 'load') {
+    loaded = { packId: request.packId, graph: request.graph, zones: request.zones };
+    return request.packId;
+  }
+  if (!loaded) throw new Error('No road graph loaded');
+  if (request.type === 'geocode') return findStreet(loaded.graph, request.query);
+  // No weather offline; time of day still raises the risk at night and rush hour
+  return planRoutes(loaded.graph, loaded.zones, request.start, request.end, { weather: null, hour: request.hour });
+};
+
+self.onmessage = (event: MessageEvent<OfflineRouterRequest>) => {
+  const { id } = event.data;
+  try {
+    self.postMessage({ id, result: handle(event.data) } satisfies OfflineRouterResponse);
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) } satisfies OfflineRouterResponse);
+  }
+};
@@ -0,0 +1,125 @@
+// Senders for each alert channel.
+// Each resolves to the provider's message id when it reports one and throws
+// when the message was not accepted, so the caller can write a receipt either
+// way. Credentials come from the function's environment:
+//   telegram  TELEGRAM_BOT_TOKEN
+//   email     SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD, SMTP_FROM
+//   sms       SMS_GATEWAY_URL, SMS_GATEWAY_TOKEN (POST { to, message } as JSON)
+//   webhook   WEBHOOK_SIGNING_SECRET, optional, signs the body with HMAC-SHA256
+// Webhooks only go to public hosts; see webhookTarget.ts.
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import type { AlertChannel } from "./alertDispatch.ts";
+import type { AlertData, AlertType } from "./alertTemplates.ts";
+import { checkWebhookUrl, isIPAddress, isPrivateAddress } from "./webhookTarget.ts";
+
+export interface OutgoingAlert {
+  type: AlertType;
+  data: AlertData;
+  subject: string;
+  text: string;
+  markdown: string;
+}
+
+function requireEnv(...names: string[]): string[] {
+  const values = names.map(name => Deno.env.get(name));
+  const missing = names.filter((_, i) => !values[i]);
+  if (missing.length > 0) throw new Error(`${missing.join(", ")} not configured`);
+  return values as string[];
+}
+
+async function sendTelegram(chatId: string, alert: OutgoingAlert): Promise<string | null> {
+  const [token] = requireEnv("TELEGRAM_BOT_TOKEN");
+  const telegramUrl = `https://api.telegram.org/bot${token}`;
+
+  const resp = await fetch(`${telegramUrl}/sendMessage`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ chat_id: chatId, text: alert.markdown, parse_mode: "Markdown" }),
+  });
+  if (!resp.ok) throw new Error(`Telegram API error: ${await resp.text()}`);
+  const result = await resp.json();
+
+  // A location pin alongside alerts that carry one; the text already went out
+  const { lat, lng } = alert.data;
+  if (typeof lat === "number" && typeof lng === "number" && alert.type !== "speed_alert") {
+    const pin = await fetch(`${telegramUrl}/sendLocation`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chat_id: chatId, latitude: lat, longitude: lng }),
+    });
+    if (!pin.ok) console.error("Telegram sendLocation error:", await pin.text());
+  }
+  return result.result?.message_id?.toString() ?? null;
+}
+
+async function sendEmail(to: string, alert: OutgoingAlert): Promise<string | null> {
+  const [hostname, port, username, password, from] = requireEnv("SMTP_HOST", "SMTP_PORT", "SMTP_USERNAME", "SMTP_PASSWORD", "SMTP_FROM");
+  const client = new SMTPClient({
+    connection: { hostname, port: Number(port), tls: Number(port) === 465, auth: { username, password } },
+  });
+  try {
+    await client.send({ from, to, subject: alert.subject, content: alert.text });
+  } finally {
+    await client.close();
+  }
+  return null;
+}
+
+async function sendSms(to: string, alert: OutgoingAlert): Promise<string | null> {
+  const [url, token] = requireEnv("SMS_GATEWAY_URL", "SMS_GATEWAY_TOKEN");
+  const resp = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ to, message: alert.text }),
+  });
+  if (!resp.ok) throw new Error(`SMS gateway error ${resp.status}: ${await resp.text()}`);
+  const result = await resp.json().catch(() => ({}));
+  return (result.id ?? result.message_id ?? result.sid)?.toString() ?? null;
+}
+
+async function sign(body: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+// A hostname passes only when everything it resolves to is public
+async function checkResolvedHost(url: URL): Promise<void> {
+  if (isIPAddress(url.hostname)) return;
+  const lookups = await Promise.allSettled([Deno.resolveDns(url.hostname, "A"), Deno.resolveDns(url.hostname, "AAAA")]);
+  const addresses = lookups.flatMap(lookup => (lookup.status === "fulfilled" ? lookup.value : []));
+  if (addresses.length === 0) throw new Error(`Webhook host ${url.hostname} did not resolve`);
+  if (addresses.some(isPrivateAddress)) throw new Error(`Webhook host ${url.hostname} is not public`);
+}
+
+async function sendWebhook(recipient: string, alert: OutgoingAlert): Promise<string | null> {
+  const url = checkWebhookUrl(recipient);
+  await checkResolvedHost(url);
+
+  const body = JSON.stringify({
+    type: alert.type,
+    subject: alert.subject,
+    message: alert.text,
+    data: alert.data,
+    sentAt: new Date().toISOString(),
+  });
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const secret = Deno.env.get("WEBHOOK_SIGNING_SECRET");
+  if (secret) headers["X-Alert-Signature"] = `sha256=${await sign(body, secret)}`;
+
+  // A redirect could point anywhere, so it counts as a failure
+  const resp = await fetch(url, { method: "POST", headers, body, redirect: "manual" });
+  if (!resp.ok) throw new Error(`Webhook responded ${resp.status}`);
+  return null;
+}
+
+export function sendVia(channel: AlertChannel, recipient: string, alert: OutgoingAlert): Promise<string | null> {
+  switch (channel) {
+    case "telegram": return sendTelegram(recipient, alert);
+    case "email": return sendEmail(recipient, alert);
+    case "sms": return sendSms(recipient, alert);
+    case "webhook": return sendWebhook(recipient, alert);
+  }
+}
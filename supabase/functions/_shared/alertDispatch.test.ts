@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { AlertContact, isThrottled, planDeliveries } from "./alertDispatch.ts";
+
+const contact = (overrides: Partial<AlertContact>): AlertContact => ({
+  id: "c1",
+  phone: "+491701234567",
+  email: null,
+  telegram_chat_id: null,
+  webhook_url: null,
+  channels: ["sms"],
+  alert_types: ["sos", "collision"],
+  locale: "en",
+  ...overrides,
+});
+
+describe("planDeliveries", () => {
+  it("sends to each subscribed contact channel", () => {
+    const deliveries = planDeliveries("sos", [
+      contact({ id: "anna", channels: ["sms", "email"], email: "anna@example.com", locale: "es" }),
+      contact({ id: "ben", channels: ["telegram"], telegram_chat_id: "4242" }),
+    ]);
+
+    expect(deliveries).toEqual([
+      { contactId: "anna", channel: "sms", recipient: "+491701234567", locale: "es" },
+      { contactId: "anna", channel: "email", recipient: "anna@example.com", locale: "es" },
+      { contactId: "ben", channel: "telegram", recipient: "4242", locale: "en" },
+    ]);
+  });
+
+  it("skips contacts that did not ask for the alert type", () => {
+    const deliveries = planDeliveries("speed_alert", [
+      contact({ id: "anna" }),
+      contact({ id: "ben", alert_types: ["speed_alert"], phone: "+15550100" }),
+    ]);
+
+    expect(deliveries.map(d => d.contactId)).toEqual(["ben"]);
+  });
+
+  it("keeps a chosen channel without an address so it shows up as skipped", () => {
+    const [delivery] = planDeliveries("collision", [contact({ channels: ["webhook"], webhook_url: "  " })]);
+
+    expect(delivery).toMatchObject({ channel: "webhook", recipient: null });
+  });
+
+  it("messages a shared address once and ignores unknown channels", () => {
+    const deliveries = planDeliveries("sos", [
+      contact({ id: "anna", channels: ["sms", "fax"] }),
+      contact({ id: "ben", channels: ["sms"] }),
+    ]);
+
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0].contactId).toBe("anna");
+  });
+});
+
+describe("isThrottled", () => {
+  it("throttles repeats within the window of the alert type", () => {
+    const now = 1_000_000;
+
+    expect(isThrottled("collision", now - 30 * 1000, now)).toBe(true);
+    expect(isThrottled("collision", now - 90 * 1000, now)).toBe(false);
+    expect(isThrottled("speed_alert", now - 4 * 60 * 1000, now)).toBe(true);
+    expect(isThrottled("live_location", undefined, now)).toBe(false);
+  });
+
+  it("never holds back an SOS", () => {
+    expect(isThrottled("sos", 999_999, 1_000_000)).toBe(false);
+  });
+});
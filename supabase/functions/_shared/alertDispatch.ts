@@ -0,0 +1,81 @@
+// Who gets an alert, over which channel, and how often.
+// Every emergency contact picks the alert types they want and the channels to
+// receive them on. A channel the contact chose but gave no address for still
+// yields a delivery, with no recipient, so the gap shows up in the delivery
+// receipts. There is no fallback recipient: an alert no contact subscribed to
+// reaches no one, and the dispatcher reports that to the app.
+
+import { AlertType, Locale, resolveLocale } from "./alertTemplates.ts";
+
+export const ALERT_CHANNELS = ["telegram", "email", "sms", "webhook"] as const;
+export type AlertChannel = typeof ALERT_CHANNELS[number];
+
+export interface AlertContact {
+  id: string;
+  phone: string;
+  email: string | null;
+  telegram_chat_id: string | null;
+  webhook_url: string | null;
+  channels: string[];
+  alert_types: string[];
+  locale: string;
+}
+
+export interface Delivery {
+  contactId: string;
+  channel: AlertChannel;
+  recipient: string | null;
+  locale: Locale;
+}
+
+// Minimum time between two alerts of a type to the same recipient.
+// Emergencies and ride boundaries always go out.
+export const THROTTLE_MS: Record<AlertType, number> = {
+  sos: 0,
+  collision: 60 * 1000,
+  ride_start: 0,
+  ride_stop: 0,
+  speed_alert: 5 * 60 * 1000,
+  live_location: 60 * 1000,
+};
+
+const isChannel = (value: string): value is AlertChannel => (ALERT_CHANNELS as readonly string[]).includes(value);
+
+function addressFor(contact: AlertContact, channel: AlertChannel): string | null {
+  switch (channel) {
+    case "telegram": return contact.telegram_chat_id;
+    case "email": return contact.email;
+    case "sms": return contact.phone;
+    case "webhook": return contact.webhook_url;
+  }
+}
+
+export function planDeliveries(type: AlertType, contacts: AlertContact[]): Delivery[] {
+  const deliveries: Delivery[] = [];
+  contacts
+    .filter(contact => contact.alert_types.includes(type))
+    .forEach(contact => {
+      new Set(contact.channels.filter(isChannel)).forEach(channel => {
+        const recipient = addressFor(contact, channel)?.trim() || null;
+        deliveries.push({ contactId: contact.id, channel, recipient, locale: resolveLocale(contact.locale) });
+      });
+    });
+
+  // Two contacts sharing an address get one message
+  const seen = new Set<string>();
+  return deliveries.filter(delivery => {
+    if (!delivery.recipient) return true;
+    const key = recipientKey(delivery.channel, delivery.recipient);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export function recipientKey(channel: AlertChannel, recipient: string): string {
+  return `${channel}:${recipient}`;
+}
+
+export function isThrottled(type: AlertType, lastSentAt: number | undefined, now: number): boolean {
+  return lastSentAt !== undefined && now - lastSentAt < THROTTLE_MS[type];
+}
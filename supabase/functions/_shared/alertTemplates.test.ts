@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { isAlertType, renderAlert, resolveLocale } from "./alertTemplates.ts";
+
+const now = new Date("2026-04-12T08:30:00Z");
+
+describe("resolveLocale", () => {
+  it.each([
+    ["es-MX", "es"],
+    ["fr_FR", "fr"],
+    ["EN", "en"],
+    ["de-DE", "en"],
+    [null, "en"],
+  ])("maps %s to %s", (locale, expected) => {
+    expect(resolveLocale(locale)).toBe(expected);
+  });
+});
+
+describe("isAlertType", () => {
+  it("accepts only known alert types", () => {
+    expect(isAlertType("sos")).toBe(true);
+    expect(isAlertType("live_location")).toBe(true);
+    expect(isAlertType("birthday")).toBe(false);
+    expect(isAlertType(undefined)).toBe(false);
+  });
+});
+
+describe("renderAlert", () => {
+  it("fills the collision template with formatted values", () => {
+    const { subject, body } = renderAlert("collision", {
+      severity: "high",
+      lat: 52.52,
+      lng: 13.405,
+      relativeSpeed: 41.7,
+      distance: 12.3,
+    }, { now });
+
+    expect(subject).toBe("COLLISION ALERT");
+    expect(body).toContain("🔴 Severity: HIGH");
+    expect(body).toContain("📍 Location: 52.520000, 13.405000");
+    expect(body).toContain("https://www.google.com/maps?q=52.52,13.405");
+    expect(body).toContain("Relative speed: 42 km/h");
+    expect(body).toContain("Distance: 12 m");
+    expect(body).toMatch(/2026.*UTC/);
+  });
+
+  it("leaves out lines whose data is missing", () => {
+    const { body } = renderAlert("ride_stop", { distance: 12.345, maxSpeed: 88 }, { now });
+
+    expect(body).toContain("📏 Distance: 12.35 km");
+    expect(body).not.toContain("Duration");
+    expect(body).not.toContain("undefined");
+  });
+
+  it("reports the trip duration in whole minutes", () => {
+    const { body } = renderAlert("ride_stop", { distance: 30, duration: 42.6, maxSpeed: 110 }, { now });
+
+    expect(body).toContain("⏱️ Duration: 43 min");
+  });
+
+  it("translates titles, labels and severity", () => {
+    const spanish = renderAlert("collision", { severity: "critical", lat: 40.4, lng: -3.7 }, { locale: "es-ES", now });
+    expect(spanish.subject).toBe("ALERTA DE COLISIÓN");
+    expect(spanish.body).toContain("Gravedad: CRÍTICA");
+
+    const french = renderAlert("sos", { lat: 48.85, lng: 2.35 }, { locale: "fr", now });
+    expect(french.body).toContain("ASSISTANCE IMMÉDIATE REQUISE");
+  });
+
+  it("escapes user text for Telegram Markdown only", () => {
+    const data = { lat: 1, lng: 2, message: "stuck_on *A9*" };
+
+    const markdown = renderAlert("sos", data, { format: "markdown", now });
+    expect(markdown.body.startsWith("🚨 *SOS EMERGENCY ALERT* 🚨")).toBe(true);
+    expect(markdown.body).toContain("stuck\\_on \\*A9\\*");
+
+    const text = renderAlert("sos", data, { format: "text", now });
+    expect(text.body.startsWith("🚨 SOS EMERGENCY ALERT\n")).toBe(true);
+    expect(text.body).toContain("stuck_on *A9*");
+  });
+});
@@ -0,0 +1,203 @@
+// Localized message templates for outgoing alerts.
+// Each template line holds `{field}` placeholders, or `{field:N}` for a number
+// with N decimals. A line whose fields are missing from the alert data is left
+// out instead of printing "undefined". `location`, `map` and `time` are derived
+// from lat/lng and the send time; severity words are translated.
+
+export const ALERT_TYPES = ["sos", "collision", "ride_start", "ride_stop", "speed_alert", "live_location"] as const;
+export type AlertType = typeof ALERT_TYPES[number];
+
+export const LOCALES = ["en", "es", "fr"] as const;
+export type Locale = typeof LOCALES[number];
+
+// Telegram gets Markdown; SMS, email and webhooks get plain text
+export type AlertFormat = "markdown" | "text";
+
+export type AlertData = Record<string, unknown>;
+
+export interface RenderedAlert {
+  subject: string;
+  body: string;
+}
+
+interface Template {
+  icon: string;
+  title: string;
+  lines: string[];
+}
+
+interface LocaleStrings {
+  severity: Record<string, string>;
+  templates: Record<AlertType, Template>;
+}
+
+const STRINGS: Record<Locale, LocaleStrings> = {
+  en: {
+    severity: { low: "LOW", medium: "MEDIUM", high: "HIGH", critical: "CRITICAL" },
+    templates: {
+      sos: {
+        icon: "🚨",
+        title: "SOS EMERGENCY ALERT",
+        lines: ["⏰ Time: {time}", "📍 Location: {location}", "🗺️ Map: {map}", "💬 Message: {message}", "", "⚠️ IMMEDIATE ASSISTANCE REQUIRED"],
+      },
+      collision: {
+        icon: "⚠️",
+        title: "COLLISION ALERT",
+        lines: ["🔴 Severity: {severity}", "📍 Location: {location}", "🗺️ Map: {map}", "🚗 Relative speed: {relativeSpeed:0} km/h", "📏 Distance: {distance:0} m", "⏰ Time: {time}"],
+      },
+      ride_start: {
+        icon: "🟢",
+        title: "RIDE STARTED",
+        lines: ["📍 Start: {location}", "🗺️ Map: {map}", "⏰ Time: {time}", "🚗 Monitoring active..."],
+      },
+      ride_stop: {
+        icon: "🔴",
+        title: "RIDE ENDED",
+        lines: ["📏 Distance: {distance:2} km", "⏱️ Duration: {duration:0} min", "🏎️ Max speed: {maxSpeed:0} km/h", "⏰ Time: {time}"],
+      },
+      speed_alert: {
+        icon: "🏎️",
+        title: "SPEED LIMIT EXCEEDED",
+        lines: ["💨 Speed: {currentSpeed:0} km/h", "🚧 Limit: {speedLimit} km/h", "📍 Location: {location}", "⏰ Time: {time}"],
+      },
+      live_location: {
+        icon: "📍",
+        title: "LIVE LOCATION UPDATE",
+        lines: ["🚗 Speed: {speed:0} km/h", "📍 Coords: {location}", "🗺️ Map: {map}", "⏰ {time}"],
+      },
+    },
+  },
+  es: {
+    severity: { low: "BAJA", medium: "MEDIA", high: "ALTA", critical: "CRÍTICA" },
+    templates: {
+      sos: {
+        icon: "🚨",
+        title: "ALERTA DE EMERGENCIA SOS",
+        lines: ["⏰ Hora: {time}", "📍 Ubicación: {location}", "🗺️ Mapa: {map}", "💬 Mensaje: {message}", "", "⚠️ SE NECESITA AYUDA INMEDIATA"],
+      },
+      collision: {
+        icon: "⚠️",
+        title: "ALERTA DE COLISIÓN",
+        lines: ["🔴 Gravedad: {severity}", "📍 Ubicación: {location}", "🗺️ Mapa: {map}", "🚗 Velocidad relativa: {relativeSpeed:0} km/h", "📏 Distancia: {distance:0} m", "⏰ Hora: {time}"],
+      },
+      ride_start: {
+        icon: "🟢",
+        title: "VIAJE INICIADO",
+        lines: ["📍 Salida: {location}", "🗺️ Mapa: {map}", "⏰ Hora: {time}", "🚗 Monitorización activa..."],
+      },
+      ride_stop: {
+        icon: "🔴",
+        title: "VIAJE FINALIZADO",
+        lines: ["📏 Distancia: {distance:2} km", "⏱️ Duración: {duration:0} min", "🏎️ Velocidad máxima: {maxSpeed:0} km/h", "⏰ Hora: {time}"],
+      },
+      speed_alert: {
+        icon: "🏎️",
+        title: "LÍMITE DE VELOCIDAD SUPERADO",
+        lines: ["💨 Velocidad: {currentSpeed:0} km/h", "🚧 Límite: {speedLimit} km/h", "📍 Ubicación: {location}", "⏰ Hora: {time}"],
+      },
+      live_location: {
+        icon: "📍",
+        title: "UBICACIÓN EN DIRECTO",
+        lines: ["🚗 Velocidad: {speed:0} km/h", "📍 Coordenadas: {location}", "🗺️ Mapa: {map}", "⏰ {time}"],
+      },
+    },
+  },
+  fr: {
+    severity: { low: "FAIBLE", medium: "MOYENNE", high: "ÉLEVÉE", critical: "CRITIQUE" },
+    templates: {
+      sos: {
+        icon: "🚨",
+        title: "ALERTE D'URGENCE SOS",
+        lines: ["⏰ Heure : {time}", "📍 Position : {location}", "🗺️ Carte : {map}", "💬 Message : {message}", "", "⚠️ ASSISTANCE IMMÉDIATE REQUISE"],
+      },
+      collision: {
+        icon: "⚠️",
+        title: "ALERTE COLLISION",
+        lines: ["🔴 Gravité : {severity}", "📍 Position : {location}", "🗺️ Carte : {map}", "🚗 Vitesse relative : {relativeSpeed:0} km/h", "📏 Distance : {distance:0} m", "⏰ Heure : {time}"],
+      },
+      ride_start: {
+        icon: "🟢",
+        title: "TRAJET DÉMARRÉ",
+        lines: ["📍 Départ : {location}", "🗺️ Carte : {map}", "⏰ Heure : {time}", "🚗 Surveillance active..."],
+      },
+      ride_stop: {
+        icon: "🔴",
+        title: "TRAJET TERMINÉ",
+        lines: ["📏 Distance : {distance:2} km", "⏱️ Durée : {duration:0} min", "🏎️ Vitesse max : {maxSpeed:0} km/h", "⏰ Heure : {time}"],
+      },
+      speed_alert: {
+        icon: "🏎️",
+        title: "LIMITATION DE VITESSE DÉPASSÉE",
+        lines: ["💨 Vitesse : {currentSpeed:0} km/h", "🚧 Limite : {speedLimit} km/h", "📍 Position : {location}", "⏰ Heure : {time}"],
+      },
+      live_location: {
+        icon: "📍",
+        title: "POSITION EN DIRECT",
+        lines: ["🚗 Vitesse : {speed:0} km/h", "📍 Coordonnées : {location}", "🗺️ Carte : {map}", "⏰ {time}"],
+      },
+    },
+  },
+};
+
+const PLACEHOLDER = /\{(\w+)(?::(\d))?\}/g;
+
+export function isAlertType(value: unknown): value is AlertType {
+  return typeof value === "string" && (ALERT_TYPES as readonly string[]).includes(value);
+}
+
+// "es-MX" → "es"; anything without a translation falls back to English
+export function resolveLocale(locale?: string | null): Locale {
+  const language = (locale ?? "").toLowerCase().split(/[-_]/)[0];
+  return (LOCALES as readonly string[]).includes(language) ? language as Locale : "en";
+}
+
+// Telegram's legacy Markdown breaks on stray entity characters in user text
+const escapeMarkdown = (text: string) => text.replace(/([_*`[])/g, "\\$1");
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+function alertFields(data: AlertData, locale: Locale, now: Date): Record<string, unknown> {
+  const fields: Record<string, unknown> = { ...data };
+  if (isNumber(data.lat) && isNumber(data.lng)) {
+    fields.location = `${data.lat.toFixed(6)}, ${data.lng.toFixed(6)}`;
+    fields.map = `https://www.google.com/maps?q=${data.lat},${data.lng}`;
+  }
+  if (typeof data.severity === "string") {
+    fields.severity = STRINGS[locale].severity[data.severity] ?? data.severity.toUpperCase();
+  }
+  fields.time = new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short", timeZone: "UTC" }).format(now) + " UTC";
+  return fields;
+}
+
+function fillLine(line: string, fields: Record<string, unknown>, format: AlertFormat): string | null {
+  let missing = false;
+  const filled = line.replace(PLACEHOLDER, (_, key: string, digits?: string) => {
+    const value = fields[key];
+    if (digits !== undefined && isNumber(value)) return value.toFixed(Number(digits));
+    if (value === undefined || value === null || value === "" || (digits !== undefined && !isNumber(value))) {
+      missing = true;
+      return "";
+    }
+    const text = String(value);
+    // Links and derived values are ours; only data from the client needs escaping
+    return format === "markdown" && key !== "map" ? escapeMarkdown(text) : text;
+  });
+  return missing ? null : filled;
+}
+
+export function renderAlert(
+  type: AlertType,
+  data: AlertData,
+  { locale = "en", format = "text", now = new Date() }: { locale?: string | null; format?: AlertFormat; now?: Date } = {}
+): RenderedAlert {
+  const resolved = resolveLocale(locale);
+  const { icon, title, lines } = STRINGS[resolved].templates[type];
+  const fields = alertFields(data, resolved, now);
+  const body = lines
+    .map(line => fillLine(line, fields, format))
+    .filter((line): line is string => line !== null)
+    .join("\n")
+    .trim();
+  const heading = format === "markdown" ? `${icon} *${title}* ${icon}` : `${icon} ${title}`;
+  return { subject: title, body: `${heading}\n\n${body}` };
+}
@@ -0,0 +1,179 @@
+// Danger-zone clustering shared by the edge functions.
+// Collision events are clustered with a weighted DBSCAN: each event weighs its
+// severity times an exponential time decay, and a point is a core point when
+// the weight within `epsMeters` reaches `minWeight`. Each cluster becomes one
+// zone with a weighted centroid, a radius covering its members and a risk score.
+
+export type Severity = "low" | "medium" | "high" | "critical";
+
+export interface ClusterEvent {
+  lat: number;
+  lng: number;
+  severity: Severity;
+  timestamp: string;
+}
+
+export interface DangerZone {
+  center_lat: number;
+  center_lng: number;
+  radius_m: number;
+  risk_score: number;
+  incident_count: number;
+  severity_counts: Record<Severity, number>;
+  dominant_severity: Severity;
+  last_incident_at: string;
+}
+
+export interface ClusterOptions {
+  epsMeters?: number;
+  minWeight?: number;
+  halfLifeDays?: number;
+  minRadiusMeters?: number;
+  now?: number;
+}
+
+export const SEVERITY_WEIGHTS: Record<Severity, number> = {
+  low: 1,
+  medium: 2,
+  high: 4,
+  critical: 8,
+};
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371000;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function eventWeight(event: ClusterEvent, halfLifeDays: number, now: number): number {
+  const ageDays = Math.max(0, (now - new Date(event.timestamp).getTime()) / 86400000);
+  return (SEVERITY_WEIGHTS[event.severity] ?? 1) * Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+export function clusterDangerZones(
+  events: ClusterEvent[],
+  { epsMeters = 150, minWeight = 3, halfLifeDays = 90, minRadiusMeters = 50, now = Date.now() }: ClusterOptions = {}
+): DangerZone[] {
+  if (events.length === 0) return [];
+
+  const weights = events.map(e => eventWeight(e, halfLifeDays, now));
+
+  // Grid index with eps-sized cells so neighbour lookups only scan 9 cells
+  const refLat = events.reduce((sum, e) => sum + e.lat, 0) / events.length;
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = 111320 * Math.cos(toRad(refLat));
+  const cellOf = (e: ClusterEvent) => [
+    Math.floor(e.lat * metersPerDegLat / epsMeters),
+    Math.floor(e.lng * metersPerDegLng / epsMeters),
+  ];
+  const grid = new Map<string, number[]>();
+  events.forEach((e, i) => {
+    const key = cellOf(e).join(":");
+    const cell = grid.get(key);
+    if (cell) cell.push(i);
+    else grid.set(key, [i]);
+  });
+
+  const neighbours = (i: number): number[] => {
+    const [cy, cx] = cellOf(events[i]);
+    const result: number[] = [];
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        for (const j of grid.get(`${cy + dy}:${cx + dx}`) ?? []) {
+          if (distanceMeters(events[i].lat, events[i].lng, events[j].lat, events[j].lng) <= epsMeters) result.push(j);
+        }
+      }
+    }
+    return result;
+  };
+
+  const neighbourWeight = (ids: number[]) => ids.reduce((sum, j) => sum + weights[j], 0);
+
+  const UNVISITED = -2;
+  const NOISE = -1;
+  const labels = new Array<number>(events.length).fill(UNVISITED);
+  let clusterId = 0;
+
+  for (let i = 0; i < events.length; i++) {
+    if (labels[i] !== UNVISITED) continue;
+    const seed = neighbours(i);
+    if (neighbourWeight(seed) < minWeight) {
+      labels[i] = NOISE;
+      continue;
+    }
+
+    labels[i] = clusterId;
+    const queue = seed.filter(j => j !== i);
+    while (queue.length > 0) {
+      const j = queue.pop()!;
+      if (labels[j] === NOISE) labels[j] = clusterId; // border point
+      if (labels[j] !== UNVISITED) continue;
+      labels[j] = clusterId;
+      const expansion = neighbours(j);
+      if (neighbourWeight(expansion) >= minWeight) queue.push(...expansion);
+    }
+    clusterId++;
+  }
+
+  const zones: DangerZone[] = [];
+  for (let c = 0; c < clusterId; c++) {
+    const members = events.map((_, i) => i).filter(i => labels[i] === c);
+    const totalWeight = neighbourWeight(members);
+    // Weighted centroid; a near-zero total (very old events) falls back to the plain mean
+    const w = (i: number) => totalWeight > 1e-9 ? weights[i] / totalWeight : 1 / members.length;
+    const centerLat = members.reduce((sum, i) => sum + events[i].lat * w(i), 0);
+    const centerLng = members.reduce((sum, i) => sum + events[i].lng * w(i), 0);
+    const radius = Math.max(
+      minRadiusMeters,
+      ...members.map(i => distanceMeters(centerLat, centerLng, events[i].lat, events[i].lng))
+    );
+
+    const severityCounts: Record<Severity, number> = { low: 0, medium: 0, high: 0, critical: 0 };
+    members.forEach(i => { severityCounts[events[i].severity] = (severityCounts[events[i].severity] ?? 0) + 1; });
+    const dominant = (Object.keys(SEVERITY_WEIGHTS) as Severity[])
+      .reduce((best, s) => severityCounts[s] * SEVERITY_WEIGHTS[s] >= severityCounts[best] * SEVERITY_WEIGHTS[best] ? s : best, "low" as Severity);
+
+    zones.push({
+      center_lat: centerLat,
+      center_lng: centerLng,
+      radius_m: Math.round(radius),
+      risk_score: Math.round(totalWeight * 100) / 100,
+      incident_count: members.length,
+      severity_counts: severityCounts,
+      dominant_severity: dominant,
+      last_incident_at: members.map(i => events[i].timestamp).sort().at(-1)!,
+    });
+  }
+
+  return zones.sort((a, b) => b.risk_score - a.risk_score);
+}
+
+// Distance from a point to the closest segment of a polyline, in meters
+export function distanceToPolyline(lat: number, lng: number, line: { lat: number; lng: number }[]): number {
+  if (line.length === 0) return Infinity;
+  if (line.length === 1) return distanceMeters(lat, lng, line[0].lat, line[0].lng);
+
+  const metersPerDegLng = 111320 * Math.cos(toRad(lat));
+  const toXY = (p: { lat: number; lng: number }) => ({ x: (p.lng - lng) * metersPerDegLng, y: (p.lat - lat) * 111320 });
+
+  let best = Infinity;
+  for (let i = 0; i < line.length - 1; i++) {
+    const a = toXY(line[i]);
+    const b = toXY(line[i + 1]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq)) : 0;
+    best = Math.min(best, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return best;
+}
+
+// Reason text shown to drivers for a zone
+export function describeZone(incidentCount: number, dominantSeverity: string): string {
+  return `${incidentCount} collisions reported (mostly ${dominantSeverity} severity)`;
+}
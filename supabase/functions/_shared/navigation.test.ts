@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { formatManeuver, rankRoutes } from "./navigation.ts";
+import { scoreRoute, ScoringZone, zoneFromRow } from "./routeScoring.ts";
+
+describe("formatManeuver", () => {
+  it.each([
+    [{ type: "turn", modifier: "left" }, "Turn left"],
+    [{ type: "depart" }, "Start your journey"],
+    [{ type: "arrive" }, "You have arrived"],
+    [{ type: "continue", modifier: "straight" }, "Continue straight"],
+    [{ type: "roundabout", modifier: "second" }, "Enter roundabout and take the second exit"],
+    [{ type: "merge", modifier: "slight right" }, "merge slight right"],
+    [{ type: "fork" }, "fork"],
+  ])("describes %o", (maneuver, text) => {
+    expect(formatManeuver(maneuver)).toBe(text);
+  });
+});
+
+describe("rankRoutes", () => {
+  it("puts the safest route first and breaks ties by duration", () => {
+    const { routes, fastestIndex } = rankRoutes([
+      { name: "highway", safetyScore: 70, duration: 600 },
+      { name: "river road", safetyScore: 90, duration: 900 },
+      { name: "backstreets", safetyScore: 90, duration: 800 },
+    ]);
+
+    expect(routes.map(r => r.name)).toEqual(["backstreets", "river road", "highway"]);
+    expect(fastestIndex).toBe(2);
+  });
+
+  it("does not reorder the input", () => {
+    const input = [{ safetyScore: 10, duration: 1 }, { safetyScore: 20, duration: 2 }];
+    rankRoutes(input);
+    expect(input[0].safetyScore).toBe(10);
+  });
+});
+
+describe("scoreRoute", () => {
+  const NOW = Date.parse("2026-06-01T12:00:00Z");
+  const route = [{ lat: 52.5, lng: 13.4 }, { lat: 52.51, lng: 13.4 }];
+  const zone = (lat: number, lng: number, daysAgo: number): ScoringZone => zoneFromRow({
+    center_lat: lat,
+    center_lng: lng,
+    radius_m: 50,
+    risk_score: 10,
+    incident_count: 4,
+    dominant_severity: "high",
+    last_incident_at: new Date(NOW - daysAgo * 86400000).toISOString(),
+  });
+  const midday = { weather: null, hour: 12 };
+
+  it("keeps a clear route at full score", () => {
+    expect(scoreRoute(route, [], midday, NOW)).toEqual({ safetyScore: 100, dangerZones: [] });
+  });
+
+  it("costs a little for rain at night", () => {
+    // (1.3 * 1.3 - 1) * 20 = 13.8
+    expect(scoreRoute(route, [], { weather: "Rain", hour: 22 }, NOW).safetyScore).toBe(86);
+  });
+
+  it("penalizes zones on the route, more so when recent", () => {
+    const old = scoreRoute(route, [zone(52.505, 13.4, 90)], midday, NOW);
+    const recent = scoreRoute(route, [zone(52.505, 13.4, 3)], midday, NOW);
+
+    expect(old.safetyScore).toBe(85);
+    expect(recent.safetyScore).toBe(81);
+    expect(recent.dangerZones[0].reason).toBe("4 collisions reported (mostly high severity)");
+  });
+
+  it("ignores zones away from the route", () => {
+    expect(scoreRoute(route, [zone(52.505, 13.42, 3)], midday, NOW).dangerZones).toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+// Turn-by-turn text and ranking for route alternatives.
+
+export interface Maneuver {
+  type: string;
+  modifier?: string;
+  instruction?: string;
+}
+
+export interface RankableRoute {
+  safetyScore: number;
+  duration: number; // seconds
+}
+
+// Fallback instruction when OSRM gives none
+export function formatManeuver({ type, modifier }: Maneuver): string {
+  if (type === "turn") return `Turn ${modifier}`;
+  if (type === "depart") return "Start your journey";
+  if (type === "arrive") return "You have arrived";
+  if (type === "continue") return "Continue straight";
+  if (type === "roundabout") return `Enter roundabout and take the ${modifier} exit`;
+  return `${type} ${modifier || ""}`.trim();
+}
+
+// Safest first; among equally safe routes the quicker one wins.
+// The safest route is always at index 0.
+export function rankRoutes<T extends RankableRoute>(routes: T[]): { routes: T[]; fastestIndex: number } {
+  const ranked = [...routes].sort((a, b) => b.safetyScore - a.safetyScore || a.duration - b.duration);
+  const fastestIndex = ranked.reduce((best, r, i) => (r.duration < ranked[best].duration ? i : best), 0);
+  return { routes: ranked, fastestIndex };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { createRiskEngine, getRiskLevel, RiskFactorProvider, RiskInput } from "./riskEngine.ts";
+
+const calm: RiskInput = { currentSpeed: 40, nearbyVehicles: 0, collisionWarnings: [] };
+
+describe("getRiskLevel", () => {
+  it.each([
+    [0, "low"],
+    [24.9, "low"],
+    [25, "moderate"],
+    [49.9, "moderate"],
+    [50, "high"],
+    [74.9, "high"],
+    [75, "critical"],
+    [100, "critical"],
+  ] as const)("maps %s to %s", (score, level) => {
+    expect(getRiskLevel(score)).toBe(level);
+  });
+});
+
+describe("createRiskEngine", () => {
+  it("redistributes the weight of factors without data", () => {
+    const assessment = createRiskEngine().evaluate(calm);
+
+    expect(assessment.skipped).toEqual(["fatigue", "speedLimit", "weather", "roadHistory"]);
+    expect(assessment.factors.map(f => f.id)).toEqual(["speed", "proximity"]);
+    expect(assessment.factors[0].weight).toBeCloseTo(0.4);
+    expect(assessment.factors[1].weight).toBeCloseTo(0.6);
+    expect(assessment.score).toBeCloseTo(10 * 0.4 + 5 * 0.6);
+    expect(assessment.level).toBe("low");
+  });
+
+  it("is critical with an urgent collision warning at high speed", () => {
+    const assessment = createRiskEngine().evaluate({
+      currentSpeed: 130,
+      nearbyVehicles: 1,
+      collisionWarnings: [{ severity: "critical" }],
+    });
+
+    expect(assessment.factors.find(f => f.id === "proximity")?.risk).toBe(95);
+    expect(assessment.score).toBeCloseTo(90 * 0.4 + 95 * 0.6);
+    expect(assessment.level).toBe("critical");
+  });
+
+  it("does not escalate proximity for medium warnings", () => {
+    const assessment = createRiskEngine().evaluate({ ...calm, nearbyVehicles: 2, collisionWarnings: [{ severity: "medium" }] });
+    expect(assessment.factors.find(f => f.id === "proximity")?.risk).toBe(40);
+  });
+
+  it("scores every default factor when all data is present", () => {
+    const assessment = createRiskEngine().evaluate({
+      currentSpeed: 90,
+      nearbyVehicles: 5,
+      collisionWarnings: [],
+      fatigueLevel: 70,
+      isOverSpeedLimit: true,
+      overLimitAmount: 15,
+      weatherCondition: "Rain",
+      historicalCollisions: 12,
+    });
+
+    expect(assessment.skipped).toEqual([]);
+    expect(assessment.factors.reduce((sum, f) => sum + f.weight, 0)).toBeCloseTo(1);
+    // 60*.2 + 70*.3 + 90*.15 + 85*.15 + 70*.1 + 85*.1
+    expect(assessment.score).toBeCloseTo(74.75);
+    expect(assessment.level).toBe("high");
+  });
+
+  it("applies custom weights and providers", () => {
+    const potholes: RiskFactorProvider = {
+      id: "potholes",
+      name: "Potholes",
+      defaultWeight: 0.5,
+      evaluate: () => ({ risk: 100, detail: "3 ahead", reason: "Reported road damage" }),
+    };
+    const engine = createRiskEngine({ weights: { speed: 0 } });
+    engine.register(potholes);
+    engine.unregister("proximity");
+
+    const assessment = engine.evaluate(calm);
+    expect(assessment.factors.find(f => f.id === "potholes")?.weight).toBe(1);
+    expect(assessment.score).toBe(100);
+  });
+});
@@ -0,0 +1,218 @@
+// Collision risk engine.
+// Pure and dependency-free so the same score can be computed in the dashboard,
+// in Supabase edge functions (Deno) and in unit tests.
+
+export type Severity = "low" | "medium" | "high" | "critical";
+export type RiskLevel = "low" | "moderate" | "high" | "critical";
+
+export interface RiskInput {
+  currentSpeed: number; // km/h
+  nearbyVehicles: number;
+  collisionWarnings: { severity: Severity }[];
+  fatigueLevel?: number; // 0-100, undefined when not monitored
+  isOverSpeedLimit?: boolean;
+  overLimitAmount?: number; // km/h over the limit
+  weatherCondition?: string;
+  visibility?: number; // km
+  historicalCollisions?: number; // past collisions near the current position
+}
+
+export interface RiskFactorEvaluation {
+  risk: number; // 0-100
+  detail: string; // short value for display
+  reason: string; // why this risk was assigned
+}
+
+export interface RiskFactorProvider {
+  id: string;
+  name: string;
+  defaultWeight: number;
+  // Return null when the input has no data for this factor; its weight is then redistributed
+  evaluate: (input: RiskInput) => RiskFactorEvaluation | null;
+}
+
+export interface RiskTraceEntry extends RiskFactorEvaluation {
+  id: string;
+  name: string;
+  weight: number; // normalized weight actually applied
+  contribution: number; // risk * weight
+}
+
+export interface RiskAssessment {
+  score: number; // 0-100
+  level: RiskLevel;
+  factors: RiskTraceEntry[];
+  skipped: string[]; // provider ids without data
+}
+
+export interface RiskEngineOptions {
+  providers?: RiskFactorProvider[];
+  weights?: Record<string, number>;
+}
+
+const clamp = (value: number, min = 0, max = 100) => Math.min(max, Math.max(min, value));
+
+export const getRiskLevel = (score: number): RiskLevel => {
+  if (score < 25) return "low";
+  if (score < 50) return "moderate";
+  if (score < 75) return "high";
+  return "critical";
+};
+
+export const speedFactor: RiskFactorProvider = {
+  id: "speed",
+  name: "Speed",
+  defaultWeight: 0.2,
+  evaluate: ({ currentSpeed }) => {
+    const risk = currentSpeed > 120 ? 90 : currentSpeed > 80 ? 60 : currentSpeed > 50 ? 30 : 10;
+    return {
+      risk,
+      detail: `${currentSpeed.toFixed(0)} km/h`,
+      reason: currentSpeed > 80 ? "High speed increases stopping distance" : "Speed within normal range",
+    };
+  },
+};
+
+export const proximityFactor: RiskFactorProvider = {
+  id: "proximity",
+  name: "Proximity",
+  defaultWeight: 0.3,
+  evaluate: ({ nearbyVehicles, collisionWarnings }) => {
+    const urgent = collisionWarnings.filter(w => w.severity === "critical" || w.severity === "high").length;
+    const risk = urgent > 0 ? 95 : nearbyVehicles > 3 ? 70 : nearbyVehicles > 0 ? 40 : 5;
+    const reason = urgent > 0
+      ? `${urgent} high/critical collision warning${urgent > 1 ? "s" : ""} active`
+      : nearbyVehicles > 0 ? `${nearbyVehicles} vehicle${nearbyVehicles > 1 ? "s" : ""} within 500m` : "No vehicles nearby";
+    return { risk, detail: `${nearbyVehicles} nearby`, reason };
+  },
+};
+
+export const fatigueFactor: RiskFactorProvider = {
+  id: "fatigue",
+  name: "Fatigue",
+  defaultWeight: 0.15,
+  evaluate: ({ fatigueLevel }) => {
+    if (fatigueLevel === undefined) return null;
+    const risk = fatigueLevel > 60 ? 90 : fatigueLevel > 30 ? 50 : 10;
+    return {
+      risk,
+      detail: `${fatigueLevel.toFixed(0)}%`,
+      reason: fatigueLevel > 30 ? "Driver shows signs of drowsiness" : "Driver alert",
+    };
+  },
+};
+
+export const speedLimitFactor: RiskFactorProvider = {
+  id: "speedLimit",
+  name: "Speed Limit",
+  defaultWeight: 0.15,
+  evaluate: ({ isOverSpeedLimit, overLimitAmount = 0 }) => {
+    if (isOverSpeedLimit === undefined) return null;
+    const risk = isOverSpeedLimit ? clamp(70 + overLimitAmount) : 5;
+    return {
+      risk,
+      detail: isOverSpeedLimit ? "Over" : "OK",
+      reason: isOverSpeedLimit
+        ? `Exceeding the limit${overLimitAmount > 0 ? ` by ${overLimitAmount.toFixed(0)} km/h` : ""}`
+        : "Within the posted limit",
+    };
+  },
+};
+
+const BAD_WEATHER = ["rain", "snow", "fog", "storm"];
+
+export const weatherFactor: RiskFactorProvider = {
+  id: "weather",
+  name: "Weather",
+  defaultWeight: 0.1,
+  evaluate: ({ weatherCondition, visibility }) => {
+    if (weatherCondition === undefined && visibility === undefined) return null;
+    const condition = (weatherCondition || "clear").toLowerCase();
+    const badWeather = BAD_WEATHER.some(w => condition.includes(w));
+    const lowVisibility = visibility !== undefined && visibility < 5;
+    const risk = badWeather ? 70 : lowVisibility ? 60 : 10;
+    return {
+      risk,
+      detail: weatherCondition || "clear",
+      reason: badWeather ? `Adverse weather: ${condition}` : lowVisibility ? `Visibility ${visibility}km` : "Good conditions",
+    };
+  },
+};
+
+export const roadHistoryFactor: RiskFactorProvider = {
+  id: "roadHistory",
+  name: "Road History",
+  defaultWeight: 0.1,
+  evaluate: ({ historicalCollisions }) => {
+    if (historicalCollisions === undefined) return null;
+    const risk = historicalCollisions >= 10 ? 85 : historicalCollisions >= 5 ? 60 : historicalCollisions > 0 ? 30 : 5;
+    return {
+      risk,
+      detail: `${historicalCollisions} past`,
+      reason: historicalCollisions > 0
+        ? `${historicalCollisions} collision${historicalCollisions > 1 ? "s" : ""} recorded near this location`
+        : "No collisions recorded here",
+    };
+  },
+};
+
+export const DEFAULT_RISK_FACTORS: RiskFactorProvider[] = [
+  speedFactor,
+  proximityFactor,
+  fatigueFactor,
+  speedLimitFactor,
+  weatherFactor,
+  roadHistoryFactor,
+];
+
+export function createRiskEngine(options: RiskEngineOptions = {}) {
+  const providers = new Map<string, RiskFactorProvider>();
+  const weights: Record<string, number> = { ...options.weights };
+
+  (options.providers ?? DEFAULT_RISK_FACTORS).forEach(p => providers.set(p.id, p));
+
+  const register = (provider: RiskFactorProvider) => {
+    providers.set(provider.id, provider);
+  };
+
+  const unregister = (id: string) => {
+    providers.delete(id);
+  };
+
+  const setWeight = (id: string, weight: number) => {
+    weights[id] = Math.max(0, weight);
+  };
+
+  const getWeight = (provider: RiskFactorProvider) => weights[provider.id] ?? provider.defaultWeight;
+
+  const evaluate = (input: RiskInput): RiskAssessment => {
+    const evaluated: { provider: RiskFactorProvider; result: RiskFactorEvaluation }[] = [];
+    const skipped: string[] = [];
+
+    providers.forEach(provider => {
+      const result = provider.evaluate(input);
+      if (result) evaluated.push({ provider, result: { ...result, risk: clamp(result.risk) } });
+      else skipped.push(provider.id);
+    });
+
+    const totalWeight = evaluated.reduce((sum, { provider }) => sum + getWeight(provider), 0);
+
+    const factors: RiskTraceEntry[] = evaluated.map(({ provider, result }) => {
+      const weight = totalWeight > 0 ? getWeight(provider) / totalWeight : 0;
+      return {
+        id: provider.id,
+        name: provider.name,
+        ...result,
+        weight,
+        contribution: result.risk * weight,
+      };
+    });
+
+    const score = clamp(factors.reduce((sum, f) => sum + f.contribution, 0));
+    return { score, level: getRiskLevel(score), factors, skipped };
+  };
+
+  return { register, unregister, setWeight, evaluate };
+}
+
+export type RiskEngine = ReturnType<typeof createRiskEngine>;
@@ -0,0 +1,110 @@
+// Hazard scoring for route alternatives.
+// A route is penalized for every danger zone it passes through. The penalty
+// grows with the zone's risk score and with how recently it saw a collision,
+// and is amplified by the driving conditions (weather and time of day).
+// Shared with the app, which scores offline routes the same way.
+
+import { describeZone, distanceToPolyline } from "./dangerZones.ts";
+
+export interface ZoneRow {
+  center_lat: number;
+  center_lng: number;
+  radius_m: number;
+  risk_score: number;
+  incident_count: number;
+  dominant_severity: string;
+  last_incident_at: string;
+}
+
+// The zone fields scoring reads. The app's danger zones already have this
+// shape; rows straight from the danger_zones table go through zoneFromRow.
+export interface ScoringZone {
+  lat: number;
+  lng: number;
+  radius: number; // meters
+  riskScore: number;
+  incidentCount: number;
+  dominantSeverity: string;
+  lastIncidentAt: string;
+}
+
+export interface RouteExposure {
+  lat: number;
+  lng: number;
+  radius: number;
+  riskScore: number;
+  reason: string;
+}
+
+export interface DrivingConditions {
+  weather: string | null; // OpenWeather main condition, e.g. "Rain"
+  hour: number; // local hour of departure, 0-23
+}
+
+// Routes passing within the zone radius plus this margin are exposed
+export const EXPOSURE_MARGIN_M = 100;
+const MAX_ZONE_PENALTY = 25;
+const RECENT_DAYS = 30;
+
+const WEATHER_FACTORS: Record<string, number> = {
+  Thunderstorm: 1.4,
+  Snow: 1.5,
+  Rain: 1.3,
+  Drizzle: 1.15,
+  Fog: 1.3,
+  Mist: 1.2,
+  Haze: 1.1,
+  Smoke: 1.1,
+  Dust: 1.1,
+  Sand: 1.1,
+  Squall: 1.3,
+};
+
+export function weatherFactor(weather: string | null): number {
+  return (weather && WEATHER_FACTORS[weather]) || 1;
+}
+
+export function timeOfDayFactor(hour: number): number {
+  if (hour >= 20 || hour < 6) return 1.3; // night
+  if ((hour >= 7 && hour < 10) || (hour >= 16 && hour < 20)) return 1.15; // rush hours
+  return 1;
+}
+
+export function conditionsMultiplier({ weather, hour }: DrivingConditions): number {
+  return weatherFactor(weather) * timeOfDayFactor(hour);
+}
+
+export function zoneFromRow(row: ZoneRow): ScoringZone {
+  return {
+    lat: Number(row.center_lat),
+    lng: Number(row.center_lng),
+    radius: Number(row.radius_m),
+    riskScore: Number(row.risk_score),
+    incidentCount: row.incident_count,
+    dominantSeverity: row.dominant_severity,
+    lastIncidentAt: row.last_incident_at,
+  };
+}
+
+export function scoreRoute(
+  polyline: { lat: number; lng: number }[],
+  zones: ScoringZone[],
+  conditions: DrivingConditions,
+  now = Date.now()
+): { safetyScore: number; dangerZones: RouteExposure[] } {
+  const multiplier = conditionsMultiplier(conditions);
+  // Poor conditions cost a little even on a route that avoids every zone
+  let safetyScore = 100 - Math.min(15, (multiplier - 1) * 20);
+  const dangerZones: RouteExposure[] = [];
+
+  zones.forEach(({ lat, lng, radius, riskScore, incidentCount, dominantSeverity, lastIncidentAt }) => {
+    if (distanceToPolyline(lat, lng, polyline) > radius + EXPOSURE_MARGIN_M) return;
+
+    const ageDays = (now - new Date(lastIncidentAt).getTime()) / 86400000;
+    const recency = ageDays <= RECENT_DAYS ? 1.25 : 1;
+    safetyScore -= Math.min(MAX_ZONE_PENALTY, (5 + riskScore) * recency * multiplier);
+    dangerZones.push({ lat, lng, radius, riskScore, reason: describeZone(incidentCount, dominantSeverity) });
+  });
+
+  return { safetyScore: Math.max(0, Math.round(safetyScore)), dangerZones };
+}
@@ -0,0 +1,96 @@
+// Which webhook URLs the dispatcher may call.
+// Contacts type in their own webhook URL and the function calls it from inside
+// the project's network, so a URL pointing at loopback, private, link-local or
+// other non-public addresses is refused before anything is fetched. Hostnames
+// are checked again once resolved, by the caller.
+
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+};
+
+// Eight 16-bit groups, with "::" expanded and a trailing dotted IPv4 folded in
+const parseIPv6 = (address: string): number[] | null => {
+  let text = address.toLowerCase();
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = parseIPv4(dotted[2]);
+    if (!v4) return null;
+    text = `${dotted[1]}${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const toGroups = (half: string) => (half ? half.split(":") : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+};
+
+const isPrivateIPv4 = ([a, b]: number[]): boolean =>
+  a === 0 || // "this" network
+  a === 10 ||
+  a === 127 || // loopback
+  (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+  (a === 169 && b === 254) || // link-local, including cloud metadata
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 168) ||
+  (a === 192 && b === 0) || // protocol assignments
+  (a === 198 && (b === 18 || b === 19)) || // benchmarking
+  a >= 224; // multicast and reserved
+
+const isPrivateIPv6 = (groups: number[]): boolean => {
+  const [first] = groups;
+  if (groups.slice(0, 7).every(group => group === 0)) return groups[7] <= 1; // unspecified and loopback
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) carry an IPv4 address
+  const embedsIPv4 =
+    (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) ||
+    (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0));
+  if (embedsIPv4) return isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff]);
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local
+    (first & 0xffc0) === 0xfe80 || // link-local
+    (first & 0xff00) === 0xff00 // multicast
+  );
+};
+
+// True for an IP address outside the public internet; false for a hostname
+export function isPrivateAddress(address: string): boolean {
+  const bare = address.replace(/^\[|\]$/g, "");
+  const v4 = parseIPv4(bare);
+  if (v4) return isPrivateIPv4(v4);
+  const v6 = bare.includes(":") ? parseIPv6(bare) : null;
+  return v6 ? isPrivateIPv6(v6) : bare.includes(":"); // an address we cannot read is not trusted
+}
+
+export function isIPAddress(host: string): boolean {
+  const bare = host.replace(/^\[|\]$/g, "");
+  return parseIPv4(bare) !== null || bare.includes(":");
+}
+
+// Parses a contact's webhook URL, throwing when it may not be called
+export function checkWebhookUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("Webhook URL is not valid");
+  }
+  // Same rule as the emergency_contacts check constraint
+  if (url.protocol !== "https:") throw new Error(`Webhook protocol ${url.protocol} not allowed`);
+  if (url.username || url.password) throw new Error("Webhook URL must not carry credentials");
+
+  const host = url.hostname.toLowerCase().replace(/\.$/, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) {
+    throw new Error(`Webhook host ${host} is not public`);
+  }
+  if (isPrivateAddress(host)) throw new Error(`Webhook host ${host} is not public`);
+  return url;
+}
@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { clusterDangerZones, ClusterEvent } from "../_shared/dangerZones.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Events older than this have decayed to noise
+const LOOKBACK_DAYS = 365;
+// Repeated calls within this window reuse the last run
+const MIN_INTERVAL_MS = 5 * 60 * 1000;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { force = false } = await req.json().catch(() => ({}));
+
+    const { data: latest } = await supabase
+      .from('danger_zones')
+      .select('computed_at')
+      .order('computed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!force && latest && Date.now() - new Date(latest.computed_at).getTime() < MIN_INTERVAL_MS) {
+      return new Response(JSON.stringify({ success: true, skipped: true, computedAt: latest.computed_at }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const since = new Date(Date.now() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const events: ClusterEvent[] = [];
+    const pageSize = 1000;
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('collision_events')
+        .select('location_lat, location_lng, severity, timestamp')
+        .gte('timestamp', since)
+        .order('timestamp', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) throw error;
+      events.push(...(data || []).map(e => ({
+        lat: Number(e.location_lat),
+        lng: Number(e.location_lng),
+        severity: e.severity,
+        timestamp: e.timestamp,
+      })));
+      if (!data || data.length < pageSize) break;
+    }
+
+    const computedAt = new Date().toISOString();
+    const zones = clusterDangerZones(events).map(zone => ({ ...zone, computed_at: computedAt }));
+
+    // Insert the new generation before removing the old one so readers never see an empty table
+    if (zones.length > 0) {
+      const { error: insertError } = await supabase.from('danger_zones').insert(zones);
+      if (insertError) throw insertError;
+    }
+    const { error: deleteError } = await supabase.from('danger_zones').delete().lt('computed_at', computedAt);
+    if (deleteError) throw deleteError;
+
+    console.log(`Clustered ${events.length} collision events into ${zones.length} danger zones`);
+
+    return new Response(JSON.stringify({ success: true, events: events.length, zones: zones.length, computedAt }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error: unknown) {
+    console.error('Error:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
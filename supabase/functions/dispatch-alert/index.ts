@@ -0,0 +1,143 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Delivery, isThrottled, planDeliveries, recipientKey, THROTTLE_MS } from "../_shared/alertDispatch.ts";
+import { OutgoingAlert, sendVia } from "../_shared/alertChannels.ts";
+import { isAlertType, Locale, renderAlert } from "../_shared/alertTemplates.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+// A receipt per contact and channel; a replay only retries what did not go out
+const receiptKey = (contactId: string, channel: string) => `${contactId}:${channel}`;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !supabaseKey) throw new Error("Supabase credentials not configured");
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Alerts go to the caller's own contacts, so there has to be a caller
+    const token = req.headers.get("Authorization")?.replace(/^Bearer /, "");
+    const userId = token ? (await supabase.auth.getUser(token)).data.user?.id ?? null : null;
+    if (!userId) return json({ error: "Unauthorized" }, 401);
+
+    const { type, data = {}, idempotencyKey = null } = await req.json();
+    if (!isAlertType(type)) return json({ error: `Unknown alert type: ${type}` }, 400);
+
+    // Outbox replays carry an idempotency key; skip alerts that already reached everyone
+    if (idempotencyKey) {
+      const { data: delivered } = await supabase
+        .from("alert_deliveries")
+        .select("idempotency_key")
+        .eq("idempotency_key", idempotencyKey)
+        .maybeSingle();
+      if (delivered) return json({ success: true, duplicate: true });
+    }
+
+    const { data: contacts, error: contactsError } = await supabase
+      .from("emergency_contacts")
+      .select("id, phone, email, telegram_chat_id, webhook_url, channels, alert_types, locale")
+      .eq("user_id", userId);
+    if (contactsError) throw contactsError;
+
+    const plan = planDeliveries(type, contacts ?? []);
+
+    const settled = new Set<string>();
+    if (idempotencyKey) {
+      const { data: earlier } = await supabase
+        .from("alert_logs")
+        .select("contact_id, channel")
+        .eq("idempotency_key", idempotencyKey)
+        .in("status", ["sent", "skipped"]);
+      earlier?.forEach(r => settled.add(receiptKey(r.contact_id, r.channel)));
+    }
+
+    const now = Date.now();
+    const lastSent = new Map<string, number>();
+    if (THROTTLE_MS[type] > 0) {
+      const { data: recent } = await supabase
+        .from("alert_logs")
+        .select("channel, recipient, triggered_at")
+        .eq("user_id", userId)
+        .eq("alert_type", type)
+        .eq("status", "sent")
+        .gte("triggered_at", new Date(now - THROTTLE_MS[type]).toISOString());
+      recent?.forEach(r => {
+        const key = recipientKey(r.channel, r.recipient);
+        lastSent.set(key, Math.max(lastSent.get(key) ?? 0, Date.parse(r.triggered_at)));
+      });
+    }
+
+    const rendered = new Map<Locale, OutgoingAlert>();
+    const alertFor = (locale: Locale): OutgoingAlert => {
+      if (!rendered.has(locale)) {
+        const text = renderAlert(type, data, { locale, format: "text" });
+        const markdown = renderAlert(type, data, { locale, format: "markdown" });
+        rendered.set(locale, { type, data, subject: text.subject, text: text.body, markdown: markdown.body });
+      }
+      return rendered.get(locale)!;
+    };
+
+    const deliver = async (delivery: Delivery) => {
+      const alert = alertFor(delivery.locale);
+      const receipt = {
+        user_id: userId,
+        contact_id: delivery.contactId,
+        alert_type: type,
+        channel: delivery.channel,
+        recipient: delivery.recipient,
+        idempotency_key: idempotencyKey,
+        message: alert.text,
+      };
+      if (!delivery.recipient) return { ...receipt, status: "skipped", error: `No ${delivery.channel} address` };
+      if (isThrottled(type, lastSent.get(recipientKey(delivery.channel, delivery.recipient)), now)) {
+        return { ...receipt, status: "throttled" };
+      }
+      try {
+        const providerMessageId = await sendVia(delivery.channel, delivery.recipient, alert);
+        return { ...receipt, status: "sent", provider_message_id: providerMessageId };
+      } catch (e) {
+        console.error(`${delivery.channel} delivery failed:`, e);
+        return { ...receipt, status: "failed", error: e instanceof Error ? e.message : "Unknown error" };
+      }
+    };
+
+    const receipts = await Promise.all(
+      plan.filter(d => !settled.has(receiptKey(d.contactId, d.channel))).map(deliver)
+    );
+
+    if (receipts.length > 0) {
+      const { error: receiptError } = await supabase.from("alert_logs").insert(receipts);
+      if (receiptError) console.error("alert_logs insert error:", receiptError);
+    }
+
+    const deliveries = receipts.map(({ contact_id, channel, status }) => ({ contactId: contact_id, channel, status }));
+    const failed = receipts.filter(r => r.status === "failed").length;
+    // A server error makes the outbox retry; the receipts keep that from repeating what went out
+    if (failed > 0) return json({ error: `${failed} of ${receipts.length} deliveries failed`, deliveries }, 502);
+    // An alert nobody receives must not look delivered; retrying won't find anyone either
+    if (!plan.some(d => d.recipient)) {
+      return json({ error: `No contact receives ${type} alerts`, reason: "no_recipients", deliveries }, 422);
+    }
+
+    if (idempotencyKey) {
+      const { error: ledgerError } = await supabase
+        .from("alert_deliveries")
+        .insert({ idempotency_key: idempotencyKey, alert_type: type });
+      if (ledgerError) console.error("alert_deliveries insert error:", ledgerError);
+    }
+
+    return json({ success: true, deliveries });
+  } catch (e) {
+    console.error("dispatch-alert error:", e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error" }, 500);
+  }
+});
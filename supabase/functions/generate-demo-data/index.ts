@@ -16,6 +16,11 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
+    // Demo trips and collisions belong to the caller so they show up in their own history
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    const { data: userData } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    const userId = userData.user?.id ?? null;
+
     // Generate demo vehicles
     const vehicles = [
       {
@@ -62,7 +67,8 @@ serve(async (req) => {
       vehicle_count: 2,
       weather_condition: 'clear',
       alert_sent: true,
-      notes: 'Demo collision event'
+      notes: 'Demo collision event',
+      user_id: userId
     }));
 
     for (const collision of collisions) {
@@ -100,6 +106,7 @@ serve(async (req) => {
         avg_speed: 30 + Math.random() * 30,
         safety_score: 60 + Math.floor(Math.random() * 40),
         collision_count: Math.floor(Math.random() * 2),
+        user_id: userId,
       };
     });
 
@@ -1,23 +1,31 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { conditionsMultiplier, scoreRoute, zoneFromRow } from "../_shared/routeScoring.ts";
+import { formatManeuver, rankRoutes } from "../_shared/navigation.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { startLat, startLng, endLat, endLng, collisionPoints } = await req.json();
+    const { startLat, startLng, endLat, endLng, localHour } = await req.json();
 
     console.log(`Getting route from ${startLat},${startLng} to ${endLat},${endLng}`);
 
-    // Use OSRM for routing (free, no API key needed)
+    // Use OSRM for routing (free, no API key needed), asking for alternative routes as well
     const routeResponse = await fetch(
-      `https://router.project-osrm.org/route/v1/driving/${startLng},${startLat};${endLng},${endLat}?overview=full&geometries=geojson&steps=true`
+      `https://router.project-osrm.org/route/v1/driving/${startLng},${startLat};${endLng},${endLat}?overview=full&geometries=geojson&steps=true&alternatives=3`
     );
 
     if (!routeResponse.ok) {
@@ -30,54 +38,68 @@ serve(async (req) => {
       throw new Error('No route found');
     }
 
-    const route = routeData.routes[0];
-    const coordinates = route.geometry.coordinates;
-    
-    // Calculate safety score based on collision points proximity
-    let safetyScore = 100;
-    const dangerZones: Array<{ lat: number; lng: number; reason: string }> = [];
-
-    if (collisionPoints && collisionPoints.length > 0) {
-      coordinates.forEach((coord: number[]) => {
-        collisionPoints.forEach((collision: any) => {
-          const distance = calculateDistance(coord[1], coord[0], collision.lat, collision.lng);
-          if (distance < 0.5) { // Within 500m
-            safetyScore -= 5;
-            if (!dangerZones.find(z => z.lat === collision.lat && z.lng === collision.lng)) {
-              dangerZones.push({
-                lat: collision.lat,
-                lng: collision.lng,
-                reason: `Collision reported: ${collision.severity} severity`
-              });
-            }
-          }
-        });
-      });
-    }
-
-    safetyScore = Math.max(0, safetyScore);
-
-    // Extract turn-by-turn directions
-    const directions = route.legs[0].steps.map((step: any, index: number) => ({
-      instruction: step.maneuver.instruction || formatManeuver(step.maneuver),
-      distance: step.distance,
-      duration: step.duration,
-      type: step.maneuver.type,
-      modifier: step.maneuver.modifier,
-      name: step.name || 'Unknown road',
-      coordinates: step.geometry.coordinates
+    const candidates: Array<{ route: any; polyline: LatLng[] }> = routeData.routes.map((route: any) => ({
+      route,
+      polyline: route.geometry.coordinates.map((c: number[]) => ({ lat: c[1], lng: c[0] })),
     }));
 
+    // Load the clustered danger zones once for the bounding box of every alternative
+    const allPoints = candidates.flatMap(c => c.polyline);
+    const lats = allPoints.map(p => p.lat);
+    const lngs = allPoints.map(p => p.lng);
+    const pad = 0.01;
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { data: zones, error: zonesError } = await supabase
+      .from('danger_zones')
+      .select('center_lat, center_lng, radius_m, risk_score, incident_count, dominant_severity, last_incident_at')
+      .gte('center_lat', Math.min(...lats) - pad)
+      .lte('center_lat', Math.max(...lats) + pad)
+      .gte('center_lng', Math.min(...lngs) - pad)
+      .lte('center_lng', Math.max(...lngs) + pad);
+
+    if (zonesError) console.error('Failed to load danger zones:', zonesError);
+
+    const conditions = {
+      weather: await fetchWeatherCondition(startLat, startLng),
+      hour: typeof localHour === 'number' ? localHour : new Date().getUTCHours(),
+    };
+
+    const scoringZones = (zones || []).map(zoneFromRow);
+    const scored = candidates.map(({ route, polyline }) => {
+      const { safetyScore, dangerZones } = scoreRoute(polyline, scoringZones, conditions);
+
+      // Extract turn-by-turn directions
+      const directions = route.legs[0].steps.map((step: any) => ({
+        instruction: step.maneuver.instruction || formatManeuver(step.maneuver),
+        distance: step.distance,
+        duration: step.duration,
+        type: step.maneuver.type,
+        modifier: step.maneuver.modifier,
+        name: step.name || 'Unknown road',
+        coordinates: step.geometry.coordinates
+      }));
+
+      return {
+        coordinates: polyline,
+        distance: route.distance as number,
+        duration: route.duration as number,
+        summary: route.legs[0].summary || '',
+        directions,
+        safetyScore,
+        dangerZones
+      };
+    });
+
+    const { routes, fastestIndex } = rankRoutes(scored);
+
     const result = {
-      coordinates: coordinates.map((c: number[]) => ({ lat: c[1], lng: c[0] })),
-      distance: route.distance,
-      duration: route.duration,
-      directions,
-      safetyScore,
-      dangerZones
+      routes,
+      safestIndex: 0,
+      fastestIndex,
+      conditions: { ...conditions, riskMultiplier: conditionsMultiplier(conditions) }
     };
 
-    console.log(`Route calculated: ${route.distance}m, ${directions.length} steps, safety: ${safetyScore}%`);
+    console.log(`Route calculated: ${routes.length} alternatives, safest ${routes[0].safetyScore}%, fastest ${Math.round(routes[fastestIndex].duration)}s`);
 
     return new Response(JSON.stringify(result), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -91,35 +113,20 @@ serve(async (req) => {
   }
 });
 
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371;
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
+// Current weather at the start of the route; routing still works without it
+async function fetchWeatherCondition(lat: number, lng: number): Promise<string | null> {
+  const apiKey = Deno.env.get('OPENWEATHER_API_KEY');
+  if (!apiKey) return null;
 
-function toRad(deg: number): number {
-  return deg * Math.PI / 180;
-}
-
-function formatManeuver(maneuver: any): string {
-  const type = maneuver.type;
-  const modifier = maneuver.modifier;
-  
-  if (type === 'turn') {
-    return `Turn ${modifier}`;
-  } else if (type === 'depart') {
-    return 'Start your journey';
-  } else if (type === 'arrive') {
-    return 'You have arrived';
-  } else if (type === 'continue') {
-    return 'Continue straight';
-  } else if (type === 'roundabout') {
-    return `Enter roundabout and take the ${modifier} exit`;
+  try {
+    const response = await fetch(
+      `https://api.openweathermap.org/data/2.5/weather?lat=${lat}&lon=${lng}&appid=${apiKey}`
+    );
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.weather?.[0]?.main ?? null;
+  } catch (error) {
+    console.error('Failed to fetch weather:', error);
+    return null;
   }
-  return `${type} ${modifier || ''}`.trim();
 }
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { describeZone } from "../_shared/dangerZones.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,13 +13,38 @@ serve(async (req) => {
   }
 
   try {
-    const { currentLat, currentLng, destination, collisionHistory } = await req.json();
+    const { currentLat, currentLng, destination } = await req.json();
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
 
     if (!LOVABLE_API_KEY) {
       throw new Error('LOVABLE_API_KEY not configured');
     }
 
+    // Riskiest clustered danger zones within roughly 20km
+    const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { data: zones, error: zonesError } = await supabase
+      .from('danger_zones')
+      .select('center_lat, center_lng, radius_m, risk_score, incident_count, dominant_severity, last_incident_at')
+      .gte('center_lat', currentLat - 0.2)
+      .lte('center_lat', currentLat + 0.2)
+      .gte('center_lng', currentLng - 0.2)
+      .lte('center_lng', currentLng + 0.2)
+      .order('risk_score', { ascending: false })
+      .limit(10);
+
+    if (zonesError) console.error('Failed to load danger zones:', zonesError);
+
+    const dangerZones = (zones || []).map(zone => ({
+      lat: Number(zone.center_lat),
+      lng: Number(zone.center_lng),
+      radiusMeters: Number(zone.radius_m),
+      riskScore: Number(zone.risk_score),
+      incidents: zone.incident_count,
+      severity: zone.dominant_severity,
+      lastIncident: zone.last_incident_at,
+      reason: describeZone(zone.incident_count, zone.dominant_severity),
+    }));
+
     console.log('Generating safe route suggestion...');
 
     const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
@@ -45,9 +72,9 @@ serve(async (req) => {
             role: 'user',
             content: `Current location: ${currentLat}, ${currentLng}
             Destination: ${destination || 'Not specified'}
-            Recent collision data: ${JSON.stringify(collisionHistory || [])}
+            Known danger zones (clustered collision hot spots, highest risk first): ${JSON.stringify(dangerZones)}
             
-            Suggest the safest route and areas to avoid based on this collision history.`
+            Suggest the safest route and areas to avoid based on these danger zones.`
           }
         ],
       }),
@@ -90,6 +117,15 @@ serve(async (req) => {
       };
     }
 
+    // Danger zones are facts, not model output; always include them in the areas to avoid
+    const avoidAreas = Array.isArray(parsedResponse.avoidAreas) ? parsedResponse.avoidAreas : [];
+    dangerZones.forEach(zone => {
+      if (!avoidAreas.some((a: { lat: number; lng: number }) => Math.abs(a.lat - zone.lat) < 0.001 && Math.abs(a.lng - zone.lng) < 0.001)) {
+        avoidAreas.push({ lat: zone.lat, lng: zone.lng, reason: zone.reason });
+      }
+    });
+    parsedResponse.avoidAreas = avoidAreas;
+
     return new Response(JSON.stringify(parsedResponse), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -0,0 +1,6 @@
+-- Link collision events to the trip they happened on
+ALTER TABLE public.collision_events
+  ADD COLUMN trip_id UUID REFERENCES public.trip_history(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_collision_events_trip_id ON public.collision_events(trip_id);
+CREATE INDEX idx_trip_history_vehicle_open ON public.trip_history(vehicle_id) WHERE end_time IS NULL;
@@ -0,0 +1,13 @@
+-- Delivery ledger for alerts replayed from the client outbox.
+-- The telegram-alert function records each idempotency key after a successful
+-- send and skips keys it has already delivered.
+CREATE TABLE public.alert_deliveries (
+  idempotency_key TEXT NOT NULL PRIMARY KEY,
+  alert_type TEXT NOT NULL,
+  delivered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the edge function (service role) touches this table
+ALTER TABLE public.alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_alert_deliveries_delivered_at ON public.alert_deliveries(delivered_at DESC);
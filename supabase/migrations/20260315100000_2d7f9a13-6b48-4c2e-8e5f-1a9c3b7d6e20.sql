@@ -0,0 +1,72 @@
+-- Per-user ownership. Rows are stamped with the signed-in user (auth.uid()
+-- default) and policies scope access to the owner. Rows created before this
+-- migration have no owner and are only reachable with the service role.
+ALTER TABLE public.trip_history
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.emergency_contacts
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.sos_alerts
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.collision_events
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.vehicle_tracking
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+CREATE INDEX idx_trip_history_user_id ON public.trip_history(user_id);
+CREATE INDEX idx_emergency_contacts_user_id ON public.emergency_contacts(user_id);
+CREATE INDEX idx_sos_alerts_user_id ON public.sos_alerts(user_id);
+CREATE INDEX idx_collision_events_user_id ON public.collision_events(user_id);
+CREATE INDEX idx_vehicle_tracking_user_id ON public.vehicle_tracking(user_id);
+
+-- Drop the open policies
+DROP POLICY "Allow public access to trip_history" ON public.trip_history;
+DROP POLICY "Allow public access to emergency_contacts" ON public.emergency_contacts;
+DROP POLICY "Allow public access to sos_alerts" ON public.sos_alerts;
+DROP POLICY "Allow public read access to collision events" ON public.collision_events;
+DROP POLICY "Allow public insert to collision events" ON public.collision_events;
+DROP POLICY "Allow public read access to vehicle tracking" ON public.vehicle_tracking;
+DROP POLICY "Allow public insert/update to vehicle tracking" ON public.vehicle_tracking;
+DROP POLICY "Allow public update to vehicle tracking" ON public.vehicle_tracking;
+
+-- Trips, contacts and SOS alerts are private to their owner
+CREATE POLICY "Users manage their own trips" ON public.trip_history
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage their own emergency contacts" ON public.emergency_contacts
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage their own SOS alerts" ON public.sos_alerts
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage their own collision events" ON public.collision_events
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Nearby-vehicle warnings need everyone's live position, but only the owner may write it
+CREATE POLICY "Signed-in users can see vehicles" ON public.vehicle_tracking
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Users insert their own vehicle" ON public.vehicle_tracking
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users update their own vehicle" ON public.vehicle_tracking
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users delete their own vehicle" ON public.vehicle_tracking
+  FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Heatmaps and route scoring work on everyone's collisions, without who or which trip
+CREATE VIEW public.public_collision_events AS
+  SELECT id, timestamp, location_lat, location_lng, severity, relative_speed,
+         distance, vehicle_count, weather_condition
+  FROM public.collision_events;
+
+REVOKE ALL ON public.public_collision_events FROM anon;
+GRANT SELECT ON public.public_collision_events TO authenticated;
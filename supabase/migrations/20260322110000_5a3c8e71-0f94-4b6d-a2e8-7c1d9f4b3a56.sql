@@ -0,0 +1,28 @@
+-- Danger zones computed by the cluster-danger-zones edge function from
+-- collision_events (weighted DBSCAN with severity weights and time decay).
+-- Each run inserts a new generation stamped with computed_at and deletes the
+-- previous one.
+CREATE TABLE public.danger_zones (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  center_lat NUMERIC NOT NULL,
+  center_lng NUMERIC NOT NULL,
+  radius_m NUMERIC NOT NULL,
+  risk_score NUMERIC NOT NULL,
+  incident_count INTEGER NOT NULL,
+  severity_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dominant_severity TEXT NOT NULL CHECK (dominant_severity IN ('low', 'medium', 'high', 'critical')),
+  last_incident_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.danger_zones ENABLE ROW LEVEL SECURITY;
+
+-- Aggregated and anonymous, so every signed-in driver may read; only the service role writes
+CREATE POLICY "Signed-in users can read danger zones" ON public.danger_zones
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE INDEX idx_danger_zones_location ON public.danger_zones(center_lat, center_lng);
+CREATE INDEX idx_danger_zones_computed_at ON public.danger_zones(computed_at DESC);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.danger_zones;
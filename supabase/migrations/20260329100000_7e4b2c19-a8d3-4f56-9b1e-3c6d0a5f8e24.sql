@@ -0,0 +1,25 @@
+-- Diagnostic trouble codes read from the car's OBD-II adapter, linked to the
+-- trip they were read on so engine faults show up next to safety events.
+-- Clearing the codes in the car stamps cleared_at instead of deleting the row.
+CREATE TABLE public.vehicle_dtcs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  trip_id UUID REFERENCES public.trip_history(id) ON DELETE SET NULL,
+  vehicle_id TEXT NOT NULL,
+  vin TEXT,
+  code TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('stored', 'pending')),
+  description TEXT NOT NULL,
+  freeze_frame JSONB,
+  detected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  cleared_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.vehicle_dtcs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own trouble codes" ON public.vehicle_dtcs
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_vehicle_dtcs_user_id ON public.vehicle_dtcs(user_id);
+CREATE INDEX idx_vehicle_dtcs_trip_id ON public.vehicle_dtcs(trip_id);
@@ -0,0 +1,29 @@
+-- Harsh driving events (braking, acceleration, cornering, swerving) detected
+-- on the phone during a ride. Each one lowers the trip's safety score, and
+-- the trip keeps a count next to collision_count.
+CREATE TABLE public.driving_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  trip_id UUID REFERENCES public.trip_history(id) ON DELETE SET NULL,
+  vehicle_id TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('harsh_braking', 'rapid_acceleration', 'aggressive_cornering', 'swerve')),
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  peak_g NUMERIC NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  speed NUMERIC NOT NULL,
+  location_lat NUMERIC,
+  location_lng NUMERIC,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.driving_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own driving events" ON public.driving_events
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_driving_events_user_id ON public.driving_events(user_id);
+CREATE INDEX idx_driving_events_trip_id ON public.driving_events(trip_id);
+
+ALTER TABLE public.trip_history
+  ADD COLUMN harsh_event_count INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,48 @@
+-- Multi-channel alert dispatch. Each emergency contact chooses the alert types
+-- they want and the channels to get them on, and every attempted delivery
+-- leaves a receipt in alert_logs next to the in-app audio/visual alerts.
+ALTER TABLE public.emergency_contacts
+  ADD COLUMN channels TEXT[] NOT NULL DEFAULT '{sms}',
+  ADD COLUMN alert_types TEXT[] NOT NULL DEFAULT '{sos,collision}',
+  ADD COLUMN locale TEXT NOT NULL DEFAULT 'en',
+  ADD COLUMN telegram_chat_id TEXT,
+  ADD COLUMN webhook_url TEXT,
+  ADD CONSTRAINT emergency_contacts_channels_check
+    CHECK (channels <@ ARRAY['telegram', 'email', 'sms', 'webhook']),
+  ADD CONSTRAINT emergency_contacts_alert_types_check
+    CHECK (alert_types <@ ARRAY['sos', 'collision', 'ride_start', 'ride_stop', 'speed_alert', 'live_location']),
+  ADD CONSTRAINT emergency_contacts_webhook_url_check
+    CHECK (webhook_url IS NULL OR webhook_url LIKE 'https://%');
+
+-- In-app alerts keep status 'sent'; dispatched ones record channel and outcome
+ALTER TABLE public.alert_logs DROP CONSTRAINT alert_logs_alert_type_check;
+ALTER TABLE public.alert_logs
+  ADD CONSTRAINT alert_logs_alert_type_check CHECK (alert_type IN (
+    'audio', 'visual', 'haptic', 'system',
+    'sos', 'collision', 'ride_start', 'ride_stop', 'speed_alert', 'live_location'
+  )),
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  ADD COLUMN contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  ADD COLUMN channel TEXT CHECK (channel IN ('telegram', 'email', 'sms', 'webhook')),
+  ADD COLUMN recipient TEXT,
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'failed', 'throttled', 'skipped')),
+  ADD COLUMN error TEXT,
+  ADD COLUMN provider_message_id TEXT,
+  ADD COLUMN idempotency_key TEXT;
+
+-- Receipts name contacts' phone numbers and addresses; keep them with their owner
+DROP POLICY "Allow public read access to alert logs" ON public.alert_logs;
+DROP POLICY "Allow public insert to alert logs" ON public.alert_logs;
+
+CREATE POLICY "Users see their own alert logs" ON public.alert_logs
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users log their own alerts" ON public.alert_logs
+  FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_alert_logs_user_id ON public.alert_logs(user_id);
+CREATE INDEX idx_alert_logs_idempotency_key ON public.alert_logs(idempotency_key);
+-- Throttling looks up the latest delivery of a type per user
+CREATE INDEX idx_alert_logs_throttle ON public.alert_logs(user_id, alert_type, triggered_at DESC);
@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts", "supabase/functions/_shared/**/*.test.ts"],
+  },
+});